@@ -1,8 +1,62 @@
 // Run Ingestion Script
-// Usage: tsx scripts/run-ingest.ts [SOURCE_CODE | --tier A|B|C | --all]
+// Usage: tsx scripts/run-ingest.ts [SOURCE_CODE [--replay RUN_ID|HASH | --file PATH | --enqueue] | --tier A|B|C [--enqueue] | --all]
 
-import { runIngestor, runAllIngestors } from '../src/lib/ingest';
+import * as path from 'path';
+import { RunOptions } from '../src/lib/ingest';
+import { runIngestor, hasIngestor } from '../src/ingestion';
+import { enqueueJob, activeSourceCodes, claimSourceJob, runClaimedJob } from '../src/lib/jobs';
 import { log } from '../src/lib/db';
+import { IngestRun, IngestJobRunOptions } from '../src/types';
+
+// Hand sources to the scheduler workers instead of running them here
+async function enqueue(sourceCodes: string[]): Promise<void> {
+  for (const code of sourceCodes) {
+    const result = await enqueueJob(code, { trigger: 'cli' });
+    if (!result) {
+      console.error(`  ${code}: not registered in data_sources`);
+    } else if (result.queued) {
+      console.log(`  ${code}: queued job ${result.job.id}`);
+    } else {
+      console.log(`  ${code}: already ${result.job.status} as job ${result.job.id}`);
+    }
+  }
+}
+
+// Run a source in this process under a job claimed for it, so it can't overlap a queued or running job
+// of the same source. The job keeps the replay or file (as an absolute path), so a retry of it from
+// the admin API runs the same input. Null when the source is busy or not registered
+async function runHere(sourceCode: string, options: RunOptions = {}): Promise<IngestRun | null> {
+  const runOptions: IngestJobRunOptions = {};
+  if (options.replay) runOptions.replay = options.replay;
+  if (options.file) runOptions.file = path.resolve(options.file);
+
+  const result = await claimSourceJob(sourceCode, 'cli', runOptions);
+  if (!result) {
+    console.error(`  ${sourceCode}: not registered in data_sources`);
+    return null;
+  }
+  if (!result.claimed) {
+    console.error(`  ${sourceCode}: skipped, already ${result.job.status} as job ${result.job.id}`);
+    return null;
+  }
+
+  const job = result.job;
+  return runClaimedJob(job, () => runIngestor(sourceCode, { ...options, ...runOptions, jobId: job.id }));
+}
+
+// One source failing or busy doesn't stop the rest
+async function runAllHere(sourceCodes: string[]): Promise<IngestRun[]> {
+  const runs: IngestRun[] = [];
+  for (const code of sourceCodes) {
+    try {
+      const run = await runHere(code);
+      if (run) runs.push(run);
+    } catch (error) {
+      log('error', `Failed to run ingestor: ${code}`, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return runs;
+}
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
@@ -13,6 +67,14 @@ UK Asylum Dashboard - Ingestion Runner
 
 Usage:
   tsx scripts/run-ingest.ts <SOURCE_CODE>    Run single ingestor
+  tsx scripts/run-ingest.ts <SOURCE_CODE> --replay <RUN_ID|HASH>
+                                             Re-run an archived payload (from a past run,
+                                             or by archive hash) without downloading
+  tsx scripts/run-ingest.ts <SOURCE_CODE> --file <PATH>
+                                             Run against a local copy of the source file
+  tsx scripts/run-ingest.ts <SOURCE_CODE> --enqueue
+                                             Queue a job for the scheduler workers instead
+                                             of running here (also works with --tier)
   tsx scripts/run-ingest.ts --tier A         Run all Tier A (daily/weekly) sources
   tsx scripts/run-ingest.ts --tier B         Run all Tier B (quarterly) sources
   tsx scripts/run-ingest.ts --tier C         Run all Tier C (annual) sources
@@ -36,20 +98,26 @@ Available source codes:
     HMCTS_FIA     - Asylum Appeals
     DET_D01-04    - Detention data
     RET_D01-02    - Returns data
-    IRR_D02       - Irregular Entry by Nationality
+    IRR_D02       - Irregular Entry by Method
     NRM_STATS     - Modern Slavery NRM
     RES_D01-02    - Resettlement Schemes
     FAM_D01       - Family Reunion
+    INAD_D01      - Inadmissibility Cases
+    ADM_D02       - Refused Entry at Port
+    MOJ_FNP       - Foreign National Prisoners (MoJ)
 
   Tier C (Annual):
     NAO_ASYLUM    - NAO Asylum Spending Analysis
     HO_ACCOUNTS   - Home Office Annual Accounts
     ONS_POP       - LA Population Estimates
-    ONS_GEO       - LA Boundaries GeoJSON
-    IMD_2019      - Index of Multiple Deprivation
+    ONS_GEO       - LA Boundaries GeoJSON (local file, see ONS_BOUNDARIES_PATH)
+    IMD_2019      - Index of Multiple Deprivation (local files, see IMD_PATH)
 
 Examples:
   tsx scripts/run-ingest.ts SBA_DAILY
+  tsx scripts/run-ingest.ts ASY_D11 --replay 3f2a9c1e
+  tsx scripts/run-ingest.ts ASY_D11 --file downloads/asylum-support-datasets-sep-2024.ods
+  tsx scripts/run-ingest.ts ASY_D11 --enqueue
   tsx scripts/run-ingest.ts --tier A
   tsx scripts/run-ingest.ts --all
     `);
@@ -64,8 +132,14 @@ Examples:
         process.exit(1);
       }
       
+      if (args.includes('--enqueue')) {
+        console.log(`Queueing Tier ${tier} sources:`);
+        await enqueue((await activeSourceCodes(tier)).filter(hasIngestor));
+        process.exit(0);
+      }
+      
       log('info', `Running all Tier ${tier} ingestors...`);
-      const runs = await runAllIngestors(tier);
+      const runs = await runAllHere((await activeSourceCodes(tier)).filter(hasIngestor));
       
       console.log(`\nCompleted ${runs.length} ingestion runs:`);
       for (const run of runs) {
@@ -74,21 +148,56 @@ Examples:
       
     } else if (args[0] === '--all') {
       log('info', 'Running all ingestors...');
-      const runs = await runAllIngestors();
+      const runs = await runAllHere((await activeSourceCodes()).filter(hasIngestor));
       
       console.log(`\nCompleted ${runs.length} ingestion runs`);
       
     } else {
       const sourceCode = args[0];
-      log('info', `Running ingestor: ${sourceCode}`);
+      const options: RunOptions = {};
+      
+      if (!hasIngestor(sourceCode)) {
+        console.error(`No ingestor implemented for: ${sourceCode}`);
+        process.exit(1);
+      }
+      
+      if (args.includes('--enqueue')) {
+        if (args.includes('--replay') || args.includes('--file')) {
+          console.error('--replay and --file run here; they can\'t be queued');
+          process.exit(1);
+        }
+        await enqueue([sourceCode]);
+        process.exit(0);
+      }
       
-      const run = await runIngestor(sourceCode);
+      for (const flag of ['--replay', '--file'] as const) {
+        const index = args.indexOf(flag);
+        if (index === -1) continue;
+        if (!args[index + 1] || args[index + 1].startsWith('--')) {
+          console.error(`${flag} needs a value`);
+          process.exit(1);
+        }
+        options[flag === '--replay' ? 'replay' : 'file'] = args[index + 1];
+      }
+      
+      if (options.replay && options.file) {
+        console.error('Use either --replay or --file, not both');
+        process.exit(1);
+      }
+      
+      log('info', `Running ingestor: ${sourceCode}`, options);
+      
+      const run = await runHere(sourceCode, options);
+      if (!run) process.exit(1);
       
       console.log(`\nIngestion complete:`);
       console.log(`  Status: ${run.status}`);
       console.log(`  Records processed: ${run.records_processed}`);
       console.log(`  Records inserted: ${run.records_inserted}`);
       console.log(`  Records updated: ${run.records_updated}`);
+      if (run.archive_hash) {
+        console.log(`  Archived payload: ${run.archive_hash}`);
+      }
       
       if (run.error_message) {
         console.error(`  Error: ${run.error_message}`);
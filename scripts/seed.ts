@@ -30,7 +30,7 @@ async function seedLocalAuthorities(): Promise<void> {
     { ons_code: 'E08000030', name: 'Walsall', region: 'West Midlands', population: 288000 },
     { ons_code: 'E08000031', name: 'Wolverhampton', region: 'West Midlands', population: 264407 },
     { ons_code: 'E06000023', name: 'Bristol, City of', region: 'South West', population: 472400 },
-    { ons_code: 'E06000024', name: 'Brighton and Hove', region: 'South East', population: 292700 },
+    { ons_code: 'E06000024', name: 'North Somerset', region: 'South West', population: 216700 },
     { ons_code: 'E06000025', name: 'South Gloucestershire', region: 'South West', population: 285090 },
     { ons_code: 'E06000043', name: 'Brighton and Hove', region: 'South East', population: 292700 },
     { ons_code: 'E09000001', name: 'City of London', region: 'London', population: 8600 },
@@ -75,14 +75,19 @@ async function seedLocalAuthorities(): Promise<void> {
     { ons_code: 'N09000003', name: 'Belfast', region: 'Northern Ireland', population: 343542, country: 'Northern Ireland' },
   ];
 
+  // Populations above are placeholders from mixed years; once ONS_POP has loaded estimates for an LA they win
   for (const la of las) {
     await query(
-      `INSERT INTO local_authorities (ons_code, name, name_normalized, region, country, population, population_year)
-       VALUES ($1, $2, $3, $4, $5, $6, 2023)
+      `INSERT INTO local_authorities (ons_code, name, name_normalized, region, country, population)
+       VALUES ($1, $2, $3, $4, $5, $6)
        ON CONFLICT (ons_code) DO UPDATE SET
          name = EXCLUDED.name,
+         name_normalized = EXCLUDED.name_normalized,
          region = EXCLUDED.region,
-         population = EXCLUDED.population`,
+         population = CASE
+           WHEN EXISTS (SELECT 1 FROM la_population lp WHERE lp.ons_code = EXCLUDED.ons_code) THEN local_authorities.population
+           ELSE EXCLUDED.population
+         END`,
       [la.ons_code, la.name, la.name.toLowerCase(), la.region, la.country || 'England', la.population]
     );
   }
@@ -12,7 +12,8 @@ CREATE EXTENSION IF NOT EXISTS "pg_trgm";  -- For text search
 -- ENUMS
 -- =============================================================================
 CREATE TYPE data_source_status AS ENUM ('active', 'deprecated', 'error');
-CREATE TYPE ingest_status AS ENUM ('pending', 'running', 'completed', 'failed');
+CREATE TYPE ingest_status AS ENUM ('pending', 'running', 'completed', 'failed', 'quarantined');
+CREATE TYPE ingest_job_status AS ENUM ('queued', 'running', 'completed', 'dead');
 CREATE TYPE update_frequency AS ENUM ('daily', 'weekly', 'monthly', 'quarterly', 'annually', 'static');
 CREATE TYPE support_type AS ENUM ('section_95', 'section_4', 'section_98');
 CREATE TYPE accommodation_type AS ENUM ('dispersed', 'initial', 'hotel', 'subsistence_only', 'other');
@@ -35,7 +36,7 @@ CREATE TABLE data_sources (
     name VARCHAR(255) NOT NULL,
     description TEXT,
     url TEXT,
-    file_pattern VARCHAR(255),  -- e.g., 'asylum-summary-sep-2024.ods'
+    file_pattern VARCHAR(255),  -- Regex (case-insensitive) matched against attachment filenames and titles in place of the ingestor's own, e.g. 'asylum-support-datasets-[a-z]+-\d{4}\.ods'
     frequency update_frequency NOT NULL,
     tier VARCHAR(10) CHECK (tier IN ('A', 'B', 'C')),  -- A=live/weekly, B=quarterly, C=annual
     parser_type VARCHAR(50),  -- 'ods', 'html', 'csv', 'api'
@@ -43,10 +44,55 @@ CREATE TABLE data_sources (
     last_checked TIMESTAMPTZ,
     last_updated TIMESTAMPTZ,
     content_hash VARCHAR(64),  -- SHA256 of last fetched content
+    etag TEXT,  -- ETag and Last-Modified headers of the last loaded file, sent back as
+    last_modified VARCHAR(64),  -- If-None-Match / If-Modified-Since so an unchanged release answers 304
+    validated_url TEXT,  -- URL those headers came from; a newly resolved release URL is fetched in full
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Fetched payloads, stored by the SHA256 of their bytes (RAW_ARCHIVE_PATH) so runs can be replayed.
+-- One row per source that read the payload: several sources parse tables from the same file
+CREATE TABLE raw_archive (
+    hash VARCHAR(64) NOT NULL,
+    source_id INTEGER NOT NULL REFERENCES data_sources(id),
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('buffer', 'text', 'json')),  -- How fetch() returned it
+    size_bytes INTEGER NOT NULL,
+    store VARCHAR(20) NOT NULL DEFAULT 'local',
+    source_url TEXT,  -- URL or local path it was first read from
+    archived_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (hash, source_id)
+);
+
+CREATE INDEX idx_raw_archive_source ON raw_archive(source_id, archived_at DESC);
+
+-- Ingestion job queue, shared by the scheduler replicas, the admin API and run-ingest --enqueue.
+-- Workers claim jobs with FOR UPDATE SKIP LOCKED; a failed attempt is queued again with backoff
+-- until max_attempts, then left 'dead' for someone to look at
+CREATE TABLE ingest_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source_id INTEGER NOT NULL REFERENCES data_sources(id),
+    status ingest_job_status NOT NULL DEFAULT 'queued',
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'startup', 'api', 'cli')),
+    scheduled_for TIMESTAMPTZ,  -- Cron slot that queued it, so replicas firing the same slot queue it once
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),  -- Not claimed before this; pushed back between retries
+    locked_by VARCHAR(255),  -- Worker running it (hostname:pid)
+    locked_at TIMESTAMPTZ,
+    heartbeat_at TIMESTAMPTZ,  -- A running job without a recent heartbeat is taken back from its worker
+    last_error TEXT,
+    run_options JSONB NOT NULL DEFAULT '{}',  -- replay / file given to run-ingest, used again if the job is retried
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- At most one queued or running job per source, so a source never ingests concurrently
+CREATE UNIQUE INDEX idx_ingest_jobs_active ON ingest_jobs(source_id) WHERE status IN ('queued', 'running');
+CREATE UNIQUE INDEX idx_ingest_jobs_slot ON ingest_jobs(source_id, scheduled_for);
+CREATE INDEX idx_ingest_jobs_claim ON ingest_jobs(run_after) WHERE status = 'queued';
+CREATE INDEX idx_ingest_jobs_created ON ingest_jobs(created_at DESC);
+
 -- Ingestion run log
 CREATE TABLE ingest_runs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -59,9 +105,38 @@ CREATE TABLE ingest_runs (
     records_updated INTEGER DEFAULT 0,
     error_message TEXT,
     content_hash VARCHAR(64),
-    metadata JSONB DEFAULT '{}'
+    resolved_url TEXT,  -- File actually fetched, after release discovery
+    published_at DATE,  -- Publication / last-updated date of the page the file came from
+    archive_hash VARCHAR(64),  -- Payload the run parsed
+    job_id UUID REFERENCES ingest_jobs(id),  -- Queue job the run was an attempt of
+    metadata JSONB DEFAULT '{}',
+    FOREIGN KEY (archive_hash, source_id) REFERENCES raw_archive(hash, source_id)
+);
+
+CREATE INDEX idx_ingest_runs_source ON ingest_runs(source_id, started_at DESC);
+CREATE INDEX idx_ingest_runs_started ON ingest_runs(started_at DESC);
+CREATE INDEX idx_ingest_runs_archive ON ingest_runs(archive_hash);
+CREATE INDEX idx_ingest_runs_job ON ingest_runs(job_id);
+
+-- Post-load data quality assertions, one row per assertion per run. A failed critical assertion
+-- quarantines the run: its load is rolled back and only these results are kept
+CREATE TABLE data_quality_results (
+    id SERIAL PRIMARY KEY,
+    ingest_run_id UUID NOT NULL REFERENCES ingest_runs(id) ON DELETE CASCADE,
+    source_id INTEGER REFERENCES data_sources(id),
+    assertion VARCHAR(100) NOT NULL,
+    severity VARCHAR(10) NOT NULL CHECK (severity IN ('critical', 'warning')),
+    passed BOOLEAN NOT NULL,
+    observed JSONB,
+    expected JSONB,
+    message TEXT,
+    checked_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(ingest_run_id, assertion)
 );
 
+CREATE INDEX idx_dqr_source ON data_quality_results(source_id, checked_at DESC);
+CREATE INDEX idx_dqr_failed ON data_quality_results(checked_at DESC) WHERE NOT passed;
+
 -- Local authorities reference
 CREATE TABLE local_authorities (
     id SERIAL PRIMARY KEY,
@@ -74,6 +149,7 @@ CREATE TABLE local_authorities (
     population_year INTEGER,
     imd_rank INTEGER,  -- Index of Multiple Deprivation rank
     imd_score DECIMAL(10,4),
+    imd_source VARCHAR(20),  -- IMD, WIMD or SIMD edition the rank comes from; ranks only compare within a nation
     geojson JSONB,  -- Boundary polygon
     centroid_lat DECIMAL(10,6),
     centroid_lng DECIMAL(10,6),
@@ -84,6 +160,34 @@ CREATE TABLE local_authorities (
 CREATE INDEX idx_la_name ON local_authorities USING gin(name gin_trgm_ops);
 CREATE INDEX idx_la_region ON local_authorities(region);
 
+-- ONS mid-year population estimates per LA and year (ONS_POP); local_authorities.population holds the latest
+CREATE TABLE la_population (
+    id SERIAL PRIMARY KEY,
+    ons_code VARCHAR(10) NOT NULL,
+    la_name VARCHAR(255),
+    year INTEGER NOT NULL,
+    population INTEGER NOT NULL,
+    ingest_run_id UUID REFERENCES ingest_runs(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(ons_code, year)
+);
+
+-- Simplified LA boundaries for map rendering (ONS_GEO); full-resolution polygons live in local_authorities.geojson
+CREATE TABLE la_boundaries (
+    id SERIAL PRIMARY KEY,
+    ons_code VARCHAR(10) NOT NULL,
+    la_name VARCHAR(255),
+    zoom VARCHAR(10) NOT NULL,  -- low, medium, high
+    tolerance DECIMAL(10,6) NOT NULL,  -- Douglas-Peucker tolerance in degrees
+    geometry JSONB NOT NULL,  -- GeoJSON Polygon / MultiPolygon (WGS84)
+    point_count INTEGER,
+    ingest_run_id UUID REFERENCES ingest_runs(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(ons_code, zoom)
+);
+
+CREATE INDEX idx_la_boundaries_zoom ON la_boundaries(zoom);
+
 -- Nationalities reference
 CREATE TABLE nationalities (
     id SERIAL PRIMARY KEY,
@@ -128,6 +232,7 @@ CREATE TABLE small_boat_arrivals_daily (
     people_per_boat DECIMAL(5,1),
     source_url TEXT,
     scraped_at TIMESTAMPTZ DEFAULT NOW(),
+    ingest_run_id UUID REFERENCES ingest_runs(id),  -- NULL for days entered by hand
     UNIQUE(date)
 );
 
@@ -160,13 +265,33 @@ CREATE TABLE small_boat_nationality (
     nationality_name VARCHAR(255),  -- denormalized for convenience
     arrivals INTEGER NOT NULL,
     share_pct DECIMAL(5,2),
-    ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    ingest_run_id UUID REFERENCES ingest_runs(id),  -- Run that last loaded the row
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(period_start, period_end, period_type, nationality_name)
 );
 
 CREATE INDEX idx_sbn_period ON small_boat_nationality(period_end DESC);
 CREATE INDEX idx_sbn_nationality ON small_boat_nationality(nationality_id);
 
+-- Detected irregular entries by method, nationality, age group and sex (Irr_D02)
+CREATE TABLE irregular_entry (
+    id SERIAL PRIMARY KEY,
+    quarter_end DATE NOT NULL,
+    entry_method entry_method NOT NULL,
+    nationality_id INTEGER REFERENCES nationalities(id),
+    nationality_name VARCHAR(255),
+    age_group VARCHAR(50),
+    sex VARCHAR(20),
+    detections INTEGER NOT NULL,
+    ingest_run_id UUID REFERENCES ingest_runs(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_ie_unique ON irregular_entry(
+    quarter_end, entry_method, (COALESCE(nationality_name, '')), (COALESCE(age_group, '')), (COALESCE(sex, ''))
+);
+CREATE INDEX idx_ie_quarter ON irregular_entry(quarter_end DESC);
+
 -- French prevention activity (weekly ODS)
 CREATE TABLE french_prevention (
     id SERIAL PRIMARY KEY,
@@ -197,8 +322,9 @@ CREATE TABLE asylum_claims (
     claims_total INTEGER,
     claims_in_country INTEGER,  -- claimed after arrival
     claims_at_port INTEGER,  -- claimed at border
-    ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    ingest_run_id UUID REFERENCES ingest_runs(id),  -- Run that last loaded the row
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, nationality_name)
 );
 
 CREATE INDEX idx_ac_quarter ON asylum_claims(quarter_end DESC);
@@ -221,8 +347,9 @@ CREATE TABLE asylum_decisions (
     refused INTEGER,
     withdrawn INTEGER,
     grant_rate_pct DECIMAL(5,2),
-    ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    ingest_run_id UUID REFERENCES ingest_runs(id),  -- Run that last loaded the row
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, nationality_name)
 );
 
 CREATE INDEX idx_ad_quarter ON asylum_decisions(quarter_end DESC);
@@ -255,9 +382,12 @@ CREATE TABLE asylum_backlog_nationality (
     nationality_name VARCHAR(255),
     total_awaiting INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, nationality_name)
 );
 
+CREATE INDEX idx_abn_date ON asylum_backlog_nationality(snapshot_date DESC);
+
 -- Age disputes (Asy_D06)
 CREATE TABLE age_disputes (
     id SERIAL PRIMARY KEY,
@@ -267,7 +397,8 @@ CREATE TABLE age_disputes (
     resolved_child INTEGER,
     pending INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end)
 );
 
 -- =============================================================================
@@ -328,8 +459,9 @@ CREATE TABLE asylum_support_la (
     qoq_change_pct DECIMAL(6,2),
     yoy_change_pct DECIMAL(6,2),
     
-    ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    ingest_run_id UUID REFERENCES ingest_runs(id),  -- Run that last loaded the row
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, la_name)
 );
 
 CREATE INDEX idx_asla_date ON asylum_support_la(snapshot_date DESC);
@@ -359,6 +491,8 @@ CREATE TABLE asylum_appeals (
 );
 
 CREATE INDEX idx_aa_quarter ON asylum_appeals(quarter_end DESC);
+-- HMCTS tables are national (no nationality_name); one row per quarter and nationality otherwise
+CREATE UNIQUE INDEX idx_aa_quarter_nationality ON asylum_appeals(quarter_end, (COALESCE(nationality_name, '')));
 
 -- Tribunal backlog
 CREATE TABLE tribunal_backlog (
@@ -393,6 +527,8 @@ CREATE TABLE detention_population (
 
 CREATE INDEX idx_dp_date ON detention_population(snapshot_date DESC);
 CREATE INDEX idx_dp_facility ON detention_population(facility_id);
+-- National totals (Det_D01) have no facility_name; one row per facility per snapshot otherwise
+CREATE UNIQUE INDEX idx_dp_snapshot_facility ON detention_population(snapshot_date, (COALESCE(facility_name, '')));
 
 -- Detention by nationality
 CREATE TABLE detention_nationality (
@@ -403,7 +539,8 @@ CREATE TABLE detention_nationality (
     population INTEGER,
     share_pct DECIMAL(5,2),
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, nationality_name)
 );
 
 -- Detention length distribution (Det_D03)
@@ -415,7 +552,8 @@ CREATE TABLE detention_length (
     count INTEGER,
     share_pct DECIMAL(5,2),
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, length_bracket)
 );
 
 -- Detention outcomes (Det_D03)
@@ -426,7 +564,8 @@ CREATE TABLE detention_outcomes (
     count INTEGER,
     share_pct DECIMAL(5,2),
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, outcome)
 );
 
 -- Rule 35 reports - torture/trafficking indicators (Det_D04)
@@ -434,12 +573,15 @@ CREATE TABLE detention_rule35 (
     id SERIAL PRIMARY KEY,
     quarter_end DATE NOT NULL,
     facility_id INTEGER REFERENCES detention_facilities(id),
+    facility_name VARCHAR(255),
     reports_made INTEGER,
     released_following INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_dr35_quarter_facility ON detention_rule35(quarter_end, (COALESCE(facility_name, '')));
+
 -- Deaths in detention
 CREATE TABLE detention_deaths (
     id SERIAL PRIMARY KEY,
@@ -486,7 +628,8 @@ CREATE TABLE returns (
     return_type return_type,
     count INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, nationality_name, return_type)
 );
 
 CREATE INDEX idx_ret_quarter ON returns(quarter_end DESC);
@@ -516,6 +659,9 @@ CREATE TABLE fno_deportations (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_fnod_unique ON fno_deportations(quarter_end, (COALESCE(nationality_name, '')), (COALESCE(offence_type, '')));
+CREATE INDEX idx_fnod_quarter ON fno_deportations(quarter_end DESC);
+
 -- =============================================================================
 -- UASC - UNACCOMPANIED CHILDREN (4 sources)
 -- =============================================================================
@@ -533,9 +679,12 @@ CREATE TABLE uasc_claims (
     male INTEGER,
     female INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, nationality_name)
 );
 
+CREATE INDEX idx_uc_quarter ON uasc_claims(quarter_end DESC);
+
 -- UASC by Local Authority
 CREATE TABLE uasc_la (
     id SERIAL PRIMARY KEY,
@@ -548,9 +697,12 @@ CREATE TABLE uasc_la (
     national_transfer_out INTEGER,
     per_10k_child_population DECIMAL(8,2),
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, la_name)
 );
 
+CREATE INDEX idx_ul_la ON uasc_la(la_id);
+
 -- =============================================================================
 -- MODERN SLAVERY / NRM (4 sources)
 -- =============================================================================
@@ -568,6 +720,8 @@ CREATE TABLE nrm_referrals (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_nrm_ref_unique ON nrm_referrals(quarter_end, (COALESCE(nationality_name, '')), exploitation, (COALESCE(referral_source, '')));
+
 -- NRM decisions
 CREATE TABLE nrm_decisions (
     id SERIAL PRIMARY KEY,
@@ -580,6 +734,8 @@ CREATE TABLE nrm_decisions (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_nrm_dec_unique ON nrm_decisions(quarter_end, (COALESCE(nationality_name, '')), outcome);
+
 -- =============================================================================
 -- RESETTLEMENT & SAFE ROUTES (8 sources)
 -- =============================================================================
@@ -592,7 +748,8 @@ CREATE TABLE resettlement (
     arrivals INTEGER,
     total_since_start INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, scheme)
 );
 
 -- Resettlement by Local Authority
@@ -604,9 +761,12 @@ CREATE TABLE resettlement_la (
     scheme VARCHAR(50),
     placements INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, la_name, scheme)
 );
 
+CREATE INDEX idx_rla_la ON resettlement_la(la_id);
+
 -- Homes for Ukraine
 CREATE TABLE ukraine_arrivals (
     id SERIAL PRIMARY KEY,
@@ -630,9 +790,12 @@ CREATE TABLE ukraine_la (
     rematches INTEGER,
     homelessness_presentations INTEGER,
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, la_name)
 );
 
+CREATE INDEX idx_ukla_la ON ukraine_la(la_id);
+
 -- Family reunion visas (Fam_D01)
 CREATE TABLE family_reunion (
     id SERIAL PRIMARY KEY,
@@ -646,10 +809,14 @@ CREATE TABLE family_reunion (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_fr_unique ON family_reunion(quarter_end, (COALESCE(nationality_name, '')));
+CREATE INDEX idx_fr_quarter ON family_reunion(quarter_end DESC);
+
 -- =============================================================================
 -- INADMISSIBILITY & THIRD COUNTRY (3 sources)
 -- =============================================================================
 
+-- Asylum claims considered for inadmissibility (third country) action (Inad_D01)
 CREATE TABLE inadmissibility (
     id SERIAL PRIMARY KEY,
     quarter_end DATE NOT NULL,
@@ -662,25 +829,33 @@ CREATE TABLE inadmissibility (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_inad_unique ON inadmissibility(quarter_end, (COALESCE(nationality_name, '')));
+CREATE INDEX idx_inad_quarter ON inadmissibility(quarter_end DESC);
+
 -- =============================================================================
 -- BORDER FORCE (3 sources)
 -- =============================================================================
 
+-- Passengers refused entry at port (Adm_D02)
 CREATE TABLE border_refusals (
     id SERIAL PRIMARY KEY,
     quarter_end DATE NOT NULL,
     nationality_id INTEGER REFERENCES nationalities(id),
     nationality_name VARCHAR(255),
     refusals INTEGER,
-    port_type VARCHAR(50),  -- air, sea, rail
+    port_type VARCHAR(50),  -- air, sea, rail, other
     ingest_run_id UUID REFERENCES ingest_runs(id),
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE UNIQUE INDEX idx_br_unique ON border_refusals(quarter_end, (COALESCE(nationality_name, '')), (COALESCE(port_type, '')));
+CREATE INDEX idx_br_quarter ON border_refusals(quarter_end DESC);
+
 -- =============================================================================
 -- FOREIGN NATIONAL PRISONERS (MoJ) (3 sources)
 -- =============================================================================
 
+-- Prison population by nationality (MoJ offender management statistics); UK nationals are not stored
 CREATE TABLE foreign_national_prisoners (
     id SERIAL PRIMARY KEY,
     snapshot_date DATE NOT NULL,
@@ -689,9 +864,13 @@ CREATE TABLE foreign_national_prisoners (
     prison_population INTEGER,
     share_of_total_pct DECIMAL(5,2),
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(snapshot_date, nationality_name)
 );
 
+CREATE INDEX idx_fnp_date ON foreign_national_prisoners(snapshot_date DESC);
+
+-- Foreign national prisoners by offence group
 CREATE TABLE fno_by_offence (
     id SERIAL PRIMARY KEY,
     quarter_end DATE NOT NULL,
@@ -699,7 +878,8 @@ CREATE TABLE fno_by_offence (
     count INTEGER,
     share_pct DECIMAL(5,2),
     ingest_run_id UUID REFERENCES ingest_runs(id),
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(quarter_end, offence_category)
 );
 
 -- =============================================================================
@@ -774,6 +954,7 @@ CREATE TABLE pressure_index (
     pressure_index DECIMAL(5,2),  -- weighted average
     pressure_rank INTEGER,
     pressure_quintile INTEGER,  -- 1=lowest, 5=highest
+    weights JSONB,  -- component weights used for the composite
     
     created_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(snapshot_date, la_id)
@@ -815,6 +996,21 @@ CREATE TRIGGER update_local_authorities_updated_at
     BEFORE UPDATE ON local_authorities
     FOR EACH ROW EXECUTE FUNCTION update_updated_at();
 
+-- LA population for a snapshot: the ONS estimate for the snapshot's year (or the latest earlier year),
+-- falling back to local_authorities.population before ONS_POP has loaded anything for the LA
+CREATE OR REPLACE FUNCTION la_population_at(p_la_id INTEGER, p_date DATE)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(
+        (SELECT lp.population
+         FROM la_population lp
+         JOIN local_authorities la ON la.ons_code = lp.ons_code
+         WHERE la.id = p_la_id AND lp.year <= EXTRACT(YEAR FROM p_date)
+         ORDER BY lp.year DESC
+         LIMIT 1),
+        (SELECT population FROM local_authorities WHERE id = p_la_id)
+    );
+$$ LANGUAGE sql STABLE;
+
 -- Calculate per-capita and change metrics for asylum support LA
 CREATE OR REPLACE FUNCTION calculate_la_metrics()
 RETURNS TRIGGER AS $$
@@ -824,8 +1020,8 @@ DECLARE
     prev_quarter_total INTEGER;
     prev_year_total INTEGER;
 BEGIN
-    -- Get LA population
-    SELECT population INTO pop FROM local_authorities WHERE id = NEW.la_id;
+    -- Get LA population for the snapshot year
+    pop := la_population_at(NEW.la_id, NEW.snapshot_date);
     
     -- Calculate per 10k
     IF pop > 0 THEN
@@ -922,6 +1118,10 @@ INSERT INTO data_sources (code, name, frequency, tier, parser_type, url) VALUES
 -- Tier B: Family
 ('FAM_D01', 'Family Reunion', 'quarterly', 'B', 'ods', 'https://www.gov.uk/government/statistical-data-sets/immigration-system-statistics-data-tables'),
 
+-- Tier B: Inadmissibility & Border Force
+('INAD_D01', 'Inadmissibility Cases', 'quarterly', 'B', 'ods', 'https://www.gov.uk/government/statistical-data-sets/immigration-system-statistics-data-tables'),
+('ADM_D02', 'Refused Entry at Port', 'quarterly', 'B', 'ods', 'https://www.gov.uk/government/statistical-data-sets/immigration-system-statistics-data-tables'),
+
 -- Tier C: Annual
 ('NAO_ASYLUM', 'NAO Asylum Spending Analysis', 'annually', 'C', 'manual', 'https://www.nao.org.uk'),
 ('HO_ACCOUNTS', 'Home Office Annual Accounts', 'annually', 'C', 'manual', 'https://www.gov.uk/government/collections/home-office-annual-reports-and-accounts'),
@@ -951,32 +1151,47 @@ INSERT INTO detention_facilities (code, name, type, operator, capacity) VALUES
 -- USEFUL VIEWS
 -- =============================================================================
 
--- Latest LA support snapshot with all metrics
-CREATE VIEW v_la_support_latest AS
-SELECT 
+-- LA support across all snapshots with all metrics
+CREATE VIEW v_la_support AS
+SELECT
     asl.*,
     la.ons_code,
-    la.population,
+    la_population_at(asl.la_id, asl.snapshot_date) AS population,
     la.imd_rank,
     la.imd_score,
     la.centroid_lat,
     la.centroid_lng
 FROM asylum_support_la asl
-JOIN local_authorities la ON asl.la_id = la.id
-WHERE asl.snapshot_date = (SELECT MAX(snapshot_date) FROM asylum_support_la);
+JOIN local_authorities la ON asl.la_id = la.id;
+
+-- Latest LA support snapshot with all metrics
+CREATE VIEW v_la_support_latest AS
+SELECT *
+FROM v_la_support
+WHERE snapshot_date = (SELECT MAX(snapshot_date) FROM asylum_support_la);
 
 -- Grant rates by nationality with trend
+-- Every nationality-quarter is kept so the trend and rolling columns see all quarters; callers apply their
+-- own minimum sample size (the API's min_decisions, default 10)
 CREATE VIEW v_grant_rates AS
-SELECT 
+SELECT
     ad.quarter_end,
+    ad.nationality_id,
     ad.nationality_name,
     ad.grants_total,
+    ad.refused,
     ad.decisions_total,
     ad.grant_rate_pct,
     LAG(ad.grant_rate_pct) OVER (PARTITION BY ad.nationality_id ORDER BY ad.quarter_end) as prev_quarter_rate,
-    ad.grant_rate_pct - LAG(ad.grant_rate_pct) OVER (PARTITION BY ad.nationality_id ORDER BY ad.quarter_end) as rate_change
+    ad.grant_rate_pct - LAG(ad.grant_rate_pct) OVER (PARTITION BY ad.nationality_id ORDER BY ad.quarter_end) as rate_change,
+    SUM(ad.decisions_total) OVER rolling_4q as rolling_4q_decisions,
+    ROUND((SUM(ad.grants_total) OVER rolling_4q)::DECIMAL /
+          NULLIF(SUM(ad.grants_total + ad.refused) OVER rolling_4q, 0) * 100, 1) as rolling_4q_grant_rate_pct
 FROM asylum_decisions ad
-WHERE ad.decisions_total >= 10  -- Minimum sample size
+WINDOW rolling_4q AS (
+    PARTITION BY ad.nationality_id ORDER BY ad.quarter_end
+    RANGE BETWEEN INTERVAL '9 months' PRECEDING AND CURRENT ROW
+)
 ORDER BY ad.quarter_end DESC, ad.decisions_total DESC;
 
 -- National totals time series
@@ -0,0 +1,139 @@
+// Age Disputes - Quarterly ODS Parser
+// Source: Asy_D06 from Immigration System Statistics
+// Age disputes raised and resolved (found to be adult / child) per quarter
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface AgeDisputeRecord {
+  quarter_end: Date;
+  disputes_raised: number;
+  resolved_adult: number;
+  resolved_child: number;
+  pending: number | null;
+}
+
+type AgeDisputeField = 'date' | 'year' | 'raised' | 'adult' | 'child' | 'pending' | 'outcome' | 'count';
+
+// Age disputes per quarter, published either wide (a column per outcome) or long (one count per outcome)
+const AGE_DISPUTE_MAPPING: SheetMapping<AgeDisputeField> = {
+  name: 'age_disputes',
+  sheets: [/asy_d06/i, /age[\s_]dispute/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    raised: { aliases: [/raised/i], type: 'integer', unit: 'people' },
+    adult: { aliases: [/adult/i], exclude: /raised/i, type: 'integer', unit: 'people' },
+    child: { aliases: [/child|minor/i], exclude: /raised/i, type: 'integer', unit: 'people' },
+    pending: { aliases: [/pending/i, /outstanding/i], type: 'integer', unit: 'people' },
+    outcome: { aliases: [/outcome/i, /resolution/i], type: 'string' },
+    count: { aliases: [/number/i, /count/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/nationality/i, /region/i, /sex/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class AgeDisputesIngestor extends BaseIngestor {
+  constructor() {
+    super('ASY_D06');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Age disputes are published with the asylum applications datasets
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+applications[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<AgeDisputeRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in asylum applications file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, AGE_DISPUTE_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Long layout has one count per outcome; wide layout has a column per outcome
+    const long = sheet.has('outcome') && sheet.has('count');
+    if (!long && !sheet.has('raised')) {
+      throw new Error(`Age disputes sheet ${sheet.sheetName} has neither outcome and count columns nor a disputes raised column`);
+    }
+
+    // Rows split by nationality or sex are summed per quarter
+    const results = new Map<string, AgeDisputeRecord>();
+
+    for (const row of sheet.rows) {
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const parseNum = (field: AgeDisputeField): number => sheet.get(row, field) ?? 0;
+
+      const key = formatDateISO(quarterEnd);
+      const record = results.get(key) || {
+        quarter_end: quarterEnd,
+        disputes_raised: 0,
+        resolved_adult: 0,
+        resolved_child: 0,
+        pending: null,
+      };
+
+      if (long) {
+        const outcome = (sheet.get(row, 'outcome') || '').toLowerCase();
+        const count = parseNum('count');
+        if (outcome.includes('total')) continue;
+        if (outcome.includes('raised')) record.disputes_raised += count;
+        else if (outcome.includes('adult')) record.resolved_adult += count;
+        else if (outcome.includes('child') || outcome.includes('minor')) record.resolved_child += count;
+        else if (outcome.includes('pending') || outcome.includes('outstanding')) record.pending = (record.pending || 0) + count;
+      } else {
+        record.disputes_raised += parseNum('raised');
+        record.resolved_adult += parseNum('adult');
+        record.resolved_child += parseNum('child');
+        if (sheet.has('pending')) record.pending = (record.pending || 0) + parseNum('pending');
+      }
+
+      results.set(key, record);
+    }
+
+    return Array.from(results.values()).filter(r =>
+      r.disputes_raised > 0 || r.resolved_adult > 0 || r.resolved_child > 0
+    );
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('age_disputes', ['disputes_raised', 'resolved_adult', 'resolved_child', 'pending']),
+      // A single national row per quarter
+      rowCountInRange('age_disputes', 'quarter_end', 1, 1),
+    ];
+  }
+
+  protected async load(data: AgeDisputeRecord[]): Promise<void> {
+    for (const record of data) {
+      this.countUpserted(await query(
+        `INSERT INTO age_disputes (
+          quarter_end, disputes_raised, resolved_adult, resolved_child, pending, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (quarter_end) DO UPDATE SET
+          disputes_raised = EXCLUDED.disputes_raised,
+          resolved_adult = EXCLUDED.resolved_adult,
+          resolved_child = EXCLUDED.resolved_child,
+          pending = EXCLUDED.pending,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.disputes_raised,
+          record.resolved_adult,
+          record.resolved_child,
+          record.pending,
+          this.runId,
+        ]
+      ));
+    }
+  }
+}
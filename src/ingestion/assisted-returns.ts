@@ -0,0 +1,21 @@
+// Assisted Voluntary Returns - Quarterly ODS Parser
+// Source: Ret_D02 from Immigration System Statistics (returns datasets)
+// Same layout as Ret_D01; every row is an assisted voluntary return
+
+import { ReturnsIngestor, ReturnsField } from './returns';
+import { SheetMapping } from '../lib/mapping';
+import { ReturnType } from '../types';
+
+export class AssistedReturnsIngestor extends ReturnsIngestor {
+  constructor() {
+    super('RET_D02');
+  }
+
+  protected mapping(): SheetMapping<ReturnsField> {
+    return { ...super.mapping(), name: 'assisted_returns', sheets: [/ret_d02/i, /assisted/i] };
+  }
+
+  protected classify(): ReturnType | null {
+    return 'assisted_voluntary';
+  }
+}
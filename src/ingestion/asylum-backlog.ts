@@ -2,8 +2,10 @@
 // Source: Asy_D03 from Immigration System Statistics
 // Tracks people awaiting initial decision
 
-import { BaseIngestor, fetchUrl, parseODS, sheetToJson, getSheetNames } from '../lib/ingest';
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
 import { query, formatDateISO, log } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, periodOnPeriodJump } from '../lib/quality';
 
 interface BacklogRecord {
   snapshot_date: Date;
@@ -17,126 +19,80 @@ interface BacklogRecord {
   legacy_cases: number;
 }
 
+interface BacklogNationalityRecord {
+  snapshot_date: Date;
+  nationality_name: string;
+  total_awaiting: number;
+}
+
+interface BacklogData {
+  backlog: BacklogRecord[];
+  nationality: BacklogNationalityRecord[];
+}
+
+type BacklogField =
+  'date' | 'nationality' | 'total' | 'initial' | 'further_review' | 'less_6_months' | 'six_12_months' |
+  'one_3_years' | 'three_plus' | 'legacy';
+
+// People awaiting a decision at each snapshot, by stage and time waiting; long-format editions add nationality
+const BACKLOG_MAPPING: SheetMapping<BacklogField> = {
+  name: 'backlog',
+  sheets: [/asy_d03/i, /backlog/i, /awaiting/i, /work_in_progress/i, /wip/i],
+  columns: {
+    date: { aliases: [/date/i, /as[\s_]at/i, /quarter/i, /period/i], type: 'date', required: true },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    total: { aliases: [/total/i], exclude: /sub/i, type: 'integer', unit: 'people' },
+    initial: { aliases: [/initial/i], type: 'integer', unit: 'people' },
+    further_review: { aliases: [/further/i, /review/i], type: 'integer', unit: 'people' },
+    less_6_months: { aliases: [/(less|under).*6|6.*(less|under)/i], type: 'integer', unit: 'people' },
+    six_12_months: { aliases: [/6.*12/i], type: 'integer', unit: 'people' },
+    one_3_years: { aliases: [/(1|one).*3/i], exclude: /plus|more|\+/i, type: 'integer', unit: 'people' },
+    three_plus: { aliases: [/3.*(plus|more|\+)/i], type: 'integer', unit: 'people' },
+    legacy: { aliases: [/legacy/i, /\bpre\b/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/region/i, /code$/i, /^notes?$/i],
+};
+
 export class AsylumBacklogIngestor extends BaseIngestor {
   constructor() {
     super('ASY_D03');
   }
 
   protected async fetch(): Promise<Buffer> {
-    const url = 'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods';
-    return fetchUrl(url);
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+applications[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
   }
 
-  protected async parse(buffer: Buffer): Promise<BacklogRecord[]> {
+  protected async parse(buffer: Buffer): Promise<BacklogData> {
     const workbook = parseODS(buffer);
-    const sheetNames = getSheetNames(workbook);
-    
-    log('info', 'Found sheets in asylum backlog file', { sheets: sheetNames });
-    
-    const backlogSheetName = sheetNames.find(s => 
-      s.toLowerCase().includes('asy_d03') || 
-      s.toLowerCase().includes('backlog') ||
-      s.toLowerCase().includes('awaiting') ||
-      s.toLowerCase().includes('work_in_progress') ||
-      s.toLowerCase().includes('wip')
-    );
 
-    if (!backlogSheetName) {
-      throw new Error('Could not find backlog sheet in asylum data');
-    }
-
-    return this.parseSheet(workbook, backlogSheetName);
-  }
+    log('info', 'Found sheets in asylum backlog file', { sheets: getSheetNames(workbook) });
 
-  private parseSheet(workbook: any, sheetName: string): BacklogRecord[] {
-    const rows = sheetToJson<Record<string, any>>(workbook, sheetName);
+    const sheet = this.mapSheet(workbook, BACKLOG_MAPPING);
     const results: BacklogRecord[] = [];
-    
-    log('info', `Parsing sheet ${sheetName}`, { rowCount: rows.length });
-
-    if (rows.length === 0) return results;
-    
-    const sampleRow = rows[0];
-    const keys = Object.keys(sampleRow);
-    
-    const columnMap = {
-      date: keys.find(k => 
-        k.toLowerCase().includes('date') || 
-        k.toLowerCase().includes('quarter') ||
-        k.toLowerCase().includes('period') ||
-        k.toLowerCase().includes('as_at')
-      ),
-      total: keys.find(k => 
-        k.toLowerCase().includes('total') && 
-        !k.toLowerCase().includes('sub')
-      ),
-      initial: keys.find(k => 
-        k.toLowerCase().includes('initial')
-      ),
-      further_review: keys.find(k => 
-        k.toLowerCase().includes('further') ||
-        k.toLowerCase().includes('review')
-      ),
-      less_6_months: keys.find(k => 
-        k.toLowerCase().includes('6') && 
-        (k.toLowerCase().includes('less') || k.toLowerCase().includes('under'))
-      ),
-      six_12_months: keys.find(k => 
-        k.toLowerCase().includes('6') && 
-        k.toLowerCase().includes('12')
-      ),
-      one_3_years: keys.find(k => 
-        (k.toLowerCase().includes('1') || k.toLowerCase().includes('one')) &&
-        k.toLowerCase().includes('3')
-      ),
-      three_plus: keys.find(k => 
-        k.toLowerCase().includes('3') && 
-        (k.toLowerCase().includes('plus') || k.toLowerCase().includes('more') || k.toLowerCase().includes('+'))
-      ),
-      legacy: keys.find(k => 
-        k.toLowerCase().includes('legacy') ||
-        k.toLowerCase().includes('pre')
-      ),
-    };
-
-    log('info', 'Column mappings for backlog', { columnMap });
-
-    for (const row of rows) {
-      // Try to get a date
-      let snapshotDate: Date | null = null;
-      
-      if (columnMap.date && row[columnMap.date]) {
-        const dateVal = row[columnMap.date];
-        if (typeof dateVal === 'number') {
-          snapshotDate = new Date((dateVal - 25569) * 86400 * 1000);
-        } else if (typeof dateVal === 'string') {
-          const parsed = new Date(dateVal);
-          if (!isNaN(parsed.getTime())) {
-            snapshotDate = parsed;
-          }
-        }
-      }
+    const nationality: BacklogNationalityRecord[] = [];
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
 
+    for (const row of sheet.rows) {
+      const snapshotDate: Date | null = sheet.get(row, 'date');
       if (!snapshotDate) continue;
 
-      const parseNum = (key: string | undefined): number => {
-        if (!key || !row[key]) return 0;
-        const val = row[key];
-        if (typeof val === 'number') return val;
-        const parsed = parseInt(String(val).replace(/[^0-9-]/g, ''), 10);
-        return isNaN(parsed) ? 0 : parsed;
-      };
+      const count = (field: BacklogField): number => sheet.get(row, field) ?? 0;
 
       const record: BacklogRecord = {
         snapshot_date: snapshotDate,
-        total_awaiting: parseNum(columnMap.total),
-        awaiting_initial: parseNum(columnMap.initial),
-        awaiting_further_review: parseNum(columnMap.further_review),
-        awaiting_less_6_months: parseNum(columnMap.less_6_months),
-        awaiting_6_12_months: parseNum(columnMap.six_12_months),
-        awaiting_1_3_years: parseNum(columnMap.one_3_years),
-        awaiting_3_plus_years: parseNum(columnMap.three_plus),
-        legacy_cases: parseNum(columnMap.legacy),
+        total_awaiting: count('total'),
+        awaiting_initial: count('initial'),
+        awaiting_further_review: count('further_review'),
+        awaiting_less_6_months: count('less_6_months'),
+        awaiting_6_12_months: count('six_12_months'),
+        awaiting_1_3_years: count('one_3_years'),
+        awaiting_3_plus_years: count('three_plus'),
+        legacy_cases: count('legacy'),
       };
 
       // Calculate total if not present
@@ -144,20 +100,73 @@ export class AsylumBacklogIngestor extends BaseIngestor {
         record.total_awaiting = record.awaiting_initial + record.awaiting_further_review;
       }
 
-      if (record.total_awaiting > 0) {
-        results.push(record);
+      if (record.total_awaiting === 0) continue;
+
+      // Long-format tables have one row per nationality - sum them into the snapshot total
+      const nationalityName: string | null = sheet.get(row, 'nationality');
+      if (nationalityName) {
+        if (nationalityName.toLowerCase().includes('total')) continue;
+
+        nationality.push({
+          snapshot_date: snapshotDate,
+          nationality_name: nationalityName,
+          total_awaiting: record.total_awaiting,
+        });
+
+        const existing = results.find(r => r.snapshot_date.getTime() === snapshotDate!.getTime());
+        if (existing) {
+          existing.total_awaiting += record.total_awaiting;
+          existing.awaiting_initial += record.awaiting_initial;
+          existing.awaiting_further_review += record.awaiting_further_review;
+          existing.awaiting_less_6_months += record.awaiting_less_6_months;
+          existing.awaiting_6_12_months += record.awaiting_6_12_months;
+          existing.awaiting_1_3_years += record.awaiting_1_3_years;
+          existing.awaiting_3_plus_years += record.awaiting_3_plus_years;
+          existing.legacy_cases += record.legacy_cases;
+          continue;
+        }
       }
+
+      results.push(record);
     }
 
     // Sort by date descending
     results.sort((a, b) => b.snapshot_date.getTime() - a.snapshot_date.getTime());
 
-    return results;
+    return { backlog: results, nationality: this.mergeNationalities(nationality) };
+  }
+
+  /**
+   * Collapse duplicate snapshot/nationality rows (e.g. split by stage or duration) into one total
+   */
+  private mergeNationalities(records: BacklogNationalityRecord[]): BacklogNationalityRecord[] {
+    const merged = new Map<string, BacklogNationalityRecord>();
+    for (const record of records) {
+      const key = `${formatDateISO(record.snapshot_date)}|${record.nationality_name}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.total_awaiting += record.total_awaiting;
+      } else {
+        merged.set(key, { ...record });
+      }
+    }
+    return Array.from(merged.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('asylum_backlog', [
+        'total_awaiting', 'awaiting_initial', 'awaiting_further_review', 'awaiting_less_6_months',
+        'awaiting_6_12_months', 'awaiting_1_3_years', 'awaiting_3_plus_years', 'legacy_cases',
+      ]),
+      noNegativeCounts('asylum_backlog_nationality', ['total_awaiting']),
+      periodOnPeriodJump('asylum_backlog', 'snapshot_date', 'total_awaiting', 1.5),
+    ];
   }
 
-  protected async load(data: BacklogRecord[]): Promise<void> {
-    for (const record of data) {
-      await query(
+  protected async load({ backlog, nationality }: BacklogData): Promise<void> {
+    for (const record of backlog) {
+      this.countUpserted(await query(
         `INSERT INTO asylum_backlog (
           snapshot_date, total_awaiting, awaiting_initial, awaiting_further_review,
           awaiting_less_6_months, awaiting_6_12_months, awaiting_1_3_years, awaiting_3_plus_years,
@@ -171,7 +180,9 @@ export class AsylumBacklogIngestor extends BaseIngestor {
           awaiting_6_12_months = EXCLUDED.awaiting_6_12_months,
           awaiting_1_3_years = EXCLUDED.awaiting_1_3_years,
           awaiting_3_plus_years = EXCLUDED.awaiting_3_plus_years,
-          legacy_cases = EXCLUDED.legacy_cases`,
+          legacy_cases = EXCLUDED.legacy_cases,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
         [
           formatDateISO(record.snapshot_date),
           record.total_awaiting,
@@ -184,13 +195,34 @@ export class AsylumBacklogIngestor extends BaseIngestor {
           record.legacy_cases,
           this.runId,
         ]
-      );
-      this.recordsInserted++;
+      ));
+    }
+
+    for (const record of nationality) {
+      const nationalityId = await this.getNationalityId(record.nationality_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO asylum_backlog_nationality (
+          snapshot_date, nationality_id, nationality_name, total_awaiting, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (snapshot_date, nationality_name) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          total_awaiting = EXCLUDED.total_awaiting,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          nationalityId,
+          record.nationality_name,
+          record.total_awaiting,
+          this.runId,
+        ]
+      ));
     }
 
     // Log latest backlog for verification
-    if (data.length > 0) {
-      const latest = data[0];
+    if (backlog.length > 0) {
+      const latest = backlog[0];
       log('info', 'Latest backlog snapshot', {
         date: formatDateISO(latest.snapshot_date),
         total: latest.total_awaiting,
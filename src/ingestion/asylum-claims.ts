@@ -1,8 +1,10 @@
 // Asylum Claims by Nationality - Quarterly ODS Parser
 // Source: Asy_D01 from Immigration System Statistics
 
-import { BaseIngestor, fetchUrl, parseODS, sheetToJson, getSheetNames } from '../lib/ingest';
-import { query, formatDateISO, log, toQuarterEnd } from '../lib/db';
+import { BaseIngestor, parseODS, getSheetNames, sumByKey } from '../lib/ingest';
+import { bulkUpsert, formatDateISO, log, toQuarterEnd } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, periodOnPeriodJump } from '../lib/quality';
 
 interface ClaimRecord {
   quarter_end: Date;
@@ -16,6 +18,25 @@ interface ClaimRecord {
   claims_at_port: number;
 }
 
+type ClaimsField = 'nationality' | 'year' | 'quarter' | 'total' | 'main_applicant' | 'dependants' | 'in_country' | 'at_port';
+
+// Applications per nationality and quarter
+const CLAIMS_MAPPING: SheetMapping<ClaimsField> = {
+  name: 'claims',
+  sheets: [/asy_d01/i, /application/i, /claim/i],
+  columns: {
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string', required: true },
+    year: { aliases: [/^year$/i], type: 'integer', required: true },
+    quarter: { aliases: [/quarter/i, /^q$/i], type: 'integer', required: true },
+    total: { aliases: [/total.*application|application.*total/i, /^total$/i], type: 'integer', unit: 'people' },
+    main_applicant: { aliases: [/main/i, /principal/i], type: 'integer', unit: 'people' },
+    dependants: { aliases: [/dependant/i], type: 'integer', unit: 'people' },
+    in_country: { aliases: [/in[\s_]country/i, /after[\s_]entry/i], type: 'integer', unit: 'people' },
+    at_port: { aliases: [/port/i, /on[\s_]entry/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/region/i, /code$/i, /^notes?$/i],
+};
+
 export class AsylumClaimsIngestor extends BaseIngestor {
   constructor() {
     super('ASY_D01');
@@ -23,80 +44,27 @@ export class AsylumClaimsIngestor extends BaseIngestor {
 
   protected async fetch(): Promise<Buffer> {
     // Main asylum statistics ODS file
-    const url = 'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods';
-    return fetchUrl(url);
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+applications[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
   }
 
   protected async parse(buffer: Buffer): Promise<ClaimRecord[]> {
     const workbook = parseODS(buffer);
-    const sheetNames = getSheetNames(workbook);
-    
-    log('info', 'Found sheets in asylum claims file', { sheets: sheetNames });
-    
-    // Find the claims by nationality sheet
-    const claimsSheetName = sheetNames.find(s => 
-      s.toLowerCase().includes('asy_d01') || 
-      s.toLowerCase().includes('application') ||
-      s.toLowerCase().includes('claim')
-    );
 
-    if (!claimsSheetName) {
-      throw new Error('Could not find claims sheet in asylum data');
-    }
+    log('info', 'Found sheets in asylum claims file', { sheets: getSheetNames(workbook) });
 
-    return this.parseSheet(workbook, claimsSheetName);
-  }
-
-  private parseSheet(workbook: any, sheetName: string): ClaimRecord[] {
-    const rows = sheetToJson<Record<string, any>>(workbook, sheetName);
+    const sheet = this.mapSheet(workbook, CLAIMS_MAPPING);
     const results: ClaimRecord[] = [];
-    
-    log('info', `Parsing sheet ${sheetName}`, { rowCount: rows.length });
-
-    if (rows.length === 0) return results;
-    
-    const sampleRow = rows[0];
-    const keys = Object.keys(sampleRow);
-    
-    // Map columns
-    const columnMap = {
-      nationality: keys.find(k => 
-        k.toLowerCase().includes('nationality') || 
-        k.toLowerCase().includes('country')
-      ),
-      year: keys.find(k => k.toLowerCase() === 'year'),
-      quarter: keys.find(k => 
-        k.toLowerCase().includes('quarter') ||
-        k.toLowerCase() === 'q'
-      ),
-      total: keys.find(k => 
-        k.toLowerCase().includes('total') && 
-        k.toLowerCase().includes('application')
-      ) || keys.find(k => k.toLowerCase() === 'total'),
-      main_applicant: keys.find(k => 
-        k.toLowerCase().includes('main') ||
-        k.toLowerCase().includes('principal')
-      ),
-      dependants: keys.find(k => 
-        k.toLowerCase().includes('dependant')
-      ),
-      in_country: keys.find(k => 
-        k.toLowerCase().includes('in_country') ||
-        k.toLowerCase().includes('after_entry')
-      ),
-      at_port: keys.find(k => 
-        k.toLowerCase().includes('port') ||
-        k.toLowerCase().includes('on_entry')
-      ),
-    };
-
-    log('info', 'Column mappings for claims', { columnMap });
-
-    for (const row of rows) {
-      if (!columnMap.nationality || !row[columnMap.nationality]) continue;
-      
-      const nationality = String(row[columnMap.nationality]).trim();
-      
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    for (const row of sheet.rows) {
+      const nationality = sheet.get(row, 'nationality');
+      if (!nationality) continue;
+
       // Skip invalid entries
       if (
         nationality.toLowerCase().includes('total') ||
@@ -104,27 +72,21 @@ export class AsylumClaimsIngestor extends BaseIngestor {
         nationality.length < 2
       ) continue;
 
-      const parseNum = (key: string | undefined): number => {
-        if (!key || !row[key]) return 0;
-        const val = row[key];
-        if (typeof val === 'number') return val;
-        const parsed = parseInt(String(val).replace(/[^0-9-]/g, ''), 10);
-        return isNaN(parsed) ? 0 : parsed;
-      };
+      const count = (field: ClaimsField): number => sheet.get(row, field) ?? 0;
 
-      const year = parseNum(columnMap.year) || new Date().getFullYear();
-      const quarter = parseNum(columnMap.quarter) || 1;
+      const year = count('year') || new Date().getFullYear();
+      const quarter = count('quarter') || 1;
 
       const record: ClaimRecord = {
         quarter_end: toQuarterEnd(year, quarter),
         year,
         quarter,
         nationality_name: nationality,
-        claims_main_applicant: parseNum(columnMap.main_applicant),
-        claims_dependants: parseNum(columnMap.dependants),
-        claims_total: parseNum(columnMap.total),
-        claims_in_country: parseNum(columnMap.in_country),
-        claims_at_port: parseNum(columnMap.at_port),
+        claims_main_applicant: count('main_applicant'),
+        claims_dependants: count('dependants'),
+        claims_total: count('total'),
+        claims_in_country: count('in_country'),
+        claims_at_port: count('at_port'),
       };
 
       // Calculate total if not present
@@ -137,35 +99,44 @@ export class AsylumClaimsIngestor extends BaseIngestor {
       }
     }
 
-    return results;
+    // One row per quarter and nationality; the dataset breaks each down further by applicant type and location
+    return sumByKey(
+      results,
+      r => `${formatDateISO(r.quarter_end)}|${r.nationality_name}`,
+      ['claims_main_applicant', 'claims_dependants', 'claims_total', 'claims_in_country', 'claims_at_port']
+    );
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('asylum_claims', [
+        'claims_main_applicant', 'claims_dependants', 'claims_total', 'claims_in_country', 'claims_at_port',
+      ]),
+      periodOnPeriodJump('asylum_claims', 'quarter_end', 'claims_total', 2),
+    ];
   }
 
   protected async load(data: ClaimRecord[]): Promise<void> {
+    const rows = [];
     for (const record of data) {
-      const nationalityId = await this.getNationalityId(record.nationality_name);
-
-      await query(
-        `INSERT INTO asylum_claims (
-          quarter_end, year, quarter, nationality_id, nationality_name,
-          claims_main_applicant, claims_dependants, claims_total,
-          claims_in_country, claims_at_port, ingest_run_id
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-        ON CONFLICT DO NOTHING`,
-        [
-          formatDateISO(record.quarter_end),
-          record.year,
-          record.quarter,
-          nationalityId,
-          record.nationality_name,
-          record.claims_main_applicant,
-          record.claims_dependants,
-          record.claims_total,
-          record.claims_in_country,
-          record.claims_at_port,
-          this.runId,
-        ]
-      );
-      this.recordsInserted++;
+      rows.push({
+        quarter_end: formatDateISO(record.quarter_end),
+        year: record.year,
+        quarter: record.quarter,
+        nationality_id: await this.getNationalityId(record.nationality_name),
+        nationality_name: record.nationality_name,
+        claims_main_applicant: record.claims_main_applicant,
+        claims_dependants: record.claims_dependants,
+        claims_total: record.claims_total,
+        claims_in_country: record.claims_in_country,
+        claims_at_port: record.claims_at_port,
+        ingest_run_id: this.runId,
+      });
     }
+
+    // A re-published quarter replaces its rows, which then belong to this run
+    const result = await bulkUpsert('asylum_claims', rows, ['quarter_end', 'nationality_name']);
+    this.recordsInserted += result.inserted;
+    this.recordsUpdated += result.updated;
   }
 }
@@ -2,8 +2,10 @@
 // Source: Asy_D02 from Immigration System Statistics
 // Includes grant rates calculation
 
-import { BaseIngestor, fetchUrl, parseODS, sheetToJson, getSheetNames } from '../lib/ingest';
-import { query, formatDateISO, log, toQuarterEnd } from '../lib/db';
+import { BaseIngestor, parseODS, getSheetNames, sumByKey } from '../lib/ingest';
+import { bulkUpsert, formatDateISO, log, toQuarterEnd } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, periodOnPeriodJump } from '../lib/quality';
 
 interface DecisionRecord {
   quarter_end: Date;
@@ -21,6 +23,31 @@ interface DecisionRecord {
   grant_rate_pct: number;
 }
 
+type DecisionsField =
+  'nationality' | 'year' | 'quarter' | 'total_decisions' | 'grants_total' | 'granted_asylum' | 'granted_hp' |
+  'granted_dl' | 'granted_uasc' | 'refused' | 'withdrawn';
+
+// Initial decisions per nationality and quarter, by outcome. Totals are declared before the outcome
+// columns so 'Total grants' isn't taken as a grant type
+const DECISIONS_MAPPING: SheetMapping<DecisionsField> = {
+  name: 'decisions',
+  sheets: [/asy_d02/i, /decision/i, /outcome/i],
+  columns: {
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string', required: true },
+    year: { aliases: [/^year$/i], type: 'integer', required: true },
+    quarter: { aliases: [/quarter/i, /^q$/i], type: 'integer', required: true },
+    total_decisions: { aliases: [/total.*decision|decision.*total/i], type: 'integer', unit: 'people' },
+    grants_total: { aliases: [/total.*grant|grant.*total/i], type: 'integer', unit: 'people' },
+    granted_asylum: { aliases: [/refugee/i, /grant.*asylum|asylum.*grant/i], type: 'integer', unit: 'people' },
+    granted_hp: { aliases: [/humanitarian/i, /\bhp\b/i], type: 'integer', unit: 'people' },
+    granted_dl: { aliases: [/discretionary/i, /\bdl\b/i], type: 'integer', unit: 'people' },
+    granted_uasc: { aliases: [/uasc/i], type: 'integer', unit: 'people' },
+    refused: { aliases: [/refus/i], type: 'integer', unit: 'people', required: true },
+    withdrawn: { aliases: [/withdraw/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/region/i, /code$/i, /rate|%/i, /^notes?$/i],
+};
+
 export class AsylumDecisionsIngestor extends BaseIngestor {
   constructor() {
     super('ASY_D02');
@@ -28,119 +55,51 @@ export class AsylumDecisionsIngestor extends BaseIngestor {
 
   protected async fetch(): Promise<Buffer> {
     // Decisions ODS file
-    const url = 'https://assets.publishing.service.gov.uk/media/67149071d23a62e5d32680c3/asylum-outcomes-datasets-sep-2024.ods';
-    return fetchUrl(url);
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+outcomes[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67149071d23a62e5d32680c3/asylum-outcomes-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
   }
 
   protected async parse(buffer: Buffer): Promise<DecisionRecord[]> {
     const workbook = parseODS(buffer);
-    const sheetNames = getSheetNames(workbook);
-    
-    log('info', 'Found sheets in asylum decisions file', { sheets: sheetNames });
-    
-    const decisionSheetName = sheetNames.find(s => 
-      s.toLowerCase().includes('asy_d02') || 
-      s.toLowerCase().includes('decision') ||
-      s.toLowerCase().includes('outcome')
-    );
-
-    if (!decisionSheetName) {
-      throw new Error('Could not find decisions sheet in asylum data');
-    }
 
-    return this.parseSheet(workbook, decisionSheetName);
-  }
+    log('info', 'Found sheets in asylum decisions file', { sheets: getSheetNames(workbook) });
 
-  private parseSheet(workbook: any, sheetName: string): DecisionRecord[] {
-    const rows = sheetToJson<Record<string, any>>(workbook, sheetName);
+    const sheet = this.mapSheet(workbook, DECISIONS_MAPPING);
     const results: DecisionRecord[] = [];
-    
-    log('info', `Parsing sheet ${sheetName}`, { rowCount: rows.length });
 
-    if (rows.length === 0) return results;
-    
-    const sampleRow = rows[0];
-    const keys = Object.keys(sampleRow);
-    
-    // Map columns
-    const columnMap = {
-      nationality: keys.find(k => 
-        k.toLowerCase().includes('nationality') || 
-        k.toLowerCase().includes('country')
-      ),
-      year: keys.find(k => k.toLowerCase() === 'year'),
-      quarter: keys.find(k => 
-        k.toLowerCase().includes('quarter') ||
-        k.toLowerCase() === 'q'
-      ),
-      total_decisions: keys.find(k => 
-        k.toLowerCase().includes('total') && 
-        k.toLowerCase().includes('decision')
-      ),
-      granted_asylum: keys.find(k => 
-        k.toLowerCase().includes('refugee') ||
-        (k.toLowerCase().includes('grant') && k.toLowerCase().includes('asylum'))
-      ),
-      granted_hp: keys.find(k => 
-        k.toLowerCase().includes('humanitarian') ||
-        k.toLowerCase().includes('hp')
-      ),
-      granted_dl: keys.find(k => 
-        k.toLowerCase().includes('discretionary') ||
-        k.toLowerCase().includes('dl')
-      ),
-      granted_uasc: keys.find(k => 
-        k.toLowerCase().includes('uasc')
-      ),
-      grants_total: keys.find(k => 
-        k.toLowerCase().includes('total') && 
-        k.toLowerCase().includes('grant')
-      ),
-      refused: keys.find(k => 
-        k.toLowerCase().includes('refus')
-      ),
-      withdrawn: keys.find(k => 
-        k.toLowerCase().includes('withdraw')
-      ),
-    };
-
-    log('info', 'Column mappings for decisions', { columnMap });
-
-    for (const row of rows) {
-      if (!columnMap.nationality || !row[columnMap.nationality]) continue;
-      
-      const nationality = String(row[columnMap.nationality]).trim();
-      
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    for (const row of sheet.rows) {
+      const nationality = sheet.get(row, 'nationality');
+      if (!nationality) continue;
+
       if (
         nationality.toLowerCase().includes('total') ||
         nationality.toLowerCase() === 'nationality' ||
         nationality.length < 2
       ) continue;
 
-      const parseNum = (key: string | undefined): number => {
-        if (!key || !row[key]) return 0;
-        const val = row[key];
-        if (typeof val === 'number') return val;
-        const parsed = parseInt(String(val).replace(/[^0-9-]/g, ''), 10);
-        return isNaN(parsed) ? 0 : parsed;
-      };
+      const count = (field: DecisionsField): number => sheet.get(row, field) ?? 0;
 
-      const year = parseNum(columnMap.year) || new Date().getFullYear();
-      const quarter = parseNum(columnMap.quarter) || 1;
+      const year = count('year') || new Date().getFullYear();
+      const quarter = count('quarter') || 1;
 
       const record: DecisionRecord = {
         quarter_end: toQuarterEnd(year, quarter),
         year,
         quarter,
         nationality_name: nationality,
-        decisions_total: parseNum(columnMap.total_decisions),
-        granted_asylum: parseNum(columnMap.granted_asylum),
-        granted_hp: parseNum(columnMap.granted_hp),
-        granted_dl: parseNum(columnMap.granted_dl),
-        granted_uasc_leave: parseNum(columnMap.granted_uasc),
-        grants_total: parseNum(columnMap.grants_total),
-        refused: parseNum(columnMap.refused),
-        withdrawn: parseNum(columnMap.withdrawn),
+        decisions_total: count('total_decisions'),
+        granted_asylum: count('granted_asylum'),
+        granted_hp: count('granted_hp'),
+        granted_dl: count('granted_dl'),
+        granted_uasc_leave: count('granted_uasc'),
+        grants_total: count('grants_total'),
+        refused: count('refused'),
+        withdrawn: count('withdrawn'),
         grant_rate_pct: 0,
       };
 
@@ -155,52 +114,67 @@ export class AsylumDecisionsIngestor extends BaseIngestor {
         record.decisions_total = record.grants_total + record.refused + record.withdrawn;
       }
 
+      if (record.decisions_total > 0) {
+        results.push(record);
+      }
+    }
+
+    // One row per quarter and nationality; the dataset breaks each down further by applicant type and case outcome
+    const merged = sumByKey(
+      results,
+      r => `${formatDateISO(r.quarter_end)}|${r.nationality_name}`,
+      ['decisions_total', 'granted_asylum', 'granted_hp', 'granted_dl', 'granted_uasc_leave', 'grants_total', 'refused', 'withdrawn']
+    );
+
+    for (const record of merged) {
       // Calculate grant rate (excluding withdrawn from denominator)
       const substantiveDecisions = record.grants_total + record.refused;
       if (substantiveDecisions > 0) {
         record.grant_rate_pct = Math.round((record.grants_total / substantiveDecisions) * 1000) / 10;
       }
-
-      if (record.decisions_total > 0) {
-        results.push(record);
-      }
     }
 
-    return results;
+    return merged;
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('asylum_decisions', [
+        'decisions_total', 'granted_asylum', 'granted_hp', 'granted_dl', 'granted_uasc_leave',
+        'grants_total', 'refused', 'withdrawn',
+      ]),
+      valuesInRange('asylum_decisions', 'grant_rate_pct', 0, 100),
+      periodOnPeriodJump('asylum_decisions', 'quarter_end', 'decisions_total', 2),
+    ];
   }
 
   protected async load(data: DecisionRecord[]): Promise<void> {
+    const rows = [];
     for (const record of data) {
-      const nationalityId = await this.getNationalityId(record.nationality_name);
-
-      await query(
-        `INSERT INTO asylum_decisions (
-          quarter_end, year, quarter, nationality_id, nationality_name,
-          decisions_total, granted_asylum, granted_hp, granted_dl, granted_uasc_leave,
-          grants_total, refused, withdrawn, grant_rate_pct, ingest_run_id
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-        ON CONFLICT DO NOTHING`,
-        [
-          formatDateISO(record.quarter_end),
-          record.year,
-          record.quarter,
-          nationalityId,
-          record.nationality_name,
-          record.decisions_total,
-          record.granted_asylum,
-          record.granted_hp,
-          record.granted_dl,
-          record.granted_uasc_leave,
-          record.grants_total,
-          record.refused,
-          record.withdrawn,
-          record.grant_rate_pct,
-          this.runId,
-        ]
-      );
-      this.recordsInserted++;
+      rows.push({
+        quarter_end: formatDateISO(record.quarter_end),
+        year: record.year,
+        quarter: record.quarter,
+        nationality_id: await this.getNationalityId(record.nationality_name),
+        nationality_name: record.nationality_name,
+        decisions_total: record.decisions_total,
+        granted_asylum: record.granted_asylum,
+        granted_hp: record.granted_hp,
+        granted_dl: record.granted_dl,
+        granted_uasc_leave: record.granted_uasc_leave,
+        grants_total: record.grants_total,
+        refused: record.refused,
+        withdrawn: record.withdrawn,
+        grant_rate_pct: record.grant_rate_pct,
+        ingest_run_id: this.runId,
+      });
     }
 
+    // A re-published quarter replaces its rows, which then belong to this run
+    const result = await bulkUpsert('asylum_decisions', rows, ['quarter_end', 'nationality_name']);
+    this.recordsInserted += result.inserted;
+    this.recordsUpdated += result.updated;
+
     // Log top grant rates for verification
     const topRates = data
       .filter(d => d.decisions_total >= 100)
@@ -2,8 +2,11 @@
 // Source: Asy_D11 from Immigration System Statistics
 // URL: https://www.gov.uk/government/statistical-data-sets/immigration-system-statistics-data-tables
 
-import { BaseIngestor, fetchUrl, parseODS, sheetToJson, getSheetNames } from '../lib/ingest';
-import { query, formatDateISO, log, getOne } from '../lib/db';
+import { BaseIngestor, parseODS, getSheetNames, sumByKey } from '../lib/ingest';
+import { query, bulkUpsert, formatDateISO, log, getOne } from '../lib/db';
+import { computePressureIndex } from '../lib/pressure';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, rowCountInRange, sumMatchesTotal, periodOnPeriodJump } from '../lib/quality';
 
 interface LASupport {
   snapshot_date: Date;
@@ -21,180 +24,107 @@ interface LASupport {
   dependants: number;
 }
 
+type LASupportField =
+  'la_name' | 'region' | 'date' | 'total' | 'section_95' | 'section_4' | 'section_98' | 'dispersed' |
+  'initial' | 'hotel' | 'subsistence' | 'main_applicant' | 'dependants';
+
+// One row per LA: people supported by support type and accommodation type at the quarter end
+const LA_SUPPORT_MAPPING: SheetMapping<LASupportField> = {
+  name: 'la_support',
+  sheets: [/asy_d11/i, /local[\s_]authority/i, /la[\s_]level/i, /^la\b/i],
+  columns: {
+    la_name: { aliases: [/authority/i, /council/i, /la[\s_]name/i, /^la$/i], exclude: /code/i, type: 'string', required: true },
+    region: { aliases: [/region/i, /area/i], exclude: /code/i, type: 'string' },
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'date' },
+    total: { aliases: [/total/i], exclude: /sub/i, type: 'integer', unit: 'people', required: true },
+    section_95: { aliases: [/section[\s_]?95/i, /\bs95\b/i], type: 'integer', unit: 'people' },
+    section_4: { aliases: [/section[\s_]?4\b/i, /\bs4\b/i], type: 'integer', unit: 'people' },
+    section_98: { aliases: [/section[\s_]?98/i, /\bs98\b/i], type: 'integer', unit: 'people' },
+    dispersed: { aliases: [/dispersed/i], type: 'integer', unit: 'people' },
+    initial: { aliases: [/initial/i], type: 'integer', unit: 'people' },
+    hotel: { aliases: [/hotel/i, /contingency/i], type: 'integer', unit: 'people' },
+    subsistence: { aliases: [/subsistence/i], type: 'integer', unit: 'people' },
+    main_applicant: { aliases: [/main[\s_]applicant/i, /applicant/i], exclude: /dependant/i, type: 'integer', unit: 'people' },
+    dependants: { aliases: [/dependant/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/code$/i, /^notes?$/i],
+};
+
 export class AsylumSupportLAIngestor extends BaseIngestor {
   constructor() {
     super('ASY_D11');
   }
 
   protected async fetch(): Promise<Buffer> {
-    // The main immigration statistics data tables ODS
-    // Note: This URL may need updating when new releases are published
-    const url = 'https://assets.publishing.service.gov.uk/media/67148c4930536cb927482c15/asylum-support-datasets-sep-2024.ods';
-    
-    // Alternative: Use the discovery page to find the latest
-    // https://www.gov.uk/government/statistical-data-sets/immigration-system-statistics-data-tables
-    
-    return fetchUrl(url);
+    // Asylum support datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+support[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148c4930536cb927482c15/asylum-support-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
   }
 
   protected async parse(buffer: Buffer): Promise<LASupport[]> {
     const workbook = parseODS(buffer);
-    const sheetNames = getSheetNames(workbook);
-    
-    log('info', 'Found sheets in asylum support file', { sheets: sheetNames });
-    
-    // Find the LA-level sheet (usually "Asy_D11" or contains "local_authority")
-    const laSheetName = sheetNames.find(s => 
-      s.toLowerCase().includes('asy_d11') || 
-      s.toLowerCase().includes('local_authority') ||
-      s.toLowerCase().includes('la_level') ||
-      s.toLowerCase().includes('la ')
-    );
-
-    if (!laSheetName) {
-      // Try to find any sheet with LA data
-      for (const sheetName of sheetNames) {
-        const rows = sheetToJson<Record<string, any>>(workbook, sheetName);
-        if (rows.length > 0) {
-          const firstRow = rows[0];
-          const keys = Object.keys(firstRow);
-          if (keys.some(k => k.toLowerCase().includes('authority') || k.toLowerCase().includes('council'))) {
-            return this.parseSheet(workbook, sheetName);
-          }
-        }
-      }
-      throw new Error('Could not find LA-level sheet in asylum support data');
-    }
 
-    return this.parseSheet(workbook, laSheetName);
-  }
+    log('info', 'Found sheets in asylum support file', { sheets: getSheetNames(workbook) });
 
-  private parseSheet(workbook: any, sheetName: string): LASupport[] {
-    const rows = sheetToJson<Record<string, any>>(workbook, sheetName);
+    const sheet = this.mapSheet(workbook, LA_SUPPORT_MAPPING);
     const results: LASupport[] = [];
-    
-    log('info', `Parsing sheet ${sheetName}`, { rowCount: rows.length });
 
-    // Detect column mappings
-    if (rows.length === 0) return results;
-    
-    const sampleRow = rows[0];
-    const keys = Object.keys(sampleRow);
-    
-    // Map column names to our fields
-    const columnMap = {
-      la_name: keys.find(k => 
-        k.toLowerCase().includes('authority') || 
-        k.toLowerCase().includes('council') ||
-        k.toLowerCase().includes('la_name') ||
-        k.toLowerCase() === 'la'
-      ),
-      region: keys.find(k => 
-        k.toLowerCase().includes('region') ||
-        k.toLowerCase().includes('area')
-      ),
-      total: keys.find(k => 
-        k.toLowerCase().includes('total') && 
-        !k.toLowerCase().includes('sub')
-      ),
-      section_95: keys.find(k => 
-        k.toLowerCase().includes('section_95') || 
-        k.toLowerCase().includes('s95') ||
-        (k.toLowerCase().includes('95') && k.toLowerCase().includes('section'))
-      ),
-      section_4: keys.find(k => 
-        k.toLowerCase().includes('section_4') || 
-        k.toLowerCase().includes('s4') ||
-        (k.toLowerCase().includes('4') && k.toLowerCase().includes('section'))
-      ),
-      dispersed: keys.find(k => 
-        k.toLowerCase().includes('dispersed')
-      ),
-      initial: keys.find(k => 
-        k.toLowerCase().includes('initial')
-      ),
-      hotel: keys.find(k => 
-        k.toLowerCase().includes('hotel') ||
-        k.toLowerCase().includes('contingency')
-      ),
-      subsistence: keys.find(k => 
-        k.toLowerCase().includes('subsistence')
-      ),
-      main_applicant: keys.find(k => 
-        k.toLowerCase().includes('main') ||
-        k.toLowerCase().includes('applicant')
-      ),
-      dependants: keys.find(k => 
-        k.toLowerCase().includes('dependant')
-      ),
-      date: keys.find(k => 
-        k.toLowerCase().includes('date') ||
-        k.toLowerCase().includes('quarter') ||
-        k.toLowerCase().includes('period')
-      ),
-    };
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
 
-    log('info', 'Column mappings detected', { columnMap });
-
-    // Determine snapshot date from filename or content
-    // Format is usually "As at [date]" or embedded in the data
+    // Determine snapshot date from the data; the table is "as at" a single quarter end
     let snapshotDate = new Date();
-    
-    // Try to extract from data
-    for (const row of rows) {
-      if (columnMap.date && row[columnMap.date]) {
-        const dateVal = row[columnMap.date];
-        if (typeof dateVal === 'number') {
-          // Excel serial date
-          snapshotDate = new Date((dateVal - 25569) * 86400 * 1000);
-        } else if (typeof dateVal === 'string') {
-          // Try parsing
-          const parsed = new Date(dateVal);
-          if (!isNaN(parsed.getTime())) {
-            snapshotDate = parsed;
-          }
-        }
+    for (const row of sheet.rows) {
+      const date = sheet.get(row, 'date');
+      if (date) {
+        snapshotDate = date;
         break;
       }
     }
 
-    // Parse each row
-    for (const row of rows) {
-      if (!columnMap.la_name || !row[columnMap.la_name]) continue;
-      
-      const laName = String(row[columnMap.la_name]).trim();
-      
-      // Skip header rows, totals, and invalid entries
+    // The sheet's own grand total (the largest 'Total' row; the others are regional subtotals), less
+    // people it can't place in an LA, is what the loaded LA rows are checked against
+    let publishedTotal = 0;
+    let unplaced = 0;
+
+    for (const row of sheet.rows) {
+      const laName = sheet.get(row, 'la_name');
+      if (!laName) continue;
+
+      const count = (field: LASupportField): number => sheet.get(row, field) ?? 0;
+
+      if (laName.toLowerCase().includes('total')) {
+        publishedTotal = Math.max(publishedTotal, count('total'));
+        continue;
+      }
+      if (laName.toLowerCase().includes('unknown')) {
+        unplaced += count('total');
+        continue;
+      }
+
+      // Skip header rows and invalid entries
       if (
-        laName.toLowerCase().includes('total') ||
-        laName.toLowerCase().includes('unknown') ||
         laName.toLowerCase() === 'la' ||
         laName.toLowerCase() === 'local authority' ||
         laName.length < 3
       ) continue;
 
-      const parseNum = (key: string | undefined): number => {
-        if (!key || !row[key]) return 0;
-        const val = row[key];
-        if (typeof val === 'number') return val;
-        const parsed = parseInt(String(val).replace(/[^0-9-]/g, ''), 10);
-        return isNaN(parsed) ? 0 : parsed;
-      };
-
       const record: LASupport = {
         snapshot_date: snapshotDate,
         la_name: laName,
-        region: columnMap.region ? String(row[columnMap.region] || '').trim() : '',
-        total_supported: parseNum(columnMap.total),
-        section_95: parseNum(columnMap.section_95),
-        section_4: parseNum(columnMap.section_4),
-        section_98: 0, // Often not broken out
-        dispersed: parseNum(columnMap.dispersed),
-        initial_accommodation: parseNum(columnMap.initial),
-        hotel: parseNum(columnMap.hotel),
-        subsistence_only: parseNum(columnMap.subsistence),
-        main_applicants: parseNum(columnMap.main_applicant),
-        dependants: parseNum(columnMap.dependants),
+        region: sheet.get(row, 'region') || '',
+        total_supported: count('total'),
+        section_95: count('section_95'),
+        section_4: count('section_4'),
+        section_98: count('section_98'),
+        dispersed: count('dispersed'),
+        initial_accommodation: count('initial'),
+        hotel: count('hotel'),
+        subsistence_only: count('subsistence'),
+        main_applicants: count('main_applicant'),
+        dependants: count('dependants'),
       };
 
       // If total is 0 but we have components, calculate it
@@ -208,11 +138,43 @@ export class AsylumSupportLAIngestor extends BaseIngestor {
       }
     }
 
-    log('info', `Parsed ${results.length} LA records`);
-    return results;
+    // An LA split over several rows (by support type, or by ward) is loaded as one
+    const merged = sumByKey(results, r => r.la_name, [
+      'total_supported', 'section_95', 'section_4', 'section_98', 'dispersed',
+      'initial_accommodation', 'hotel', 'subsistence_only', 'main_applicants', 'dependants',
+    ]);
+
+    this.runMetadata.published_total = publishedTotal > 0
+      ? { period: formatDateISO(snapshotDate), total: publishedTotal - unplaced }
+      : null;
+
+    log('info', `Parsed ${merged.length} LA records`, { published_total: publishedTotal, unplaced });
+    return merged;
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('asylum_support_la', [
+        'total_supported', 'section_95', 'section_4', 'section_98', 'dispersed',
+        'initial_accommodation', 'hotel', 'subsistence_only', 'main_applicants', 'dependants',
+      ]),
+      valuesInRange('asylum_support_la', 'hotel_share_pct', 0, 100),
+      // 361 UK councils; not every one supports people in every quarter
+      rowCountInRange('asylum_support_la', 'snapshot_date', 200, 400),
+      sumMatchesTotal(
+        'la_sum_matches_national_total',
+        'asylum_support_la',
+        'snapshot_date',
+        'total_supported',
+        ctx => ctx.metadata.published_total || null,
+        2
+      ),
+      periodOnPeriodJump('asylum_support_la', 'snapshot_date', 'total_supported', 1.5),
+    ];
   }
 
   protected async load(data: LASupport[]): Promise<void> {
+    const rows = [];
     for (const record of data) {
       // Look up LA ID
       const laId = await this.getLAId(record.la_name);
@@ -235,37 +197,37 @@ export class AsylumSupportLAIngestor extends BaseIngestor {
         finalLaId = insertResult.rows[0]?.id;
       }
 
-      await query(
-        `INSERT INTO asylum_support_la (
-          snapshot_date, la_id, la_name, region,
-          total_supported, section_95, section_4, section_98,
-          dispersed, initial_accommodation, hotel, subsistence_only,
-          main_applicants, dependants, ingest_run_id
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-        ON CONFLICT DO NOTHING`,
-        [
-          formatDateISO(record.snapshot_date),
-          finalLaId,
-          record.la_name,
-          record.region,
-          record.total_supported,
-          record.section_95,
-          record.section_4,
-          record.section_98,
-          record.dispersed,
-          record.initial_accommodation,
-          record.hotel,
-          record.subsistence_only,
-          record.main_applicants,
-          record.dependants,
-          this.runId,
-        ]
-      );
-      this.recordsInserted++;
+      rows.push({
+        snapshot_date: formatDateISO(record.snapshot_date),
+        la_id: finalLaId,
+        la_name: record.la_name,
+        region: record.region,
+        total_supported: record.total_supported,
+        section_95: record.section_95,
+        section_4: record.section_4,
+        section_98: record.section_98,
+        dispersed: record.dispersed,
+        initial_accommodation: record.initial_accommodation,
+        hotel: record.hotel,
+        subsistence_only: record.subsistence_only,
+        main_applicants: record.main_applicants,
+        dependants: record.dependants,
+        ingest_run_id: this.runId,
+      });
     }
 
+    // A re-published snapshot replaces its rows, which then belong to this run
+    const result = await bulkUpsert('asylum_support_la', rows, ['snapshot_date', 'la_name']);
+    this.recordsInserted += result.inserted;
+    this.recordsUpdated += result.updated;
+
     // Trigger calculation of derived metrics
     await this.calculateDerivedMetrics(data[0]?.snapshot_date);
+
+    // Pressure index components read the derived metrics, so it is scored last
+    if (data[0]) {
+      await computePressureIndex(formatDateISO(data[0].snapshot_date));
+    }
   }
 
   private async calculateDerivedMetrics(snapshotDate?: Date): Promise<void> {
@@ -273,14 +235,12 @@ export class AsylumSupportLAIngestor extends BaseIngestor {
 
     const dateStr = formatDateISO(snapshotDate);
 
-    // Update per_10k_population
+    // Update per_10k_population against the population estimate for the snapshot year
     await query(`
       UPDATE asylum_support_la asl
-      SET per_10k_population = ROUND((asl.total_supported::DECIMAL / la.population) * 10000, 2)
-      FROM local_authorities la
-      WHERE asl.la_id = la.id 
-        AND asl.snapshot_date = $1
-        AND la.population > 0
+      SET per_10k_population = ROUND((asl.total_supported::DECIMAL / la_population_at(asl.la_id, asl.snapshot_date)) * 10000, 2)
+      WHERE asl.snapshot_date = $1
+        AND la_population_at(asl.la_id, asl.snapshot_date) > 0
     `, [dateStr]);
 
     // Update national_share_pct
@@ -0,0 +1,136 @@
+// Refused Entry at Port - Quarterly ODS Parser
+// Source: Adm_D02 from Immigration System Statistics (admissions datasets)
+// Passengers refused entry at UK ports and juxtaposed controls, by nationality and type of port
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface RefusalRecord {
+  quarter_end: Date;
+  nationality_name: string | null;
+  port_type: string | null;
+  refusals: number;
+}
+
+type RefusalsField = 'date' | 'year' | 'nationality' | 'port' | 'count';
+
+// Passengers refused entry per quarter, split by nationality, port or control type, region and age
+const REFUSALS_MAPPING: SheetMapping<RefusalsField> = {
+  name: 'border_refusals',
+  sheets: [/adm_d02/i, /refus/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    port: { aliases: [/port/i, /control/i], exclude: /number|refus|count/i, type: 'string' },
+    count: { aliases: [/number/i, /refus/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /age/i, /sex/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+/**
+ * Map the published port or control type onto air, sea or rail. Channel Tunnel and Eurostar
+ * controls count as rail; ferry ports and the Dover juxtaposed controls as sea.
+ */
+function toPortType(label: string): string {
+  const l = label.toLowerCase();
+  if (l.includes('air')) return 'air';
+  if (l.includes('rail') || l.includes('tunnel') || l.includes('eurostar')) return 'rail';
+  if (l.includes('sea') || l.includes('ferry') || l.includes('juxtaposed')) return 'sea';
+  return 'other';
+}
+
+export class BorderRefusalsIngestor extends BaseIngestor {
+  constructor() {
+    super('ADM_D02');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Admissions datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /admissions[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148c0ed23a62e5d32680b5/admissions-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<RefusalRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in admissions file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, REFUSALS_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split by region, age group, etc. are summed per quarter, nationality and port type
+    const results = new Map<string, RefusalRecord>();
+
+    for (const row of sheet.rows) {
+      const nationality = sheet.get(row, 'nationality') || '';
+      const portLabel = sheet.get(row, 'port') || '';
+      if ([nationality, portLabel].some(v => v.toLowerCase().includes('total'))) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const portType = portLabel ? toPortType(portLabel) : null;
+      const key = `${formatDateISO(quarterEnd)}|${nationality}|${portType || ''}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality || null,
+        port_type: portType,
+        refusals: 0,
+      };
+      existing.refusals += count;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('border_refusals', ['refusals']),
+      // One row per nationality and port type
+      rowCountInRange('border_refusals', 'quarter_end', 1, 2000),
+    ];
+  }
+
+  protected async load(data: RefusalRecord[]): Promise<void> {
+    for (const record of data) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO border_refusals (
+          quarter_end, nationality_id, nationality_name, refusals, port_type, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, '')), (COALESCE(port_type, ''))) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          refusals = EXCLUDED.refusals,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.refusals,
+          record.port_type,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = data.reduce<Record<string, number>>((acc, r) => {
+      const portType = r.port_type || 'unknown';
+      acc[portType] = (acc[portType] || 0) + r.refusals;
+      return acc;
+    }, {});
+    log('info', 'Refusals at port loaded by port type', { totals });
+  }
+}
@@ -0,0 +1,285 @@
+// Index of Multiple Deprivation - CSV/ODS/XLSX Parser
+// Source: English IMD 2019 (MHCLG), Welsh WIMD and Scottish SIMD files downloaded to a local directory
+// LA deprivation rank and score; small-area files (LSOA / data zone) are aggregated to their council
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseIngestor, parseCSV, parseODS, getSheetNames } from '../lib/ingest';
+import { query, log } from '../lib/db';
+import { SheetMapping, MappedSheet, ColumnSpec, resolveSheet } from '../lib/mapping';
+import { QualityAssertion } from '../lib/quality';
+import { computePressureIndex } from '../lib/pressure';
+
+interface DeprivationFile {
+  name: string;
+  buffer: Buffer;
+}
+
+interface DeprivationRecord {
+  la_code: string | null;
+  la_name: string | null;
+  imd_source: string;
+  imd_rank: number;
+  imd_score: number | null;
+  small_areas: number | null;
+}
+
+// The indices are published as spreadsheets on gov.uk, gov.wales and gov.scot, so they are read from disk
+const DEFAULT_DEPRIVATION_PATH = 'data/deprivation';
+
+const NATION_INDEX: Record<string, string> = { E: 'IMD', W: 'WIMD', S: 'SIMD' };
+
+// 'WIMD 2019', 'SIMD2020v2_Rank', 'File_10_-_IoD2019...' -> index name and edition
+function indexLabel(text: string): string | null {
+  const match = text.match(/(wimd|simd|imd|iod)[\s_-]*(\d{4})/i);
+  if (!match) return null;
+  const name = match[1].toUpperCase() === 'IOD' ? 'IMD' : match[1].toUpperCase();
+  return `${name} ${match[2]}`;
+}
+
+// Headers naming the overall index rather than one of its domains
+const INDEX = '(?:(?:^|[^a-z])(?:w|s)?imd|index of multiple deprivation)';
+
+type DeprivationField = 'la_code' | 'la_name' | 'area_code' | 'la_rank' | 'la_score' | 'area_rank' | 'area_score';
+
+// Domain columns are headed '<domain> - <measure>', so a measure is read from a header naming the index or
+// carrying no domain prefix
+const DEPRIVATION_COLUMNS: Record<DeprivationField, ColumnSpec> = {
+  la_code: { aliases: [/^(?=.*(local authority|council|^la\b|lad\d{2}))(?=.*(code|cd$))/i], type: 'string' },
+  la_name: { aliases: [/local authority|council/i], exclude: /code/i, type: 'string' },
+  area_code: { aliases: [/lsoa.*code|data[\s_]?zone/i], type: 'string' },
+  // LA summaries: rank of the average small-area rank, 1 = most deprived
+  la_rank: {
+    aliases: [new RegExp(`^(?=.*rank of average rank)(?=.*${INDEX})`, 'i'), /^(?!.*-).*rank of average rank/i],
+    type: 'number',
+  },
+  la_score: {
+    aliases: [new RegExp(`^(?=.*average score)(?=.*${INDEX})`, 'i'), /^(?!.*-).*average score/i],
+    exclude: /rank/i,
+    type: 'number',
+  },
+  // Small-area files: overall index rank, 'WIMD 2019' carries the rank with no 'rank' in the header
+  area_rank: {
+    aliases: [new RegExp(`^(?=.*rank)(?=.*${INDEX})`, 'i'), /^(w|s)imd\s*\d{4}$/i],
+    exclude: /decile|quintile|average|domain/i,
+    type: 'number',
+  },
+  area_score: { aliases: [new RegExp(`^(?=.*score)(?=.*${INDEX})`, 'i')], exclude: /rank|decile/i, type: 'number' },
+};
+
+// Domain ranks, scores and deciles, and population denominators, are published alongside the overall index
+const DEPRIVATION_IGNORE = [/rank|score|decile|quintile|extent|concentration|proportion|population|name|code/i];
+
+// File 10 of the English indices opens with a notes sheet; the overall index is on 'IMD'
+const LA_MAPPING: SheetMapping<DeprivationField> = {
+  name: 'deprivation_la',
+  sheets: [/^(w|s)?imd/i],
+  columns: { ...DEPRIVATION_COLUMNS, la_rank: { ...DEPRIVATION_COLUMNS.la_rank, required: true } },
+  ignore: DEPRIVATION_IGNORE,
+};
+
+const AREA_MAPPING: SheetMapping<DeprivationField> = {
+  name: 'deprivation_small_area',
+  sheets: [/^(w|s)?imd/i],
+  columns: { ...DEPRIVATION_COLUMNS, area_rank: { ...DEPRIVATION_COLUMNS.area_rank, required: true } },
+  ignore: DEPRIVATION_IGNORE,
+};
+
+export class DeprivationIngestor extends BaseIngestor {
+  constructor() {
+    super('IMD_2019');
+  }
+
+  protected async fetch(): Promise<DeprivationFile[]> {
+    return this.readLocalFile(path.resolve(process.env.IMD_PATH || DEFAULT_DEPRIVATION_PATH));
+  }
+
+  // A single file or a directory holding one file per nation
+  protected async readLocalFile(target: string): Promise<DeprivationFile[]> {
+    if (!fs.existsSync(target)) {
+      throw new Error(`Deprivation file or directory not found: ${target} (set IMD_PATH)`);
+    }
+
+    const files = fs.statSync(target).isDirectory()
+      ? fs.readdirSync(target)
+          .filter(f => /\.(csv|ods|xlsx?)$/i.test(f))
+          .sort()
+          .map(f => path.join(target, f))
+      : [target];
+
+    if (files.length === 0) {
+      throw new Error(`No CSV, ODS or XLSX files found in ${target}`);
+    }
+
+    return Promise.all(files.map(async f => ({ name: path.basename(f), buffer: await fs.promises.readFile(f) })));
+  }
+
+  protected async parse(files: DeprivationFile[]): Promise<DeprivationRecord[]> {
+    const results: DeprivationRecord[] = [];
+
+    for (const file of files) {
+      const workbook = /\.csv$/i.test(file.name) ? parseCSV(file.buffer) : parseODS(file.buffer);
+
+      log('info', 'Found sheets in deprivation file', { file: file.name, sheets: getSheetNames(workbook) });
+
+      // Council summaries first; a file that isn't one must be a small-area file, so its drift is the one reported
+      const isLALevel = resolveSheet(workbook, LA_MAPPING)?.drift.missing_required.length === 0;
+      const layout = isLALevel ? LA_MAPPING : AREA_MAPPING;
+      const sheet = this.mapSheet(workbook, { ...layout, name: `${layout.name}:${file.name}` });
+
+      results.push(...this.parseSheet(sheet, isLALevel, file.name));
+    }
+
+    if (results.length === 0) {
+      throw new Error('Could not find deprivation ranks in any file');
+    }
+
+    return results;
+  }
+
+  private parseSheet(sheet: MappedSheet<DeprivationField>, isLALevel: boolean, fileName: string): DeprivationRecord[] {
+    if (!sheet.has('la_code') && !sheet.has('la_name')) {
+      throw new Error(`Deprivation sheet ${sheet.sheetName} in ${fileName} has neither a council code nor a council name column`);
+    }
+
+    log('info', `Parsing deprivation sheet ${sheet.sheetName}`, { file: fileName, rowCount: sheet.rows.length, layout: isLALevel ? 'la' : 'small_area' });
+
+    // Nation from the codes where present, otherwise from the file name
+    const codeField = sheet.has('la_code') ? 'la_code' : 'area_code';
+    const firstCode = (sheet.rows.map(row => sheet.get(row, codeField)).find(Boolean) || '').toUpperCase();
+    const nation = NATION_INDEX[firstCode.charAt(0)]
+      ? firstCode.charAt(0)
+      : /wimd|wales|welsh/i.test(fileName) ? 'W' : /simd|scot/i.test(fileName) ? 'S' : 'E';
+    const imdSource = indexLabel(fileName) || indexLabel(sheet.columns.area_rank || '') || NATION_INDEX[nation];
+
+    const laKey = (row: Record<string, any>) => {
+      const code = (sheet.get(row, 'la_code') || '').toUpperCase();
+      const name: string = sheet.get(row, 'la_name') || '';
+      return { code: code || null, name: name || null };
+    };
+
+    if (isLALevel) {
+      const records: DeprivationRecord[] = [];
+      for (const row of sheet.rows) {
+        const { code, name } = laKey(row);
+        const rank: number | null = sheet.get(row, 'la_rank');
+        if ((!code && !name) || rank === null) continue;
+        if ([code, name].some(v => v && v.toLowerCase().includes('total'))) continue;
+
+        records.push({
+          la_code: code,
+          la_name: name,
+          imd_source: imdSource,
+          imd_rank: Math.round(rank),
+          imd_score: sheet.get(row, 'la_score'),
+          small_areas: null,
+        });
+      }
+      return records;
+    }
+
+    // Average the small-area ranks per council, then rank councils on that average (1 = most deprived)
+    const councils = new Map<string, { code: string | null; name: string | null; rankSum: number; scoreSum: number; scored: number; areas: number }>();
+
+    for (const row of sheet.rows) {
+      const { code, name } = laKey(row);
+      const rank: number | null = sheet.get(row, 'area_rank');
+      if ((!code && !name) || rank === null) continue;
+
+      const key = code || name!.toLowerCase();
+      const existing = councils.get(key) || { code, name, rankSum: 0, scoreSum: 0, scored: 0, areas: 0 };
+      existing.rankSum += rank;
+      existing.areas++;
+
+      const score: number | null = sheet.get(row, 'area_score');
+      if (score !== null) {
+        existing.scoreSum += score;
+        existing.scored++;
+      }
+      councils.set(key, existing);
+    }
+
+    return Array.from(councils.values())
+      .map(c => ({ ...c, averageRank: c.rankSum / c.areas }))
+      .sort((a, b) => a.averageRank - b.averageRank)
+      .map((c, i) => ({
+        la_code: c.code,
+        la_name: c.name,
+        imd_source: imdSource,
+        imd_rank: i + 1,
+        imd_score: c.scored > 0 ? Math.round(c.scoreSum / c.scored * 10000) / 10000 : null,
+        small_areas: c.areas,
+      }));
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      // local_authorities rows carry no ingest_run_id, so the councils ranked on each index the run loaded are checked
+      {
+        name: 'imd_ranks_valid:local_authorities',
+        severity: 'critical',
+        async check(ctx) {
+          const sources: string[] = ctx.metadata.imd_sources || [];
+          const result = await query(`
+            SELECT
+              COUNT(*)::int AS ranked,
+              COUNT(*) FILTER (WHERE imd_rank < 1 OR imd_score < 0)::int AS invalid
+            FROM local_authorities
+            WHERE imd_source = ANY($1)
+          `, [sources]);
+
+          const { ranked, invalid } = result.rows[0];
+          const passed = ranked > 0 && invalid === 0;
+          return {
+            passed,
+            observed: { sources, ranked, invalid },
+            expected: { ranked: '> 0', invalid: 0 },
+            message: passed
+              ? `${ranked} councils ranked on ${sources.join(', ')}`
+              : ranked === 0
+                ? 'No council was ranked'
+                : `${invalid} of ${ranked} councils have a rank below 1 or a negative score`,
+          };
+        },
+      },
+    ];
+  }
+
+  protected async load(data: DeprivationRecord[]): Promise<void> {
+    const unmatched: string[] = [];
+
+    for (const record of data) {
+      const laId = (record.la_code && await this.getLAId(record.la_code)) ||
+        (record.la_name && await this.getLAId(record.la_name)) ||
+        null;
+
+      if (!laId) {
+        unmatched.push(record.la_code || record.la_name!);
+        continue;
+      }
+
+      await query(
+        `UPDATE local_authorities
+        SET imd_rank = $1, imd_score = $2, imd_source = $3, updated_at = NOW()
+        WHERE id = $4`,
+        [record.imd_rank, record.imd_score, record.imd_source, laId]
+      );
+      this.recordsUpdated++;
+    }
+
+    const bySource = data.reduce<Record<string, number>>((acc, r) => {
+      acc[r.imd_source] = (acc[r.imd_source] || 0) + 1;
+      return acc;
+    }, {});
+    this.runMetadata.imd_sources = Object.keys(bySource);
+
+    log('info', 'Deprivation ranks loaded', {
+      councils_by_index: bySource,
+      local_authorities_updated: this.recordsUpdated,
+      unmatched,
+    });
+
+    // Deprivation feeds every snapshot's pressure index
+    await computePressureIndex();
+  }
+}
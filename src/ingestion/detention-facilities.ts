@@ -0,0 +1,128 @@
+// Detention by Facility - Quarterly ODS Parser
+// Source: Det_D02 from Immigration System Statistics (detention datasets)
+// People in detention at quarter end by place of detention, matched to detention_facilities
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, getOne, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, rowCountInRange } from '../lib/quality';
+
+interface FacilityPopulationRecord {
+  snapshot_date: Date;
+  facility_name: string;
+  population: number;
+}
+
+type FacilityField = 'date' | 'year' | 'facility' | 'count';
+
+// People in detention on the last day of each quarter by place of detention, split by nationality, sex and age
+const FACILITY_MAPPING: SheetMapping<FacilityField> = {
+  name: 'detention_facilities',
+  sheets: [/det_d02/i, /facility/i, /place/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    facility: { aliases: [/place/i, /facility/i, /centre/i, /location/i], type: 'string', required: true },
+    count: { aliases: [/number/i, /people/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/nationality/i, /region/i, /sex/i, /age/i, /type/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class DetentionFacilitiesIngestor extends BaseIngestor {
+  constructor() {
+    super('DET_D02');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Detention datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /detention[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148c6530536cb927482c17/detention-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<FacilityPopulationRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in detention file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, FACILITY_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split by nationality, sex, etc. are summed per facility
+    const results = new Map<string, FacilityPopulationRecord>();
+
+    for (const row of sheet.rows) {
+      const facility: string | null = sheet.get(row, 'facility');
+      if (!facility || facility.toLowerCase().includes('total')) continue;
+
+      const snapshotDate = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!snapshotDate) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const key = `${formatDateISO(snapshotDate)}|${facility}`;
+      const existing = results.get(key) || { snapshot_date: snapshotDate, facility_name: facility, population: 0 };
+      existing.population += count;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('detention_population', ['population', 'capacity']),
+      // Warning only: a centre can briefly hold more than its contracted capacity
+      valuesInRange('detention_population', 'occupancy_pct', 0, 100, 'warning'),
+      // Immigration removal centres, short-term holding facilities and pre-departure accommodation
+      rowCountInRange('detention_population', 'snapshot_date', 1, 60),
+    ];
+  }
+
+  protected async load(data: FacilityPopulationRecord[]): Promise<void> {
+    const unmatched = new Set<string>();
+
+    for (const record of data) {
+      const facilityId = await this.getFacilityId(record.facility_name);
+      if (!facilityId) unmatched.add(record.facility_name);
+
+      const facility = facilityId
+        ? await getOne<{ capacity: number | null }>('SELECT capacity FROM detention_facilities WHERE id = $1', [facilityId])
+        : null;
+      const capacity = facility?.capacity || null;
+      const occupancyPct = capacity ? Math.round((record.population / capacity) * 10000) / 100 : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO detention_population (
+          snapshot_date, facility_id, facility_name, population, capacity, occupancy_pct, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (snapshot_date, (COALESCE(facility_name, ''))) DO UPDATE SET
+          facility_id = EXCLUDED.facility_id,
+          population = EXCLUDED.population,
+          capacity = EXCLUDED.capacity,
+          occupancy_pct = EXCLUDED.occupancy_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          facilityId,
+          record.facility_name,
+          record.population,
+          capacity,
+          occupancyPct,
+          this.runId,
+        ]
+      ));
+    }
+
+    if (unmatched.size > 0) {
+      log('warn', 'Detention facilities not matched to detention_facilities.code', {
+        facilities: Array.from(unmatched),
+      });
+    }
+  }
+}
@@ -0,0 +1,196 @@
+// Detention Length & Outcomes - Quarterly ODS Parser
+// Source: Det_D03 from Immigration System Statistics (detention datasets)
+// People leaving detention by length of detention and reason for leaving
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, rowCountInRange } from '../lib/quality';
+import { DetentionOutcome } from '../types';
+
+interface LengthRecord {
+  quarter_end: Date;
+  length_bracket: string;
+  bracket_order: number;
+  count: number;
+  share_pct: number;
+}
+
+interface OutcomeRecord {
+  quarter_end: Date;
+  outcome: DetentionOutcome;
+  count: number;
+  share_pct: number;
+}
+
+interface DetentionLeavingData {
+  length: LengthRecord[];
+  outcomes: OutcomeRecord[];
+}
+
+type LeavingField = 'date' | 'year' | 'length' | 'reason' | 'count';
+
+// People leaving detention each quarter by length of detention and reason for leaving
+const LEAVING_MAPPING: SheetMapping<LeavingField> = {
+  name: 'detention_leaving',
+  sheets: [/det_d03/i, /leaving/i, /length/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    length: { aliases: [/length/i, /duration/i], type: 'string', required: true },
+    reason: { aliases: [/reason/i, /outcome/i], type: 'string', required: true },
+    count: { aliases: [/number/i, /people/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/nationality/i, /region/i, /sex/i, /age/i, /place/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+/**
+ * Map the published reason for leaving detention onto the detention_outcome enum
+ */
+function toDetentionOutcome(reason: string): DetentionOutcome {
+  const r = reason.toLowerCase();
+  if (r.includes('return') || r.includes('remov') || r.includes('deport')) return 'removed';
+  if (r.includes('bail')) return 'bailed';
+  if (r.includes('leave')) return 'granted_leave';
+  if (r.includes('release')) return 'released';
+  return 'other';
+}
+
+export class DetentionLengthIngestor extends BaseIngestor {
+  constructor() {
+    super('DET_D03');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Detention datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /detention[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148c6530536cb927482c17/detention-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<DetentionLeavingData> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in detention file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, LEAVING_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    const lengths = new Map<string, LengthRecord>();
+    const outcomes = new Map<string, OutcomeRecord>();
+    // Brackets are published shortest first, so first appearance gives the display order
+    const bracketOrder: string[] = [];
+
+    for (const row of sheet.rows) {
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const dateKey = formatDateISO(quarterEnd);
+
+      const bracket = sheet.get(row, 'length') || '';
+      if (bracket && !bracket.toLowerCase().includes('total')) {
+        if (!bracketOrder.includes(bracket)) bracketOrder.push(bracket);
+        const key = `${dateKey}|${bracket}`;
+        const existing = lengths.get(key) || {
+          quarter_end: quarterEnd,
+          length_bracket: bracket,
+          bracket_order: bracketOrder.indexOf(bracket) + 1,
+          count: 0,
+          share_pct: 0,
+        };
+        existing.count += count;
+        lengths.set(key, existing);
+      }
+
+      const reason = sheet.get(row, 'reason') || '';
+      if (reason && !reason.toLowerCase().includes('total')) {
+        const outcome = toDetentionOutcome(reason);
+        const key = `${dateKey}|${outcome}`;
+        const existing = outcomes.get(key) || { quarter_end: quarterEnd, outcome, count: 0, share_pct: 0 };
+        existing.count += count;
+        outcomes.set(key, existing);
+      }
+    }
+
+    return {
+      length: this.withShares(Array.from(lengths.values())),
+      outcomes: this.withShares(Array.from(outcomes.values())),
+    };
+  }
+
+  /**
+   * Fill share_pct as a percentage of the quarter's total
+   */
+  private withShares<T extends { quarter_end: Date; count: number; share_pct: number }>(records: T[]): T[] {
+    const totals = new Map<string, number>();
+    for (const record of records) {
+      const key = formatDateISO(record.quarter_end);
+      totals.set(key, (totals.get(key) || 0) + record.count);
+    }
+    for (const record of records) {
+      const total = totals.get(formatDateISO(record.quarter_end))!;
+      record.share_pct = Math.round((record.count / total) * 10000) / 100;
+    }
+    return records;
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('detention_length', ['count']),
+      valuesInRange('detention_length', 'share_pct', 0, 100),
+      noNegativeCounts('detention_outcomes', ['count']),
+      valuesInRange('detention_outcomes', 'share_pct', 0, 100),
+      // One row per length of detention bracket
+      rowCountInRange('detention_length', 'quarter_end', 1, 30),
+    ];
+  }
+
+  protected async load({ length, outcomes }: DetentionLeavingData): Promise<void> {
+    for (const record of length) {
+      this.countUpserted(await query(
+        `INSERT INTO detention_length (
+          quarter_end, length_bracket, bracket_order, count, share_pct, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (quarter_end, length_bracket) DO UPDATE SET
+          bracket_order = EXCLUDED.bracket_order,
+          count = EXCLUDED.count,
+          share_pct = EXCLUDED.share_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.length_bracket,
+          record.bracket_order,
+          record.count,
+          record.share_pct,
+          this.runId,
+        ]
+      ));
+    }
+
+    for (const record of outcomes) {
+      this.countUpserted(await query(
+        `INSERT INTO detention_outcomes (quarter_end, outcome, count, share_pct, ingest_run_id)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (quarter_end, outcome) DO UPDATE SET
+          count = EXCLUDED.count,
+          share_pct = EXCLUDED.share_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.outcome,
+          record.count,
+          record.share_pct,
+          this.runId,
+        ]
+      ));
+    }
+  }
+}
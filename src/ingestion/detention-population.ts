@@ -0,0 +1,156 @@
+// Detention Population - Quarterly ODS Parser
+// Source: Det_D01 from Immigration System Statistics (detention datasets)
+// People in detention at quarter end, national total and by nationality
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, rowCountInRange } from '../lib/quality';
+
+interface PopulationRecord {
+  snapshot_date: Date;
+  population: number;
+}
+
+interface NationalityRecord {
+  snapshot_date: Date;
+  nationality_name: string;
+  population: number;
+  share_pct: number;
+}
+
+interface DetentionPopulationData {
+  totals: PopulationRecord[];
+  nationality: NationalityRecord[];
+}
+
+type PopulationField = 'date' | 'year' | 'nationality' | 'count';
+
+// People in detention on the last day of each quarter, split by nationality, sex, age and place of detention
+const POPULATION_MAPPING: SheetMapping<PopulationField> = {
+  name: 'detention_population',
+  sheets: [/det_d01/i, /in_detention/i, /population/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    count: { aliases: [/number/i, /people/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /sex/i, /age/i, /place/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class DetentionPopulationIngestor extends BaseIngestor {
+  constructor() {
+    super('DET_D01');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Detention datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /detention[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148c6530536cb927482c17/detention-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<DetentionPopulationData> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in detention file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, POPULATION_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Long-format rows (split by sex, age, etc.) are summed per snapshot and nationality
+    const totals = new Map<string, PopulationRecord>();
+    const byNationality = new Map<string, NationalityRecord>();
+
+    for (const row of sheet.rows) {
+      const snapshotDate = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!snapshotDate) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const nationality: string = sheet.get(row, 'nationality') || '';
+      if (nationality.toLowerCase().includes('total')) continue;
+
+      const dateKey = formatDateISO(snapshotDate);
+      const total = totals.get(dateKey) || { snapshot_date: snapshotDate, population: 0 };
+      total.population += count;
+      totals.set(dateKey, total);
+
+      if (nationality) {
+        const key = `${dateKey}|${nationality}`;
+        const existing = byNationality.get(key) || { snapshot_date: snapshotDate, nationality_name: nationality, population: 0, share_pct: 0 };
+        existing.population += count;
+        byNationality.set(key, existing);
+      }
+    }
+
+    const nationality = Array.from(byNationality.values());
+    for (const record of nationality) {
+      const total = totals.get(formatDateISO(record.snapshot_date))!.population;
+      record.share_pct = Math.round((record.population / total) * 10000) / 100;
+    }
+
+    return { totals: Array.from(totals.values()), nationality };
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('detention_population', ['population']),
+      noNegativeCounts('detention_nationality', ['population']),
+      valuesInRange('detention_nationality', 'share_pct', 0, 100),
+      // The national total only; facility rows come from DET_D02
+      rowCountInRange('detention_population', 'snapshot_date', 1, 1),
+    ];
+  }
+
+  protected async load({ totals, nationality }: DetentionPopulationData): Promise<void> {
+    for (const record of totals) {
+      this.countUpserted(await query(
+        `INSERT INTO detention_population (snapshot_date, facility_name, population, ingest_run_id)
+        VALUES ($1, NULL, $2, $3)
+        ON CONFLICT (snapshot_date, (COALESCE(facility_name, ''))) DO UPDATE SET
+          population = EXCLUDED.population,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [formatDateISO(record.snapshot_date), record.population, this.runId]
+      ));
+    }
+
+    for (const record of nationality) {
+      const nationalityId = await this.getNationalityId(record.nationality_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO detention_nationality (
+          snapshot_date, nationality_id, nationality_name, population, share_pct, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (snapshot_date, nationality_name) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          population = EXCLUDED.population,
+          share_pct = EXCLUDED.share_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          nationalityId,
+          record.nationality_name,
+          record.population,
+          record.share_pct,
+          this.runId,
+        ]
+      ));
+    }
+
+    if (totals.length > 0) {
+      const latest = totals.reduce((a, b) => a.snapshot_date > b.snapshot_date ? a : b);
+      log('info', 'Latest detention population', {
+        date: formatDateISO(latest.snapshot_date),
+        population: latest.population,
+      });
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Rule 35 Reports - Quarterly ODS Parser
+// Source: Det_D04 from Immigration System Statistics (detention datasets)
+// Reports of torture / risk to health made in detention, and releases following them
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface Rule35Record {
+  quarter_end: Date;
+  facility_name: string | null;
+  reports_made: number;
+  released_following: number;
+}
+
+type Rule35Field = 'date' | 'year' | 'facility' | 'reports' | 'released' | 'outcome' | 'count';
+
+// Rule 35 reports per quarter and place of detention, published either wide (reports and releases side by
+// side) or long (one count per outcome)
+const RULE35_MAPPING: SheetMapping<Rule35Field> = {
+  name: 'detention_rule35',
+  sheets: [/det_d04/i, /rule[\s_]?35/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    facility: { aliases: [/place/i, /facility/i, /centre/i, /location/i], type: 'string' },
+    reports: { aliases: [/report/i], exclude: /release/i, type: 'integer', unit: 'people' },
+    released: { aliases: [/release/i], type: 'integer', unit: 'people' },
+    outcome: { aliases: [/outcome/i, /result/i], type: 'string' },
+    count: { aliases: [/number/i, /count/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/type/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class DetentionRule35Ingestor extends BaseIngestor {
+  constructor() {
+    super('DET_D04');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Detention datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /detention[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148c6530536cb927482c17/detention-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<Rule35Record[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in detention file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, RULE35_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Long layout has one count per outcome; wide layout has separate reports and released columns
+    const long = sheet.has('outcome') && sheet.has('count');
+    if (!long && !sheet.has('reports')) {
+      throw new Error(`Rule 35 sheet ${sheet.sheetName} has neither outcome and count columns nor a reports column`);
+    }
+
+    const results = new Map<string, Rule35Record>();
+
+    for (const row of sheet.rows) {
+      const facility = sheet.get(row, 'facility') || '';
+      if (facility.toLowerCase().includes('total')) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count = (field: Rule35Field): number => sheet.get(row, field) ?? 0;
+
+      let reports = 0;
+      let released = 0;
+      if (long) {
+        const outcome = (sheet.get(row, 'outcome') || '').toLowerCase();
+        reports = count('count');
+        released = outcome.includes('release') && !outcome.includes('not') ? reports : 0;
+      } else {
+        reports = count('reports');
+        released = count('released');
+      }
+      if (reports <= 0) continue;
+
+      const key = `${formatDateISO(quarterEnd)}|${facility}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        facility_name: facility || null,
+        reports_made: 0,
+        released_following: 0,
+      };
+      existing.reports_made += reports;
+      existing.released_following += released;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('detention_rule35', ['reports_made', 'released_following']),
+      // One row per place of detention, or a single national row
+      rowCountInRange('detention_rule35', 'quarter_end', 1, 60),
+    ];
+  }
+
+  protected async load(data: Rule35Record[]): Promise<void> {
+    for (const record of data) {
+      const facilityId = record.facility_name ? await this.getFacilityId(record.facility_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO detention_rule35 (
+          quarter_end, facility_id, facility_name, reports_made, released_following, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (quarter_end, (COALESCE(facility_name, ''))) DO UPDATE SET
+          facility_id = EXCLUDED.facility_id,
+          reports_made = EXCLUDED.reports_made,
+          released_following = EXCLUDED.released_following,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          facilityId,
+          record.facility_name,
+          record.reports_made,
+          record.released_following,
+          this.runId,
+        ]
+      ));
+    }
+  }
+}
@@ -0,0 +1,163 @@
+// Family Reunion Visas - Quarterly ODS Parser
+// Source: Fam_D01 from Immigration System Statistics (family datasets)
+// Refugee family reunion visa applications, grants and refusals by nationality
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface FamilyReunionRecord {
+  quarter_end: Date;
+  nationality_name: string | null;
+  applications: number;
+  grants: number;
+  refusals: number;
+}
+
+type FamilyReunionField =
+  'date' | 'year' | 'nationality' | 'visa_type' | 'outcome' | 'count' | 'applications' | 'grants' | 'refusals';
+
+// Family visa applications and outcomes per quarter, published either long (one row per outcome) or wide
+// (a column per measure); sheets covering every family route carry a visa type column
+const FAMILY_REUNION_MAPPING: SheetMapping<FamilyReunionField> = {
+  name: 'family_reunion',
+  sheets: [/fam_d01/i, /reunion/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    visa_type: { aliases: [/visa[\s_]type/i, /category/i, /route/i], type: 'string' },
+    outcome: { aliases: [/outcome/i, /case[\s_]type/i], type: 'string' },
+    count: { aliases: [/number/i, /count/i], type: 'integer', unit: 'people' },
+    applications: { aliases: [/application/i], type: 'integer', unit: 'people' },
+    grants: { aliases: [/grant/i, /issued/i], type: 'integer', unit: 'people' },
+    refusals: { aliases: [/refus/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/region/i, /age/i, /sex/i, /withdrawn/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class FamilyReunionIngestor extends BaseIngestor {
+  constructor() {
+    super('FAM_D01');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Family visas datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /family[\s_-]+(visas?[\s_-]+)?datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148cd6d23a62e5d32680ba/family-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<FamilyReunionRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in family visas file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, FAMILY_REUNION_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    const long = sheet.has('outcome') && sheet.has('count');
+    if (!long && !sheet.has('applications') && !sheet.has('grants')) {
+      throw new Error(`Family reunion sheet ${sheet.sheetName} has neither outcome and count columns nor applications or grants columns`);
+    }
+
+    // Rows split by age group, sex, etc. are summed per quarter and nationality
+    const results = new Map<string, FamilyReunionRecord>();
+    const otherRoutes = new Set<string>();
+
+    for (const row of sheet.rows) {
+      if (sheet.has('visa_type')) {
+        const visaType: string = sheet.get(row, 'visa_type') || '';
+        if (visaType && !visaType.toLowerCase().includes('reunion')) {
+          otherRoutes.add(visaType);
+          continue;
+        }
+      }
+
+      const nationality = sheet.get(row, 'nationality') || '';
+      if (nationality.toLowerCase().includes('total')) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const parseNum = (field: FamilyReunionField): number => sheet.get(row, field) ?? 0;
+
+      const key = `${formatDateISO(quarterEnd)}|${nationality}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality || null,
+        applications: 0,
+        grants: 0,
+        refusals: 0,
+      };
+
+      if (long) {
+        const outcome = (sheet.get(row, 'outcome') || '').toLowerCase();
+        const count = parseNum('count');
+        if (outcome.includes('application')) existing.applications += count;
+        else if (outcome.includes('grant') || outcome.includes('issued')) existing.grants += count;
+        else if (outcome.includes('refus')) existing.refusals += count;
+        else continue;
+      } else {
+        existing.applications += parseNum('applications');
+        existing.grants += parseNum('grants');
+        existing.refusals += parseNum('refusals');
+      }
+
+      results.set(key, existing);
+    }
+
+    if (otherRoutes.size > 0) {
+      log('info', 'Skipped family visa routes other than refugee family reunion', { routes: Array.from(otherRoutes) });
+    }
+
+    return Array.from(results.values())
+      .filter(r => r.applications > 0 || r.grants > 0 || r.refusals > 0);
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('family_reunion', ['applications', 'grants', 'refusals']),
+      // One row per nationality of sponsor
+      rowCountInRange('family_reunion', 'quarter_end', 1, 250),
+    ];
+  }
+
+  protected async load(data: FamilyReunionRecord[]): Promise<void> {
+    for (const record of data) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO family_reunion (
+          quarter_end, nationality_id, nationality_name, applications, grants, refusals, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, ''))) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          applications = EXCLUDED.applications,
+          grants = EXCLUDED.grants,
+          refusals = EXCLUDED.refusals,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.applications,
+          record.grants,
+          record.refusals,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = data.reduce(
+      (acc, r) => ({ applications: acc.applications + r.applications, grants: acc.grants + r.grants, refusals: acc.refusals + r.refusals }),
+      { applications: 0, grants: 0, refusals: 0 }
+    );
+    log('info', 'Family reunion visas loaded', { totals });
+  }
+}
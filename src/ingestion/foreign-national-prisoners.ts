@@ -0,0 +1,335 @@
+// Foreign National Prisoners - Quarterly ODS Parser
+// Source: MoJ Offender Management Statistics Quarterly (prison population tables)
+// Prison population by nationality, foreign national prisoners by offence group, FNO returns by offence group
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping, MappedSheet } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, rowCountInRange } from '../lib/quality';
+
+interface PrisonerRecord {
+  snapshot_date: Date;
+  nationality_name: string;
+  prison_population: number;
+  share_of_total_pct: number | null;
+}
+
+interface OffenceRecord {
+  quarter_end: Date;
+  offence_category: string;
+  count: number;
+  share_pct: number | null;
+}
+
+interface DeportationRecord {
+  quarter_end: Date;
+  nationality_name: string | null;
+  offence_type: string | null;
+  count: number;
+}
+
+interface FnpData {
+  prisoners: PrisonerRecord[];
+  offences: OffenceRecord[];
+  deportations: DeportationRecord[];
+}
+
+// Rows for UK nationals and unrecorded nationality count towards the prison total but are not stored
+function isForeignNationality(nationality: string): boolean {
+  return !/british|united kingdom|^uk$|not recorded|unknown|not stated/i.test(nationality);
+}
+
+// FNO returns sheets are also split by nationality and offence, so the other two sheets exclude them by name
+const DEPORTATION_SHEET = /deport|removal|fno_return/i;
+
+type NationalityField = 'date' | 'nationality' | 'count';
+
+// Prison population per snapshot and nationality, including UK nationals and the published total
+const NATIONALITY_MAPPING: SheetMapping<NationalityField> = {
+  name: 'fnp_nationality',
+  sheets: [new RegExp(`^(?!.*(${DEPORTATION_SHEET.source})).*nationality`, 'i')],
+  columns: {
+    date: { aliases: [/date/i, /as at/i, /period/i], type: 'period', required: true },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string', required: true },
+    count: { aliases: [/population/i, /number/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /sex/i, /^notes?$/i],
+};
+
+type OffenceField = 'date' | 'year' | 'nationality' | 'offence' | 'count';
+
+// Prisoners per quarter and offence group; the nationality column is present when the sheet covers UK
+// nationals too
+const OFFENCE_MAPPING: SheetMapping<OffenceField> = {
+  name: 'fno_by_offence',
+  sheets: [new RegExp(`^(?!.*(${DEPORTATION_SHEET.source})).*offence`, 'i')],
+  optional: true,
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /as at/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i], type: 'string' },
+    offence: { aliases: [/offence/i], type: 'string', required: true },
+    count: { aliases: [/population/i, /number/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /sex/i, /quarter/i, /^notes?$/i],
+};
+
+type DeportationField = 'date' | 'year' | 'nationality' | 'offence' | 'count';
+
+// FNO returns per quarter by nationality and offence group
+const DEPORTATIONS_MAPPING: SheetMapping<DeportationField> = {
+  name: 'fno_deportations',
+  sheets: [DEPORTATION_SHEET],
+  optional: true,
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    offence: { aliases: [/offence/i], type: 'string' },
+    count: { aliases: [/number/i, /returns/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/type/i, /age/i, /sex/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class ForeignNationalPrisonersIngestor extends BaseIngestor {
+  constructor() {
+    super('MOJ_FNP');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Offender management statistics quarterly: prison population tables ODS file
+    const url = await this.resolveReleaseUrl(
+      /prison[\s_-]+population/i,
+      'https://assets.publishing.service.gov.uk/media/6720a5a2e319b91ef09e3c5a/prison-population-30-september-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<FnpData> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in prison population file', { sheets: getSheetNames(workbook) });
+
+    const prisoners = this.parseNationalitySheet(this.mapSheet(workbook, NATIONALITY_MAPPING));
+
+    const offenceSheet = this.mapSheet(workbook, OFFENCE_MAPPING);
+    const offences = offenceSheet ? this.parseOffenceSheet(offenceSheet) : [];
+
+    const deportationsSheet = this.mapSheet(workbook, DEPORTATIONS_MAPPING);
+    const deportations = deportationsSheet ? this.parseDeportationsSheet(deportationsSheet) : [];
+
+    return { prisoners, offences, deportations };
+  }
+
+  private parseNationalitySheet(sheet: MappedSheet<NationalityField>): PrisonerRecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    const byNationality = new Map<string, PrisonerRecord>();
+    // Whole prison population per snapshot: the published total where present, otherwise the sum of all rows
+    const publishedTotals = new Map<string, number>();
+    const summedTotals = new Map<string, number>();
+
+    for (const row of sheet.rows) {
+      const snapshotDate = parseQuarterLabel(sheet.get(row, 'date'));
+      if (!snapshotDate) continue;
+
+      const nationality = sheet.get(row, 'nationality') || '';
+      if (!nationality) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const dateKey = formatDateISO(snapshotDate);
+
+      if (/^(all|total)/i.test(nationality)) {
+        publishedTotals.set(dateKey, count);
+        continue;
+      }
+      if (!isForeignNationality(nationality)) {
+        summedTotals.set(dateKey, (summedTotals.get(dateKey) || 0) + count);
+        continue;
+      }
+      // Subtotals such as 'Foreign nationals' or 'EU nationals' would double count the countries under them
+      if (nationality.toLowerCase().includes('total') || nationality.toLowerCase().includes('nationals')) continue;
+
+      summedTotals.set(dateKey, (summedTotals.get(dateKey) || 0) + count);
+
+      const key = `${dateKey}|${nationality}`;
+      const existing = byNationality.get(key) || {
+        snapshot_date: snapshotDate,
+        nationality_name: nationality,
+        prison_population: 0,
+        share_of_total_pct: null,
+      };
+      existing.prison_population += count;
+      byNationality.set(key, existing);
+    }
+
+    const records = Array.from(byNationality.values());
+    for (const record of records) {
+      const dateKey = formatDateISO(record.snapshot_date);
+      const total = publishedTotals.get(dateKey) || summedTotals.get(dateKey) || 0;
+      record.share_of_total_pct = total > 0 ? Math.round(record.prison_population / total * 10000) / 100 : null;
+    }
+
+    return records;
+  }
+
+  private parseOffenceSheet(sheet: MappedSheet<OffenceField>): OffenceRecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    const results = new Map<string, OffenceRecord>();
+
+    for (const row of sheet.rows) {
+      if (sheet.has('nationality')) {
+        const nationality = (sheet.get(row, 'nationality') || '').toLowerCase();
+        if (!nationality.includes('foreign')) continue;
+      }
+
+      const offence = sheet.get(row, 'offence') || '';
+      if (!offence || /^(all|total)/i.test(offence)) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const key = `${formatDateISO(quarterEnd)}|${offence}`;
+      const existing = results.get(key) || { quarter_end: quarterEnd, offence_category: offence, count: 0, share_pct: null };
+      existing.count += count;
+      results.set(key, existing);
+    }
+
+    // Share of all foreign national prisoners in the same quarter
+    const records = Array.from(results.values());
+    const totals = records.reduce<Record<string, number>>((acc, r) => {
+      const dateKey = formatDateISO(r.quarter_end);
+      acc[dateKey] = (acc[dateKey] || 0) + r.count;
+      return acc;
+    }, {});
+    for (const record of records) {
+      const total = totals[formatDateISO(record.quarter_end)];
+      record.share_pct = total > 0 ? Math.round(record.count / total * 10000) / 100 : null;
+    }
+
+    return records;
+  }
+
+  private parseDeportationsSheet(sheet: MappedSheet<DeportationField>): DeportationRecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split by return type, age group, etc. are summed per quarter, nationality and offence group
+    const results = new Map<string, DeportationRecord>();
+
+    for (const row of sheet.rows) {
+      const nationality = sheet.get(row, 'nationality') || '';
+      const offence = sheet.get(row, 'offence') || '';
+      if ([nationality, offence].some(v => v.toLowerCase().includes('total'))) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const key = `${formatDateISO(quarterEnd)}|${nationality}|${offence}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality || null,
+        offence_type: offence || null,
+        count: 0,
+      };
+      existing.count += count;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('foreign_national_prisoners', ['prison_population']),
+      valuesInRange('foreign_national_prisoners', 'share_of_total_pct', 0, 100),
+      noNegativeCounts('fno_by_offence', ['count']),
+      valuesInRange('fno_by_offence', 'share_pct', 0, 100),
+      noNegativeCounts('fno_deportations', ['count']),
+      // One row per foreign nationality
+      rowCountInRange('foreign_national_prisoners', 'snapshot_date', 1, 250),
+    ];
+  }
+
+  protected async load({ prisoners, offences, deportations }: FnpData): Promise<void> {
+    for (const record of prisoners) {
+      const nationalityId = await this.getNationalityId(record.nationality_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO foreign_national_prisoners (
+          snapshot_date, nationality_id, nationality_name, prison_population, share_of_total_pct, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (snapshot_date, nationality_name) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          prison_population = EXCLUDED.prison_population,
+          share_of_total_pct = EXCLUDED.share_of_total_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          nationalityId,
+          record.nationality_name,
+          record.prison_population,
+          record.share_of_total_pct,
+          this.runId,
+        ]
+      ));
+    }
+
+    for (const record of offences) {
+      this.countUpserted(await query(
+        `INSERT INTO fno_by_offence (quarter_end, offence_category, count, share_pct, ingest_run_id)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (quarter_end, offence_category) DO UPDATE SET
+          count = EXCLUDED.count,
+          share_pct = EXCLUDED.share_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.offence_category,
+          record.count,
+          record.share_pct,
+          this.runId,
+        ]
+      ));
+    }
+
+    for (const record of deportations) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO fno_deportations (
+          quarter_end, nationality_id, nationality_name, offence_type, count, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, '')), (COALESCE(offence_type, ''))) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          count = EXCLUDED.count,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.offence_type,
+          record.count,
+          this.runId,
+        ]
+      ));
+    }
+
+    log('info', 'Foreign national prisoner data loaded', {
+      prisoners: prisoners.reduce((sum, r) => sum + r.prison_population, 0),
+      offence_groups: offences.length,
+      fno_returns: deportations.reduce((sum, r) => sum + r.count, 0),
+    });
+  }
+}
@@ -0,0 +1,168 @@
+// Inadmissibility Cases - Quarterly ODS Parser
+// Source: Inad_D01 from Immigration System Statistics (asylum applications datasets)
+// Inadmissibility decisions, removals to a safe third country and claims later admitted to the UK process
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping, parseCell } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface InadmissibilityRecord {
+  quarter_end: Date;
+  nationality_name: string | null;
+  decisions: number;
+  returned: number;
+  granted_after_review: number;
+}
+
+type InadmissibilityMeasure = 'decisions' | 'returned' | 'granted_after_review';
+
+/**
+ * Map a published stage label onto the column it feeds. Notices of intent are issued before any
+ * decision and have no column; claims "admitted into the UK asylum system" count as granted after review.
+ */
+function toInadmissibilityMeasure(label: string): InadmissibilityMeasure | null {
+  const l = label.toLowerCase();
+  if (l.includes('notice') || l.includes('intent')) return null;
+  if (l.includes('admitted') || l.includes('review') || l.includes('substantive')) return 'granted_after_review';
+  if (l.includes('remov') || l.includes('return')) return 'returned';
+  if (l.includes('decision') || l.includes('inadmissible')) return 'decisions';
+  return null;
+}
+
+type InadmissibilityField = 'date' | 'year' | 'nationality' | 'stage' | 'count';
+
+// Inadmissibility cases per quarter, published either long (one row per stage) or wide (a column per stage,
+// matched by toInadmissibilityMeasure rather than declared here)
+const INADMISSIBILITY_MAPPING: SheetMapping<InadmissibilityField> = {
+  name: 'inadmissibility',
+  sheets: [/inad/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    stage: { aliases: [/stage/i, /outcome/i], type: 'string' },
+    count: { aliases: [/number/i, /count/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [
+    /notice|intent|admitted|review|substantive|remov|return|decision|inadmissible/i,
+    /region/i, /age/i, /sex/i, /quarter/i, /code$/i, /^notes?$/i,
+  ],
+};
+
+export class InadmissibilityIngestor extends BaseIngestor {
+  constructor() {
+    super('INAD_D01');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Asylum applications datasets ODS file (inadmissibility sheet)
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+applications[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<InadmissibilityRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in asylum applications file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, INADMISSIBILITY_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Wide layout: one column per stage, read by its label
+    const mapped = Object.values(sheet.columns);
+    const measureColumns = sheet.headers
+      .filter(h => !mapped.includes(h))
+      .map(h => ({ header: h, measure: toInadmissibilityMeasure(h) }))
+      .filter((c): c is { header: string; measure: InadmissibilityMeasure } => c.measure !== null);
+
+    const long = sheet.has('stage') && sheet.has('count');
+    if (!long && measureColumns.length === 0) {
+      throw new Error(`Inadmissibility sheet ${sheet.sheetName} has neither stage and count columns nor a column per stage`);
+    }
+
+    // Rows split by age group, sex, etc. are summed per quarter and nationality
+    const results = new Map<string, InadmissibilityRecord>();
+
+    for (const row of sheet.rows) {
+      const nationality = sheet.get(row, 'nationality') || '';
+      if (nationality.toLowerCase().includes('total')) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const cells = long
+        ? [{ measure: toInadmissibilityMeasure(sheet.get(row, 'stage') || ''), count: sheet.get(row, 'count') ?? 0 }]
+        : measureColumns.map(c => ({ measure: c.measure, count: parseCell(row[c.header], { type: 'integer' }) ?? 0 }));
+
+      const key = `${formatDateISO(quarterEnd)}|${nationality}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality || null,
+        decisions: 0,
+        returned: 0,
+        granted_after_review: 0,
+      };
+
+      for (const { measure, count } of cells) {
+        if (!measure || count <= 0) continue;
+        existing[measure] += count;
+      }
+
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values())
+      .filter(r => r.decisions > 0 || r.returned > 0 || r.granted_after_review > 0);
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('inadmissibility', ['decisions', 'returned', 'granted_after_review']),
+      // One row per nationality
+      rowCountInRange('inadmissibility', 'quarter_end', 1, 250),
+    ];
+  }
+
+  protected async load(data: InadmissibilityRecord[]): Promise<void> {
+    for (const record of data) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO inadmissibility (
+          quarter_end, nationality_id, nationality_name, decisions, returned, granted_after_review, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, ''))) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          decisions = EXCLUDED.decisions,
+          returned = EXCLUDED.returned,
+          granted_after_review = EXCLUDED.granted_after_review,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.decisions,
+          record.returned,
+          record.granted_after_review,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = data.reduce(
+      (acc, r) => ({
+        decisions: acc.decisions + r.decisions,
+        returned: acc.returned + r.returned,
+        granted_after_review: acc.granted_after_review + r.granted_after_review,
+      }),
+      { decisions: 0, returned: 0, granted_after_review: 0 }
+    );
+    log('info', 'Inadmissibility cases loaded', { totals });
+  }
+}
@@ -0,0 +1,83 @@
+// Ingestor registry
+// Kept apart from lib/ingest.ts: every ingestor extends BaseIngestor, so registering them there made
+// the two modules import each other and BaseIngestor undefined for whichever loaded second
+
+import { BaseIngestor, RunOptions } from '../lib/ingest';
+import { IngestRun } from '../types';
+
+import { SmallBoatDailyIngestor } from './small-boats-daily';
+import { SmallBoatWeeklyIngestor } from './small-boats-weekly';
+import { AsylumSupportLAIngestor } from './asylum-support-la';
+import { AsylumClaimsIngestor } from './asylum-claims';
+import { AsylumDecisionsIngestor } from './asylum-decisions';
+import { AsylumBacklogIngestor } from './asylum-backlog';
+import { AgeDisputesIngestor } from './age-disputes';
+import { UASCIngestor } from './uasc';
+import { DetentionPopulationIngestor } from './detention-population';
+import { DetentionFacilitiesIngestor } from './detention-facilities';
+import { DetentionLengthIngestor } from './detention-length';
+import { DetentionRule35Ingestor } from './detention-rule35';
+import { ReturnsIngestor } from './returns';
+import { AssistedReturnsIngestor } from './assisted-returns';
+import { TribunalAppealsIngestor } from './tribunal-appeals';
+import { NrmIngestor } from './nrm';
+import { ResettlementIngestor } from './resettlement';
+import { ResettlementLAIngestor } from './resettlement-la';
+import { UkraineIngestor } from './ukraine';
+import { IrregularEntryIngestor } from './irregular-entry';
+import { FamilyReunionIngestor } from './family-reunion';
+import { InadmissibilityIngestor } from './inadmissibility';
+import { BorderRefusalsIngestor } from './border-refusals';
+import { ForeignNationalPrisonersIngestor } from './foreign-national-prisoners';
+import { OnsPopulationIngestor } from './ons-population';
+import { OnsBoundariesIngestor } from './ons-boundaries';
+import { DeprivationIngestor } from './deprivation';
+
+const INGESTORS: Record<string, new () => BaseIngestor> = {
+  'SBA_DAILY': SmallBoatDailyIngestor,
+  'SBA_WEEKLY': SmallBoatWeeklyIngestor,
+  'UKRAINE': UkraineIngestor,
+  'ASY_D11': AsylumSupportLAIngestor,
+  'IRR_D02': IrregularEntryIngestor,
+  'ASY_D01': AsylumClaimsIngestor,
+  'ASY_D02': AsylumDecisionsIngestor,
+  'ASY_D03': AsylumBacklogIngestor,
+  'ASY_D06': AgeDisputesIngestor,
+  'ASY_D07': UASCIngestor,
+  'HMCTS_FIA': TribunalAppealsIngestor,
+  'DET_D01': DetentionPopulationIngestor,
+  'DET_D02': DetentionFacilitiesIngestor,
+  'DET_D03': DetentionLengthIngestor,
+  'DET_D04': DetentionRule35Ingestor,
+  'RET_D01': ReturnsIngestor,
+  'RET_D02': AssistedReturnsIngestor,
+  'NRM_STATS': NrmIngestor,
+  'RES_D01': ResettlementIngestor,
+  'RES_D02': ResettlementLAIngestor,
+  'FAM_D01': FamilyReunionIngestor,
+  'INAD_D01': InadmissibilityIngestor,
+  'ADM_D02': BorderRefusalsIngestor,
+  'MOJ_FNP': ForeignNationalPrisonersIngestor,
+  'ONS_POP': OnsPopulationIngestor,
+  'ONS_GEO': OnsBoundariesIngestor,
+  'IMD_2019': DeprivationIngestor,
+  // Add more as implemented
+};
+
+export function hasIngestor(sourceCode: string): boolean {
+  return sourceCode in INGESTORS;
+}
+
+export function ingestorCodes(): string[] {
+  return Object.keys(INGESTORS).sort();
+}
+
+export async function runIngestor(sourceCode: string, options?: RunOptions): Promise<IngestRun> {
+  const IngestorClass = INGESTORS[sourceCode];
+  if (!IngestorClass) {
+    throw new Error(`No ingestor implemented for: ${sourceCode}`);
+  }
+  
+  const ingestor = new IngestorClass();
+  return ingestor.run(options);
+}
@@ -0,0 +1,146 @@
+// Irregular Entry by Method - Quarterly ODS Parser
+// Source: Irr_D02 from the irregular migration detailed dataset
+// Detected irregular entries by method of entry, nationality, age group and sex
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+import { EntryMethod } from '../types';
+
+interface EntryRecord {
+  quarter_end: Date;
+  entry_method: EntryMethod;
+  nationality_name: string | null;
+  age_group: string | null;
+  sex: string | null;
+  detections: number;
+}
+
+type EntryField = 'date' | 'year' | 'method' | 'nationality' | 'age' | 'sex' | 'count';
+
+// Detections per quarter by method of entry, nationality, age group and sex
+const ENTRY_MAPPING: SheetMapping<EntryField> = {
+  name: 'irregular_entry',
+  sheets: [/irr_d02/i, /irregular.*method/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    method: { aliases: [/method/i, /route/i], type: 'string', required: true },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    age: { aliases: [/age/i], exclude: /percent/i, type: 'string' },
+    sex: { aliases: [/^sex$/i, /gender/i], type: 'string' },
+    count: { aliases: [/number/i, /detections/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+/**
+ * Map the published method of entry onto the entry_method enum. Detections at UK ports are
+ * almost all in vehicles, so they count as 'lorry'; in-country detections and anything else are 'other'.
+ */
+function toEntryMethod(label: string): EntryMethod {
+  const l = label.toLowerCase();
+  if (l.includes('small boat')) return 'small_boat';
+  if (l.includes('air')) return 'air';
+  if (l.includes('lorry') || l.includes('vehicle') || l.includes('port')) return 'lorry';
+  return 'other';
+}
+
+export class IrregularEntryIngestor extends BaseIngestor {
+  constructor() {
+    super('IRR_D02');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Irregular migration detailed dataset ODS file
+    const url = await this.resolveReleaseUrl(
+      /irregular[\s_-]+migration.*detailed[\s_-]+dataset/i,
+      'https://assets.publishing.service.gov.uk/media/6714926f30536cb9274830c2/irregular-migration-to-the-UK-detailed-dataset-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<EntryRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in irregular migration file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, ENTRY_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split further (e.g. by region of nationality) are summed per quarter, method, nationality, age group and sex
+    const results = new Map<string, EntryRecord>();
+
+    for (const row of sheet.rows) {
+      const method = sheet.get(row, 'method') || '';
+      const nationality = sheet.get(row, 'nationality') || '';
+      const ageGroup = sheet.get(row, 'age') || '';
+      const sex = sheet.get(row, 'sex') || '';
+      if (!method || [method, nationality, ageGroup, sex].some(v => v.toLowerCase().includes('total'))) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const entryMethod = toEntryMethod(method);
+      const key = `${formatDateISO(quarterEnd)}|${entryMethod}|${nationality}|${ageGroup}|${sex}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        entry_method: entryMethod,
+        nationality_name: nationality || null,
+        age_group: ageGroup || null,
+        sex: sex || null,
+        detections: 0,
+      };
+      existing.detections += count;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('irregular_entry', ['detections']),
+      // One row per method, nationality, age group and sex
+      rowCountInRange('irregular_entry', 'quarter_end', 1, 10000),
+    ];
+  }
+
+  protected async load(data: EntryRecord[]): Promise<void> {
+    for (const record of data) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO irregular_entry (
+          quarter_end, entry_method, nationality_id, nationality_name, age_group, sex, detections, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (quarter_end, entry_method, (COALESCE(nationality_name, '')), (COALESCE(age_group, '')), (COALESCE(sex, ''))) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          detections = EXCLUDED.detections,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.entry_method,
+          nationalityId,
+          record.nationality_name,
+          record.age_group,
+          record.sex,
+          record.detections,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = data.reduce<Record<string, number>>((acc, r) => {
+      acc[r.entry_method] = (acc[r.entry_method] || 0) + r.detections;
+      return acc;
+    }, {});
+    log('info', 'Irregular entries loaded by method', { totals });
+  }
+}
@@ -0,0 +1,262 @@
+// Modern Slavery NRM - Quarterly ODS Parser
+// Source: Modern Slavery: National Referral Mechanism and Duty to Notify statistics (Home Office)
+// Referrals by exploitation type, first responder and nationality; reasonable and conclusive grounds decisions
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping, MappedSheet } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+import { ExploitationType, NrmOutcome } from '../types';
+
+interface ReferralRecord {
+  quarter_end: Date;
+  nationality_name: string | null;
+  exploitation: ExploitationType;
+  referral_source: string | null;
+  referrals: number;
+}
+
+interface DecisionRecord {
+  quarter_end: Date;
+  nationality_name: string | null;
+  outcome: NrmOutcome;
+  count: number;
+}
+
+interface NrmData {
+  referrals: ReferralRecord[];
+  decisions: DecisionRecord[];
+}
+
+/**
+ * Map the published exploitation type onto the exploitation_type enum.
+ * Unknown, not specified, organ harvesting and combined types all count as 'other'.
+ */
+function toExploitationType(value: string): ExploitationType {
+  const v = value.toLowerCase();
+  if (v.includes('sexual')) return 'sexual';
+  if (v.includes('labour')) return 'labour';
+  if (v.includes('criminal')) return 'criminal';
+  if (v.includes('domestic')) return 'domestic_servitude';
+  return 'other';
+}
+
+/**
+ * Map a decision (stage and result, possibly in one label) onto the nrm_outcome enum.
+ * Negative reasonable grounds decisions have no enum value and are skipped.
+ */
+function toNrmOutcome(value: string): NrmOutcome | null {
+  const v = value.toLowerCase();
+  if (v.includes('pending') || v.includes('awaiting') || v.includes('not yet')) return 'pending';
+  if (v.includes('conclusive') && v.includes('positive')) return 'positive_conclusive';
+  if (v.includes('conclusive') && v.includes('negative')) return 'negative_conclusive';
+  if (v.includes('reasonable') && v.includes('positive')) return 'positive_reasonable';
+  return null;
+}
+
+type ReferralField = 'date' | 'year' | 'nationality' | 'exploitation' | 'first_responder' | 'count';
+
+// Referrals per quarter by nationality, exploitation type and first responder
+const REFERRALS_MAPPING: SheetMapping<ReferralField> = {
+  name: 'nrm_referrals',
+  sheets: [/referral/i, /nrm_1/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    exploitation: { aliases: [/exploitation/i], type: 'string' },
+    first_responder: { aliases: [/first responder/i, /referring/i, /referral source/i], type: 'string' },
+    count: { aliases: [/number/i, /referrals/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /age/i, /sex/i, /gender/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+type DecisionField = 'date' | 'year' | 'nationality' | 'stage' | 'outcome' | 'count';
+
+// Decisions per quarter and nationality: either a stage column ('Reasonable grounds' / 'Conclusive grounds')
+// plus a result column, or a single outcome column carrying both
+const DECISIONS_MAPPING: SheetMapping<DecisionField> = {
+  name: 'nrm_decisions',
+  sheets: [/decision/i, /grounds/i, /nrm_2/i],
+  optional: true,
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string' },
+    stage: { aliases: [/stage/i, /decision type/i], type: 'string' },
+    outcome: { aliases: [/outcome/i, /^decision$/i, /result/i], exclude: /type/i, type: 'string', required: true },
+    count: { aliases: [/number/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/region/i, /age/i, /sex/i, /gender/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class NrmIngestor extends BaseIngestor {
+  constructor() {
+    super('NRM_STATS');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // NRM and Duty to Notify statistics data tables ODS file
+    const url = await this.resolveReleaseUrl(
+      /national[\s_-]+referral[\s_-]+mechanism.*data[\s_-]+tables/i,
+      'https://assets.publishing.service.gov.uk/media/672cb0a5fbd69e1861921c4f/modern-slavery-national-referral-mechanism-statistics-july-to-september-2024-data-tables.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<NrmData> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in NRM statistics file', { sheets: getSheetNames(workbook) });
+
+    const referrals = this.parseReferralsSheet(this.mapSheet(workbook, REFERRALS_MAPPING));
+
+    const decisionsSheet = this.mapSheet(workbook, DECISIONS_MAPPING);
+    const decisions = decisionsSheet ? this.parseDecisionsSheet(decisionsSheet) : [];
+
+    return { referrals, decisions };
+  }
+
+  private parseReferralsSheet(sheet: MappedSheet<ReferralField>): ReferralRecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split by age group, sex, etc. are summed per quarter, nationality, exploitation type and first responder
+    const results = new Map<string, ReferralRecord>();
+
+    for (const row of sheet.rows) {
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const nationality = sheet.get(row, 'nationality') || '';
+      const exploitationLabel = sheet.get(row, 'exploitation') || '';
+      const firstResponder = sheet.get(row, 'first_responder') || '';
+      if ([nationality, exploitationLabel, firstResponder].some(v => v.toLowerCase().includes('total'))) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const exploitation = toExploitationType(exploitationLabel);
+      const key = `${formatDateISO(quarterEnd)}|${nationality}|${exploitation}|${firstResponder}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality || null,
+        exploitation,
+        referral_source: firstResponder || null,
+        referrals: 0,
+      };
+      existing.referrals += count;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  private parseDecisionsSheet(sheet: MappedSheet<DecisionField>): DecisionRecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    const results = new Map<string, DecisionRecord>();
+    let skipped = 0;
+
+    for (const row of sheet.rows) {
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const nationality = sheet.get(row, 'nationality') || '';
+      if (nationality.toLowerCase().includes('total')) continue;
+
+      const label = [sheet.get(row, 'stage'), sheet.get(row, 'outcome')]
+        .map(v => v || '')
+        .join(' ');
+      if (label.toLowerCase().includes('total')) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const outcome = toNrmOutcome(label);
+      if (!outcome) {
+        skipped += count;
+        continue;
+      }
+
+      const key = `${formatDateISO(quarterEnd)}|${nationality}|${outcome}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality || null,
+        outcome,
+        count: 0,
+      };
+      existing.count += count;
+      results.set(key, existing);
+    }
+
+    if (skipped > 0) {
+      log('info', 'Skipped NRM decisions with no nrm_outcome value (e.g. negative reasonable grounds)', { skipped });
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('nrm_referrals', ['referrals']),
+      noNegativeCounts('nrm_decisions', ['count']),
+      // One row per nationality, exploitation type and first responder
+      rowCountInRange('nrm_referrals', 'quarter_end', 1, 20000),
+    ];
+  }
+
+  protected async load({ referrals, decisions }: NrmData): Promise<void> {
+    for (const record of referrals) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO nrm_referrals (
+          quarter_end, nationality_id, nationality_name, exploitation, referrals, referral_source, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, '')), exploitation, (COALESCE(referral_source, ''))) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          referrals = EXCLUDED.referrals,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.exploitation,
+          record.referrals,
+          record.referral_source,
+          this.runId,
+        ]
+      ));
+    }
+
+    for (const record of decisions) {
+      const nationalityId = record.nationality_name ? await this.getNationalityId(record.nationality_name) : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO nrm_decisions (
+          quarter_end, nationality_id, nationality_name, outcome, count, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, '')), outcome) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          count = EXCLUDED.count,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.outcome,
+          record.count,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = referrals.reduce<Record<string, number>>((acc, r) => {
+      acc[r.exploitation] = (acc[r.exploitation] || 0) + r.referrals;
+      return acc;
+    }, {});
+    log('info', 'NRM referrals loaded by exploitation type', { totals });
+  }
+}
@@ -0,0 +1,307 @@
+// LA Boundaries - GeoJSON Parser
+// Source: ONS Open Geography Portal local authority district boundaries, downloaded as GeoJSON (WGS84)
+// Full-resolution polygons and centroids per council, plus simplified copies for low/medium/high map zooms
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseIngestor } from '../lib/ingest';
+import { query, log } from '../lib/db';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+type Position = [number, number];
+type Ring = Position[];
+
+interface SimplifiedBoundary {
+  zoom: 'low' | 'medium' | 'high';
+  tolerance: number;
+  geometry: any;
+  point_count: number;
+}
+
+interface BoundaryRecord {
+  ons_code: string;
+  la_name: string | null;
+  geometry: any;
+  centroid_lat: number;
+  centroid_lng: number;
+  simplified: SimplifiedBoundary[];
+}
+
+// Douglas-Peucker tolerances in degrees (~1km, ~200m and ~50m at UK latitudes)
+const ZOOM_TOLERANCES: { zoom: SimplifiedBoundary['zoom']; tolerance: number }[] = [
+  { zoom: 'low', tolerance: 0.01 },
+  { zoom: 'medium', tolerance: 0.002 },
+  { zoom: 'high', tolerance: 0.0005 },
+];
+
+// The boundary file isn't published at a stable URL, so it is downloaded by hand and read from disk
+const DEFAULT_BOUNDARIES_PATH = 'data/la-boundaries.geojson';
+
+// Same council code prefixes as the population estimates
+const LA_CODE_PATTERN = /^(E0[6-9]|W06|S12|N09)\d{6}$/;
+
+function perpendicularDistance(point: Position, start: Position, end: Position): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  if (dx === 0 && dy === 0) {
+    return Math.hypot(point[0] - start[0], point[1] - start[1]);
+  }
+  return Math.abs(dy * point[0] - dx * point[1] + end[0] * start[1] - end[1] * start[0]) / Math.hypot(dx, dy);
+}
+
+/**
+ * Douglas-Peucker simplification of a closed ring. Uses an explicit stack because detailed
+ * coastlines run to tens of thousands of points. Returns null when the ring collapses below a triangle.
+ */
+function simplifyRing(ring: Ring, tolerance: number): Ring | null {
+  if (ring.length <= 4) return ring;
+
+  const keep = new Array<boolean>(ring.length).fill(false);
+  keep[0] = true;
+  keep[ring.length - 1] = true;
+
+  const stack: [number, number][] = [[0, ring.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(ring[i], ring[first], ring[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    // A closed ring starts and ends on the same point, so the first split always has to happen
+    if (index !== -1 && (maxDistance > tolerance || (first === 0 && last === ring.length - 1))) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  const simplified = ring
+    .filter((_, i) => keep[i])
+    .map(([lng, lat]) => [Math.round(lng * 1e5) / 1e5, Math.round(lat * 1e5) / 1e5] as Position);
+  return simplified.length >= 4 ? simplified : null;
+}
+
+// Islands and holes that collapse are dropped; a council always keeps at least its largest part
+function simplifyGeometry(geometry: any, tolerance: number): { geometry: any; point_count: number } {
+  const polygons: Ring[][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const simplifiedPolygons: Ring[][] = [];
+
+  for (const polygon of polygons) {
+    const exterior = simplifyRing(polygon[0], tolerance);
+    if (!exterior) continue;
+    const holes = polygon.slice(1)
+      .map(ring => simplifyRing(ring, tolerance))
+      .filter((ring): ring is Ring => ring !== null);
+    simplifiedPolygons.push([exterior, ...holes]);
+  }
+
+  if (simplifiedPolygons.length === 0) {
+    // Councils smaller than the tolerance (City of London at low zoom) are retried at finer tolerances
+    const largest = polygons.reduce((a, b) => Math.abs(ringArea(b[0])) > Math.abs(ringArea(a[0])) ? b : a);
+    let exterior: Ring | null = null;
+    for (let t = tolerance / 2; !exterior; t /= 2) {
+      exterior = simplifyRing(largest[0], t);
+    }
+    simplifiedPolygons.push([exterior]);
+  }
+
+  const pointCount = simplifiedPolygons.reduce((sum, p) => sum + p.reduce((s, r) => s + r.length, 0), 0);
+  return {
+    geometry: simplifiedPolygons.length === 1
+      ? { type: 'Polygon', coordinates: simplifiedPolygons[0] }
+      : { type: 'MultiPolygon', coordinates: simplifiedPolygons },
+    point_count: pointCount,
+  };
+}
+
+// Signed planar area (shoelace); fine for weighting centroids at council scale
+function ringArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+// Area-weighted centroid of the exterior rings, used when the file has no LAT/LONG properties
+function geometryCentroid(geometry: any): { lat: number; lng: number } {
+  const polygons: Ring[][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  let totalArea = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (const polygon of polygons) {
+    const ring = polygon[0];
+    for (let i = 0; i < ring.length - 1; i++) {
+      const cross = ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+      cx += (ring[i][0] + ring[i + 1][0]) * cross;
+      cy += (ring[i][1] + ring[i + 1][1]) * cross;
+    }
+    totalArea += ringArea(ring);
+  }
+
+  if (totalArea === 0) {
+    const points = polygons.flatMap(p => p[0]);
+    return {
+      lng: points.reduce((sum, p) => sum + p[0], 0) / points.length,
+      lat: points.reduce((sum, p) => sum + p[1], 0) / points.length,
+    };
+  }
+
+  return { lng: cx / (6 * totalArea), lat: cy / (6 * totalArea) };
+}
+
+function isWgs84(geometry: any): boolean {
+  const polygons: Ring[][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const [lng, lat] = polygons[0][0][0];
+  return Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+}
+
+export class OnsBoundariesIngestor extends BaseIngestor {
+  constructor() {
+    super('ONS_GEO');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Local authority districts (BGC/BUC) GeoJSON from geoportal.statistics.gov.uk
+    const filePath = path.resolve(process.env.ONS_BOUNDARIES_PATH || DEFAULT_BOUNDARIES_PATH);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Boundary file not found: ${filePath} (set ONS_BOUNDARIES_PATH)`);
+    }
+    return fs.promises.readFile(filePath);
+  }
+
+  protected async parse(buffer: Buffer): Promise<BoundaryRecord[]> {
+    const collection = JSON.parse(buffer.toString('utf-8'));
+    const features: any[] = collection.type === 'FeatureCollection' ? collection.features || [] : [];
+
+    log('info', 'Parsing LA boundaries GeoJSON', { featureCount: features.length });
+
+    if (features.length === 0) {
+      throw new Error('Boundary file is not a GeoJSON FeatureCollection or has no features');
+    }
+
+    const keys = Object.keys(features[0].properties || {});
+
+    // ONS names properties after the boundary vintage: LAD24CD, LAD24NM, LAT, LONG
+    const propertyMap = {
+      code: keys.find(k => /^(lad|ltla|utla|ctyua)\d{2}cd$/i.test(k)) ||
+        keys.find(k => k.toLowerCase().endsWith('cd') || k.toLowerCase().includes('code')),
+      name: keys.find(k => /^(lad|ltla|utla|ctyua)\d{2}nm$/i.test(k)) ||
+        keys.find(k => k.toLowerCase().endsWith('nm') || k.toLowerCase() === 'name'),
+      lat: keys.find(k => k.toLowerCase() === 'lat' || k.toLowerCase() === 'latitude'),
+      lng: keys.find(k => ['long', 'lng', 'lon', 'longitude'].includes(k.toLowerCase())),
+    };
+
+    log('info', 'Property mappings for LA boundaries', { propertyMap });
+
+    if (!propertyMap.code) {
+      throw new Error('Could not find LA code property in boundary file');
+    }
+
+    const results: BoundaryRecord[] = [];
+    let skipped = 0;
+
+    for (const feature of features) {
+      const properties = feature.properties || {};
+      const code = String(properties[propertyMap.code] || '').trim().toUpperCase();
+      const geometry = feature.geometry;
+
+      if (!LA_CODE_PATTERN.test(code) || !geometry || !['Polygon', 'MultiPolygon'].includes(geometry.type)) {
+        skipped++;
+        continue;
+      }
+
+      if (!isWgs84(geometry)) {
+        throw new Error('Boundary file must use WGS84 (EPSG:4326) coordinates, not British National Grid');
+      }
+
+      const lat = propertyMap.lat ? parseFloat(properties[propertyMap.lat]) : NaN;
+      const lng = propertyMap.lng ? parseFloat(properties[propertyMap.lng]) : NaN;
+      const centroid = !isNaN(lat) && !isNaN(lng) ? { lat, lng } : geometryCentroid(geometry);
+
+      results.push({
+        ons_code: code,
+        la_name: propertyMap.name ? String(properties[propertyMap.name] || '').trim() || null : null,
+        geometry,
+        centroid_lat: Math.round(centroid.lat * 1e6) / 1e6,
+        centroid_lng: Math.round(centroid.lng * 1e6) / 1e6,
+        simplified: ZOOM_TOLERANCES.map(({ zoom, tolerance }) => ({
+          zoom,
+          tolerance,
+          ...simplifyGeometry(geometry, tolerance),
+        })),
+      });
+    }
+
+    if (skipped > 0) {
+      log('info', 'Skipped boundary features without an LA code or polygon geometry', { skipped });
+    }
+
+    return results;
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('la_boundaries', ['point_count']),
+      // One row per council at each zoom level; 361 UK councils
+      rowCountInRange('la_boundaries', 'zoom', 300, 400),
+    ];
+  }
+
+  protected async load(data: BoundaryRecord[]): Promise<void> {
+    if (data.length === 0) return;
+
+    let matched = 0;
+    for (const record of data) {
+      for (const simplified of record.simplified) {
+        this.countUpserted(await query(
+          `INSERT INTO la_boundaries (ons_code, la_name, zoom, tolerance, geometry, point_count, ingest_run_id)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (ons_code, zoom) DO UPDATE SET
+            la_name = EXCLUDED.la_name,
+            tolerance = EXCLUDED.tolerance,
+            geometry = EXCLUDED.geometry,
+            point_count = EXCLUDED.point_count,
+            ingest_run_id = EXCLUDED.ingest_run_id
+          RETURNING (xmax = 0) AS inserted`,
+          [
+            record.ons_code,
+            record.la_name,
+            simplified.zoom,
+            simplified.tolerance,
+            JSON.stringify(simplified.geometry),
+            simplified.point_count,
+            this.runId,
+          ]
+        ));
+      }
+
+      const updated = await query(
+        `UPDATE local_authorities
+        SET geojson = $1, centroid_lat = $2, centroid_lng = $3, updated_at = NOW()
+        WHERE ons_code = $4`,
+        [JSON.stringify(record.geometry), record.centroid_lat, record.centroid_lng, record.ons_code]
+      );
+      if (updated.rowCount) matched++;
+    }
+
+    const pointCounts = ZOOM_TOLERANCES.reduce<Record<string, number>>((acc, { zoom }) => {
+      acc[zoom] = data.reduce((sum, r) => sum + (r.simplified.find(s => s.zoom === zoom)?.point_count || 0), 0);
+      return acc;
+    }, {});
+
+    log('info', 'LA boundaries loaded', {
+      councils: data.length,
+      local_authorities_updated: matched,
+      not_in_local_authorities: data.length - matched,
+      point_counts: pointCounts,
+    });
+  }
+}
@@ -0,0 +1,178 @@
+// LA Population Estimates - Annual CSV Parser
+// Source: ONS mid-year population estimates, local authority based (via Nomis)
+// Total resident population per council and year; drives every per-10k figure
+
+import { BaseIngestor, parseCSV } from '../lib/ingest';
+import { query, log } from '../lib/db';
+import { SheetMapping, parseCell } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+import { computePressureIndex } from '../lib/pressure';
+
+interface PopulationRecord {
+  ons_code: string;
+  la_name: string | null;
+  year: number;
+  population: number;
+}
+
+// District, unitary, metropolitan and London borough councils plus their Welsh, Scottish and NI equivalents
+const LA_CODE_PATTERN = /^(E0[6-9]|W06|S12|N09)\d{6}$/;
+
+type PopulationField = 'code' | 'name' | 'year' | 'population' | 'age' | 'sex';
+
+// Wide editions have a column per mid-year estimate instead of year and population columns
+const YEAR_COLUMN = /^(?:mid[-\s]?)?(\d{4})$/i;
+
+// Population per council, long (a row per year, as Nomis serves it) or wide (a column per year), with
+// optional age and sex breakdowns
+const POPULATION_MAPPING: SheetMapping<PopulationField> = {
+  name: 'ons_population',
+  sheets: [/./],
+  columns: {
+    code: { aliases: [/code/i], type: 'string', required: true },
+    name: { aliases: [/name/i], exclude: /date/i, type: 'string' },
+    year: { aliases: [/^year$/i, /date/i], type: 'string' },
+    population: { aliases: [/obs_value/i, /population/i, /^value$/i, /^count$/i], type: 'integer', unit: 'people' },
+    age: { aliases: [/age/i], type: 'string' },
+    sex: { aliases: [/sex/i, /gender/i], type: 'string' },
+  },
+  ignore: [YEAR_COLUMN, /^notes?$/i],
+};
+
+// Age and sex breakdowns carry an all-ages / all-persons row alongside the components
+function isAllLabel(value: string): boolean {
+  return /^(all|total|persons)/i.test(value);
+}
+
+export class OnsPopulationIngestor extends BaseIngestor {
+  constructor() {
+    super('ONS_POP');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Nomis: population estimates - local authority based, all ages, persons, last six years
+    const url = 'https://www.nomisweb.co.uk/api/v01/dataset/NM_2002_1.data.csv?geography=TYPE424&date=latestMINUS5-latest&gender=0&c_age=200&measures=20100&select=date_name,geography_name,geography_code,obs_value';
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<PopulationRecord[]> {
+    const workbook = parseCSV(buffer);
+    const sheet = this.mapSheet(workbook, POPULATION_MAPPING);
+
+    log('info', 'Parsing ONS population estimates CSV', { rowCount: sheet.rows.length });
+
+    // Wide layout: one column per mid-year estimate ('Mid-2023' or '2023')
+    const yearColumns = sheet.headers
+      .map(h => ({ header: h, match: h.match(YEAR_COLUMN) }))
+      .filter(c => c.match && c.header !== sheet.columns.year)
+      .map(c => ({ header: c.header, year: parseInt(c.match![1], 10) }));
+
+    const long = sheet.has('year') && sheet.has('population');
+    if (!long && yearColumns.length === 0) {
+      throw new Error('Could not find year and population columns in population estimates');
+    }
+
+    // All-ages rows where the file has them, otherwise the sum of the age/sex components
+    const totals = new Map<string, PopulationRecord>();
+    const components = new Map<string, PopulationRecord>();
+
+    for (const row of sheet.rows) {
+      const code = (sheet.get(row, 'code') || '').toUpperCase();
+      if (!LA_CODE_PATTERN.test(code)) continue;
+
+      const name: string = sheet.get(row, 'name') || '';
+      const breakdown = (['age', 'sex'] as const)
+        .filter(field => sheet.has(field))
+        .map(field => sheet.get(row, field) || '');
+      const isTotalRow = breakdown.every(v => !v || isAllLabel(v));
+
+      const cells = long
+        ? [{ year: parseInt(((sheet.get(row, 'year') || '').match(/\d{4}/) || [''])[0], 10), population: sheet.get(row, 'population') ?? 0 }]
+        : yearColumns.map(c => ({ year: c.year, population: parseCell(row[c.header], { type: 'integer' }) ?? 0 }));
+
+      for (const { year, population } of cells) {
+        if (isNaN(year) || population <= 0) continue;
+
+        const key = `${code}|${year}`;
+        const target = isTotalRow ? totals : components;
+        const existing = target.get(key) || { ons_code: code, la_name: name || null, year, population: 0 };
+        existing.population += population;
+        target.set(key, existing);
+      }
+    }
+
+    for (const [key, record] of components) {
+      if (!totals.has(key)) totals.set(key, record);
+    }
+
+    return Array.from(totals.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('la_population', ['population']),
+      // 361 UK councils
+      rowCountInRange('la_population', 'year', 300, 400),
+    ];
+  }
+
+  protected async load(data: PopulationRecord[]): Promise<void> {
+    if (data.length === 0) return;
+
+    for (const record of data) {
+      this.countUpserted(await query(
+        `INSERT INTO la_population (ons_code, la_name, year, population, ingest_run_id)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (ons_code, year) DO UPDATE SET
+          la_name = EXCLUDED.la_name,
+          population = EXCLUDED.population,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [record.ons_code, record.la_name, record.year, record.population, this.runId]
+      ));
+    }
+
+    const codes = Array.from(new Set(data.map(r => r.ons_code)));
+    const earliestYear = Math.min(...data.map(r => r.year));
+
+    // local_authorities.population tracks the latest estimate
+    const refreshed = await query(
+      `UPDATE local_authorities la
+      SET population = lp.population, population_year = lp.year
+      FROM (
+        SELECT DISTINCT ON (ons_code) ons_code, year, population
+        FROM la_population
+        WHERE ons_code = ANY($1)
+        ORDER BY ons_code, year DESC
+      ) lp
+      WHERE la.ons_code = lp.ons_code`,
+      [codes]
+    );
+
+    // Re-fire calculate_la_metrics on every snapshot that can pick up one of the loaded years
+    const recalculated = await query(
+      `UPDATE asylum_support_la asl
+      SET total_supported = asl.total_supported
+      FROM local_authorities la
+      WHERE la.id = asl.la_id
+        AND la.ons_code = ANY($1)
+        AND EXTRACT(YEAR FROM asl.snapshot_date) >= $2
+      RETURNING asl.snapshot_date::text AS snapshot_date`,
+      [codes, earliestYear]
+    );
+    const snapshots = new Set(recalculated.rows.map(row => row.snapshot_date));
+
+    log('info', 'Population estimates loaded', {
+      councils: codes.length,
+      years: Array.from(new Set(data.map(r => r.year))).sort(),
+      local_authorities_updated: refreshed.rowCount,
+      not_in_local_authorities: codes.length - (refreshed.rowCount || 0),
+      snapshots_recalculated: Array.from(snapshots).sort(),
+    });
+
+    // Per-capita scores move with the population denominators
+    for (const snapshot of Array.from(snapshots).sort()) {
+      await computePressureIndex(snapshot);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// Resettlement by Local Authority - Quarterly ODS Parser
+// Source: Res_D02 from Immigration System Statistics (resettlement datasets)
+// Cumulative placements per council, by scheme
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping, parseCell } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+import { ResettlementScheme } from '../types';
+import { toResettlementScheme } from './resettlement';
+
+interface PlacementRecord {
+  snapshot_date: Date;
+  la_name: string;
+  scheme: ResettlementScheme;
+  placements: number;
+}
+
+type PlacementField = 'date' | 'year' | 'la' | 'scheme' | 'count';
+
+// Cumulative placements per council, published either long (one row per scheme) or wide (a column per
+// scheme, matched by toResettlementScheme rather than declared here)
+const PLACEMENTS_MAPPING: SheetMapping<PlacementField> = {
+  name: 'resettlement_la',
+  sheets: [/res_d02/i, /resettle.*local|local.*resettle/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    la: { aliases: [/authority/i, /council/i], type: 'string', required: true },
+    scheme: {
+      aliases: [/scheme/i],
+      exclude: /acrs|arap|vprs|ukrs|citizens resettlement|relocations and assistance|vulnerable persons|uk resettlement|community sponsorship/i,
+      type: 'string',
+    },
+    count: { aliases: [/number/i, /placements/i, /count/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [
+    /acrs|arap|vprs|ukrs|citizens resettlement|relocations and assistance|vulnerable persons|uk resettlement|community sponsorship/i,
+    /region/i, /code$/i, /quarter/i, /^notes?$/i,
+  ],
+};
+
+export class ResettlementLAIngestor extends BaseIngestor {
+  constructor() {
+    super('RES_D02');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Resettlement datasets ODS file (same release as Res_D01)
+    const url = await this.resolveReleaseUrl(
+      /resettlement[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148d1ad23a62e5d32680bb/resettlement-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<PlacementRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in resettlement file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, PLACEMENTS_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Wide layout: one column per scheme, read by its label
+    const schemeColumns = sheet.headers
+      .map(h => ({ header: h, scheme: toResettlementScheme(h) }))
+      .filter((c): c is { header: string; scheme: ResettlementScheme } => c.scheme !== null);
+
+    const long = sheet.has('scheme') && sheet.has('count');
+    if (!long && schemeColumns.length === 0) {
+      throw new Error(`Resettlement by LA sheet ${sheet.sheetName} has neither scheme and count columns nor a column per scheme`);
+    }
+
+    const results = new Map<string, PlacementRecord>();
+
+    for (const row of sheet.rows) {
+      const laName = sheet.get(row, 'la') || '';
+      if (!laName || laName.toLowerCase().includes('total')) continue;
+
+      const snapshotDate = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!snapshotDate) continue;
+
+      const cells = long
+        ? [{ scheme: toResettlementScheme(sheet.get(row, 'scheme') || ''), count: sheet.get(row, 'count') ?? 0 }]
+        : schemeColumns.map(c => ({ scheme: c.scheme, count: parseCell(row[c.header], { type: 'integer' }) ?? 0 }));
+
+      for (const { scheme, count } of cells) {
+        if (!scheme || count <= 0) continue;
+
+        const key = `${formatDateISO(snapshotDate)}|${laName}|${scheme}`;
+        const existing = results.get(key) || { snapshot_date: snapshotDate, la_name: laName, scheme, placements: 0 };
+        existing.placements += count;
+        results.set(key, existing);
+      }
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('resettlement_la', ['placements']),
+      // One row per council and scheme
+      rowCountInRange('resettlement_la', 'snapshot_date', 1, 2000),
+    ];
+  }
+
+  protected async load(data: PlacementRecord[]): Promise<void> {
+    const unmatched = new Set<string>();
+
+    for (const record of data) {
+      const laId = await this.getLAId(record.la_name);
+      if (!laId) unmatched.add(record.la_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO resettlement_la (snapshot_date, la_id, la_name, scheme, placements, ingest_run_id)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (snapshot_date, la_name, scheme) DO UPDATE SET
+          la_id = EXCLUDED.la_id,
+          placements = EXCLUDED.placements,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          laId,
+          record.la_name,
+          record.scheme,
+          record.placements,
+          this.runId,
+        ]
+      ));
+    }
+
+    if (unmatched.size > 0) {
+      log('warn', 'Resettlement local authorities not matched to local_authorities', { unmatched: Array.from(unmatched) });
+    }
+  }
+}
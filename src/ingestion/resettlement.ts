@@ -0,0 +1,145 @@
+// Resettlement Schemes - Quarterly ODS Parser
+// Source: Res_D01 from Immigration System Statistics (resettlement datasets)
+// People resettled per quarter under ACRS, ARAP, UKRS and VPRS
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+import { ResettlementScheme } from '../types';
+
+interface ResettlementRecord {
+  quarter_end: Date;
+  scheme: ResettlementScheme;
+  arrivals: number;
+  total_since_start: number;
+}
+
+type ResettlementField = 'date' | 'year' | 'scheme' | 'count';
+
+// People resettled per quarter by scheme, split by nationality, age and sex
+const RESETTLEMENT_MAPPING: SheetMapping<ResettlementField> = {
+  name: 'resettlement',
+  sheets: [/res_d01/i, /^(?!.*local).*resettle/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    scheme: { aliases: [/scheme/i, /route/i], type: 'string', required: true },
+    count: { aliases: [/number/i, /people/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/nationality/i, /age/i, /sex/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+/**
+ * Map a published scheme label onto the scheme codes we store. Community Sponsorship has been
+ * part of UKRS since 2021; the closed VCRS, Gateway and Mandate schemes are not tracked.
+ */
+export function toResettlementScheme(label: string): ResettlementScheme | null {
+  const l = label.toLowerCase();
+  if (l.includes('acrs') || l.includes('citizens resettlement')) return 'ACRS';
+  if (l.includes('arap') || l.includes('relocations and assistance')) return 'ARAP';
+  if (l.includes('vprs') || l.includes('vulnerable persons')) return 'VPRS';
+  if (l.includes('ukrs') || l.includes('uk resettlement') || l.includes('community sponsorship')) return 'UKRS';
+  return null;
+}
+
+export class ResettlementIngestor extends BaseIngestor {
+  constructor() {
+    super('RES_D01');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Resettlement datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /resettlement[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148d1ad23a62e5d32680bb/resettlement-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<ResettlementRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in resettlement file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, RESETTLEMENT_MAPPING);
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split by nationality, age and sex are summed per quarter and scheme
+    const results = new Map<string, ResettlementRecord>();
+    const untracked = new Set<string>();
+
+    for (const row of sheet.rows) {
+      const label = sheet.get(row, 'scheme') || '';
+      if (!label || label.toLowerCase().includes('total')) continue;
+
+      const scheme = toResettlementScheme(label);
+      if (!scheme) {
+        untracked.add(label);
+        continue;
+      }
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const key = `${formatDateISO(quarterEnd)}|${scheme}`;
+      const existing = results.get(key) || { quarter_end: quarterEnd, scheme, arrivals: 0, total_since_start: 0 };
+      existing.arrivals += count;
+      results.set(key, existing);
+    }
+
+    if (untracked.size > 0) {
+      log('info', 'Skipped untracked resettlement schemes', { schemes: Array.from(untracked) });
+    }
+
+    // The table runs from each scheme's launch, so a running sum gives the total since start
+    const records = Array.from(results.values())
+      .sort((a, b) => a.quarter_end.getTime() - b.quarter_end.getTime());
+    const running: Record<string, number> = {};
+    for (const record of records) {
+      running[record.scheme] = (running[record.scheme] || 0) + record.arrivals;
+      record.total_since_start = running[record.scheme];
+    }
+
+    return records;
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('resettlement', ['arrivals', 'total_since_start']),
+      // One row per scheme
+      rowCountInRange('resettlement', 'quarter_end', 1, 20),
+    ];
+  }
+
+  protected async load(data: ResettlementRecord[]): Promise<void> {
+    for (const record of data) {
+      this.countUpserted(await query(
+        `INSERT INTO resettlement (quarter_end, scheme, arrivals, total_since_start, ingest_run_id)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (quarter_end, scheme) DO UPDATE SET
+          arrivals = EXCLUDED.arrivals,
+          total_since_start = EXCLUDED.total_since_start,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.scheme,
+          record.arrivals,
+          record.total_since_start,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = data.reduce<Record<string, number>>((acc, r) => {
+      acc[r.scheme] = r.total_since_start;
+      return acc;
+    }, {});
+    log('info', 'Resettlement totals since start by scheme', { totals });
+  }
+}
@@ -0,0 +1,151 @@
+// Returns by Type and Nationality - Quarterly ODS Parser
+// Source: Ret_D01 from Immigration System Statistics (returns datasets)
+// Enforced, voluntary and assisted voluntary returns by nationality and quarter
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel, getQuarterFromDate } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+import { ReturnType } from '../types';
+
+interface ReturnRecord {
+  quarter_end: Date;
+  year: number;
+  quarter: number;
+  nationality_name: string;
+  return_type: ReturnType;
+  count: number;
+}
+
+export type ReturnsField = 'date' | 'year' | 'nationality' | 'return_type' | 'count';
+
+// Returns per quarter by nationality and type, split by age and sex. The detailed type is preferred over the
+// type group when both are published
+const RETURNS_MAPPING: SheetMapping<ReturnsField> = {
+  name: 'returns',
+  sheets: [/ret_d01/i, /^(?!.*assisted).*return/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string', required: true },
+    return_type: { aliases: [/^return type$/i, /return.*type|type.*return/i], type: 'string' },
+    count: { aliases: [/number/i, /returns/i, /count/i], type: 'integer', unit: 'people', required: true },
+  },
+  ignore: [/type/i, /region/i, /age/i, /sex/i, /destination/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class ReturnsIngestor extends BaseIngestor {
+  constructor(sourceCode = 'RET_D01') {
+    super(sourceCode);
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Returns datasets ODS file
+    const url = await this.resolveReleaseUrl(
+      /returns[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/67148ca9d23a62e5d32680b8/returns-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  /**
+   * The sheet and columns to read - overridden for the assisted returns table
+   */
+  protected mapping(): SheetMapping<ReturnsField> {
+    return RETURNS_MAPPING;
+  }
+
+  /**
+   * Map the published return type onto the return_type enum. Port returns (refused entry
+   * and departed) have no enum value and are left to the border refusals tables.
+   */
+  protected classify(returnType: string): ReturnType | null {
+    const t = returnType.toLowerCase();
+    if (t.includes('port') || t.includes('refused entry')) return null;
+    if (t.includes('assisted')) return 'assisted_voluntary';
+    if (t.includes('enforced')) return 'enforced';
+    if (t.includes('voluntary') || t.includes('controlled') || t.includes('verified')) return 'voluntary';
+    return null;
+  }
+
+  protected async parse(buffer: Buffer): Promise<ReturnRecord[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in returns file', { sheets: getSheetNames(workbook) });
+
+    const sheet = this.mapSheet(workbook, this.mapping());
+
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Rows split by age, sex, etc. are summed per quarter, nationality and type
+    const results = new Map<string, ReturnRecord>();
+
+    for (const row of sheet.rows) {
+      const nationality = sheet.get(row, 'nationality') || '';
+      if (!nationality || nationality.toLowerCase().includes('total')) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const returnType = this.classify(sheet.get(row, 'return_type') || '');
+      if (!returnType) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const key = `${formatDateISO(quarterEnd)}|${nationality}|${returnType}`;
+      const existing = results.get(key) || {
+        quarter_end: quarterEnd,
+        ...getQuarterFromDate(quarterEnd),
+        nationality_name: nationality,
+        return_type: returnType,
+        count: 0,
+      };
+      existing.count += count;
+      results.set(key, existing);
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('returns', ['count']),
+      // One row per nationality and return type
+      rowCountInRange('returns', 'quarter_end', 1, 2000),
+    ];
+  }
+
+  protected async load(data: ReturnRecord[]): Promise<void> {
+    for (const record of data) {
+      const nationalityId = await this.getNationalityId(record.nationality_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO returns (
+          quarter_end, year, quarter, nationality_id, nationality_name, return_type, count, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (quarter_end, nationality_name, return_type) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          count = EXCLUDED.count,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.year,
+          record.quarter,
+          nationalityId,
+          record.nationality_name,
+          record.return_type,
+          record.count,
+          this.runId,
+        ]
+      ));
+    }
+
+    const totals = data.reduce<Record<string, number>>((acc, r) => {
+      acc[r.return_type] = (acc[r.return_type] || 0) + r.count;
+      return acc;
+    }, {});
+    log('info', 'Returns loaded by type', { sourceCode: this.sourceCode, totals });
+  }
+}
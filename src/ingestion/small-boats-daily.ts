@@ -1,8 +1,10 @@
 // Small Boat Arrivals - Daily HTML Scraper
 // Source: https://www.gov.uk/government/publications/migrants-detected-crossing-the-english-channel-in-small-boats
 
-import { BaseIngestor, fetchHtml, parseHtml } from '../lib/ingest';
-import { upsertOne, formatDateISO, parseUKDate, log } from '../lib/db';
+import * as fs from 'fs';
+import { BaseIngestor, parseHtml } from '../lib/ingest';
+import { bulkUpsert, upsertOne, formatDateISO, parseUKDate, log } from '../lib/db';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
 
 interface DailyArrival {
   date: Date;
@@ -19,7 +21,12 @@ export class SmallBoatDailyIngestor extends BaseIngestor {
   protected async fetch(): Promise<string> {
     // Main page with latest 7 days
     const url = 'https://www.gov.uk/government/publications/migrants-detected-crossing-the-english-channel-in-small-boats/migrants-detected-crossing-the-english-channel-in-small-boats-last-7-days';
-    return fetchHtml(url);
+    return (await this.fetchSource(url)).toString('utf-8');
+  }
+
+  // A saved copy of the page
+  protected async readLocalFile(filePath: string): Promise<string> {
+    return fs.promises.readFile(filePath, 'utf-8');
   }
 
   protected async parse(html: string): Promise<DailyArrival[]> {
@@ -96,22 +103,33 @@ export class SmallBoatDailyIngestor extends BaseIngestor {
     return arrivals;
   }
 
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('small_boat_arrivals_daily', ['arrivals', 'boats']),
+      // One row per date, so the latest day scraped has exactly one
+      rowCountInRange('small_boat_arrivals_daily', 'date', 1, 1),
+    ];
+  }
+
   protected async load(data: DailyArrival[]): Promise<void> {
+    // A date can appear in more than one table on the page; the last one read wins
+    const rows = new Map<string, Record<string, any>>();
     for (const arrival of data) {
-      await upsertOne(
-        'small_boat_arrivals_daily',
-        {
-          date: formatDateISO(arrival.date),
-          arrivals: arrival.arrivals,
-          boats: arrival.boats,
-          people_per_boat: arrival.people_per_boat,
-          source_url: this.source?.url,
-          scraped_at: new Date(),
-        },
-        ['date']
-      );
-      this.recordsInserted++;
+      const date = formatDateISO(arrival.date);
+      rows.set(date, {
+        date,
+        arrivals: arrival.arrivals,
+        boats: arrival.boats ?? null,
+        people_per_boat: arrival.people_per_boat ?? null,
+        source_url: this.source?.url ?? null,
+        scraped_at: new Date(),
+        ingest_run_id: this.runId,
+      });
     }
+
+    const result = await bulkUpsert('small_boat_arrivals_daily', Array.from(rows.values()), ['date']);
+    this.recordsInserted += result.inserted;
+    this.recordsUpdated += result.updated;
   }
 }
 
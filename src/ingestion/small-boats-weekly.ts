@@ -1,8 +1,10 @@
 // Small Boat Arrivals - Weekly ODS Parser
 // Source: https://www.gov.uk/government/statistical-data-sets/irregular-migration-detailed-dataset-and-summary-tables
 
-import { BaseIngestor, fetchUrl, parseODS, sheetToJson, getSheetNames } from '../lib/ingest';
-import { query, bulkUpsert, formatDateISO, log } from '../lib/db';
+import { BaseIngestor, parseODS, getSheetNames, sumByKey } from '../lib/ingest';
+import { bulkUpsert, formatDateISO, log } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange } from '../lib/quality';
 
 interface WeeklyArrival {
   week_ending: Date;
@@ -23,15 +25,43 @@ interface NationalityArrival {
   share_pct?: number;
 }
 
+// Weekly time series (usually "Irr_01" or "Arrivals_weekly")
+const WEEKLY_MAPPING: SheetMapping<'week_ending' | 'arrivals' | 'boats'> = {
+  name: 'weekly_arrivals',
+  sheets: [/weekly/i, /irr_01/i, /time_series/i],
+  columns: {
+    week_ending: { aliases: [/week[\s_]?ending/i, /date/i, /week/i, /period/i], exclude: /number|\bno\b/i, type: 'date', required: true },
+    arrivals: { aliases: [/arrival/i, /people/i, /detected/i], type: 'integer', unit: 'people', required: true },
+    boats: { aliases: [/boat/i], exclude: /per/i, type: 'integer', unit: 'boats' },
+  },
+  ignore: [/week[\s_]?(number|no)/i, /per[\s_]boat/i, /cumulative|year[\s_]to[\s_]date|ytd/i, /^notes?$/i],
+};
+
+// Arrivals by nationality per year (usually "Irr_02")
+const NATIONALITY_MAPPING: SheetMapping<'nationality' | 'arrivals' | 'year'> = {
+  name: 'nationality_arrivals',
+  sheets: [/nationality/i, /irr_02/i],
+  columns: {
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string', required: true },
+    arrivals: { aliases: [/arrival/i, /total/i], type: 'integer', unit: 'people', required: true },
+    year: { aliases: [/year/i, /period/i], type: 'integer' },
+  },
+  ignore: [/share|percent|%/i, /^notes?$/i],
+  optional: true,
+};
+
 export class SmallBoatWeeklyIngestor extends BaseIngestor {
   constructor() {
     super('SBA_WEEKLY');
   }
 
   protected async fetch(): Promise<Buffer> {
-    // The actual ODS file URL - this may need updating when new files are published
-    const url = 'https://assets.publishing.service.gov.uk/media/683d9157d23a62e5d32680aa/small-boat-arrivals-and-crossing-days-data-tables.ods';
-    return fetchUrl(url);
+    // Small boat arrivals and crossing days data tables ODS file
+    const url = await this.resolveReleaseUrl(
+      /small[\s_-]+boat[\s_-]+arrivals.*crossing[\s_-]+days/i,
+      'https://assets.publishing.service.gov.uk/media/683d9157d23a62e5d32680aa/small-boat-arrivals-and-crossing-days-data-tables.ods'
+    );
+    return this.fetchSource(url);
   }
 
   protected async parse(buffer: Buffer): Promise<{ weekly: WeeklyArrival[]; nationality: NationalityArrival[] }> {
@@ -41,118 +71,73 @@ export class SmallBoatWeeklyIngestor extends BaseIngestor {
     log('info', 'Found sheets', { sheets: sheetNames });
     
     const weekly: WeeklyArrival[] = [];
-    const nationality: NationalityArrival[] = [];
-
-    // Find the weekly arrivals sheet (usually named something like "Arrivals_weekly" or "Irr_01")
-    const weeklySheetName = sheetNames.find(s => 
-      s.toLowerCase().includes('weekly') || 
-      s.toLowerCase().includes('irr_01') ||
-      s.toLowerCase().includes('time_series')
-    );
-
-    if (weeklySheetName) {
-      const rows = sheetToJson<Record<string, any>>(workbook, weeklySheetName);
-      
-      for (const row of rows) {
-        // Try to extract week ending date
-        const weekEndingKey = Object.keys(row).find(k => 
-          k.toLowerCase().includes('week') || 
-          k.toLowerCase().includes('date') ||
-          k.toLowerCase().includes('period')
-        );
-        
-        const arrivalsKey = Object.keys(row).find(k => 
-          k.toLowerCase().includes('arrival') || 
-          k.toLowerCase().includes('people') ||
-          k.toLowerCase().includes('detected')
-        );
-        
-        const boatsKey = Object.keys(row).find(k => 
-          k.toLowerCase().includes('boat') && !k.toLowerCase().includes('per')
-        );
-
-        if (weekEndingKey && arrivalsKey) {
-          const weekEnding = this.parseExcelDate(row[weekEndingKey]);
-          const arrivals = parseInt(String(row[arrivalsKey]).replace(/,/g, ''), 10);
-          
-          if (weekEnding && !isNaN(arrivals)) {
-            const boats = boatsKey ? parseInt(String(row[boatsKey]).replace(/,/g, ''), 10) : 0;
-            
-            weekly.push({
-              week_ending: weekEnding,
-              year: weekEnding.getFullYear(),
-              week_number: this.getWeekNumber(weekEnding),
-              arrivals,
-              boats: isNaN(boats) ? 0 : boats,
-              ytd_arrivals: 0, // Will calculate after
-              ytd_boats: 0,
-            });
-          }
-        }
+    let nationality: NationalityArrival[] = [];
+
+    const weeklySheet = this.mapSheet(workbook, WEEKLY_MAPPING);
+
+    for (const row of weeklySheet.rows) {
+      const weekEnding: Date | null = weeklySheet.get(row, 'week_ending');
+      const arrivals: number | null = weeklySheet.get(row, 'arrivals');
+
+      if (weekEnding && arrivals !== null) {
+        weekly.push({
+          week_ending: weekEnding,
+          year: weekEnding.getFullYear(),
+          week_number: this.getWeekNumber(weekEnding),
+          arrivals,
+          boats: weeklySheet.get(row, 'boats') ?? 0,
+          ytd_arrivals: 0, // Will calculate after
+          ytd_boats: 0,
+        });
       }
+    }
 
-      // Calculate YTD
-      weekly.sort((a, b) => a.week_ending.getTime() - b.week_ending.getTime());
-      let currentYear = 0;
-      let ytdArrivals = 0;
-      let ytdBoats = 0;
-      
-      for (const week of weekly) {
-        if (week.year !== currentYear) {
-          currentYear = week.year;
-          ytdArrivals = 0;
-          ytdBoats = 0;
-        }
-        ytdArrivals += week.arrivals;
-        ytdBoats += week.boats;
-        week.ytd_arrivals = ytdArrivals;
-        week.ytd_boats = ytdBoats;
+    // Calculate YTD
+    weekly.sort((a, b) => a.week_ending.getTime() - b.week_ending.getTime());
+    let currentYear = 0;
+    let ytdArrivals = 0;
+    let ytdBoats = 0;
+
+    for (const week of weekly) {
+      if (week.year !== currentYear) {
+        currentYear = week.year;
+        ytdArrivals = 0;
+        ytdBoats = 0;
       }
+      ytdArrivals += week.arrivals;
+      ytdBoats += week.boats;
+      week.ytd_arrivals = ytdArrivals;
+      week.ytd_boats = ytdBoats;
     }
 
-    // Find nationality breakdown sheet (usually "Irr_02" or "nationality")
-    const nationalitySheetName = sheetNames.find(s => 
-      s.toLowerCase().includes('nationality') || 
-      s.toLowerCase().includes('irr_02')
-    );
+    // The nationality breakdown isn't in every edition of the tables
+    const nationalitySheet = this.mapSheet(workbook, NATIONALITY_MAPPING);
 
-    if (nationalitySheetName) {
-      const rows = sheetToJson<Record<string, any>>(workbook, nationalitySheetName);
-      
-      for (const row of rows) {
-        const nationalityKey = Object.keys(row).find(k => 
-          k.toLowerCase().includes('nationality') || 
-          k.toLowerCase().includes('country')
-        );
-        
-        const arrivalsKey = Object.keys(row).find(k => 
-          k.toLowerCase().includes('arrival') || 
-          k.toLowerCase().includes('total')
-        );
-        
-        const yearKey = Object.keys(row).find(k => 
-          k.toLowerCase().includes('year') || 
-          k.toLowerCase().includes('period')
-        );
-
-        if (nationalityKey && arrivalsKey) {
-          const nat = String(row[nationalityKey]).trim();
-          const arrivals = parseInt(String(row[arrivalsKey]).replace(/,/g, ''), 10);
-          
-          if (nat && nat !== 'Total' && !isNaN(arrivals)) {
-            const year = yearKey ? parseInt(String(row[yearKey]), 10) : new Date().getFullYear();
-            
-            nationality.push({
-              period_start: new Date(year, 0, 1),
-              period_end: new Date(year, 11, 31),
-              period_type: 'year',
-              nationality_name: nat,
-              arrivals,
-            });
-          }
+    if (nationalitySheet) {
+      for (const row of nationalitySheet.rows) {
+        const nat: string | null = nationalitySheet.get(row, 'nationality');
+        const arrivals: number | null = nationalitySheet.get(row, 'arrivals');
+
+        if (nat && nat !== 'Total' && arrivals !== null) {
+          const year = nationalitySheet.get(row, 'year') || new Date().getFullYear();
+
+          nationality.push({
+            period_start: new Date(year, 0, 1),
+            period_end: new Date(year, 11, 31),
+            period_type: 'year',
+            nationality_name: nat,
+            arrivals,
+          });
         }
       }
 
+      // The sheet can list a nationality more than once a year (by quarter, or by boat and other routes)
+      nationality = sumByKey(
+        nationality,
+        n => `${n.period_end.getFullYear()}|${n.nationality_name}`,
+        ['arrivals']
+      );
+
       // Calculate share percentages
       const yearTotals = new Map<number, number>();
       for (const n of nationality) {
@@ -170,6 +155,15 @@ export class SmallBoatWeeklyIngestor extends BaseIngestor {
     return { weekly, nationality };
   }
 
+  // Weekly crossings swing with the weather, so there is no week-on-week jump check
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('small_boat_arrivals_weekly', ['arrivals', 'boats', 'ytd_arrivals', 'ytd_boats']),
+      noNegativeCounts('small_boat_nationality', ['arrivals']),
+      valuesInRange('small_boat_nationality', 'share_pct', 0, 100),
+    ];
+  }
+
   protected async load(data: { weekly: WeeklyArrival[]; nationality: NationalityArrival[] }): Promise<void> {
     // Load weekly data
     if (data.weekly.length > 0) {
@@ -190,31 +184,32 @@ export class SmallBoatWeeklyIngestor extends BaseIngestor {
         ['week_ending']
       );
       this.recordsInserted += result.inserted;
+      this.recordsUpdated += result.updated;
     }
 
     // Load nationality data
     if (data.nationality.length > 0) {
+      const nationalityRows = [];
       for (const nat of data.nationality) {
-        const nationalityId = await this.getNationalityId(nat.nationality_name);
-        
-        await query(
-          `INSERT INTO small_boat_nationality 
-           (period_start, period_end, period_type, nationality_id, nationality_name, arrivals, share_pct, ingest_run_id)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-           ON CONFLICT DO NOTHING`,
-          [
-            formatDateISO(nat.period_start),
-            formatDateISO(nat.period_end),
-            nat.period_type,
-            nationalityId,
-            nat.nationality_name,
-            nat.arrivals,
-            nat.share_pct,
-            this.runId,
-          ]
-        );
-        this.recordsInserted++;
+        nationalityRows.push({
+          period_start: formatDateISO(nat.period_start),
+          period_end: formatDateISO(nat.period_end),
+          period_type: nat.period_type,
+          nationality_id: await this.getNationalityId(nat.nationality_name),
+          nationality_name: nat.nationality_name,
+          arrivals: nat.arrivals,
+          share_pct: nat.share_pct,
+          ingest_run_id: this.runId,
+        });
       }
+
+      const result = await bulkUpsert(
+        'small_boat_nationality',
+        nationalityRows,
+        ['period_start', 'period_end', 'period_type', 'nationality_name']
+      );
+      this.recordsInserted += result.inserted;
+      this.recordsUpdated += result.updated;
     }
   }
 
@@ -222,29 +217,6 @@ export class SmallBoatWeeklyIngestor extends BaseIngestor {
   // HELPERS
   // =============================================================================
 
-  private parseExcelDate(value: any): Date | null {
-    if (!value) return null;
-    
-    // Excel serial date
-    if (typeof value === 'number') {
-      const date = new Date((value - 25569) * 86400 * 1000);
-      return isNaN(date.getTime()) ? null : date;
-    }
-    
-    // String date
-    if (typeof value === 'string') {
-      const date = new Date(value);
-      return isNaN(date.getTime()) ? null : date;
-    }
-    
-    // Already a Date
-    if (value instanceof Date) {
-      return value;
-    }
-    
-    return null;
-  }
-
   private getWeekNumber(date: Date): number {
     const d = new Date(date);
     d.setHours(0, 0, 0, 0);
@@ -0,0 +1,283 @@
+// Asylum Appeals - Quarterly ODS Parser
+// Source: HMCTS Tribunal Statistics Quarterly, First-tier Tribunal (Immigration and Asylum Chamber) tables
+// Receipts, disposals, outcomes and outstanding caseload for asylum/protection appeals
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel, getQuarterFromDate } from '../lib/db';
+import { SheetMapping, MappedSheet, ColumnSpec } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, valuesInRange, rowCountInRange } from '../lib/quality';
+
+interface AppealQuarter {
+  quarter_end: Date;
+  receipts: number;
+  disposals: number;
+  allowed: number;
+  dismissed: number;
+  withdrawn: number;
+  outstanding: number | null;
+  avg_weeks: number | null;
+}
+
+type PeriodField = 'date' | 'year' | 'case_type';
+
+// Every FIA table is quarterly, and some are split by case type
+const PERIOD_COLUMNS: Record<PeriodField, ColumnSpec> = {
+  date: { aliases: [/quarter/i, /period/i, /date/i], type: 'period', required: true },
+  year: { aliases: [/^year$/i], type: 'integer' },
+  case_type: { aliases: [/case type/i, /category/i, /appeal type/i], type: 'string' },
+};
+
+const FIA_IGNORE = [/financial year/i, /^notes?$/i];
+
+type VolumeField = PeriodField | 'receipts' | 'disposals' | 'outstanding';
+
+// FIA_1: receipts, disposals and (in some editions) the outstanding caseload
+const VOLUMES_MAPPING: SheetMapping<VolumeField> = {
+  name: 'fia_volumes',
+  sheets: [/fia_1/i, /fia.*receipt/i],
+  columns: {
+    ...PERIOD_COLUMNS,
+    receipts: { aliases: [/receipt/i], type: 'integer', unit: 'people', required: true },
+    disposals: { aliases: [/disposal/i], type: 'integer', unit: 'people', required: true },
+    outstanding: { aliases: [/outstanding/i, /caseload/i], type: 'integer', unit: 'people' },
+  },
+  ignore: FIA_IGNORE,
+};
+
+type OutcomeField = PeriodField | 'allowed' | 'dismissed' | 'withdrawn' | 'outcome' | 'count';
+
+// FIA_3: disposals by outcome, either a column per outcome or an outcome column with counts
+const OUTCOMES_MAPPING: SheetMapping<OutcomeField> = {
+  name: 'fia_outcomes',
+  sheets: [/fia_3/i, /fia.*outcome/i],
+  optional: true,
+  columns: {
+    ...PERIOD_COLUMNS,
+    allowed: { aliases: [/allow/i], type: 'integer', unit: 'people' },
+    dismissed: { aliases: [/dismiss/i], type: 'integer', unit: 'people' },
+    withdrawn: { aliases: [/withdraw/i], type: 'integer', unit: 'people' },
+    outcome: { aliases: [/outcome/i], type: 'string' },
+    count: { aliases: [/number/i, /count/i], type: 'integer', unit: 'people' },
+  },
+  ignore: FIA_IGNORE,
+};
+
+type TimelinessField = PeriodField | 'weeks';
+
+// FIA_4: mean weeks from receipt to disposal
+const TIMELINESS_MAPPING: SheetMapping<TimelinessField> = {
+  name: 'fia_timeliness',
+  sheets: [/fia_4/i, /fia.*timeliness/i],
+  optional: true,
+  columns: {
+    ...PERIOD_COLUMNS,
+    weeks: { aliases: [/^(?=.*week)(?=.*(mean|average))/i], type: 'number', unit: 'weeks', required: true },
+  },
+  ignore: [...FIA_IGNORE, /median/i],
+};
+
+export class TribunalAppealsIngestor extends BaseIngestor {
+  constructor() {
+    super('HMCTS_FIA');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Tribunal statistics main tables ODS file
+    const url = await this.resolveReleaseUrl(
+      /tribunal[\s_-]+statistics[\s_-]+quarterly.*main[\s_-]+tables/i,
+      'https://assets.publishing.service.gov.uk/media/675834a5d89258d2868dae80/Tribunal_Statistics_Quarterly_Main_Tables_Jul_to_Sep_2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<AppealQuarter[]> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in tribunal statistics file', { sheets: getSheetNames(workbook) });
+
+    const volumesSheet = this.mapSheet(workbook, VOLUMES_MAPPING);
+    const outcomesSheet = this.mapSheet(workbook, OUTCOMES_MAPPING);
+    const timelinessSheet = this.mapSheet(workbook, TIMELINESS_MAPPING);
+
+    const quarters = new Map<string, AppealQuarter>();
+    const getQuarter = (quarterEnd: Date): AppealQuarter => {
+      const key = formatDateISO(quarterEnd);
+      if (!quarters.has(key)) {
+        quarters.set(key, {
+          quarter_end: quarterEnd,
+          receipts: 0,
+          disposals: 0,
+          allowed: 0,
+          dismissed: 0,
+          withdrawn: 0,
+          outstanding: null,
+          avg_weeks: null,
+        });
+      }
+      return quarters.get(key)!;
+    };
+
+    this.parseSheet(volumesSheet, (quarterEnd, row) => {
+      const quarter = getQuarter(quarterEnd);
+      quarter.receipts += volumesSheet.get(row, 'receipts') ?? 0;
+      quarter.disposals += volumesSheet.get(row, 'disposals') ?? 0;
+      if (volumesSheet.has('outstanding')) {
+        quarter.outstanding = (quarter.outstanding || 0) + (volumesSheet.get(row, 'outstanding') ?? 0);
+      }
+    });
+
+    if (outcomesSheet) {
+      // Long layout has one row per outcome; wide layout has allowed, dismissed and withdrawn columns
+      const long = outcomesSheet.has('outcome') && outcomesSheet.has('count');
+      if (!long && !outcomesSheet.has('allowed')) {
+        throw new Error(`FIA outcomes sheet ${outcomesSheet.sheetName} has neither outcome and count columns nor an allowed column`);
+      }
+
+      this.parseSheet(outcomesSheet, (quarterEnd, row) => {
+        const quarter = getQuarter(quarterEnd);
+        const count = (field: OutcomeField): number => outcomesSheet.get(row, field) ?? 0;
+        if (long) {
+          const outcome = (outcomesSheet.get(row, 'outcome') || '').toLowerCase();
+          if (outcome.includes('allow')) quarter.allowed += count('count');
+          else if (outcome.includes('dismiss')) quarter.dismissed += count('count');
+          else if (outcome.includes('withdraw')) quarter.withdrawn += count('count');
+        } else {
+          quarter.allowed += count('allowed');
+          quarter.dismissed += count('dismissed');
+          quarter.withdrawn += count('withdrawn');
+        }
+      });
+    }
+
+    if (timelinessSheet) {
+      this.parseSheet(timelinessSheet, (quarterEnd, row) => {
+        const weeks: number | null = timelinessSheet.get(row, 'weeks');
+        if (weeks !== null) getQuarter(quarterEnd).avg_weeks = weeks;
+      });
+    }
+
+    return Array.from(quarters.values())
+      .filter(q => q.receipts > 0 || q.disposals > 0)
+      .sort((a, b) => a.quarter_end.getTime() - b.quarter_end.getTime());
+  }
+
+  /**
+   * Walk an FIA sheet, keeping only asylum/protection rows when the table is split by case type
+   */
+  private parseSheet<F extends string>(
+    sheet: MappedSheet<F | PeriodField>,
+    onRow: (quarterEnd: Date, row: Record<string, any>) => void
+  ): void {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    for (const row of sheet.rows) {
+      if (sheet.has('case_type')) {
+        const caseType = (sheet.get(row, 'case_type') || '').toLowerCase();
+        if (!caseType.includes('asylum') && !caseType.includes('protection')) continue;
+      }
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      onRow(quarterEnd, row);
+    }
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('asylum_appeals', [
+        'appeals_lodged', 'appeals_determined', 'appeals_allowed', 'appeals_dismissed', 'appeals_withdrawn',
+      ]),
+      valuesInRange('asylum_appeals', 'success_rate_pct', 0, 100),
+      // The clearance rate passes 100 whenever disposals outrun receipts, so only its sign is checked
+      noNegativeCounts('tribunal_backlog', ['outstanding_appeals', 'receipts_ytd', 'disposals_ytd', 'clearance_rate_pct']),
+      // HMCTS tables are national: one row per quarter
+      rowCountInRange('asylum_appeals', 'quarter_end', 1, 1),
+    ];
+  }
+
+  protected async load(data: AppealQuarter[]): Promise<void> {
+    // Year-to-date totals restart each calendar year
+    let ytdYear = 0;
+    let receiptsYtd = 0;
+    let disposalsYtd = 0;
+
+    for (const record of data) {
+      const { year, quarter } = getQuarterFromDate(record.quarter_end);
+      const decided = record.allowed + record.dismissed;
+      const successRate = decided > 0 ? Math.round((record.allowed / decided) * 10000) / 100 : null;
+
+      this.countUpserted(await query(
+        `INSERT INTO asylum_appeals (
+          quarter_end, year, quarter, nationality_name, appeals_lodged, appeals_determined,
+          appeals_allowed, appeals_dismissed, appeals_withdrawn, success_rate_pct, ingest_run_id
+        ) VALUES ($1, $2, $3, NULL, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (quarter_end, (COALESCE(nationality_name, ''))) DO UPDATE SET
+          appeals_lodged = EXCLUDED.appeals_lodged,
+          appeals_determined = EXCLUDED.appeals_determined,
+          appeals_allowed = EXCLUDED.appeals_allowed,
+          appeals_dismissed = EXCLUDED.appeals_dismissed,
+          appeals_withdrawn = EXCLUDED.appeals_withdrawn,
+          success_rate_pct = EXCLUDED.success_rate_pct,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          year,
+          quarter,
+          record.receipts,
+          record.disposals,
+          record.allowed,
+          record.dismissed,
+          record.withdrawn,
+          successRate,
+          this.runId,
+        ]
+      ));
+
+      if (year !== ytdYear) {
+        ytdYear = year;
+        receiptsYtd = 0;
+        disposalsYtd = 0;
+      }
+      receiptsYtd += record.receipts;
+      disposalsYtd += record.disposals;
+
+      if (record.outstanding === null) continue;
+
+      this.countUpserted(await query(
+        `INSERT INTO tribunal_backlog (
+          snapshot_date, outstanding_appeals, receipts_ytd, disposals_ytd,
+          clearance_rate_pct, avg_weeks_to_hearing, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (snapshot_date) DO UPDATE SET
+          outstanding_appeals = EXCLUDED.outstanding_appeals,
+          receipts_ytd = EXCLUDED.receipts_ytd,
+          disposals_ytd = EXCLUDED.disposals_ytd,
+          clearance_rate_pct = EXCLUDED.clearance_rate_pct,
+          avg_weeks_to_hearing = EXCLUDED.avg_weeks_to_hearing,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          record.outstanding,
+          receiptsYtd,
+          disposalsYtd,
+          record.receipts > 0 ? Math.round((record.disposals / record.receipts) * 10000) / 100 : null,
+          record.avg_weeks,
+          this.runId,
+        ]
+      ));
+    }
+
+    if (data.length > 0) {
+      const latest = data[data.length - 1];
+      log('info', 'Latest tribunal quarter', {
+        quarter_end: formatDateISO(latest.quarter_end),
+        receipts: latest.receipts,
+        disposals: latest.disposals,
+        outstanding: latest.outstanding,
+      });
+    }
+  }
+}
@@ -0,0 +1,263 @@
+// UASC Claims - Quarterly ODS Parser
+// Source: Asy_D07 from Immigration System Statistics
+// Asylum claims from unaccompanied children by nationality, age and sex, plus the
+// local authority table (looked-after UASC, care leavers, National Transfer Scheme)
+
+import { BaseIngestor, parseODS, getSheetNames } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping, MappedSheet } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface UASCClaimRecord {
+  quarter_end: Date;
+  nationality_name: string;
+  claims: number;
+  age_under_14: number;
+  age_14_15: number;
+  age_16_17: number;
+  male: number;
+  female: number;
+}
+
+interface UASCLARecord {
+  snapshot_date: Date;
+  la_name: string;
+  uasc_count: number;
+  care_leavers: number | null;
+  national_transfer_in: number | null;
+  national_transfer_out: number | null;
+}
+
+interface UASCData {
+  claims: UASCClaimRecord[];
+  la: UASCLARecord[];
+}
+
+type ClaimsField = 'date' | 'year' | 'nationality' | 'age' | 'sex' | 'count' | 'uasc';
+
+// Claims per quarter and nationality, long by age group and sex; the uasc column is only present when the
+// table mixes UASC with accompanied children
+const CLAIMS_MAPPING: SheetMapping<ClaimsField> = {
+  name: 'uasc_claims',
+  sheets: [/asy_d07/i, /^(?!.*(uasc_la|local)).*uasc/i],
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    nationality: { aliases: [/nationality/i, /country/i], type: 'string', required: true },
+    age: { aliases: [/age/i], exclude: /percent/i, type: 'string' },
+    sex: { aliases: [/^sex$/i, /gender/i], type: 'string' },
+    count: { aliases: [/application/i, /claims/i, /number/i, /count/i], type: 'integer', unit: 'people', required: true },
+    uasc: { aliases: [/^uasc$/i, /unaccompanied/i], type: 'string' },
+  },
+  ignore: [/region/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+type LAField = 'date' | 'year' | 'la' | 'care_leavers' | 'transfer_in' | 'transfer_out' | 'uasc_count';
+
+// Looked-after UASC, care leavers and National Transfer Scheme moves per council; not in every edition
+const LA_MAPPING: SheetMapping<LAField> = {
+  name: 'uasc_la',
+  sheets: [/uasc_la/i, /uasc.*local|local.*uasc/i],
+  optional: true,
+  columns: {
+    date: { aliases: [/date/i, /quarter/i, /period/i], type: 'period', required: true },
+    year: { aliases: [/^year$/i], type: 'integer' },
+    la: { aliases: [/authority/i, /council/i, /^la$/i], exclude: /code/i, type: 'string', required: true },
+    care_leavers: { aliases: [/leaver/i], type: 'integer', unit: 'people' },
+    transfer_in: { aliases: [/^(?=.*transfer)(?=.*( in\b|received))/i], type: 'integer', unit: 'people' },
+    transfer_out: { aliases: [/^(?=.*transfer)(?=.*(out|sent))/i], type: 'integer', unit: 'people' },
+    uasc_count: {
+      aliases: [/looked after/i, /uasc/i, /number/i],
+      exclude: /leaver|transfer/i,
+      type: 'integer',
+      unit: 'people',
+      required: true,
+    },
+  },
+  ignore: [/region/i, /quarter/i, /code$/i, /^notes?$/i],
+};
+
+export class UASCIngestor extends BaseIngestor {
+  constructor() {
+    super('ASY_D07');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // UASC claims are published with the asylum applications datasets
+    const url = await this.resolveReleaseUrl(
+      /asylum[\s_-]+applications[\s_-]+datasets/i,
+      'https://assets.publishing.service.gov.uk/media/6714906d30536cb9274830b3/asylum-applications-datasets-sep-2024.ods'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<UASCData> {
+    const workbook = parseODS(buffer);
+
+    log('info', 'Found sheets in asylum applications file', { sheets: getSheetNames(workbook) });
+
+    const claims = this.parseClaimsSheet(this.mapSheet(workbook, CLAIMS_MAPPING));
+
+    const laSheet = this.mapSheet(workbook, LA_MAPPING);
+    const la = laSheet ? this.parseLASheet(laSheet) : [];
+
+    return { claims, la };
+  }
+
+  private parseClaimsSheet(sheet: MappedSheet<ClaimsField>): UASCClaimRecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    // Long-format rows (one per age group and sex) are summed per quarter and nationality
+    const results = new Map<string, UASCClaimRecord>();
+
+    for (const row of sheet.rows) {
+      const flag = (sheet.get(row, 'uasc') || '').toLowerCase();
+      if (flag.startsWith('n') || flag.startsWith('accompanied')) continue;
+
+      const nationality = sheet.get(row, 'nationality') || '';
+      if (!nationality || nationality.toLowerCase().includes('total')) continue;
+
+      const quarterEnd = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!quarterEnd) continue;
+
+      const count: number | null = sheet.get(row, 'count');
+      if (count === null || count <= 0) continue;
+
+      const key = `${formatDateISO(quarterEnd)}|${nationality}`;
+      const record = results.get(key) || {
+        quarter_end: quarterEnd,
+        nationality_name: nationality,
+        claims: 0,
+        age_under_14: 0,
+        age_14_15: 0,
+        age_16_17: 0,
+        male: 0,
+        female: 0,
+      };
+
+      record.claims += count;
+
+      const age = (sheet.get(row, 'age') || '').toLowerCase();
+      if (age.includes('under') || age.includes('<')) record.age_under_14 += count;
+      else if (age.includes('14')) record.age_14_15 += count;
+      else if (age.includes('16')) record.age_16_17 += count;
+
+      const sex = (sheet.get(row, 'sex') || '').toLowerCase();
+      if (sex.startsWith('m')) record.male += count;
+      else if (sex.startsWith('f')) record.female += count;
+
+      results.set(key, record);
+    }
+
+    return Array.from(results.values());
+  }
+
+  private parseLASheet(sheet: MappedSheet<LAField>): UASCLARecord[] {
+    log('info', `Parsing sheet ${sheet.sheetName}`, { rowCount: sheet.rows.length });
+
+    const results = new Map<string, UASCLARecord>();
+
+    for (const row of sheet.rows) {
+      const laName = sheet.get(row, 'la') || '';
+      if (!laName || laName.toLowerCase().includes('total')) continue;
+
+      const snapshotDate = parseQuarterLabel(sheet.get(row, 'date'), sheet.get(row, 'year') ?? undefined);
+      if (!snapshotDate) continue;
+
+      const uascCount: number | null = sheet.get(row, 'uasc_count');
+      if (uascCount === null) continue;
+
+      const key = `${formatDateISO(snapshotDate)}|${laName}`;
+      results.set(key, {
+        snapshot_date: snapshotDate,
+        la_name: laName,
+        uasc_count: uascCount,
+        care_leavers: sheet.get(row, 'care_leavers'),
+        national_transfer_in: sheet.get(row, 'transfer_in'),
+        national_transfer_out: sheet.get(row, 'transfer_out'),
+      });
+    }
+
+    return Array.from(results.values());
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('uasc_claims', ['claims', 'age_under_14', 'age_14_15', 'age_16_17', 'male', 'female']),
+      noNegativeCounts('uasc_la', ['uasc_count', 'care_leavers', 'national_transfer_in', 'national_transfer_out']),
+      // One row per nationality
+      rowCountInRange('uasc_claims', 'quarter_end', 1, 250),
+    ];
+  }
+
+  protected async load({ claims, la }: UASCData): Promise<void> {
+    for (const record of claims) {
+      const nationalityId = await this.getNationalityId(record.nationality_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO uasc_claims (
+          quarter_end, nationality_id, nationality_name, claims,
+          age_under_14, age_14_15, age_16_17, male, female, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (quarter_end, nationality_name) DO UPDATE SET
+          nationality_id = EXCLUDED.nationality_id,
+          claims = EXCLUDED.claims,
+          age_under_14 = EXCLUDED.age_under_14,
+          age_14_15 = EXCLUDED.age_14_15,
+          age_16_17 = EXCLUDED.age_16_17,
+          male = EXCLUDED.male,
+          female = EXCLUDED.female,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.quarter_end),
+          nationalityId,
+          record.nationality_name,
+          record.claims,
+          record.age_under_14,
+          record.age_14_15,
+          record.age_16_17,
+          record.male,
+          record.female,
+          this.runId,
+        ]
+      ));
+    }
+
+    const unmatched = new Set<string>();
+
+    for (const record of la) {
+      const laId = await this.getLAId(record.la_name);
+      if (!laId) unmatched.add(record.la_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO uasc_la (
+          snapshot_date, la_id, la_name, uasc_count, care_leavers,
+          national_transfer_in, national_transfer_out, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (snapshot_date, la_name) DO UPDATE SET
+          la_id = EXCLUDED.la_id,
+          uasc_count = EXCLUDED.uasc_count,
+          care_leavers = EXCLUDED.care_leavers,
+          national_transfer_in = EXCLUDED.national_transfer_in,
+          national_transfer_out = EXCLUDED.national_transfer_out,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          laId,
+          record.la_name,
+          record.uasc_count,
+          record.care_leavers,
+          record.national_transfer_in,
+          record.national_transfer_out,
+          this.runId,
+        ]
+      ));
+    }
+
+    if (unmatched.size > 0) {
+      log('warn', 'UASC local authorities not matched to local_authorities', { unmatched: Array.from(unmatched) });
+    }
+  }
+}
@@ -0,0 +1,195 @@
+// Homes for Ukraine - Weekly CSV Parser
+// Source: Homes for Ukraine sponsorship scheme visa and arrivals data (weekly)
+// National visa applications, visas issued and arrivals, plus arrivals and sponsorships per council
+
+import { BaseIngestor, parseCSV } from '../lib/ingest';
+import { query, formatDateISO, log, parseQuarterLabel } from '../lib/db';
+import { SheetMapping } from '../lib/mapping';
+import { QualityAssertion, noNegativeCounts, rowCountInRange } from '../lib/quality';
+
+interface NationalRecord {
+  snapshot_date: Date;
+  visa_applications: number | null;
+  visas_issued: number | null;
+  arrivals: number;
+}
+
+interface LARecord {
+  snapshot_date: Date;
+  la_name: string;
+  arrivals: number;
+  currently_sponsored: number | null;
+  rematches: number | null;
+  homelessness_presentations: number | null;
+}
+
+interface UkraineData {
+  national: NationalRecord[];
+  la: LARecord[];
+}
+
+type UkraineField =
+  | 'date' | 'la' | 'scheme' | 'applications' | 'visas_issued' | 'arrivals'
+  | 'currently_sponsored' | 'rematches' | 'homelessness';
+
+// Weekly figures per council, with a national (blank, 'Total' or 'UK') row in most editions; the scheme
+// column is present when the file also covers the Ukraine Family Scheme
+const UKRAINE_MAPPING: SheetMapping<UkraineField> = {
+  name: 'ukraine',
+  sheets: [/./],
+  columns: {
+    date: { aliases: [/date/i, /as at/i, /week/i], type: 'period', required: true },
+    la: { aliases: [/authority/i, /council/i], exclude: /code/i, type: 'string' },
+    scheme: { aliases: [/scheme/i], type: 'string' },
+    applications: { aliases: [/application/i], type: 'integer', unit: 'people' },
+    visas_issued: { aliases: [/issued/i, /granted/i], type: 'integer', unit: 'people' },
+    arrivals: { aliases: [/arrival/i], type: 'integer', unit: 'people', required: true },
+    currently_sponsored: { aliases: [/(current|active).*sponsor|sponsor.*(current|active)/i], type: 'integer', unit: 'people' },
+    rematches: { aliases: [/rematch/i], type: 'integer', unit: 'people' },
+    homelessness: { aliases: [/homeless/i], type: 'integer', unit: 'people' },
+  },
+  ignore: [/code$/i, /region/i, /^notes?$/i],
+};
+
+export class UkraineIngestor extends BaseIngestor {
+  constructor() {
+    super('UKRAINE');
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    // Weekly Homes for Ukraine CSV
+    const url = await this.resolveReleaseUrl(
+      /homes[\s_-]+for[\s_-]+ukraine.*(arrivals|local[\s_-]+authority)/i,
+      'https://assets.publishing.service.gov.uk/media/6718f0e1e319b91ef09e3a61/homes-for-ukraine-arrivals-by-local-authority.csv'
+    );
+    return this.fetchSource(url);
+  }
+
+  protected async parse(buffer: Buffer): Promise<UkraineData> {
+    const workbook = parseCSV(buffer);
+    const sheet = this.mapSheet(workbook, UKRAINE_MAPPING);
+
+    log('info', 'Parsing Homes for Ukraine CSV', { rowCount: sheet.rows.length });
+
+    const national = new Map<string, NationalRecord>();
+    const la = new Map<string, LARecord>();
+    const laArrivals = new Map<string, { snapshot_date: Date; arrivals: number }>();
+
+    for (const row of sheet.rows) {
+      const scheme = (sheet.get(row, 'scheme') || '').toLowerCase();
+      if (scheme && !scheme.includes('sponsor') && !scheme.includes('homes for ukraine')) continue;
+
+      const snapshotDate = parseQuarterLabel(sheet.get(row, 'date'));
+      if (!snapshotDate) continue;
+
+      const parseNum = (field: UkraineField): number | null => sheet.get(row, field);
+
+      const dateKey = formatDateISO(snapshotDate);
+      const laName: string = sheet.get(row, 'la') || '';
+      const isNationalRow = !laName || /^(total|united kingdom|uk)$/i.test(laName);
+
+      if (isNationalRow) {
+        const existing = national.get(dateKey) || { snapshot_date: snapshotDate, visa_applications: null, visas_issued: null, arrivals: 0 };
+        const applications = parseNum('applications');
+        const issued = parseNum('visas_issued');
+        if (applications !== null) existing.visa_applications = (existing.visa_applications || 0) + applications;
+        if (issued !== null) existing.visas_issued = (existing.visas_issued || 0) + issued;
+        existing.arrivals += parseNum('arrivals') || 0;
+        national.set(dateKey, existing);
+        continue;
+      }
+
+      const arrivals = parseNum('arrivals');
+      if (arrivals === null) continue;
+
+      la.set(`${dateKey}|${laName}`, {
+        snapshot_date: snapshotDate,
+        la_name: laName,
+        arrivals,
+        currently_sponsored: parseNum('currently_sponsored'),
+        rematches: parseNum('rematches'),
+        homelessness_presentations: parseNum('homelessness'),
+      });
+
+      const total = laArrivals.get(dateKey) || { snapshot_date: snapshotDate, arrivals: 0 };
+      total.arrivals += arrivals;
+      laArrivals.set(dateKey, total);
+    }
+
+    // Files without a national row still give a national arrivals total
+    for (const [dateKey, total] of laArrivals) {
+      if (!national.has(dateKey)) {
+        national.set(dateKey, { snapshot_date: total.snapshot_date, visa_applications: null, visas_issued: null, arrivals: total.arrivals });
+      }
+    }
+
+    return { national: Array.from(national.values()), la: Array.from(la.values()) };
+  }
+
+  protected assertions(): QualityAssertion[] {
+    return [
+      noNegativeCounts('ukraine_arrivals', ['visa_applications', 'visas_issued', 'arrivals']),
+      noNegativeCounts('ukraine_la', ['arrivals', 'currently_sponsored', 'rematches', 'homelessness_presentations']),
+      // A single national row per week
+      rowCountInRange('ukraine_arrivals', 'snapshot_date', 1, 1),
+    ];
+  }
+
+  protected async load({ national, la }: UkraineData): Promise<void> {
+    for (const record of national) {
+      this.countUpserted(await query(
+        `INSERT INTO ukraine_arrivals (snapshot_date, visa_applications, visas_issued, arrivals, ingest_run_id)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (snapshot_date) DO UPDATE SET
+          visa_applications = COALESCE(EXCLUDED.visa_applications, ukraine_arrivals.visa_applications),
+          visas_issued = COALESCE(EXCLUDED.visas_issued, ukraine_arrivals.visas_issued),
+          arrivals = EXCLUDED.arrivals,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          record.visa_applications,
+          record.visas_issued,
+          record.arrivals,
+          this.runId,
+        ]
+      ));
+    }
+
+    const unmatched = new Set<string>();
+
+    for (const record of la) {
+      const laId = await this.getLAId(record.la_name);
+      if (!laId) unmatched.add(record.la_name);
+
+      this.countUpserted(await query(
+        `INSERT INTO ukraine_la (
+          snapshot_date, la_id, la_name, arrivals, currently_sponsored, rematches,
+          homelessness_presentations, ingest_run_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (snapshot_date, la_name) DO UPDATE SET
+          la_id = EXCLUDED.la_id,
+          arrivals = EXCLUDED.arrivals,
+          currently_sponsored = EXCLUDED.currently_sponsored,
+          rematches = EXCLUDED.rematches,
+          homelessness_presentations = EXCLUDED.homelessness_presentations,
+          ingest_run_id = EXCLUDED.ingest_run_id
+        RETURNING (xmax = 0) AS inserted`,
+        [
+          formatDateISO(record.snapshot_date),
+          laId,
+          record.la_name,
+          record.arrivals,
+          record.currently_sponsored,
+          record.rematches,
+          record.homelessness_presentations,
+          this.runId,
+        ]
+      ));
+    }
+
+    if (unmatched.size > 0) {
+      log('warn', 'Homes for Ukraine local authorities not matched to local_authorities', { unmatched: Array.from(unmatched) });
+    }
+  }
+}
@@ -0,0 +1,177 @@
+// Raw release archive
+// Every payload an ingestor fetches is stored under the sha256 of its bytes and linked from ingest_runs,
+// so a fixed parser can re-run an old release without the GOV.UK asset still existing
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { query, getOne, hashContent } from './db';
+import { RawArchiveEntry } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// How the payload is rebuilt into what the ingestor's fetch() returned
+export type PayloadKind = 'buffer' | 'text' | 'json';
+
+export interface ArchiveStore {
+  name: string;
+  exists(key: string): Promise<boolean>;
+  put(key: string, bytes: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+}
+
+export interface ArchivedPayload {
+  entry: RawArchiveEntry;
+  payload: any;
+}
+
+const DEFAULT_ARCHIVE_PATH = 'data/archive';
+
+// A full sha256, or an unambiguous prefix of one as git accepts
+const HASH_PATTERN = /^[0-9a-f]{8,64}$/i;
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// STORES
+// =============================================================================
+
+/**
+ * Files under RAW_ARCHIVE_PATH, fanned out by the first two hash characters. Writes go to a temporary
+ * file first so an interrupted run never leaves a truncated payload under its hash.
+ */
+export class LocalArchiveStore implements ArchiveStore {
+  name = 'local';
+
+  constructor(private root: string) {}
+
+  private pathFor(key: string): string {
+    return path.join(this.root, key.slice(0, 2), key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.pathFor(key));
+  }
+
+  async put(key: string, bytes: Buffer): Promise<void> {
+    const target = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, bytes);
+    await fs.promises.rename(temp, target);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.pathFor(key));
+  }
+}
+
+export function getArchiveStore(): ArchiveStore {
+  return new LocalArchiveStore(path.resolve(process.env.RAW_ARCHIVE_PATH || DEFAULT_ARCHIVE_PATH));
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+// Buffers nested in a JSON payload (e.g. several local files read at once) are kept as base64
+function toArchivable(value: any): any {
+  if (Buffer.isBuffer(value)) return { $base64: value.toString('base64') };
+  if (Array.isArray(value)) return value.map(toArchivable);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toArchivable(v)]));
+  }
+  return value;
+}
+
+function fromArchivable(value: any): any {
+  if (Array.isArray(value)) return value.map(fromArchivable);
+  if (value && typeof value === 'object') {
+    if (typeof value.$base64 === 'string' && Object.keys(value).length === 1) return Buffer.from(value.$base64, 'base64');
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fromArchivable(v)]));
+  }
+  return value;
+}
+
+export function encodePayload(payload: any): { kind: PayloadKind; bytes: Buffer } {
+  if (Buffer.isBuffer(payload)) return { kind: 'buffer', bytes: payload };
+  if (typeof payload === 'string') return { kind: 'text', bytes: Buffer.from(payload, 'utf-8') };
+  return { kind: 'json', bytes: Buffer.from(JSON.stringify(toArchivable(payload)), 'utf-8') };
+}
+
+export function decodePayload(kind: PayloadKind, bytes: Buffer): any {
+  switch (kind) {
+    case 'buffer':
+      return bytes;
+    case 'text':
+      return bytes.toString('utf-8');
+    case 'json':
+      return fromArchivable(JSON.parse(bytes.toString('utf-8')));
+  }
+}
+
+// =============================================================================
+// ARCHIVE
+// =============================================================================
+
+/**
+ * Store a fetched payload and record it in raw_archive for the source. A payload already archived (the
+ * same release fetched again, or read by another source) isn't rewritten.
+ */
+export async function archivePayload(sourceId: number, payload: any, sourceUrl: string | null): Promise<RawArchiveEntry> {
+  const store = getArchiveStore();
+  const { kind, bytes } = encodePayload(payload);
+  const hash = hashContent(bytes);
+
+  if (!(await store.exists(hash))) {
+    await store.put(hash, bytes);
+  }
+
+  await query(
+    `INSERT INTO raw_archive (hash, source_id, kind, size_bytes, store, source_url)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (hash, source_id) DO NOTHING`,
+    [hash, sourceId, kind, bytes.length, store.name, sourceUrl]
+  );
+
+  return getOne<RawArchiveEntry>('SELECT * FROM raw_archive WHERE hash = $1 AND source_id = $2', [hash, sourceId]);
+}
+
+/**
+ * Find an archived payload by the run that fetched it or by its hash (or a unique prefix of the hash),
+ * limited to one source so a replay can't feed one ingestor another's file.
+ */
+export async function findArchiveEntry(sourceId: number, ref: string): Promise<RawArchiveEntry> {
+  if (RUN_ID_PATTERN.test(ref)) {
+    const entry = await getOne<RawArchiveEntry>(
+      `SELECT a.* FROM ingest_runs r JOIN raw_archive a ON a.hash = r.archive_hash AND a.source_id = r.source_id
+      WHERE r.id = $1 AND r.source_id = $2`,
+      [ref, sourceId]
+    );
+    if (!entry) throw new Error(`No archived payload for run ${ref} of this source`);
+    return entry;
+  }
+
+  if (!HASH_PATTERN.test(ref)) {
+    throw new Error(`Replay needs an ingest run id or an archive hash (at least 8 hex characters): ${ref}`);
+  }
+
+  const result = await query(
+    'SELECT * FROM raw_archive WHERE hash LIKE $1 AND source_id = $2 ORDER BY archived_at DESC LIMIT 2',
+    [`${ref.toLowerCase()}%`, sourceId]
+  );
+  if (result.rows.length === 0) throw new Error(`No archived payload matching ${ref} for this source`);
+  if (result.rows.length > 1) throw new Error(`Archive hash prefix ${ref} is ambiguous; give more characters`);
+  return result.rows[0];
+}
+
+export async function loadArchivedPayload(sourceId: number, ref: string): Promise<ArchivedPayload> {
+  const entry = await findArchiveEntry(sourceId, ref);
+  const bytes = await getArchiveStore().get(entry.hash);
+
+  if (hashContent(bytes) !== entry.hash) {
+    throw new Error(`Archived payload ${entry.hash} is corrupt: its bytes no longer match the hash`);
+  }
+
+  return { entry, payload: decodePayload(entry.kind, bytes) };
+}
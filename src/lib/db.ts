@@ -1,6 +1,8 @@
 // Database connection and query helpers
 import { Pool, PoolClient, QueryResult } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
 import { createHash } from 'crypto';
+import { lookupLAId } from './la-lookup';
 
 // =============================================================================
 // DATABASE POOL
@@ -21,6 +23,10 @@ pool.on('error', (err) => {
 
 export { pool };
 
+// Client of the transaction a call runs inside, so the helpers below join withTransaction's transaction
+// without it being passed down
+const transactionClient = new AsyncLocalStorage<PoolClient>();
+
 // =============================================================================
 // QUERY HELPERS
 // =============================================================================
@@ -30,7 +36,7 @@ export async function query(
   params?: any[]
 ): Promise<QueryResult<any>> {
   const start = Date.now();
-  const res = await pool.query(text, params);
+  const res = await (transactionClient.getStore() || pool).query(text, params);
   const duration = Date.now() - start;
   
   if (process.env.LOG_QUERIES === 'true') {
@@ -62,7 +68,7 @@ export async function withTransaction<T>(
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
-    const result = await callback(client);
+    const result = await transactionClient.run(client, () => callback(client));
     await client.query('COMMIT');
     return result;
   } catch (e) {
@@ -73,6 +79,33 @@ export async function withTransaction<T>(
   }
 }
 
+/**
+ * Inside withTransaction, run the callback under a savepoint, so a statement that fails rolls back only
+ * the callback's work rather than aborting the whole transaction. Outside one it just runs the callback.
+ */
+export async function withSavepoint<T>(callback: () => Promise<T>): Promise<T> {
+  const client = transactionClient.getStore();
+  if (!client) return callback();
+
+  await client.query('SAVEPOINT nested');
+  try {
+    const result = await callback();
+    await client.query('RELEASE SAVEPOINT nested');
+    return result;
+  } catch (e) {
+    await client.query('ROLLBACK TO SAVEPOINT nested');
+    throw e;
+  }
+}
+
+/**
+ * Run queries on the pool even inside withTransaction, for writes other connections should see before
+ * the transaction ends (run progress, say)
+ */
+export function outsideTransaction<T>(callback: () => Promise<T>): Promise<T> {
+  return transactionClient.exit(callback);
+}
+
 // =============================================================================
 // UPSERT HELPERS
 // =============================================================================
@@ -116,6 +149,7 @@ export async function bulkUpsert(
   const updates = updateColumns || columns.filter(c => !conflictColumns.includes(c));
   
   let inserted = 0;
+  let updated = 0;
   
   // Batch in chunks of 100
   const chunkSize = 100;
@@ -138,13 +172,17 @@ export async function bulkUpsert(
       VALUES ${valuesClauses.join(', ')}
       ON CONFLICT (${conflictColumns.join(', ')})
       DO UPDATE SET ${updates.map(c => `${c} = EXCLUDED.${c}`).join(', ')}
+      RETURNING (xmax = 0) AS inserted
     `;
     
+    // xmax is only 0 on a row the statement inserted rather than updated
     const res = await query(sql, allValues);
-    inserted += res.rowCount || 0;
+    const insertedRows = res.rows.filter(r => r.inserted).length;
+    inserted += insertedRows;
+    updated += res.rows.length - insertedRows;
   }
   
-  return { inserted, updated: 0 };
+  return { inserted, updated };
 }
 
 // =============================================================================
@@ -191,6 +229,39 @@ export function formatDateISO(date: Date): string {
   return date.toISOString().split('T')[0];
 }
 
+/**
+ * Parse the period cell used in Home Office and HMCTS tables: an Excel serial, '2024 Q3' / 'Q3 2024' / '2024-Q3',
+ * 'Jul to Sep 2024' / 'Jul-Sep', a bare quarter ('Q3' or 3) when the year comes from a separate column, or a date string
+ */
+export function parseQuarterLabel(value: any, year?: number): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'number') {
+    if (value >= 1 && value <= 4) return year ? toQuarterEnd(year, value) : null;
+    return new Date((value - 25569) * 86400 * 1000);
+  }
+
+  const text = String(value).trim();
+
+  const yearFirst = text.match(/^(\d{4})\s*-?\s*Q([1-4])$/i);
+  if (yearFirst) return toQuarterEnd(parseInt(yearFirst[1], 10), parseInt(yearFirst[2], 10));
+
+  const quarterFirst = text.match(/^Q([1-4])\s*-?\s*(\d{4})$/i);
+  if (quarterFirst) return toQuarterEnd(parseInt(quarterFirst[2], 10), parseInt(quarterFirst[1], 10));
+
+  const monthRange = text.match(/^(jan|apr|jul|oct)[a-z]*\s*(?:-|to)\s*(mar|jun|sep|dec)[a-z]*\s*(\d{4})?$/i);
+  if (monthRange) {
+    const rangeYear = monthRange[3] ? parseInt(monthRange[3], 10) : year;
+    const quarter = ['mar', 'jun', 'sep', 'dec'].indexOf(monthRange[2].toLowerCase()) + 1;
+    return rangeYear ? toQuarterEnd(rangeYear, quarter) : null;
+  }
+
+  const bareQuarter = text.match(/^Q?([1-4])$/i);
+  if (bareQuarter) return year ? toQuarterEnd(year, parseInt(bareQuarter[1], 10)) : null;
+
+  return parseUKDate(text);
+}
+
 export function getQuarterFromDate(date: Date): { year: number; quarter: number } {
   const year = date.getFullYear();
   const month = date.getMonth();
@@ -219,6 +290,58 @@ export function normalizeLAName(name: string): string {
     .trim();
 }
 
+// =============================================================================
+// LOOKUP HELPERS
+// =============================================================================
+
+/**
+ * Resolve a local authority by ONS code or name: exact match first, then trigram fuzzy match
+ */
+export async function findLAId(nameOrCode: string): Promise<number | null> {
+  return lookupLAId({ query }, nameOrCode);
+}
+
+// Name variants used across Home Office and HMIP publications, keyed by detention_facilities.code
+const DETENTION_FACILITY_ALIASES: Record<string, string[]> = {
+  HARM: ['harmondsworth'],
+  COLNBR: ['colnbrook'],
+  BROOK: ['brook house'],
+  TINSLEY: ['tinsley house'],
+  YARLS: ['yarls wood'],
+  DUNGAVEL: ['dungavel'],
+  MORTON: ['morton hall'],
+  DERWENT: ['derwentside'],
+  MANSTON: ['manston'],
+};
+
+/**
+ * Resolve a detention facility by code or published name. Returns null for combined
+ * rows (e.g. 'Heathrow IRC') and facilities not in detention_facilities.
+ */
+export async function findDetentionFacilityId(nameOrCode: string): Promise<number | null> {
+  if (!nameOrCode || nameOrCode === '' || nameOrCode === 'Unknown') {
+    return null;
+  }
+
+  const trimmed = nameOrCode.trim();
+  const normalized = normalizeText(trimmed);
+
+  const result = await getOne<{ id: number }>(
+    'SELECT id FROM detention_facilities WHERE code = $1 OR LOWER(name) = $2',
+    [trimmed.toUpperCase(), trimmed.toLowerCase()]
+  );
+
+  if (result) return result.id;
+
+  const code = Object.keys(DETENTION_FACILITY_ALIASES).find(c =>
+    DETENTION_FACILITY_ALIASES[c].some(alias => normalized.includes(alias))
+  );
+  if (!code) return null;
+
+  const aliased = await getOne<{ id: number }>('SELECT id FROM detention_facilities WHERE code = $1', [code]);
+  return aliased?.id || null;
+}
+
 // =============================================================================
 // LOGGING
 // =============================================================================
@@ -0,0 +1,272 @@
+// GOV.UK release discovery
+// Resolves the newest attachment matching a title pattern, starting from the landing or collection page in
+// data_sources.url, so ingestors don't depend on dated assets.publishing.service.gov.uk URLs
+
+import * as cheerio from 'cheerio';
+import { log } from './db';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ReleaseAttachment {
+  title: string;
+  url: string;
+  filename: string;
+  page_url: string;
+  published_at: string | null;  // YYYY-MM-DD of the page the attachment is on
+}
+
+export interface ReleasePage {
+  url: string;
+  published_at: string | null;
+  attachments: ReleaseAttachment[];
+  documents: string[];  // Linked publications, followed when the page itself has no match
+}
+
+export type PageFetcher = (url: string) => Promise<string>;
+
+const GOVUK_ORIGIN = 'https://www.gov.uk';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Data files only; GOV.UK pages also attach PDFs and HTML user guides
+const DATA_FILE_PATTERN = /\.(ods|xlsx?|csv|zip)$/i;
+
+// Links from a collection or data tables page to the publications it lists
+const DOCUMENT_PATH_PATTERN = /^\/government\/(statistical-data-sets|statistics|publications)\/[^/?#]+$/;
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+// '2024-11-28T09:30:00.000+00:00', '28 November 2024' or '28 Nov 2024' -> '2024-11-28'
+export function toISODate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const value = text.trim();
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const long = value.match(/(\d{1,2})\s+([a-z]{3})[a-z]*\s+(\d{4})/i);
+  if (long) {
+    const month = MONTHS.indexOf(long[2].toLowerCase()) + 1;
+    if (month > 0) return `${long[3]}-${String(month).padStart(2, '0')}-${long[1].padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/**
+ * The period a file covers, from the last month and year in its filename or title
+ * ('asylum-support-datasets-sep-2024.ods', 'Jul_to_Sep_2024', 'year ending September 2024'). Used to order
+ * attachments that share a page date. Returns YYYY-MM.
+ */
+export function attachmentPeriod(attachment: Pick<ReleaseAttachment, 'title' | 'filename'>): string | null {
+  let latest: string | null = null;
+  for (const text of [attachment.filename, attachment.title]) {
+    const matches = text.matchAll(/(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s_-]+(?:\d{1,2}[\s_-]+)?(\d{4})/gi);
+    for (const match of matches) {
+      const period = `${match[2]}-${String(MONTHS.indexOf(match[1].toLowerCase()) + 1).padStart(2, '0')}`;
+      if (!latest || period > latest) latest = period;
+    }
+    if (latest) return latest;
+  }
+  return null;
+}
+
+// =============================================================================
+// PAGE PARSERS
+// =============================================================================
+
+function absoluteUrl(href: string, pageUrl: string): string {
+  return new URL(href, pageUrl).toString();
+}
+
+function filenameOf(url: string): string {
+  return decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+}
+
+/**
+ * Parse a rendered GOV.UK page. Attachments come from the attachment components (falling back to any
+ * link to a data file); the date is the page's public-updated-at metadata or its 'Last updated' /
+ * 'Published' line.
+ */
+export function parseReleaseHtml(html: string, pageUrl: string): ReleasePage {
+  const $ = cheerio.load(html);
+
+  // Pages list 'Published' before 'Last updated', so the update line is looked for first
+  const metadataText = $('.gem-c-metadata, .app-c-published-dates').first().text().replace(/\s+/g, ' ');
+  const publishedAt =
+    toISODate($('meta[name="govuk:public-updated-at"]').attr('content')) ||
+    toISODate($('meta[name="govuk:updated-at"]').attr('content')) ||
+    toISODate($('.gem-c-metadata time, .app-c-published-dates time').last().attr('datetime')) ||
+    toISODate(metadataText.match(/updated\s+(\d{1,2}\s+\w+\s+\d{4})/i)?.[1]) ||
+    toISODate(metadataText.match(/published\s+(\d{1,2}\s+\w+\s+\d{4})/i)?.[1]) ||
+    null;
+
+  const attachments: ReleaseAttachment[] = [];
+  const seen = new Set<string>();
+
+  const addAttachment = (href: string | undefined, title: string) => {
+    if (!href) return;
+    const url = absoluteUrl(href, pageUrl);
+    const filename = filenameOf(url);
+    if (!DATA_FILE_PATTERN.test(filename) || seen.has(url)) return;
+    seen.add(url);
+    attachments.push({ title: title.replace(/\s+/g, ' ').trim() || filename, url, filename, page_url: pageUrl, published_at: publishedAt });
+  };
+
+  $('.gem-c-attachment, section.attachment').each((_: number, el: any) => {
+    const titleLink = $(el).find('.gem-c-attachment__title a, h3.title a, .title a').first();
+    const title = titleLink.text();
+    // The title usually links to the file; some attachments link to a preview page and put the file in a download link
+    const fileLink = $(el).find('a').filter((__: number, a: any) => DATA_FILE_PATTERN.test($(a).attr('href') || '')).first();
+    addAttachment(fileLink.attr('href') || titleLink.attr('href'), title);
+  });
+
+  $('a[href]').each((_: number, a: any) => {
+    addAttachment($(a).attr('href'), $(a).text());
+  });
+
+  // Only links in the page body, not the site navigation; fragments such as a content API body have no <main>
+  const documents: string[] = [];
+  const selfPath = new URL(pageUrl).pathname;
+  const bodyLinks = $('main, #content').length > 0 ? $('main a[href], #content a[href]') : $('a[href]');
+  bodyLinks.each((_: number, a: any) => {
+    const url = new URL(absoluteUrl($(a).attr('href')!, pageUrl));
+    if (url.origin !== GOVUK_ORIGIN || url.pathname === selfPath || !DOCUMENT_PATH_PATTERN.test(url.pathname)) return;
+    const documentUrl = `${GOVUK_ORIGIN}${url.pathname}`;
+    if (!documents.includes(documentUrl)) documents.push(documentUrl);
+  });
+
+  return { url: pageUrl, published_at: publishedAt, attachments, documents };
+}
+
+/**
+ * Parse a GOV.UK content API response (https://www.gov.uk/api/content/<path>): attachments are in
+ * details.attachments and a collection's publications in links.documents.
+ */
+export function parseReleaseContentApi(json: any, pageUrl: string): ReleasePage {
+  const publishedAt = toISODate(json.public_updated_at) || toISODate(json.first_published_at);
+
+  const attachments: ReleaseAttachment[] = (json.details?.attachments || [])
+    .filter((a: any) => a.url)
+    .map((a: any) => {
+      const url = absoluteUrl(a.url, GOVUK_ORIGIN);
+      return { title: String(a.title || '').trim(), url, filename: a.filename || filenameOf(url), page_url: pageUrl, published_at: publishedAt };
+    })
+    .filter((a: ReleaseAttachment) => DATA_FILE_PATTERN.test(a.filename));
+
+  const documents: string[] = (json.links?.documents || [])
+    .map((d: any) => d.web_url || (d.base_path ? `${GOVUK_ORIGIN}${d.base_path}` : null))
+    .filter((url: string | null): url is string => !!url);
+
+  // Data tables index pages link their datasets from the body HTML rather than links.documents
+  if (typeof json.details?.body === 'string') {
+    const body = parseReleaseHtml(json.details.body, pageUrl);
+    for (const attachment of body.attachments) {
+      if (!attachments.some(a => a.url === attachment.url)) attachments.push({ ...attachment, published_at: publishedAt });
+    }
+    for (const documentUrl of body.documents) {
+      if (!documents.includes(documentUrl)) documents.push(documentUrl);
+    }
+  }
+
+  return { url: pageUrl, published_at: publishedAt, attachments, documents };
+}
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+function matchesPattern(attachment: ReleaseAttachment, pattern: RegExp): boolean {
+  return pattern.test(attachment.title) || pattern.test(attachment.filename);
+}
+
+/**
+ * Newest attachment matching the pattern: the latest period named in the file wins, then the latest
+ * page date, then page order (GOV.UK lists the current release first).
+ */
+export function selectLatestAttachment(attachments: ReleaseAttachment[], pattern: RegExp): ReleaseAttachment | null {
+  const matching = attachments
+    .map((attachment, index) => ({ attachment, index, period: attachmentPeriod(attachment) }))
+    .filter(c => matchesPattern(c.attachment, pattern));
+
+  if (matching.length === 0) return null;
+
+  matching.sort((a, b) => {
+    if (a.period && b.period && a.period !== b.period) return a.period < b.period ? 1 : -1;
+    const aDate = a.attachment.published_at || '';
+    const bDate = b.attachment.published_at || '';
+    if (aDate !== bDate) return aDate < bDate ? 1 : -1;
+    return a.index - b.index;
+  });
+
+  return matching[0].attachment;
+}
+
+// =============================================================================
+// DISCOVERY
+// =============================================================================
+
+// Pages on www.gov.uk are read through the content API; anything else (or an API failure) is parsed as HTML
+export async function loadReleasePage(url: string, fetchPage: PageFetcher): Promise<ReleasePage> {
+  const parsed = new URL(url);
+
+  if (parsed.origin === GOVUK_ORIGIN) {
+    try {
+      const body = await fetchPage(`${GOVUK_ORIGIN}/api/content${parsed.pathname}`);
+      return parseReleaseContentApi(JSON.parse(body), url);
+    } catch (error) {
+      log('warn', 'GOV.UK content API unavailable; parsing the page instead', {
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return parseReleaseHtml(await fetchPage(url), url);
+}
+
+/**
+ * Find the newest attachment matching the pattern on the start page, or on the publications it links to
+ * when it has none (collection and data-tables index pages).
+ */
+export async function discoverRelease(
+  startUrl: string,
+  pattern: RegExp,
+  fetchPage: PageFetcher,
+  options: { maxDocuments?: number } = {}
+): Promise<ReleaseAttachment> {
+  const start = await loadReleasePage(startUrl, fetchPage);
+  const candidates = start.attachments.filter(a => matchesPattern(a, pattern));
+
+  if (candidates.length === 0) {
+    const documents = start.documents.slice(0, options.maxDocuments ?? 10);
+    log('info', 'No matching attachment on landing page; checking linked publications', {
+      url: startUrl,
+      pattern: String(pattern),
+      documents: documents.length,
+    });
+
+    for (const documentUrl of documents) {
+      try {
+        const page = await loadReleasePage(documentUrl, fetchPage);
+        candidates.push(...page.attachments.filter(a => matchesPattern(a, pattern)));
+      } catch (error) {
+        log('warn', 'Could not read linked publication', {
+          url: documentUrl,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  const latest = selectLatestAttachment(candidates, pattern);
+  if (!latest) {
+    throw new Error(`No attachment matching ${pattern} found from ${startUrl}`);
+  }
+
+  return latest;
+}
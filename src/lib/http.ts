@@ -0,0 +1,190 @@
+// HTTP fetching for ingestors
+// Bounded timeouts, redirects and response size, retries with exponential backoff on server and network
+// errors, and conditional requests so an unchanged release answers 304 instead of being downloaded again
+
+import * as https from 'https';
+import * as http from 'http';
+import { log } from './db';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FetchOptions {
+  connectTimeoutMs?: number;  // Until the socket is connected
+  readTimeoutMs?: number;     // Longest silence while waiting for headers or body data
+  maxRedirects?: number;
+  retries?: number;           // Further attempts after the first, on 5xx and network errors
+  retryDelayMs?: number;      // Doubled after each attempt
+  maxBytes?: number;
+  etag?: string | null;           // Sent as If-None-Match
+  lastModified?: string | null;   // Sent as If-Modified-Since
+}
+
+export interface FetchResult {
+  url: string;                // After redirects
+  status: number;             // 200, or 304 when the conditional request matched
+  body: Buffer | null;        // null on 304
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export class HttpError extends Error {
+  constructor(message: string, public status: number | null, public retryable: boolean) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const DEFAULTS = {
+  connectTimeoutMs: 15_000,
+  readTimeoutMs: 60_000,
+  maxRedirects: 5,
+  retries: 3,
+  retryDelayMs: 1_000,
+  maxBytes: 200 * 1024 * 1024,  // The largest ODS releases are tens of MB
+};
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+const USER_AGENT = 'UK-Asylum-Dashboard/1.0 (Research)';
+
+// =============================================================================
+// REQUEST
+// =============================================================================
+
+type Settings = typeof DEFAULTS & Pick<FetchOptions, 'etag' | 'lastModified'>;
+
+// One GET without following redirects; a redirect resolves with its location and no body
+function requestOnce(url: string, settings: Settings): Promise<FetchResult & { location?: string }> {
+  return new Promise((resolve, reject) => {
+    const protocol = url.startsWith('https') ? https : http;
+    const headers: Record<string, string> = { 'User-Agent': USER_AGENT, 'Accept': '*/*' };
+    if (settings.etag) headers['If-None-Match'] = settings.etag;
+    if (settings.lastModified) headers['If-Modified-Since'] = settings.lastModified;
+
+    let settled = false;
+    const done = (result: FetchResult & { location?: string }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(connectTimer);
+      resolve(result);
+    };
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(connectTimer);
+      req.destroy();
+      reject(error);
+    };
+
+    const req = protocol.get(url, { headers }, (res) => {
+      const status = res.statusCode || 0;
+      const validators = {
+        etag: (res.headers.etag as string) || null,
+        lastModified: (res.headers['last-modified'] as string) || null,
+      };
+
+      if (REDIRECT_STATUSES.includes(status) && res.headers.location) {
+        res.resume();
+        done({ url, status, body: null, ...validators, location: new URL(res.headers.location, url).toString() });
+        return;
+      }
+
+      if (status === 304) {
+        res.resume();
+        done({ url, status, body: null, ...validators });
+        return;
+      }
+
+      if (status !== 200) {
+        res.resume();
+        fail(new HttpError(`HTTP ${status}: ${url}`, status, status >= 500));
+        return;
+      }
+
+      const declared = parseInt(res.headers['content-length'] || '', 10);
+      if (declared > settings.maxBytes) {
+        fail(new HttpError(`Response of ${declared} bytes exceeds the ${settings.maxBytes} byte limit: ${url}`, status, false));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      res.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > settings.maxBytes) {
+          fail(new HttpError(`Response exceeds the ${settings.maxBytes} byte limit: ${url}`, status, false));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => done({ url, status, body: Buffer.concat(chunks), ...validators }));
+      res.on('error', fail);
+    });
+
+    const connectTimer = setTimeout(
+      () => fail(new HttpError(`Connection timed out after ${settings.connectTimeoutMs}ms: ${url}`, null, true)),
+      settings.connectTimeoutMs
+    );
+    // A kept-alive socket arrives already connected
+    req.on('socket', socket => {
+      if (socket.connecting) {
+        socket.once('connect', () => clearTimeout(connectTimer));
+      } else {
+        clearTimeout(connectTimer);
+      }
+    });
+
+    req.setTimeout(settings.readTimeoutMs, () =>
+      fail(new HttpError(`No data for ${settings.readTimeoutMs}ms: ${url}`, null, true))
+    );
+    req.on('error', (error: NodeJS.ErrnoException) =>
+      fail(new HttpError(`${error.code || error.message}: ${url}`, null, true))
+    );
+  });
+}
+
+// Follows up to maxRedirects redirects, resolving relative locations
+async function requestFollowing(url: string, settings: Settings): Promise<FetchResult> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    const { location, ...result } = await requestOnce(current, settings);
+    if (!location) return result;
+
+    if (redirects >= settings.maxRedirects) {
+      throw new HttpError(`Too many redirects (over ${settings.maxRedirects}) from ${url}`, result.status, false);
+    }
+    current = location;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GET a URL, retrying 5xx responses and network errors with exponential backoff. Resolves with status
+ * 304 and no body when the ETag or Last-Modified sent still matches; other 4xx responses, too many
+ * redirects and oversized responses fail without retrying.
+ */
+export async function httpGet(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+  const settings: Settings = { ...DEFAULTS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestFollowing(url, settings);
+    } catch (error) {
+      const retryable = error instanceof HttpError ? error.retryable : true;
+      if (!retryable || attempt >= settings.retries) throw error;
+
+      // Jitter keeps parallel runs from retrying in step
+      const delay = Math.round(settings.retryDelayMs * 2 ** attempt * (1 + Math.random() * 0.25));
+      log('warn', `Fetch failed; retrying in ${delay}ms`, {
+        url,
+        attempt: attempt + 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await sleep(delay);
+    }
+  }
+}
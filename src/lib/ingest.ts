@@ -1,11 +1,43 @@
 // Core ingestion framework
-import { query, getOne, hashContent, log } from './db';
+import { query, getOne, withTransaction, outsideTransaction, hashContent, log, findLAId, findDetentionFacilityId } from './db';
 import { DataSource, IngestRun, IngestStatus } from '../types';
+import { discoverRelease } from './discovery';
+import { resolveSheet, SheetMapping, MappedSheet, SchemaDrift } from './mapping';
+import { runQualityAssertions, recordQualityResults, QualityAssertion, QualityCheck, QualityContext } from './quality';
+import { archivePayload, loadArchivedPayload } from './archive';
+import { httpGet, FetchOptions } from './http';
+import * as fs from 'fs';
+import * as path from 'path';
 
 // =============================================================================
 // INGESTION BASE CLASS
 // =============================================================================
 
+// Thrown by fetchSource when the server answers a conditional request with 304
+class NotModifiedError extends Error {
+  constructor(public url: string) {
+    super(`Not modified: ${url}`);
+    this.name = 'NotModifiedError';
+  }
+}
+
+// Thrown inside the load transaction when a critical assertion fails, to roll the load back
+class QuarantinedError extends Error {
+  constructor(public failures: string[]) {
+    super(`Critical data quality assertions failed: ${failures.join(', ')}`);
+    this.name = 'QuarantinedError';
+  }
+}
+
+// Where a run's payload comes from; by default it is fetched from the source
+export interface RunOptions {
+  replay?: string;  // Ingest run id or archive hash of an archived payload
+  file?: string;    // Local copy of the source file
+  jobId?: string;   // Queue job this run is an attempt of
+}
+
+export type RunStage = 'fetching' | 'parsing' | 'loading' | 'checking';
+
 export abstract class BaseIngestor {
   protected sourceCode: string;
   protected source: DataSource | null = null;
@@ -13,6 +45,12 @@ export abstract class BaseIngestor {
   protected recordsProcessed = 0;
   protected recordsInserted = 0;
   protected recordsUpdated = 0;
+  // Merged into ingest_runs.metadata whenever the run status is written
+  protected runMetadata: Record<string, any> = {};
+  // File the payload was read from, when the ingestor recorded one
+  protected sourceUrl: string | null = null;
+  // ETag and Last-Modified of the fetched file, saved to data_sources once the run succeeds
+  protected validators: { url: string; etag: string | null; lastModified: string | null } | null = null;
 
   constructor(sourceCode: string) {
     this.sourceCode = sourceCode;
@@ -21,7 +59,7 @@ export abstract class BaseIngestor {
   /**
    * Main entry point - handles the full ingestion lifecycle
    */
-  async run(): Promise<IngestRun> {
+  async run(options: RunOptions = {}): Promise<IngestRun> {
     // Get source configuration
     this.source = await this.getSource();
     if (!this.source) {
@@ -29,20 +67,32 @@ export abstract class BaseIngestor {
     }
 
     // Create ingest run record
-    this.runId = await this.createRun();
+    this.runId = await this.createRun(options.jobId);
     
     try {
       // Mark as running
-      await this.updateRunStatus('running');
+      await this.setStage('fetching');
       
-      // Fetch data
-      log('info', `Fetching data for ${this.sourceCode}`, { runId: this.runId });
-      const rawData = await this.fetch();
+      // Fetch data, or take it from the archive or a local file
+      let rawData: any;
+      try {
+        rawData = await this.readInput(options);
+      } catch (error) {
+        if (!(error instanceof NotModifiedError)) throw error;
+        log('info', `Source not modified for ${this.sourceCode}`, { runId: this.runId, url: error.url });
+        await query('UPDATE data_sources SET last_checked = NOW() WHERE code = $1', [this.sourceCode]);
+        await this.updateRunStatus('completed', { noChanges: true });
+        const result = await this.getRun();
+        return result!;
+      }
+      const offline = !!(options.replay || options.file);
       
-      // Check if content has changed
+      // Check if content has changed; replays and local files are always reprocessed
       const contentHash = hashContent(typeof rawData === 'string' ? rawData : JSON.stringify(rawData));
-      if (this.source.content_hash === contentHash) {
+      if (!offline && this.source.content_hash === contentHash) {
         log('info', `No changes detected for ${this.sourceCode}`, { runId: this.runId });
+        await query('UPDATE data_sources SET last_checked = NOW() WHERE code = $1', [this.sourceCode]);
+        await this.saveValidators();
         await this.updateRunStatus('completed', { contentHash, noChanges: true });
         const result = await this.getRun();
         return result!;
@@ -50,6 +100,7 @@ export abstract class BaseIngestor {
       
       // Parse data
       log('info', `Parsing data for ${this.sourceCode}`, { runId: this.runId });
+      await this.setStage('parsing');
       const parsedData = await this.parse(rawData);
       this.recordsProcessed = Array.isArray(parsedData) ? parsedData.length : 1;
       
@@ -57,15 +108,65 @@ export abstract class BaseIngestor {
       log('info', `Transforming data for ${this.sourceCode}`, { runId: this.runId, records: this.recordsProcessed });
       const transformedData = await this.transform(parsedData);
       
-      // Load to database
-      log('info', `Loading data for ${this.sourceCode}`, { runId: this.runId });
-      await this.load(transformedData);
+      // Load and check in one transaction: a critical failure rolls the load back, so quarantined data
+      // never goes live (nor into anything derived from it during the load)
+      const assertions = this.assertions();
+      let qualityContext: QualityContext | null = null;
+      let checks: QualityCheck[] = [];
+      let quarantine: QuarantinedError | null = null;
+      try {
+        await withTransaction(async () => {
+          log('info', `Loading data for ${this.sourceCode}`, { runId: this.runId });
+          await this.setStage('loading');
+          await this.load(transformedData);
+
+          if (assertions.length === 0) return;
+          log('info', `Checking data quality for ${this.sourceCode}`, { runId: this.runId, assertions: assertions.length });
+          await this.setStage('checking');
+          qualityContext = {
+            runId: this.runId!,
+            sourceCode: this.sourceCode,
+            sourceId: this.source!.id,
+            recordsLoaded: this.recordsInserted + this.recordsUpdated,
+            metadata: this.runMetadata,
+          };
+          const quality = await runQualityAssertions(assertions, qualityContext);
+          checks = quality.checks;
+          this.runMetadata.quality = quality.summary;
+
+          if (quality.summary.critical_failures.length > 0) {
+            throw new QuarantinedError(quality.summary.critical_failures);
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof QuarantinedError)) throw error;
+        quarantine = error;
+      }
+      if (qualityContext) {
+        await recordQualityResults(qualityContext, checks);
+      }
+
+      if (quarantine) {
+        // The file is remembered as seen, so scheduled runs skip it until a different one is published
+        // rather than quarantining it again each time
+        if (!offline) {
+          await query('UPDATE data_sources SET last_checked = NOW(), content_hash = $1 WHERE code = $2', [contentHash, this.sourceCode]);
+          await this.saveValidators();
+        }
+        await this.updateRunStatus('quarantined', { contentHash, error: quarantine.message });
+        log('warn', `Ingestion quarantined for ${this.sourceCode}`, { runId: this.runId, failed: quarantine.failures });
+        const result = await this.getRun();
+        return result!;
+      }
       
-      // Update source last_updated and content_hash
-      await query(
-        `UPDATE data_sources SET last_updated = NOW(), last_checked = NOW(), content_hash = $1 WHERE code = $2`,
-        [contentHash, this.sourceCode]
-      );
+      // Update source last_updated and content_hash; an offline run may be an old release, so it leaves them
+      if (!offline) {
+        await query(
+          `UPDATE data_sources SET last_updated = NOW(), last_checked = NOW(), content_hash = $1 WHERE code = $2`,
+          [contentHash, this.sourceCode]
+        );
+        await this.saveValidators();
+      }
       
       // Mark as completed
       await this.updateRunStatus('completed', { contentHash });
@@ -93,6 +194,13 @@ export abstract class BaseIngestor {
    */
   protected abstract fetch(): Promise<any>;
 
+  /**
+   * Read a local copy of the source file in the form fetch() returns - can be overridden
+   */
+  protected async readLocalFile(filePath: string): Promise<any> {
+    return fs.promises.readFile(filePath);
+  }
+
   /**
    * Parse raw data into structured format - must be implemented by subclass
    */
@@ -110,6 +218,13 @@ export abstract class BaseIngestor {
    */
   protected abstract load(data: any): Promise<void>;
 
+  /**
+   * Data quality assertions checked after load - can be overridden
+   */
+  protected assertions(): QualityAssertion[] {
+    return [];
+  }
+
   // =============================================================================
   // HELPER METHODS
   // =============================================================================
@@ -121,10 +236,10 @@ export abstract class BaseIngestor {
     );
   }
 
-  protected async createRun(): Promise<string> {
+  protected async createRun(jobId?: string): Promise<string> {
     const result = await query(
-      `INSERT INTO ingest_runs (source_id, status) VALUES ($1, 'pending') RETURNING id`,
-      [this.source!.id]
+      `INSERT INTO ingest_runs (source_id, status, job_id) VALUES ($1, 'pending', $2) RETURNING id`,
+      [this.source!.id, jobId || null]
     );
     return result.rows[0].id;
   }
@@ -137,7 +252,7 @@ export abstract class BaseIngestor {
     const values: any[] = [status];
     let paramIndex = 2;
 
-    if (status === 'completed' || status === 'failed') {
+    if (status === 'completed' || status === 'failed' || status === 'quarantined') {
       updates.push(`completed_at = NOW()`);
     }
 
@@ -161,7 +276,7 @@ export abstract class BaseIngestor {
     values.push(this.recordsUpdated);
 
     updates.push(`metadata = $${paramIndex++}`);
-    values.push(JSON.stringify({ noChanges: extra?.noChanges || false }));
+    values.push(JSON.stringify({ ...this.runMetadata, noChanges: extra?.noChanges || false }));
 
     values.push(this.runId);
 
@@ -171,10 +286,197 @@ export abstract class BaseIngestor {
     );
   }
 
+  // Marks the run as running at the given stage, so its progress can be polled; written outside the load
+  // transaction so pollers see it while the load is still under way
+  protected async setStage(stage: RunStage): Promise<void> {
+    this.runMetadata.stage = stage;
+    await outsideTransaction(() => this.updateRunStatus('running'));
+  }
+
   protected async getRun(): Promise<IngestRun | null> {
     return getOne<IngestRun>('SELECT * FROM ingest_runs WHERE id = $1', [this.runId]);
   }
 
+  /**
+   * Resolve the newest GOV.UK attachment matching the pattern (data_sources.file_pattern overrides it),
+   * starting from data_sources.url, and record it on the run. Falls back to the last known asset URL
+   * when discovery fails so a changed page layout doesn't stop ingestion.
+   */
+  protected async resolveReleaseUrl(titlePattern: RegExp, fallbackUrl: string): Promise<string> {
+    // A malformed override falls back to the ingestor's own pattern rather than failing the run
+    let pattern = titlePattern;
+    let patternError: string | undefined;
+    if (this.source?.file_pattern) {
+      try {
+        pattern = new RegExp(this.source.file_pattern, 'i');
+      } catch (error) {
+        patternError = error instanceof Error ? error.message : String(error);
+        log('warn', `Invalid file_pattern for ${this.sourceCode}; using the built-in pattern`, {
+          file_pattern: this.source.file_pattern,
+          error: patternError,
+        });
+      }
+    }
+
+    try {
+      if (!this.source?.url) {
+        throw new Error('Data source has no landing page URL');
+      }
+
+      const release = await discoverRelease(this.source.url, pattern, async url => (await fetchUrl(url)).toString('utf-8'));
+      log('info', `Resolved release for ${this.sourceCode}`, { url: release.url, published_at: release.published_at });
+
+      this.runMetadata.release = {
+        discovered: true, title: release.title, page_url: release.page_url, pattern: String(pattern), pattern_error: patternError,
+      };
+      await this.recordRelease(release.url, release.published_at);
+      return release.url;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log('warn', `Release discovery failed for ${this.sourceCode}; using fallback URL`, { error: errorMessage, fallbackUrl });
+
+      this.runMetadata.release = { discovered: false, error: errorMessage, pattern: String(pattern), pattern_error: patternError };
+      await this.recordRelease(fallbackUrl, null);
+      return fallbackUrl;
+    }
+  }
+
+  /**
+   * Resolve a declarative sheet mapping and record its drift report in ingest_runs.metadata.schema.
+   * Fails the run before load when required columns are missing (or unmapped columns appear and the
+   * mapping is strict); returns null only for an optional sheet the workbook doesn't have.
+   */
+  protected mapSheet<F extends string>(workbook: xlsx.WorkBook, mapping: SheetMapping<F>): MappedSheet<F> | null {
+    const mapped = resolveSheet(workbook, mapping);
+    const drift: SchemaDrift = mapped?.drift || {
+      status: mapping.optional ? 'warn' : 'fail',
+      sheet: null,
+      header_row: null,
+      columns: {},
+      missing_required: [],
+      missing_optional: [],
+      unmapped: [],
+    };
+
+    this.runMetadata.schema = { ...this.runMetadata.schema, [mapping.name]: drift };
+
+    if (!mapped) {
+      if (mapping.optional) {
+        log('warn', `Optional sheet ${mapping.name} not found`, { sheets: getSheetNames(workbook) });
+        return null;
+      }
+      throw new Error(`Could not find sheet for ${mapping.name} (sheets: ${getSheetNames(workbook).join(', ')})`);
+    }
+
+    log(drift.status === 'ok' ? 'info' : 'warn', `Column mappings for ${mapping.name}`, {
+      sheet: drift.sheet,
+      header_row: drift.header_row,
+      columns: drift.columns,
+      missing_required: drift.missing_required,
+      missing_optional: drift.missing_optional,
+      unmapped: drift.unmapped,
+    });
+
+    if (drift.status === 'fail') {
+      const problems = [
+        drift.missing_required.length > 0 ? `missing required columns: ${drift.missing_required.join(', ')}` : null,
+        drift.unmapped.length > 0 && mapping.unmapped === 'fail' ? `unmapped columns: ${drift.unmapped.join(', ')}` : null,
+      ].filter(Boolean);
+      throw new Error(`Schema drift in ${mapping.name} (sheet ${drift.sheet}): ${problems.join('; ')}`);
+    }
+
+    return mapped;
+  }
+
+  /**
+   * Fetch the source file, sending the ETag and Last-Modified saved by the last successful run when it
+   * fetched the same URL. A 304 ends the run as unchanged before anything is downloaded or parsed.
+   */
+  protected async fetchSource(url: string): Promise<Buffer> {
+    const conditional = !!this.source?.validated_url && this.source.validated_url === url;
+    const result = await httpGet(url, conditional
+      ? { etag: this.source!.etag, lastModified: this.source!.last_modified }
+      : {});
+
+    this.runMetadata.http = { status: result.status, url: result.url, conditional };
+    if (result.status === 304) {
+      throw new NotModifiedError(url);
+    }
+
+    this.validators = { url, etag: result.etag, lastModified: result.lastModified };
+    return result.body!;
+  }
+
+  // Only validators of a file that was loaded or quarantined are kept, so a failed run's file is fetched in full again
+  protected async saveValidators(): Promise<void> {
+    if (!this.validators) return;
+    await query(
+      'UPDATE data_sources SET etag = $1, last_modified = $2, validated_url = $3 WHERE code = $4',
+      [this.validators.etag, this.validators.lastModified, this.validators.url, this.sourceCode]
+    );
+  }
+
+  protected async recordRelease(url: string, publishedAt: string | null): Promise<void> {
+    this.sourceUrl = url;
+    await query(
+      'UPDATE ingest_runs SET resolved_url = $1, published_at = $2 WHERE id = $3',
+      [url, publishedAt, this.runId]
+    );
+  }
+
+  /**
+   * Get the run's payload: an archived one for a replay (carrying over the release it came from), a local
+   * file, or a fresh fetch. Fetched and local payloads are archived and linked to the run.
+   */
+  protected async readInput(options: RunOptions): Promise<any> {
+    if (options.replay) {
+      log('info', `Replaying archived payload for ${this.sourceCode}`, { runId: this.runId, ref: options.replay });
+      const { entry, payload } = await loadArchivedPayload(this.source!.id, options.replay);
+
+      const original = await getOne<{ resolved_url: string | null; published_at: string | null }>(
+        `SELECT resolved_url, published_at::text AS published_at FROM ingest_runs
+        WHERE archive_hash = $1 AND source_id = $2 AND id <> $3
+        ORDER BY started_at
+        LIMIT 1`,
+        [entry.hash, this.source!.id, this.runId]
+      );
+      const url = original?.resolved_url || entry.source_url;
+      if (url) await this.recordRelease(url, original?.published_at || null);
+
+      this.runMetadata.input = { mode: 'replay', ref: options.replay, archive_hash: entry.hash };
+      await query('UPDATE ingest_runs SET archive_hash = $1 WHERE id = $2', [entry.hash, this.runId]);
+      return payload;
+    }
+
+    let payload: any;
+    if (options.file) {
+      const filePath = path.resolve(options.file);
+      log('info', `Reading local file for ${this.sourceCode}`, { runId: this.runId, file: filePath });
+      payload = await this.readLocalFile(filePath);
+      this.sourceUrl = filePath;
+      this.runMetadata.input = { mode: 'file', file: filePath };
+    } else {
+      log('info', `Fetching data for ${this.sourceCode}`, { runId: this.runId });
+      payload = await this.fetch();
+    }
+
+    await this.archive(payload);
+    return payload;
+  }
+
+  // A payload that can't be archived is logged, not fatal: the run can still load it
+  protected async archive(payload: any): Promise<void> {
+    try {
+      const entry = await archivePayload(this.source!.id, payload, this.sourceUrl);
+      await query('UPDATE ingest_runs SET archive_hash = $1 WHERE id = $2', [entry.hash, this.runId]);
+      this.runMetadata.archive = { hash: entry.hash, size_bytes: entry.size_bytes };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log('warn', `Could not archive payload for ${this.sourceCode}`, { runId: this.runId, error: errorMessage });
+      this.runMetadata.archive = { error: errorMessage };
+    }
+  }
+
   /**
    * Helper to get or create nationality ID
    */
@@ -206,30 +508,24 @@ export abstract class BaseIngestor {
    * Helper to get or create LA ID
    */
   protected async getLAId(name: string): Promise<number | null> {
-    if (!name || name === '' || name === 'Unknown') {
-      return null;
-    }
-
-    const normalized = name.toLowerCase().trim();
-
-    // Try exact match first
-    let result = await getOne<{ id: number }>(
-      'SELECT id FROM local_authorities WHERE name = $1 OR name_normalized = $2',
-      [name, normalized]
-    );
-
-    if (result) return result.id;
+    return findLAId(name);
+  }
 
-    // Try fuzzy match
-    result = await getOne<{ id: number }>(
-      `SELECT id FROM local_authorities 
-       WHERE name_normalized % $1 
-       ORDER BY similarity(name_normalized, $1) DESC 
-       LIMIT 1`,
-      [normalized]
-    );
+  /**
+   * Helper to match a published facility name to detention_facilities
+   */
+  protected async getFacilityId(name: string): Promise<number | null> {
+    return findDetentionFacilityId(name);
+  }
 
-    return result?.id || null;
+  /**
+   * Count the rows of an upsert ending RETURNING (xmax = 0) AS inserted, as bulkUpsert does
+   */
+  protected countUpserted(result: { rows: { inserted: boolean }[] }): void {
+    for (const row of result.rows) {
+      if (row.inserted) this.recordsInserted++;
+      else this.recordsUpdated++;
+    }
   }
 }
 
@@ -238,44 +534,22 @@ export abstract class BaseIngestor {
 // =============================================================================
 
 import * as xlsx from 'xlsx';
-import * as https from 'https';
-import * as http from 'http';
 
-export async function fetchUrl(url: string): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const protocol = url.startsWith('https') ? https : http;
-    
-    protocol.get(url, { 
-      headers: { 
-        'User-Agent': 'UK-Asylum-Dashboard/1.0 (Research)',
-        'Accept': '*/*'
-      }
-    }, (res) => {
-      // Handle redirects
-      if (res.statusCode === 301 || res.statusCode === 302) {
-        if (res.headers.location) {
-          fetchUrl(res.headers.location).then(resolve).catch(reject);
-          return;
-        }
-      }
-      
-      if (res.statusCode !== 200) {
-        reject(new Error(`HTTP ${res.statusCode}: ${url}`));
-        return;
-      }
-      
-      const chunks: Buffer[] = [];
-      res.on('data', (chunk) => chunks.push(chunk));
-      res.on('end', () => resolve(Buffer.concat(chunks)));
-      res.on('error', reject);
-    }).on('error', reject);
-  });
+// Follows redirects and retries failures (see lib/http.ts)
+export async function fetchUrl(url: string, options?: FetchOptions): Promise<Buffer> {
+  const result = await httpGet(url, options);
+  return result.body!;
 }
 
 export function parseODS(buffer: Buffer): xlsx.WorkBook {
   return xlsx.read(buffer, { type: 'buffer' });
 }
 
+// CSV files load as a workbook with a single sheet; cells stay as text so DD/MM/YYYY isn't read as a US date
+export function parseCSV(buffer: Buffer): xlsx.WorkBook {
+  return xlsx.read(buffer.toString('utf-8'), { type: 'string', raw: true });
+}
+
 export function sheetToJson<T = any>(
   workbook: xlsx.WorkBook,
   sheetName: string,
@@ -293,6 +567,29 @@ export function sheetToJson<T = any>(
   });
 }
 
+/**
+ * Sum the count fields of records that share a key, keeping the other fields of the first. Long-format
+ * tables break each key down further (by region, applicant type, ...) than the table they load into,
+ * and an upsert can only write each key once.
+ */
+export function sumByKey<T>(records: T[], key: (record: T) => string, fields: (keyof T)[]): T[] {
+  const merged = new Map<string, T>();
+
+  for (const record of records) {
+    const k = key(record);
+    const existing = merged.get(k);
+    if (!existing) {
+      merged.set(k, { ...record });
+      continue;
+    }
+    for (const field of fields) {
+      (existing as any)[field] = ((existing[field] as any) || 0) + ((record[field] as any) || 0);
+    }
+  }
+
+  return [...merged.values()];
+}
+
 export function getSheetNames(workbook: xlsx.WorkBook): string[] {
   return workbook.SheetNames;
 }
@@ -326,7 +623,7 @@ export const INGESTION_SCHEDULE: ScheduleConfig[] = [
   // Tier A: Daily/Weekly
   { sourceCode: 'SBA_DAILY', cron: '0 7,10,13,16,19,22 * * *', enabled: true }, // Every 3 hours 7am-10pm
   { sourceCode: 'SBA_WEEKLY', cron: '0 12 * * 5', enabled: true }, // Fridays at noon
-  { sourceCode: 'FRENCH_PREV', cron: '0 12 * * 5', enabled: true }, // Fridays at noon
+  { sourceCode: 'FRENCH_PREV', cron: '0 12 * * 5', enabled: false }, // Fridays at noon; no ingestor yet
   { sourceCode: 'UKRAINE', cron: '0 10 * * 1', enabled: true }, // Mondays at 10am
   
   // Tier B: Quarterly (check daily, actual updates quarterly)
@@ -335,7 +632,7 @@ export const INGESTION_SCHEDULE: ScheduleConfig[] = [
   { sourceCode: 'ASY_D03', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'ASY_D06', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'ASY_D07', cron: '0 9 * * *', enabled: true },
-  { sourceCode: 'ASY_D09', cron: '0 9 * * *', enabled: true },
+  { sourceCode: 'ASY_D09', cron: '0 9 * * *', enabled: false }, // No ingestor yet
   { sourceCode: 'ASY_D11', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'HMCTS_FIA', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'DET_D01', cron: '0 9 * * *', enabled: true },
@@ -349,65 +646,11 @@ export const INGESTION_SCHEDULE: ScheduleConfig[] = [
   { sourceCode: 'RES_D01', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'RES_D02', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'FAM_D01', cron: '0 9 * * *', enabled: true },
+  { sourceCode: 'INAD_D01', cron: '0 9 * * *', enabled: true },
+  { sourceCode: 'ADM_D02', cron: '0 9 * * *', enabled: true },
   { sourceCode: 'MOJ_FNP', cron: '0 9 * * *', enabled: true },
   
   // Tier C: Annual (check weekly)
   { sourceCode: 'ONS_POP', cron: '0 9 * * 1', enabled: true },
+  // ONS_GEO and IMD_2019 read local files, so they are run by hand rather than scheduled
 ];
-
-// =============================================================================
-// RUN ALL INGESTORS
-// =============================================================================
-
-import { SmallBoatDailyIngestor } from '../ingestion/small-boats-daily';
-import { SmallBoatWeeklyIngestor } from '../ingestion/small-boats-weekly';
-import { AsylumSupportLAIngestor } from '../ingestion/asylum-support-la';
-import { AsylumClaimsIngestor } from '../ingestion/asylum-claims';
-import { AsylumDecisionsIngestor } from '../ingestion/asylum-decisions';
-import { AsylumBacklogIngestor } from '../ingestion/asylum-backlog';
-
-const INGESTORS: Record<string, new () => BaseIngestor> = {
-  'SBA_DAILY': SmallBoatDailyIngestor,
-  'SBA_WEEKLY': SmallBoatWeeklyIngestor,
-  'ASY_D11': AsylumSupportLAIngestor,
-  'ASY_D01': AsylumClaimsIngestor,
-  'ASY_D02': AsylumDecisionsIngestor,
-  'ASY_D03': AsylumBacklogIngestor,
-  // Add more as implemented
-};
-
-export async function runIngestor(sourceCode: string): Promise<IngestRun> {
-  const IngestorClass = INGESTORS[sourceCode];
-  if (!IngestorClass) {
-    throw new Error(`No ingestor implemented for: ${sourceCode}`);
-  }
-  
-  const ingestor = new IngestorClass();
-  return ingestor.run();
-}
-
-export async function runAllIngestors(tier?: 'A' | 'B' | 'C'): Promise<IngestRun[]> {
-  const sources = await query(
-    tier 
-      ? 'SELECT * FROM data_sources WHERE tier = $1 AND status = $2'
-      : 'SELECT * FROM data_sources WHERE status = $1',
-    tier ? [tier, 'active'] : ['active']
-  );
-  
-  const results: IngestRun[] = [];
-  
-  for (const source of sources.rows) {
-    if (INGESTORS[source.code]) {
-      try {
-        const run = await runIngestor(source.code);
-        results.push(run);
-      } catch (error) {
-        log('error', `Failed to run ingestor: ${source.code}`, { 
-          error: error instanceof Error ? error.message : String(error) 
-        });
-      }
-    }
-  }
-  
-  return results;
-}
@@ -0,0 +1,331 @@
+// Durable ingestion job queue
+// Scheduled, startup, API and CLI runs are all rows in ingest_jobs. Any number of scheduler replicas
+// claim them with FOR UPDATE SKIP LOCKED, and a partial unique index keeps each source to one queued or
+// running job, so the same source never ingests twice at once and queued work survives restarts
+
+import * as os from 'os';
+import { query, getOne, log } from './db';
+import { Queryable } from './la-lookup';
+import { IngestJob, IngestJobTrigger, IngestJobRunOptions } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EnqueueOptions {
+  trigger: IngestJobTrigger;
+  scheduledFor?: Date;   // Cron slot; replicas queueing the same slot get the same job
+  maxAttempts?: number;
+}
+
+export interface EnqueueResult {
+  job: IngestJob;
+  queued: boolean;   // false when the source already had an active job (or this slot's job), returned instead
+}
+
+export interface ClaimedJob extends IngestJob {
+  source_code: string;
+}
+
+export interface ClaimSourceResult {
+  job: ClaimedJob;
+  claimed: boolean;   // false when the source already had an active job, returned instead
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Times an insert that lost a race with another job of the source is tried again
+const MAX_CONFLICT_RETRIES = 3;
+
+// First retry waits this long, doubling after each further attempt
+const RETRY_DELAY_MS = parseInt(process.env.JOB_RETRY_DELAY_MS || '300000', 10);
+
+// Running jobs heartbeat every HEARTBEAT_INTERVAL_MS; one silent for STALE_AFTER_MS belongs to a worker
+// that died, and is queued again (or dead-lettered) by whichever worker polls next
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+const STALE_AFTER_MS = 5 * 60_000;
+
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// The API queues jobs over its own pool (see server.ts); workers and the CLI use lib/db's
+const defaultDb: Queryable = { query };
+
+async function first<T>(db: Queryable, text: string, params: any[]): Promise<T | null> {
+  const result = await db.query(text, params);
+  return result.rows[0] || null;
+}
+
+// =============================================================================
+// ENQUEUE
+// =============================================================================
+
+/**
+ * Queue a run of a source. Returns the existing job instead when the source already has one queued or
+ * running, and null when the source isn't registered in data_sources.
+ */
+export async function enqueueJob(
+  sourceCode: string,
+  options: EnqueueOptions,
+  db: Queryable = defaultDb
+): Promise<EnqueueResult | null> {
+  const scheduledFor = options.scheduledFor || null;
+
+  // The job the insert conflicted with can finish before it is looked up; the insert is then tried again
+  for (let attempt = 1; ; attempt++) {
+    const inserted = await first<IngestJob>(
+      db,
+      `INSERT INTO ingest_jobs (source_id, trigger, scheduled_for, max_attempts)
+      SELECT id, $2, $3, $4 FROM data_sources WHERE code = $1
+      ON CONFLICT DO NOTHING
+      RETURNING *`,
+      [sourceCode, options.trigger, scheduledFor, options.maxAttempts || DEFAULT_MAX_ATTEMPTS]
+    );
+    if (inserted) {
+      log('info', `Queued ${sourceCode}`, { jobId: inserted.id, trigger: options.trigger });
+      return { job: inserted, queued: true };
+    }
+
+    const existing = await first<IngestJob>(
+      db,
+      `SELECT j.* FROM ingest_jobs j JOIN data_sources ds ON ds.id = j.source_id
+      WHERE ds.code = $1 AND (j.status IN ('queued', 'running') OR j.scheduled_for = $2)
+      ORDER BY j.created_at DESC
+      LIMIT 1`,
+      [sourceCode, scheduledFor]
+    );
+    if (existing) return { job: existing, queued: false };
+
+    if (!(await isRegistered(db, sourceCode))) return null;
+    if (attempt >= MAX_CONFLICT_RETRIES) {
+      throw new Error(`Could not queue ${sourceCode}: its active job kept changing`);
+    }
+  }
+}
+
+async function isRegistered(db: Queryable, sourceCode: string): Promise<boolean> {
+  return !!(await first(db, 'SELECT 1 FROM data_sources WHERE code = $1', [sourceCode]));
+}
+
+export async function activeSourceCodes(tier?: 'A' | 'B' | 'C'): Promise<string[]> {
+  const result = await query(
+    tier
+      ? `SELECT code FROM data_sources WHERE tier = $1 AND status = 'active' ORDER BY code`
+      : `SELECT code FROM data_sources WHERE status = 'active' ORDER BY code`,
+    tier ? [tier] : []
+  );
+  return result.rows.map(row => row.code);
+}
+
+/**
+ * Queue a dead job again with a fresh set of attempts. When its source already has another job queued
+ * or running, that job is returned instead, as enqueueJob does; null when the job isn't dead.
+ */
+export async function retryDeadJob(jobId: string, db: Queryable = defaultDb): Promise<EnqueueResult | null> {
+  const dead = await first<IngestJob>(db, `SELECT * FROM ingest_jobs WHERE id = $1 AND status = 'dead'`, [jobId]);
+  if (!dead) return null;
+
+  let retried: IngestJob | null = null;
+  try {
+    retried = await first<IngestJob>(
+      db,
+      `UPDATE ingest_jobs j
+      SET status = 'queued', attempts = 0, run_after = NOW(), completed_at = NULL
+      WHERE j.id = $1 AND j.status = 'dead'
+        AND NOT EXISTS (
+          SELECT 1 FROM ingest_jobs a WHERE a.source_id = j.source_id AND a.status IN ('queued', 'running')
+        )
+      RETURNING j.*`,
+      [jobId]
+    );
+  } catch (error) {
+    // A job for the source queued after the NOT EXISTS check was taken trips the one-active-job index
+    if ((error as { code?: string }).code !== '23505') throw error;
+  }
+  if (retried) {
+    log('info', `Queued dead job ${jobId} again`, { sourceId: retried.source_id });
+    return { job: retried, queued: true };
+  }
+
+  const active = await first<IngestJob>(
+    db,
+    `SELECT * FROM ingest_jobs WHERE source_id = $1 AND status IN ('queued', 'running') ORDER BY created_at DESC LIMIT 1`,
+    [dead.source_id]
+  );
+  return active ? { job: active, queued: false } : null;
+}
+
+// =============================================================================
+// WORKER SIDE
+// =============================================================================
+
+/**
+ * Take the next due job, oldest first. Jobs another worker is claiming at the same moment are skipped
+ * rather than waited for.
+ */
+export async function claimJob(workerId: string = WORKER_ID): Promise<ClaimedJob | null> {
+  return getOne<ClaimedJob>(
+    `UPDATE ingest_jobs j
+    SET status = 'running', attempts = j.attempts + 1, locked_by = $1, locked_at = NOW(), heartbeat_at = NOW()
+    FROM data_sources ds
+    WHERE ds.id = j.source_id
+      AND j.id = (
+        SELECT id FROM ingest_jobs
+        WHERE status = 'queued' AND run_after <= NOW()
+        ORDER BY run_after, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+    RETURNING j.*, ds.code AS source_code`,
+    [workerId]
+  );
+}
+
+/**
+ * Claim a source for a run in this process (run-ingest without --enqueue) as a running job with a
+ * single attempt, so it holds the same per-source lock as a queued job. The run's replay or file is kept
+ * on the job, so retrying it runs the same input. Returns the source's active job instead when it has
+ * one, and null when the source isn't registered in data_sources.
+ */
+export async function claimSourceJob(
+  sourceCode: string,
+  trigger: IngestJobTrigger,
+  runOptions: IngestJobRunOptions = {},
+  workerId: string = WORKER_ID
+): Promise<ClaimSourceResult | null> {
+  // As in enqueueJob, the active job can finish between the insert and the lookup
+  for (let attempt = 1; ; attempt++) {
+    const claimed = await getOne<ClaimedJob>(
+      `INSERT INTO ingest_jobs (source_id, trigger, status, attempts, max_attempts, locked_by, locked_at, heartbeat_at, run_options)
+      SELECT id, $2, 'running', 1, 1, $3, NOW(), NOW(), $4 FROM data_sources WHERE code = $1
+      ON CONFLICT DO NOTHING
+      RETURNING *, $1::text AS source_code`,
+      [sourceCode, trigger, workerId, JSON.stringify(runOptions)]
+    );
+    if (claimed) return { job: claimed, claimed: true };
+
+    const active = await getOne<ClaimedJob>(
+      `SELECT j.*, ds.code AS source_code FROM ingest_jobs j JOIN data_sources ds ON ds.id = j.source_id
+      WHERE ds.code = $1 AND j.status IN ('queued', 'running')`,
+      [sourceCode]
+    );
+    if (active) return { job: active, claimed: false };
+
+    if (!(await isRegistered(defaultDb, sourceCode))) return null;
+    if (attempt >= MAX_CONFLICT_RETRIES) {
+      throw new Error(`Could not claim ${sourceCode}: its active job kept changing`);
+    }
+  }
+}
+
+/**
+ * Do a claimed job's work, heartbeating while it runs, then complete it, or record the failed attempt
+ * and rethrow. Shared by the workers and run-ingest.
+ */
+export async function runClaimedJob<T>(job: ClaimedJob, work: () => Promise<T>, workerId: string = WORKER_ID): Promise<T> {
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId).catch(error => log('warn', `Heartbeat failed for job ${job.id}`, { error: String(error) }));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await work();
+    await completeJob(job.id, workerId);
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = await failJob(job, errorMessage, workerId);
+    log(status === 'dead' ? 'error' : 'warn', `Job failed: ${job.source_code}`, {
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.max_attempts,
+      status,
+      error: errorMessage,
+    });
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+export async function heartbeatJob(jobId: string, workerId: string = WORKER_ID): Promise<void> {
+  await query(
+    `UPDATE ingest_jobs SET heartbeat_at = NOW() WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+    [jobId, workerId]
+  );
+}
+
+export async function completeJob(jobId: string, workerId: string = WORKER_ID): Promise<void> {
+  await query(
+    `UPDATE ingest_jobs SET status = 'completed', completed_at = NOW(), locked_by = NULL
+    WHERE id = $1 AND locked_by = $2`,
+    [jobId, workerId]
+  );
+}
+
+/**
+ * Record a failed attempt: the job is queued again after an exponential backoff, or dead-lettered once
+ * it has used its attempts. Returns the status it was left in.
+ */
+export async function failJob(job: ClaimedJob, error: string, workerId: string = WORKER_ID): Promise<'queued' | 'dead'> {
+  const dead = job.attempts >= job.max_attempts;
+  const delayMs = RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+
+  await query(
+    `UPDATE ingest_jobs
+    SET status = $2::ingest_job_status, last_error = $3, locked_by = NULL,
+      run_after = CASE WHEN $2::ingest_job_status = 'queued' THEN NOW() + $4 * INTERVAL '1 millisecond' ELSE run_after END,
+      completed_at = CASE WHEN $2::ingest_job_status = 'dead' THEN NOW() END
+    WHERE id = $1 AND locked_by = $5`,
+    [job.id, dead ? 'dead' : 'queued', error, delayMs, workerId]
+  );
+  return dead ? 'dead' : 'queued';
+}
+
+/**
+ * Hand a running job back to the queue without counting the attempt, when its worker shuts down
+ * mid-run. The interrupted run is marked failed.
+ */
+export async function releaseJob(jobId: string, workerId: string = WORKER_ID): Promise<void> {
+  const released = await getOne<IngestJob>(
+    `UPDATE ingest_jobs
+    SET status = 'queued', attempts = GREATEST(attempts - 1, 0), locked_by = NULL, run_after = NOW()
+    WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    RETURNING *`,
+    [jobId, workerId]
+  );
+  if (released) {
+    await failInterruptedRuns([jobId], `Worker ${workerId} shut down during the run`);
+  }
+}
+
+/**
+ * Take back running jobs whose worker stopped heartbeating (killed, or lost its connection): each is
+ * queued again, or dead-lettered if that was its last attempt, and its interrupted run marked failed.
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const result = await query(
+    `UPDATE ingest_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END::ingest_job_status,
+      last_error = 'Worker ' || locked_by || ' stopped responding',
+      completed_at = CASE WHEN attempts >= max_attempts THEN NOW() END,
+      locked_by = NULL, run_after = NOW()
+    WHERE status = 'running' AND heartbeat_at < NOW() - $1 * INTERVAL '1 millisecond'
+    RETURNING id, status, last_error`,
+    [STALE_AFTER_MS]
+  );
+
+  for (const job of result.rows) {
+    log('warn', `Recovered stale job ${job.id}`, { status: job.status, error: job.last_error });
+  }
+  if (result.rows.length > 0) {
+    await failInterruptedRuns(result.rows.map(job => job.id), 'Worker stopped responding during the run');
+  }
+  return result.rows.length;
+}
+
+async function failInterruptedRuns(jobIds: string[], error: string): Promise<void> {
+  await query(
+    `UPDATE ingest_runs SET status = 'failed', completed_at = NOW(), error_message = $2
+    WHERE job_id = ANY($1::uuid[]) AND status IN ('pending', 'running')`,
+    [jobIds, error]
+  );
+}
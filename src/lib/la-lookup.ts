@@ -0,0 +1,39 @@
+// Local authority lookup
+// Takes the caller's pool or client, so the API resolves LAs over its own pool rather than opening lib/db's
+
+import { QueryResult } from 'pg';
+
+export interface Queryable {
+  query(text: string, params?: any[]): Promise<QueryResult<any>>;
+}
+
+/**
+ * Resolve a local authority by ONS code or name: exact match first, then trigram fuzzy match
+ */
+export async function lookupLAId(db: Queryable, nameOrCode: string): Promise<number | null> {
+  if (!nameOrCode || nameOrCode === '' || nameOrCode === 'Unknown') {
+    return null;
+  }
+
+  const trimmed = nameOrCode.trim();
+  const normalized = trimmed.toLowerCase();
+
+  // Try ONS code or exact name match first
+  const exact = await db.query(
+    'SELECT id FROM local_authorities WHERE ons_code = $1 OR name = $2 OR name_normalized = $3',
+    [trimmed.toUpperCase(), trimmed, normalized]
+  );
+
+  if (exact.rows[0]) return exact.rows[0].id;
+
+  // Try fuzzy match
+  const fuzzy = await db.query(
+    `SELECT id FROM local_authorities 
+     WHERE name_normalized % $1 
+     ORDER BY similarity(name_normalized, $1) DESC 
+     LIMIT 1`,
+    [normalized]
+  );
+
+  return fuzzy.rows[0]?.id || null;
+}
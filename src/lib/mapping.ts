@@ -0,0 +1,245 @@
+// Declarative sheet and column mappings for spreadsheet ingestors
+// Each source declares the sheets it reads and the columns it expects (aliases, type, unit); resolving a
+// mapping against a workbook reports schema drift so a renamed header fails the run instead of loading zeros
+
+import * as xlsx from 'xlsx';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// 'period' keeps a quarter or period label as published (text, or an Excel serial) for parseQuarterLabel
+export type ColumnType = 'string' | 'integer' | 'number' | 'date' | 'period';
+
+export interface ColumnSpec {
+  aliases: RegExp[];  // Header patterns, tried in order
+  exclude?: RegExp;   // Headers an alias would match that belong to another column
+  type: ColumnType;
+  unit?: string;      // 'people', 'boats', 'percent', 'days', 'gbp'
+  scale?: number;     // Multiplier into the stored unit, e.g. 1000 for '£ thousands'
+  required?: boolean;
+}
+
+export interface SheetMapping<F extends string = string> {
+  name: string;                       // Key for the drift report in ingest_runs.metadata.schema
+  sheets: RegExp[];                   // Sheet name patterns, tried in order
+  columns: Record<F, ColumnSpec>;
+  ignore?: RegExp[];                  // Published columns the source deliberately doesn't load
+  unmapped?: 'warn' | 'fail';         // Policy for headers matched by no column or ignore pattern (default warn)
+  optional?: boolean;                 // The workbook may legitimately not have this sheet
+}
+
+export interface SchemaDrift {
+  status: 'ok' | 'warn' | 'fail';
+  sheet: string | null;
+  header_row: number | null;          // 1-based row the headers were read from
+  columns: Record<string, string | null>;
+  missing_required: string[];
+  missing_optional: string[];         // Recorded, but optional columns aren't in every edition
+  unmapped: string[];
+}
+
+export interface MappedSheet<F extends string = string> {
+  sheetName: string;
+  headers: string[];
+  columns: Partial<Record<F, string>>;
+  rows: Record<string, any>[];
+  drift: SchemaDrift;
+  has(field: F): boolean;
+  get(row: Record<string, any>, field: F): any;
+}
+
+// Tables put title and notes rows above the headers, so the header row is searched for
+const HEADER_SEARCH_ROWS = 20;
+
+// Official statistics mark suppressed or not-applicable cells rather than leaving them blank
+const SUPPRESSED_VALUE = /^(\.\.|:|-|–|z|x|c|u|n\/a|\[[a-z]\])$/i;
+
+// =============================================================================
+// VALUES
+// =============================================================================
+
+/**
+ * Convert a cell to the column's type, applying its scale. Blank and suppressed cells are null.
+ */
+export function parseCell(value: any, spec: Pick<ColumnSpec, 'type' | 'scale'>): any {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' && (value.trim() === '' || SUPPRESSED_VALUE.test(value.trim()))) return null;
+
+  switch (spec.type) {
+    case 'string':
+      return String(value).trim();
+
+    case 'period':
+      return typeof value === 'number' ? value : String(value).trim();
+
+    case 'integer':
+    case 'number': {
+      const parsed = typeof value === 'number'
+        ? value
+        : spec.type === 'integer'
+          ? parseInt(String(value).replace(/[^0-9.-]/g, ''), 10)
+          : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+      if (isNaN(parsed)) return null;
+      const scaled = parsed * (spec.scale ?? 1);
+      return spec.type === 'integer' ? Math.round(scaled) : scaled;
+    }
+
+    case 'date': {
+      if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+      // Excel serial date
+      const date = typeof value === 'number' ? new Date((value - 25569) * 86400 * 1000) : new Date(String(value).trim());
+      return isNaN(date.getTime()) ? null : date;
+    }
+  }
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+function matchColumns<F extends string>(headers: string[], mapping: SheetMapping<F>): Partial<Record<F, string>> {
+  const columns: Partial<Record<F, string>> = {};
+  const used = new Set<string>();
+
+  for (const field of Object.keys(mapping.columns) as F[]) {
+    const spec = mapping.columns[field];
+    for (const alias of spec.aliases) {
+      const header = headers.find(h => !used.has(h) && alias.test(h) && !spec.exclude?.test(h));
+      if (header) {
+        columns[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+function requiredFields<F extends string>(mapping: SheetMapping<F>): F[] {
+  return (Object.keys(mapping.columns) as F[]).filter(f => mapping.columns[f].required);
+}
+
+// Header cells as strings, with repeats suffixed the way sheet_to_json names them
+function headerNames(cells: any[]): string[] {
+  const seen = new Map<string, number>();
+  return cells.map(cell => {
+    const name = cell === null || cell === undefined ? '' : String(cell).replace(/\s+/g, ' ').trim();
+    if (!name) return '';
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name}_${count}`;
+  });
+}
+
+interface Candidate<F extends string> {
+  sheetName: string;
+  grid: any[][];
+  headerIndex: number;
+  headers: string[];
+  columns: Partial<Record<F, string>>;
+  requiredFound: number;
+  found: number;
+}
+
+// The row with the most required (then total) columns matched is taken as the header row
+function bestHeaderRow<F extends string>(workbook: xlsx.WorkBook, sheetName: string, mapping: SheetMapping<F>): Candidate<F> | null {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return null;
+
+  const grid = xlsx.utils.sheet_to_json<any[]>(sheet, { header: 1, defval: null, blankrows: false });
+  const required = requiredFields(mapping);
+  let best: Candidate<F> | null = null;
+
+  for (let i = 0; i < Math.min(grid.length, HEADER_SEARCH_ROWS); i++) {
+    const headers = headerNames(grid[i] || []);
+    if (headers.filter(Boolean).length < 2) continue;
+
+    const columns = matchColumns(headers, mapping);
+    const requiredFound = required.filter(f => columns[f]).length;
+    const found = Object.keys(columns).length;
+
+    if (!best || requiredFound > best.requiredFound || (requiredFound === best.requiredFound && found > best.found)) {
+      best = { sheetName, grid, headerIndex: i, headers, columns, requiredFound, found };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the mapping's sheet and header row and match its columns. Sheets are tried in the order of the
+ * name patterns; when none names the sheet, the first sheet with every required column is used. The
+ * drift report lists missing columns and any headers the mapping doesn't account for.
+ */
+export function resolveSheet<F extends string>(workbook: xlsx.WorkBook, mapping: SheetMapping<F>): MappedSheet<F> | null {
+  const required = requiredFields(mapping);
+  const sheetNames = workbook.SheetNames;
+
+  const named = mapping.sheets
+    .map(pattern => sheetNames.find(s => pattern.test(s.trim())))
+    .filter((s): s is string => !!s);
+
+  let candidate: Candidate<F> | null = null;
+  for (const sheetName of named) {
+    const found = bestHeaderRow(workbook, sheetName, mapping);
+    if (found && (!candidate || found.requiredFound > candidate.requiredFound)) candidate = found;
+    if (candidate && candidate.requiredFound === required.length) break;
+  }
+
+  if (!candidate || candidate.requiredFound < required.length) {
+    for (const sheetName of sheetNames.filter(s => !named.includes(s))) {
+      const found = bestHeaderRow(workbook, sheetName, mapping);
+      if (found && found.requiredFound === required.length && found.found > 0) {
+        candidate = found;
+        break;
+      }
+    }
+  }
+
+  if (!candidate) return null;
+
+  const { sheetName, grid, headerIndex, headers, columns } = candidate;
+  const fields = Object.keys(mapping.columns) as F[];
+  const mappedHeaders = new Set(Object.values(columns) as string[]);
+
+  const unmapped = headers.filter(h =>
+    h && !mappedHeaders.has(h) && !(mapping.ignore || []).some(pattern => pattern.test(h))
+  );
+  const missingRequired = required.filter(f => !columns[f]);
+  const missingOptional = fields.filter(f => !mapping.columns[f].required && !columns[f]);
+
+  const drift: SchemaDrift = {
+    status: missingRequired.length > 0 || (unmapped.length > 0 && mapping.unmapped === 'fail')
+      ? 'fail'
+      : unmapped.length > 0 ? 'warn' : 'ok',
+    sheet: sheetName,
+    header_row: headerIndex + 1,
+    columns: Object.fromEntries(fields.map(f => [f, columns[f] ?? null])),
+    missing_required: missingRequired,
+    missing_optional: missingOptional,
+    unmapped,
+  };
+
+  const rows = grid.slice(headerIndex + 1).map(cells => {
+    const row: Record<string, any> = {};
+    headers.forEach((header, i) => {
+      if (header) row[header] = cells[i] ?? null;
+    });
+    return row;
+  });
+
+  return {
+    sheetName,
+    headers: headers.filter(Boolean),
+    columns,
+    rows,
+    drift,
+    has: field => !!columns[field],
+    get: (row, field) => {
+      const header = columns[field];
+      return header ? parseCell(row[header], mapping.columns[field]) : null;
+    },
+  };
+}
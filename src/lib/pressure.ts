@@ -0,0 +1,134 @@
+// LA Pressure Index computation
+// Runs after ASY_D11 loads a snapshot, and across every snapshot when population or deprivation inputs change
+
+import { query, log } from './db';
+
+// =============================================================================
+// WEIGHTS
+// =============================================================================
+
+export interface PressureWeights {
+  per_capita: number;
+  hotel_share: number;
+  growth: number;
+  deprivation: number;
+}
+
+// Stored with every row so a later change of weights doesn't misdescribe older scores
+export const PRESSURE_WEIGHTS: PressureWeights = {
+  per_capita: 0.4,
+  hotel_share: 0.2,
+  growth: 0.2,
+  deprivation: 0.2,
+};
+
+// =============================================================================
+// COMPUTATION
+// =============================================================================
+
+/**
+ * Score every LA in a snapshot (or every snapshot when omitted). Components are percentile ranks
+ * (0-100) among LAs with a value in the same snapshot: support per 10k, hotel share, year-on-year
+ * growth and deprivation. Deprivation is ranked within each nation because IMD, WIMD and SIMD ranks
+ * aren't comparable. The composite is the weighted mean of the components an LA has, with the
+ * weights re-scaled over those components.
+ */
+export async function computePressureIndex(snapshotDate?: string): Promise<number> {
+  const w = PRESSURE_WEIGHTS;
+
+  const result = await query(`
+    WITH base AS (
+      -- asylum_support_la has no unique key, so a re-loaded snapshot can hold an LA twice; the newest row wins
+      SELECT DISTINCT ON (asl.snapshot_date, asl.la_id)
+        asl.snapshot_date, asl.la_id, asl.la_name,
+        asl.per_10k_population, asl.hotel_share_pct, asl.yoy_change_pct,
+        la.imd_rank, LEFT(la.ons_code, 1) AS nation
+      FROM asylum_support_la asl
+      JOIN local_authorities la ON la.id = asl.la_id
+      WHERE ($1::DATE IS NULL OR asl.snapshot_date = $1::DATE)
+        AND asl.total_supported > 0
+      ORDER BY asl.snapshot_date, asl.la_id, asl.id DESC
+    ),
+    components AS (
+      SELECT
+        snapshot_date, la_id, la_name,
+        CASE WHEN per_10k_population IS NOT NULL THEN
+          PERCENT_RANK() OVER (PARTITION BY snapshot_date, per_10k_population IS NULL ORDER BY per_10k_population) * 100
+        END AS per_capita_score,
+        CASE WHEN hotel_share_pct IS NOT NULL THEN
+          PERCENT_RANK() OVER (PARTITION BY snapshot_date, hotel_share_pct IS NULL ORDER BY hotel_share_pct) * 100
+        END AS hotel_share_score,
+        CASE WHEN yoy_change_pct IS NOT NULL THEN
+          PERCENT_RANK() OVER (PARTITION BY snapshot_date, yoy_change_pct IS NULL ORDER BY yoy_change_pct) * 100
+        END AS growth_score,
+        -- IMD rank 1 is the most deprived area
+        CASE WHEN imd_rank IS NOT NULL THEN
+          PERCENT_RANK() OVER (PARTITION BY snapshot_date, nation, imd_rank IS NULL ORDER BY imd_rank DESC) * 100
+        END AS deprivation_score
+      FROM base
+    ),
+    composite AS (
+      SELECT
+        c.*,
+        (COALESCE(per_capita_score * $2, 0) + COALESCE(hotel_share_score * $3, 0)
+          + COALESCE(growth_score * $4, 0) + COALESCE(deprivation_score * $5, 0))
+        / NULLIF(
+          CASE WHEN per_capita_score IS NOT NULL THEN $2 ELSE 0 END
+          + CASE WHEN hotel_share_score IS NOT NULL THEN $3 ELSE 0 END
+          + CASE WHEN growth_score IS NOT NULL THEN $4 ELSE 0 END
+          + CASE WHEN deprivation_score IS NOT NULL THEN $5 ELSE 0 END,
+          0
+        ) AS pressure_index
+      FROM components c
+    ),
+    ranked AS (
+      SELECT
+        composite.*,
+        CASE WHEN pressure_index IS NOT NULL THEN
+          RANK() OVER (PARTITION BY snapshot_date, pressure_index IS NULL ORDER BY pressure_index DESC)
+        END AS pressure_rank,
+        CASE WHEN pressure_index IS NOT NULL THEN
+          NTILE(5) OVER (PARTITION BY snapshot_date, pressure_index IS NULL ORDER BY pressure_index)
+        END AS pressure_quintile
+      FROM composite
+    )
+    INSERT INTO pressure_index (
+      snapshot_date, la_id, la_name,
+      per_capita_score, hotel_share_score, growth_score, deprivation_score,
+      pressure_index, pressure_rank, pressure_quintile, weights
+    )
+    SELECT
+      snapshot_date, la_id, la_name,
+      ROUND(per_capita_score::DECIMAL, 2), ROUND(hotel_share_score::DECIMAL, 2),
+      ROUND(growth_score::DECIMAL, 2), ROUND(deprivation_score::DECIMAL, 2),
+      ROUND(pressure_index::DECIMAL, 2), pressure_rank, pressure_quintile, $6::JSONB
+    FROM ranked
+    ON CONFLICT (snapshot_date, la_id) DO UPDATE SET
+      la_name = EXCLUDED.la_name,
+      per_capita_score = EXCLUDED.per_capita_score,
+      hotel_share_score = EXCLUDED.hotel_share_score,
+      growth_score = EXCLUDED.growth_score,
+      deprivation_score = EXCLUDED.deprivation_score,
+      pressure_index = EXCLUDED.pressure_index,
+      pressure_rank = EXCLUDED.pressure_rank,
+      pressure_quintile = EXCLUDED.pressure_quintile,
+      weights = EXCLUDED.weights,
+      created_at = NOW()
+    RETURNING snapshot_date::text AS snapshot_date
+  `, [
+    snapshotDate || null,
+    w.per_capita,
+    w.hotel_share,
+    w.growth,
+    w.deprivation,
+    JSON.stringify(w),
+  ]);
+
+  log('info', 'Computed pressure index', {
+    snapshots: Array.from(new Set(result.rows.map(row => row.snapshot_date))).sort(),
+    local_authorities: result.rowCount,
+    weights: w,
+  });
+
+  return result.rowCount || 0;
+}
@@ -0,0 +1,331 @@
+// Post-load data quality assertions
+// Each ingestor declares assertions over the rows its run loaded; results are stored in data_quality_results
+// and a failed critical assertion quarantines the run
+
+import { query, log, withSavepoint } from './db';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AssertionSeverity = 'critical' | 'warning';
+
+export interface QualityContext {
+  runId: string;
+  sourceCode: string;
+  sourceId: number;
+  recordsLoaded: number;
+  metadata: Record<string, any>;  // The run's metadata so far, e.g. totals published alongside the data
+}
+
+export interface AssertionOutcome {
+  passed: boolean;
+  observed?: any;
+  expected?: any;
+  message: string;
+}
+
+export interface QualityAssertion {
+  name: string;  // Unique within a source
+  severity: AssertionSeverity;
+  check(ctx: QualityContext): Promise<AssertionOutcome>;
+}
+
+export interface QualitySummary {
+  checked: number;
+  passed: number;
+  critical_failures: string[];
+  warnings: string[];
+}
+
+export interface QualityCheck {
+  assertion: QualityAssertion;
+  outcome: AssertionOutcome;
+}
+
+// =============================================================================
+// ASSERTIONS
+// =============================================================================
+// Table and column names come from the ingestor declarations, never from request input
+
+/**
+ * No row loaded by the run has a negative value in any of the count columns.
+ */
+export function noNegativeCounts(table: string, columns: string[], severity: AssertionSeverity = 'critical'): QualityAssertion {
+  return {
+    name: `no_negative_counts:${table}`,
+    severity,
+    async check(ctx) {
+      const result = await query(`
+        SELECT
+          COUNT(*)::int AS checked,
+          COUNT(*) FILTER (WHERE ${columns.map(c => `${c} < 0`).join(' OR ')})::int AS negative,
+          ${columns.map(c => `COUNT(*) FILTER (WHERE ${c} < 0)::int AS ${c}`).join(',\n          ')}
+        FROM ${table}
+        WHERE ingest_run_id = $1
+      `, [ctx.runId]);
+
+      const { checked, negative, ...byColumn } = result.rows[0];
+      const affected = Object.fromEntries(Object.entries(byColumn).filter(([, n]) => (n as number) > 0));
+
+      return {
+        passed: negative === 0,
+        observed: { rows: checked, negative_rows: negative, columns: affected },
+        expected: { negative_rows: 0 },
+        message: negative === 0
+          ? `No negative counts in ${checked} rows`
+          : `${negative} of ${checked} rows have negative counts (${Object.keys(affected).join(', ')})`,
+      };
+    },
+  };
+}
+
+/**
+ * Every non-null value the run loaded into the column lies within [min, max], e.g. rates between 0 and 100.
+ */
+export function valuesInRange(
+  table: string,
+  column: string,
+  min: number,
+  max: number,
+  severity: AssertionSeverity = 'critical'
+): QualityAssertion {
+  return {
+    name: `in_range:${table}.${column}`,
+    severity,
+    async check(ctx) {
+      const result = await query(`
+        SELECT
+          COUNT(${column})::int AS checked,
+          COUNT(*) FILTER (WHERE ${column} < $2 OR ${column} > $3)::int AS outside,
+          MIN(${column})::float AS min,
+          MAX(${column})::float AS max
+        FROM ${table}
+        WHERE ingest_run_id = $1
+      `, [ctx.runId, min, max]);
+
+      const row = result.rows[0];
+      return {
+        passed: row.outside === 0,
+        observed: { rows: row.checked, outside: row.outside, min: row.min, max: row.max },
+        expected: { min, max },
+        message: row.outside === 0
+          ? `${column} within ${min}-${max} in ${row.checked} rows`
+          : `${row.outside} of ${row.checked} rows have ${column} outside ${min}-${max} (${row.min} to ${row.max})`,
+      };
+    },
+  };
+}
+
+/**
+ * The number of rows the run loaded for its latest period is within the expected range, catching a
+ * parse that silently dropped most rows (or a table that gained a breakdown and multiplied them).
+ */
+export function rowCountInRange(
+  table: string,
+  periodColumn: string,
+  min: number,
+  max: number,
+  severity: AssertionSeverity = 'critical'
+): QualityAssertion {
+  return {
+    name: `row_count:${table}`,
+    severity,
+    async check(ctx) {
+      const result = await query(`
+        SELECT ${periodColumn}::text AS period, COUNT(*)::int AS rows
+        FROM ${table}
+        WHERE ingest_run_id = $1
+          AND ${periodColumn} = (SELECT MAX(${periodColumn}) FROM ${table} WHERE ingest_run_id = $1)
+        GROUP BY ${periodColumn}
+      `, [ctx.runId]);
+
+      const period = result.rows[0]?.period || null;
+      const rows = result.rows[0]?.rows || 0;
+      const passed = rows >= min && rows <= max;
+
+      return {
+        passed,
+        observed: { period, rows },
+        expected: { min, max },
+        message: passed
+          ? `${rows} rows for ${period}`
+          : `${rows} rows for ${period || 'latest period'}, expected ${min}-${max}`,
+      };
+    },
+  };
+}
+
+/**
+ * The total for the run's latest period is within maxRatio times the previous period's, in either
+ * direction. Each period is summed over the newest run that loaded it, so re-loaded rows aren't doubled.
+ * Warning by default: genuine jumps happen, but they should be looked at before anyone quotes them.
+ */
+export function periodOnPeriodJump(
+  table: string,
+  periodColumn: string,
+  valueColumn: string,
+  maxRatio: number,
+  severity: AssertionSeverity = 'warning'
+): QualityAssertion {
+  return {
+    name: `period_jump:${table}.${valueColumn}`,
+    severity,
+    async check(ctx) {
+      const result = await query(`
+        WITH run_periods AS (
+          SELECT t.${periodColumn} AS period, r.started_at, SUM(t.${valueColumn})::float AS total
+          FROM ${table} t
+          JOIN ingest_runs r ON r.id = t.ingest_run_id
+          WHERE t.${periodColumn} <= (SELECT MAX(${periodColumn}) FROM ${table} WHERE ingest_run_id = $1)
+          GROUP BY t.${periodColumn}, t.ingest_run_id, r.started_at
+        ),
+        totals AS (
+          SELECT DISTINCT ON (period) period, total
+          FROM run_periods
+          ORDER BY period DESC, started_at DESC
+        )
+        SELECT period::text AS period, total FROM totals ORDER BY period DESC LIMIT 2
+      `, [ctx.runId]);
+
+      const [latest, previous] = result.rows;
+      if (!latest || !previous || !previous.total || !latest.total) {
+        return { passed: true, observed: { latest: latest || null, previous: previous || null }, message: 'No previous period to compare' };
+      }
+
+      const ratio = Math.round((latest.total / previous.total) * 100) / 100;
+      const passed = ratio <= maxRatio && ratio >= 1 / maxRatio;
+
+      return {
+        passed,
+        observed: { latest, previous, ratio },
+        expected: { max_ratio: maxRatio },
+        message: passed
+          ? `${valueColumn} changed ${ratio}x from ${previous.period} to ${latest.period}`
+          : `${valueColumn} changed ${ratio}x from ${previous.period} (${previous.total}) to ${latest.period} (${latest.total}), beyond ${maxRatio}x`,
+      };
+    },
+  };
+}
+
+/**
+ * The run's rows for a period sum to a published total within tolerancePct, e.g. LA figures against
+ * the national total row of the same table. Passes with a note when the source published no total.
+ */
+export function sumMatchesTotal(
+  name: string,
+  table: string,
+  periodColumn: string,
+  sumColumn: string,
+  publishedTotal: (ctx: QualityContext) => { period: string; total: number } | null,
+  tolerancePct: number,
+  severity: AssertionSeverity = 'critical'
+): QualityAssertion {
+  return {
+    name,
+    severity,
+    async check(ctx) {
+      const expected = publishedTotal(ctx);
+      if (!expected) {
+        return { passed: true, message: 'No published total to compare against' };
+      }
+
+      const result = await query(
+        `SELECT COALESCE(SUM(${sumColumn}), 0)::float AS total FROM ${table} WHERE ingest_run_id = $1 AND ${periodColumn} = $2`,
+        [ctx.runId, expected.period]
+      );
+
+      const total = result.rows[0].total;
+      const differencePct = expected.total > 0
+        ? Math.round(Math.abs(total - expected.total) / expected.total * 10000) / 100
+        : (total === 0 ? 0 : 100);
+      const passed = differencePct <= tolerancePct;
+
+      return {
+        passed,
+        observed: { period: expected.period, total, difference_pct: differencePct },
+        expected: { total: expected.total, tolerance_pct: tolerancePct },
+        message: passed
+          ? `Rows sum to ${total} against a published ${expected.total} (${differencePct}% apart)`
+          : `Rows sum to ${total} against a published ${expected.total}: ${differencePct}% apart, over ${tolerancePct}%`,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// RUNNER
+// =============================================================================
+
+/**
+ * Check every assertion. An assertion that errors counts as failed at its declared severity, so a broken
+ * check can't let bad data through. Results are stored separately by recordQualityResults, as the checks
+ * run inside the load's transaction and a quarantined run's results must outlive its rollback.
+ */
+export async function runQualityAssertions(
+  assertions: QualityAssertion[],
+  ctx: QualityContext
+): Promise<{ summary: QualitySummary; checks: QualityCheck[] }> {
+  const summary: QualitySummary = { checked: 0, passed: 0, critical_failures: [], warnings: [] };
+  const checks: QualityCheck[] = [];
+
+  for (const assertion of assertions) {
+    let outcome: AssertionOutcome;
+    try {
+      // A check whose SQL fails would otherwise abort the load transaction, failing every check after it
+      outcome = await withSavepoint(() => assertion.check(ctx));
+    } catch (error) {
+      outcome = {
+        passed: false,
+        message: `Assertion could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    checks.push({ assertion, outcome });
+
+    summary.checked++;
+    if (outcome.passed) {
+      summary.passed++;
+    } else if (assertion.severity === 'critical') {
+      summary.critical_failures.push(assertion.name);
+    } else {
+      summary.warnings.push(assertion.name);
+    }
+
+    if (!outcome.passed) {
+      log(assertion.severity === 'critical' ? 'error' : 'warn', `Data quality assertion failed: ${assertion.name}`, {
+        source: ctx.sourceCode,
+        runId: ctx.runId,
+        detail: outcome.message,
+      });
+    }
+  }
+
+  return { summary, checks };
+}
+
+// One data_quality_results row per assertion checked
+export async function recordQualityResults(ctx: QualityContext, checks: QualityCheck[]): Promise<void> {
+  for (const { assertion, outcome } of checks) {
+    await query(
+      `INSERT INTO data_quality_results (ingest_run_id, source_id, assertion, severity, passed, observed, expected, message)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (ingest_run_id, assertion) DO UPDATE SET
+        severity = EXCLUDED.severity,
+        passed = EXCLUDED.passed,
+        observed = EXCLUDED.observed,
+        expected = EXCLUDED.expected,
+        message = EXCLUDED.message,
+        checked_at = NOW()`,
+      [
+        ctx.runId,
+        ctx.sourceId,
+        assertion.name,
+        assertion.severity,
+        outcome.passed,
+        outcome.observed === undefined ? null : JSON.stringify(outcome.observed),
+        outcome.expected === undefined ? null : JSON.stringify(outcome.expected),
+        outcome.message,
+      ]
+    );
+  }
+}
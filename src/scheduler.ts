@@ -1,32 +1,81 @@
 // Cron Scheduler for Automated Ingestion
 // Run as a separate process: tsx src/scheduler.ts
+// Cron queues jobs in ingest_jobs and every replica works the queue, so the scheduler scales horizontally
 
 import cron from 'node-cron';
-import { runIngestor, INGESTION_SCHEDULE, runAllIngestors } from './lib/ingest';
+import { INGESTION_SCHEDULE } from './lib/ingest';
+import { runIngestor, hasIngestor } from './ingestion';
+import {
+  ClaimedJob, WORKER_ID,
+  enqueueJob, activeSourceCodes, claimJob, runClaimedJob, releaseJob, recoverStaleJobs,
+} from './lib/jobs';
 import { log } from './lib/db';
 
-// Track running jobs to prevent overlaps
-const runningJobs = new Set<string>();
+// How often an idle worker checks the queue
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '10000', 10);
 
-async function runJob(sourceCode: string): Promise<void> {
-  if (runningJobs.has(sourceCode)) {
-    log('info', `Skipping ${sourceCode} - already running`);
-    return;
+let currentJob: ClaimedJob | null = null;
+let stopping = false;
+
+// Every replica's cron fires for the same slot; the slot time makes them queue a single job
+async function queueScheduledJob(sourceCode: string): Promise<void> {
+  const slot = new Date();
+  slot.setSeconds(0, 0);
+
+  try {
+    const result = await enqueueJob(sourceCode, { trigger: 'schedule', scheduledFor: slot });
+    if (result && !result.queued) {
+      log('info', `Skipping ${sourceCode} - already queued`, { jobId: result.job.id, status: result.job.status });
+    }
+  } catch (error) {
+    log('error', `Failed to queue scheduled job: ${sourceCode}`, { error: String(error) });
   }
-  
-  runningJobs.add(sourceCode);
-  
+}
+
+async function runJob(job: ClaimedJob): Promise<void> {
+  currentJob = job;
   try {
-    log('info', `Scheduled job starting: ${sourceCode}`);
-    await runIngestor(sourceCode);
-    log('info', `Scheduled job completed: ${sourceCode}`);
+    log('info', `Job starting: ${job.source_code}`, { jobId: job.id, trigger: job.trigger, attempt: job.attempts });
+    await runClaimedJob(job, () => runIngestor(job.source_code, { ...job.run_options, jobId: job.id }));
+    log('info', `Job completed: ${job.source_code}`, { jobId: job.id });
   } catch (error) {
-    log('error', `Scheduled job failed: ${sourceCode}`, { error: String(error) });
+    // The failed attempt is recorded and logged by runClaimedJob
   } finally {
-    runningJobs.delete(sourceCode);
+    currentJob = null;
+  }
+}
+
+// One job at a time per process; run more replicas for more throughput
+async function workQueue(): Promise<void> {
+  log('info', `Worker ${WORKER_ID} polling the job queue every ${POLL_INTERVAL_MS}ms`);
+
+  while (!stopping) {
+    try {
+      await recoverStaleJobs();
+      const job = await claimJob();
+      if (job) {
+        await runJob(job);
+        continue;
+      }
+    } catch (error) {
+      log('error', 'Job queue poll failed', { error: String(error) });
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
   }
 }
 
+// A job interrupted by shutdown goes back on the queue for another replica, without using an attempt
+async function shutdown(): Promise<void> {
+  log('info', 'Scheduler shutting down...');
+  stopping = true;
+
+  if (currentJob) {
+    await releaseJob(currentJob.id)
+      .catch(error => log('error', `Failed to release job ${currentJob?.id}`, { error: String(error) }));
+  }
+  process.exit(0);
+}
+
 function startScheduler(): void {
   log('info', 'Starting ingestion scheduler...');
   
@@ -36,6 +85,12 @@ function startScheduler(): void {
       log('info', `Skipping disabled job: ${config.sourceCode}`);
       continue;
     }
+
+    // Sources that are only tracked, not ingested, would dead-letter a job on every slot
+    if (!hasIngestor(config.sourceCode)) {
+      log('info', `Skipping job without an ingestor: ${config.sourceCode}`);
+      continue;
+    }
     
     if (!cron.validate(config.cron)) {
       log('error', `Invalid cron expression for ${config.sourceCode}: ${config.cron}`);
@@ -43,7 +98,7 @@ function startScheduler(): void {
     }
     
     cron.schedule(config.cron, () => {
-      runJob(config.sourceCode);
+      queueScheduledJob(config.sourceCode);
     }, {
       timezone: 'Europe/London'
     });
@@ -62,24 +117,23 @@ function startScheduler(): void {
   
   log('info', 'Scheduler started');
   
-  // Keep process alive
-  process.on('SIGINT', () => {
-    log('info', 'Scheduler shutting down...');
-    process.exit(0);
-  });
-  
-  process.on('SIGTERM', () => {
-    log('info', 'Scheduler shutting down...');
-    process.exit(0);
-  });
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+// Queue an initial ingestion on startup if requested; replicas starting together share the jobs
+async function queueInitialIngest(): Promise<void> {
+  log('info', 'Queueing initial Tier A ingestion...');
+  const codes = (await activeSourceCodes('A')).filter(hasIngestor);
+  for (const code of codes) {
+    await enqueueJob(code, { trigger: 'startup' });
+  }
 }
 
-// Run initial ingestion on startup if requested
 if (process.env.RUN_INITIAL_INGEST === 'true') {
-  log('info', 'Running initial Tier A ingestion...');
-  runAllIngestors('A')
-    .then(() => log('info', 'Initial ingestion complete'))
-    .catch((err: any) => log('error', 'Initial ingestion failed', { error: String(err) }));
+  queueInitialIngest()
+    .catch((err: any) => log('error', 'Initial ingestion failed to queue', { error: String(err) }));
 }
 
 startScheduler();
+workQueue();
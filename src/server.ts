@@ -4,6 +4,11 @@ import pg from 'pg';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import Parser from 'rss-parser';
+import { lookupLAId } from './lib/la-lookup';
+import { IngestStatus, IngestJobStatus, UpdateFrequency } from './types';
+import { hasIngestor, ingestorCodes } from './ingestion';
+import { enqueueJob, retryDeadJob } from './lib/jobs';
+import { timingSafeEqual } from 'crypto';
 
 const { Pool } = pg;
 const rssParser = new Parser();
@@ -22,8 +27,6 @@ const pool = new Pool({
 // ============================================================================
 
 const CONFIG = {
-  GOV_UK_SMALL_BOATS: 'https://www.gov.uk/government/publications/migrants-detected-crossing-the-english-channel-in-small-boats',
-  GOV_UK_LAST_7_DAYS: 'https://www.gov.uk/government/publications/migrants-detected-crossing-the-english-channel-in-small-boats/migrants-detected-crossing-the-english-channel-in-small-boats-last-7-days',
   HANSARD_RSS: 'https://hansard.parliament.uk/rss/Commons.rss',
   WHATDOTHEYKNOW_ASYLUM: 'https://www.whatdotheyknow.com/feed/search/asylum%20seeker',
   GUARDIAN_IMMIGRATION: 'https://www.theguardian.com/uk/immigration/rss',
@@ -884,7 +887,7 @@ async function getTomorrowPrediction() {
 }
 
 // ============================================================================
-// SMALL BOATS - GOV.UK SCRAPER
+// SMALL BOATS - DATABASE (small_boat_arrivals_daily / _weekly)
 // ============================================================================
 
 interface SmallBoatDay {
@@ -894,130 +897,132 @@ interface SmallBoatDay {
 }
 
 interface SmallBoatsData {
+  data_source: 'database';
   last_updated: string;
+  staleness_days: number;
   ytd_total: number;
   ytd_boats: number;
   year: number;
   last_7_days: SmallBoatDay[];
   last_crossing_date: string | null;
-  days_since_crossing: number;
+  days_since_crossing: number | null;
   yoy_comparison: {
     previous_year: number;
     previous_year_total: number;
-    change_pct: number;
-    direction: 'up' | 'down';
+    previous_year_to_date: number;
+    change_pct: number | null;
+    direction: 'up' | 'down' | 'flat';
   };
   source: string;
 }
 
-async function scrapeSmallBoatsData(): Promise<SmallBoatsData> {
+// Arrivals per period: ingested weeks first, then daily rows after the last ingested week.
+// Weeks are bucketed by week_ending, so a week straddling 1 January counts towards the new year.
+async function getSmallBoatTotalsFromDb(year: number, asOf: string) {
+  const result = await pool.query(`
+    WITH ranges(period, start_date, end_date) AS (
+      VALUES
+        ('ytd', make_date($1::int, 1, 1), $2::date),
+        ('previous_ytd', make_date($1::int - 1, 1, 1), ($2::date - INTERVAL '1 year')::date),
+        ('previous_year', make_date($1::int - 1, 1, 1), make_date($1::int - 1, 12, 31))
+    )
+    SELECT r.period, (w.arrivals + d.arrivals)::int AS arrivals, (w.boats + d.boats)::int AS boats
+    FROM ranges r
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(SUM(arrivals), 0) AS arrivals, COALESCE(SUM(boats), 0) AS boats, MAX(week_ending) AS covered_to
+      FROM small_boat_arrivals_weekly
+      WHERE week_ending BETWEEN r.start_date AND r.end_date
+    ) w
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(SUM(arrivals), 0) AS arrivals, COALESCE(SUM(boats), 0) AS boats
+      FROM small_boat_arrivals_daily
+      WHERE date BETWEEN r.start_date AND r.end_date
+        AND (w.covered_to IS NULL OR date > w.covered_to)
+    ) d
+  `, [year, asOf]);
+
+  const totals: Record<string, { arrivals: number; boats: number }> = {};
+  for (const row of result.rows) {
+    totals[row.period] = { arrivals: row.arrivals, boats: row.boats };
+  }
+  return totals;
+}
+
+// The seven calendar days up to the newest daily row; days with no row count as zero
+async function getSmallBoatLast7DaysFromDb(latestDaily: string | null): Promise<SmallBoatDay[]> {
+  if (!latestDaily) return [];
+
+  const result = await pool.query(`
+    SELECT day::date::text AS date, COALESCE(d.arrivals, 0) AS migrants, COALESCE(d.boats, 0) AS boats
+    FROM generate_series($1::date - 6, $1::date, INTERVAL '1 day') AS day
+    LEFT JOIN small_boat_arrivals_daily d ON d.date = day::date
+    ORDER BY day DESC
+  `, [latestDaily]);
+
+  return result.rows;
+}
+
+// Summary derived from the ingested tables, or null if neither has been loaded yet (or the DB is unreachable)
+async function getSmallBoatsData(): Promise<SmallBoatsData | null> {
   const cached = getCached<SmallBoatsData>('small_boats_live');
   if (cached) return cached;
 
-  // Realistic fallback data
-  const today = new Date();
-  const fallbackData: SmallBoatsData = {
-    last_updated: today.toISOString(),
-    ytd_total: 8240,
-    ytd_boats: 145,
-    year: 2026,
-    last_7_days: [
-      { date: '2026-02-02', migrants: 0, boats: 0 },
-      { date: '2026-02-01', migrants: 156, boats: 3 },
-      { date: '2026-01-31', migrants: 0, boats: 0 },
-      { date: '2026-01-30', migrants: 0, boats: 0 },
-      { date: '2026-01-29', migrants: 89, boats: 2 },
-      { date: '2026-01-28', migrants: 0, boats: 0 },
-      { date: '2026-01-27', migrants: 0, boats: 0 },
-    ],
-    last_crossing_date: '2026-02-01',
-    days_since_crossing: Math.floor((today.getTime() - new Date('2026-02-01').getTime()) / (1000 * 60 * 60 * 24)),
-    yoy_comparison: {
-      previous_year: 2025,
-      previous_year_total: 45183,
-      change_pct: 53,
-      direction: 'up'
-    },
-    source: 'GOV.UK Home Office'
-  };
-
   try {
-    const response = await axios.get(CONFIG.GOV_UK_SMALL_BOATS, {
-      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; UKAsylumTracker/1.0)' },
-      timeout: 10000
-    });
+    const latest = await pool.query(`
+      SELECT
+        latest_daily::text AS latest_daily,
+        last_crossing::text AS last_crossing_date,
+        CURRENT_DATE - last_crossing AS days_since_crossing,
+        GREATEST(latest_daily, latest_weekly)::text AS data_as_of,
+        CURRENT_DATE - GREATEST(latest_daily, latest_weekly) AS staleness_days,
+        EXTRACT(YEAR FROM GREATEST(latest_daily, latest_weekly))::int AS year
+      FROM (
+        SELECT
+          (SELECT MAX(date) FROM small_boat_arrivals_daily) AS latest_daily,
+          (SELECT MAX(date) FROM small_boat_arrivals_daily WHERE arrivals > 0) AS last_crossing,
+          (SELECT MAX(week_ending) FROM small_boat_arrivals_weekly) AS latest_weekly
+      ) bounds
+    `);
+
+    const bounds = latest.rows[0];
+    if (!bounds.data_as_of) return null;
+
+    const [totals, last7Days] = await Promise.all([
+      getSmallBoatTotalsFromDb(bounds.year, bounds.data_as_of),
+      getSmallBoatLast7DaysFromDb(bounds.latest_daily)
+    ]);
+
+    const ytd = totals.ytd;
+    const previousYtd = totals.previous_ytd;
+    const changePct = previousYtd.arrivals > 0
+      ? Math.round((ytd.arrivals - previousYtd.arrivals) / previousYtd.arrivals * 100)
+      : null;
 
-    const $ = cheerio.load(response.data);
-    const lastUpdatedText = $('time').first().attr('datetime') || today.toISOString();
-    
     const data: SmallBoatsData = {
-      last_updated: lastUpdatedText,
-      ytd_total: 8240,
-      ytd_boats: 145,
-      year: 2026,
-      last_7_days: [],
-      last_crossing_date: fallbackData.last_crossing_date,
-      days_since_crossing: fallbackData.days_since_crossing,
-      yoy_comparison: fallbackData.yoy_comparison,
+      data_source: 'database',
+      last_updated: bounds.data_as_of,
+      staleness_days: bounds.staleness_days,
+      ytd_total: ytd.arrivals,
+      ytd_boats: ytd.boats,
+      year: bounds.year,
+      last_7_days: last7Days,
+      last_crossing_date: bounds.last_crossing_date,
+      days_since_crossing: bounds.days_since_crossing,
+      yoy_comparison: {
+        previous_year: bounds.year - 1,
+        previous_year_total: totals.previous_year.arrivals,
+        previous_year_to_date: previousYtd.arrivals,
+        change_pct: changePct,
+        direction: changePct === null || changePct === 0 ? 'flat' : changePct > 0 ? 'up' : 'down'
+      },
       source: 'GOV.UK Home Office'
     };
 
-    // Try to scrape the last 7 days page
-    try {
-      const last7Response = await axios.get(CONFIG.GOV_UK_LAST_7_DAYS, {
-        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; UKAsylumTracker/1.0)' },
-        timeout: 10000
-      });
-      
-      const $7 = cheerio.load(last7Response.data);
-      
-      $7('table tbody tr').each((i, row) => {
-        const cells = $7(row).find('td');
-        if (cells.length >= 2) {
-          const dateText = $7(cells[0]).text().trim();
-          const migrantsText = $7(cells[1]).text().trim();
-          const boatsText = cells.length > 2 ? $7(cells[2]).text().trim() : '0';
-          
-          const migrants = parseInt(migrantsText.replace(/,/g, '')) || 0;
-          const boats = parseInt(boatsText.replace(/,/g, '')) || 0;
-          
-          // Validate date format (should contain - or /)
-          if (dateText && (dateText.includes('-') || dateText.includes('/') || dateText.includes(' ')) && migrants >= 0) {
-            data.last_7_days.push({ date: dateText, migrants, boats });
-          }
-        }
-      });
-
-      if (data.last_7_days.length > 0) {
-        const lastCrossing = data.last_7_days.find(d => d.migrants > 0);
-        if (lastCrossing && lastCrossing.date) {
-          // Validate it's a real date
-          const parsedDate = new Date(lastCrossing.date);
-          if (!isNaN(parsedDate.getTime()) && parsedDate.getFullYear() >= 2020) {
-            data.last_crossing_date = lastCrossing.date;
-            data.days_since_crossing = Math.floor((today.getTime() - parsedDate.getTime()) / (1000 * 60 * 60 * 24));
-            // Sanity check - shouldn't be more than 365 days
-            if (data.days_since_crossing < 0 || data.days_since_crossing > 365) {
-              data.last_crossing_date = fallbackData.last_crossing_date;
-              data.days_since_crossing = fallbackData.days_since_crossing;
-            }
-          }
-        }
-      } else {
-        // Use fallback last_7_days if scraping failed
-        data.last_7_days = fallbackData.last_7_days;
-      }
-    } catch (e) {
-      console.log('Could not scrape last 7 days, using fallback');
-      data.last_7_days = fallbackData.last_7_days;
-    }
-
     setCache('small_boats_live', data);
     return data;
   } catch (error) {
-    console.error('Error scraping small boats:', error);
-    setCache('small_boats_live', fallbackData);
-    return fallbackData;
+    console.error('Error fetching small boat arrivals from DB:', error);
+    return null;
   }
 }
 
@@ -2963,205 +2968,3349 @@ async function getHistoricalHotspotsFromDb(days: number): Promise<HotspotInciden
   }
 }
 
-function calculateAreaCost(hotel: number, dispersed: number) {
-  const dailyCost = (hotel * 145) + (dispersed * 52);
-  const annualCost = dailyCost * 365;
+// ============================================================================
+// QUERY FILTER HELPERS
+// ============================================================================
+
+interface QuarterFilters {
+  from: string | null;
+  to: string | null;
+  nationalities: string[];
+}
+
+// Over the API's own pool; importing lib/db would open a second pool that exits the process on idle errors
+function findLAId(nameOrCode: string): Promise<number | null> {
+  return lookupLAId(pool, nameOrCode);
+}
+
+// True once an ingestor has loaded anything into the table; static data is only served before that
+async function tableHasRows(table: string): Promise<boolean> {
+  const result = await pool.query(`SELECT EXISTS (SELECT 1 FROM ${table}) AS has_rows`);
+  return result.rows[0].has_rows;
+}
+
+// Accepts '2024-Q3', '2024Q3' or a YYYY-MM-DD date; returns the quarter end date
+function parseQuarterParam(value: string): string | null {
+  const quarterMatch = value.match(/^(\d{4})-?Q([1-4])$/i);
+  if (quarterMatch) {
+    const year = parseInt(quarterMatch[1], 10);
+    const quarter = parseInt(quarterMatch[2], 10);
+    const quarterEnd = new Date(Date.UTC(year, quarter * 3, 0));
+    return quarterEnd.toISOString().split('T')[0];
+  }
+  return isCalendarDate(value) ? value : null;
+}
+
+// Parse ?nationality=, ?from= and ?to= shared by the quarterly dataset endpoints
+function parseQuarterFilters(req: express.Request): QuarterFilters | { error: string } {
+  const filters: QuarterFilters = { from: null, to: null, nationalities: [] };
+
+  for (const key of ['from', 'to'] as const) {
+    const raw = req.query[key] as string | undefined;
+    if (raw === undefined) continue;
+    const parsed = parseQuarterParam(raw);
+    if (!parsed) return { error: `${key} must be a quarter (e.g. 2024-Q3) or a date in YYYY-MM-DD format` };
+    filters[key] = parsed;
+  }
+
+  const nationality = req.query.nationality as string | undefined;
+  if (nationality) {
+    filters.nationalities = nationality.split(',').map(n => n.trim().toLowerCase()).filter(Boolean);
+  }
+
+  return filters;
+}
+
+// Build WHERE clauses for parsed filters, numbering parameters from startIndex
+function quarterFilterClauses(
+  filters: QuarterFilters,
+  options: { dateColumn?: string; nationalityColumn?: string | null; startIndex?: number } = {}
+): { clauses: string[]; values: any[] } {
+  const dateColumn = options.dateColumn || 'quarter_end';
+  const nationalityColumn = options.nationalityColumn === undefined ? 'nationality_name' : options.nationalityColumn;
+  let paramIndex = options.startIndex || 1;
+  const clauses: string[] = [];
+  const values: any[] = [];
+
+  if (filters.from) {
+    clauses.push(`${dateColumn} >= $${paramIndex++}`);
+    values.push(filters.from);
+  }
+  if (filters.to) {
+    clauses.push(`${dateColumn} <= $${paramIndex++}`);
+    values.push(filters.to);
+  }
+  if (nationalityColumn && filters.nationalities.length > 0) {
+    clauses.push(`LOWER(${nationalityColumn}) = ANY($${paramIndex++})`);
+    values.push(filters.nationalities);
+  }
+
+  return { clauses, values };
+}
+
+function whereSql(clauses: string[]): string {
+  return clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+}
+
+// ============================================================================
+// LOCAL AUTHORITY DATABASE FUNCTIONS
+// ============================================================================
+
+interface LASupportRecord {
+  name: string;
+  ons_code: string;
+  region: string;
+  population: number | null;
+  total: number;
+  hotel: number;
+  dispersed: number;
+  initial_accommodation?: number;
+  subsistence_only?: number;
+  section_95?: number;
+  section_4?: number;
+  section_98?: number;
+  per_10k_population?: number | null;
+  national_share_pct?: number | null;
+  hotel_share_pct?: number | null;
+  qoq_change_pct?: number | null;
+  yoy_change_pct?: number | null;
+}
+
+interface LASupportSnapshot {
+  source: 'database' | 'static';
+  snapshot_date: string | null;
+  data: LASupportRecord[];
+}
+
+const SNAPSHOT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// YYYY-MM-DD naming a real day, so 2024-13-45 is rejected here rather than by Postgres
+function isCalendarDate(value: string): boolean {
+  if (!SNAPSHOT_DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+const LA_SUPPORT_COLUMNS = `
+  snapshot_date::text AS snapshot_date, la_id, la_name, ons_code, region, population,
+  total_supported, section_95, section_4, section_98,
+  dispersed, initial_accommodation, hotel, subsistence_only,
+  per_10k_population, national_share_pct, hotel_share_pct, qoq_change_pct, yoy_change_pct
+`;
+
+// pg returns DECIMAL columns as strings
+function toNumberOrNull(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function dbRowToLASupport(row: any): LASupportRecord {
   return {
-    daily: dailyCost,
-    annual: annualCost,
-    breakdown: {
-      hotel: { count: hotel, rate: 145, daily: hotel * 145 },
-      dispersed: { count: dispersed, rate: 52, daily: dispersed * 52 }
-    }
+    name: row.la_name,
+    ons_code: row.ons_code,
+    region: row.region,
+    population: row.population,
+    total: row.total_supported,
+    hotel: row.hotel || 0,
+    dispersed: row.dispersed || 0,
+    initial_accommodation: row.initial_accommodation || 0,
+    subsistence_only: row.subsistence_only || 0,
+    section_95: row.section_95 || 0,
+    section_4: row.section_4 || 0,
+    section_98: row.section_98 || 0,
+    per_10k_population: toNumberOrNull(row.per_10k_population),
+    national_share_pct: toNumberOrNull(row.national_share_pct),
+    hotel_share_pct: toNumberOrNull(row.hotel_share_pct),
+    qoq_change_pct: toNumberOrNull(row.qoq_change_pct),
+    yoy_change_pct: toNumberOrNull(row.yoy_change_pct)
   };
 }
 
-function calculateEquivalents(annualCost: number) {
+function getStaticLASupport(): LASupportSnapshot {
   return {
-    nurses: Math.floor(annualCost / 35000), // Average nurse salary
-    teachers: Math.floor(annualCost / 42000),
-    police_officers: Math.floor(annualCost / 45000),
-    school_meals: Math.floor(annualCost / 2.5), // Per meal
-    nhs_operations: Math.floor(annualCost / 5000), // Average minor procedure
+    source: 'static',
+    snapshot_date: null,
+    data: localAuthoritiesData.map(la => ({ ...la }))
   };
 }
 
-// ============================================================================
-// DATABASE INIT
-// ============================================================================
-
-async function initDatabase() {
-  try {
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS detention_facilities (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        type VARCHAR(100),
-        operator VARCHAR(255),
-        capacity INTEGER,
-        population INTEGER,
-        lat DECIMAL(10, 6),
-        lng DECIMAL(10, 6),
-        last_updated TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+// Get LA support for a snapshot (latest if omitted). Falls back to the static array only when the table is empty.
+async function getLASupportFromDb(snapshot?: string): Promise<LASupportSnapshot> {
+  const result = snapshot
+    ? await pool.query(
+        `SELECT ${LA_SUPPORT_COLUMNS} FROM v_la_support WHERE snapshot_date = $1 ORDER BY total_supported DESC`,
+        [snapshot]
       )
-    `);
-    
-    // Insert IRC data if empty
-    const count = await pool.query('SELECT COUNT(*) FROM detention_facilities');
-    if (parseInt(count.rows[0].count) === 0) {
-      for (const irc of ircFacilities) {
-        await pool.query(
-          'INSERT INTO detention_facilities (name, type, operator, capacity, population, lat, lng) VALUES ($1, $2, $3, $4, $5, $6, $7)',
-          [irc.name, irc.type, irc.operator, irc.capacity, irc.population, irc.location.lat, irc.location.lng]
-        );
-      }
-    }
+    : await pool.query(`SELECT ${LA_SUPPORT_COLUMNS} FROM v_la_support_latest ORDER BY total_supported DESC`);
 
-    // Create hotspots table for live incident tracking
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS hotspots (
-        id VARCHAR(50) PRIMARY KEY,
-        type VARCHAR(50) NOT NULL,
-        status VARCHAR(10) DEFAULT 'YELLOW',
-        title VARCHAR(255) NOT NULL,
-        description TEXT,
-        lat DECIMAL(10, 7) NOT NULL,
-        lng DECIMAL(10, 7) NOT NULL,
-        location_name VARCHAR(255),
-        region VARCHAR(100),
-        sources JSONB DEFAULT '[]',
-        crowd_estimate VARCHAR(100),
-        police_present BOOLEAN DEFAULT FALSE,
-        injuries_reported BOOLEAN DEFAULT FALSE,
-        arrests_reported INTEGER DEFAULT 0,
-        related_to_asylum BOOLEAN DEFAULT FALSE,
-        auto_detected BOOLEAN DEFAULT FALSE,
-        verified BOOLEAN DEFAULT FALSE,
-        timeline JSONB DEFAULT '[]',
-        started_at TIMESTAMP DEFAULT NOW(),
-        last_updated TIMESTAMP DEFAULT NOW()
-      )
-    `);
+  if (result.rows.length > 0) {
+    return {
+      source: 'database',
+      snapshot_date: result.rows[0].snapshot_date,
+      data: result.rows.map(dbRowToLASupport)
+    };
+  }
 
-    // Create indexes for hotspots
-    await pool.query(`CREATE INDEX IF NOT EXISTS idx_hotspots_status ON hotspots(status)`);
-    await pool.query(`CREATE INDEX IF NOT EXISTS idx_hotspots_location ON hotspots(lat, lng)`);
-    await pool.query(`CREATE INDEX IF NOT EXISTS idx_hotspots_started ON hotspots(started_at)`);
+  if (await tableHasRows('asylum_support_la')) {
+    // Table has data, just not for the requested snapshot
+    return { source: 'database', snapshot_date: snapshot || null, data: [] };
+  }
 
-    // Seed hotspots if empty
-    const hotspotCount = await pool.query('SELECT COUNT(*) FROM hotspots');
-    if (parseInt(hotspotCount.rows[0].count) === 0) {
-      await seedHotspotsToDatabase();
-    }
+  // Nothing ingested yet; database errors propagate rather than being masked by static figures
+  return getStaticLASupport();
+}
 
-    console.log('Database initialized');
+// List the snapshot dates available in asylum_support_la (newest first)
+async function getLASnapshotDatesFromDb(): Promise<string[]> {
+  try {
+    const result = await pool.query(
+      'SELECT DISTINCT snapshot_date::text AS snapshot_date FROM asylum_support_la ORDER BY snapshot_date DESC'
+    );
+    return result.rows.map(r => r.snapshot_date);
   } catch (error) {
-    console.error('Database init error:', error);
+    console.error('Error fetching LA snapshot dates:', error);
+    return [];
   }
 }
 
-// ============================================================================
-// API ENDPOINTS - DATA SOURCES (TRANSPARENCY)
-// ============================================================================
+function findLA(records: LASupportRecord[], id: string): LASupportRecord | undefined {
+  return records.find(
+    l => l.ons_code === id || l.name.toLowerCase() === id.toLowerCase()
+  );
+}
 
-app.get('/api/sources', (req, res) => {
-  res.json({
-    description: 'All data sources used by UK Asylum Tracker',
-    sources: DATA_SOURCES,
-    methodology_note: 'Core statistics from Home Office quarterly releases. Live elements use real-time APIs where available. No public API exists for asylum data - Home Office publishes quarterly spreadsheets only.',
-    update_schedule: {
-      live: ['weather', 'news', 'parliamentary', 'foi'],
-      quarterly: ['la_support', 'detention', 'returns', 'appeals', 'net_migration'],
-      annual: ['spending']
-    },
-    contact: 'For data queries or corrections, use the feedback form'
-  });
-});
+function enrichLASupport(la: LASupportRecord) {
+  const per10k = la.per_10k_population ?? (la.population ? (la.total / la.population) * 10000 : null);
+  return {
+    ...la,
+    per_10k: per10k !== null ? per10k.toFixed(2) : null,
+    hotel_pct: la.total > 0 ? ((la.hotel / la.total) * 100).toFixed(2) : '0.00',
+    daily_cost: (la.hotel * 145) + (la.dispersed * 52)
+  };
+}
 
-// ============================================================================
-// API ENDPOINTS - FRANCE RETURNS DEAL
-// ============================================================================
+function snapshotToPeriod(snapshotDate: string): string {
+  const [year, month] = snapshotDate.split('-').map(Number);
+  return `Q${Math.ceil(month / 3)} ${year}`;
+}
 
-app.get('/api/france-deal', (req, res) => {
-  res.json({
-    ...franceReturnsDeal,
-    last_fetched: new Date().toISOString()
-  });
-});
+// Validate ?snapshot= and load the matching LA support data, writing the error response if it fails
+async function resolveLASupport(req: express.Request, res: express.Response): Promise<LASupportSnapshot | null> {
+  const snapshot = req.query.snapshot as string | undefined;
 
-app.get('/api/france-deal/summary', (req, res) => {
-  const fd = franceReturnsDeal;
-  res.json({
-    status: fd.status,
-    announced: fd.announced,
-    returns_to_france: fd.actual_returns.total_returned_to_france,
-    accepted_from_france: fd.actual_returns.total_accepted_from_france,
-    target_annual: fd.target_annual,
-    achievement_pct: ((fd.actual_returns.total_returned_to_france / fd.target_annual) * 100).toFixed(1),
-    crossings_since_deal: fd.effectiveness.crossings_since_deal,
-    return_rate_pct: fd.effectiveness.return_rate_pct,
-    as_of: fd.actual_returns.as_of_date
-  });
-});
+  if (snapshot !== undefined && !isCalendarDate(snapshot)) {
+    res.status(400).json({ error: 'snapshot must be a date in YYYY-MM-DD format' });
+    return null;
+  }
 
-// ============================================================================
-// API ENDPOINTS - RETURNS & DEPORTATIONS
-// ============================================================================
+  let support: LASupportSnapshot;
+  try {
+    support = await getLASupportFromDb(snapshot);
+  } catch (error) {
+    console.error('Error fetching LA support from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch local authority data' });
+    return null;
+  }
 
-app.get('/api/returns', (req, res) => {
-  res.json(returnsData);
-});
+  if (support.data.length === 0) {
+    res.status(404).json({
+      error: 'No local authority data for snapshot',
+      snapshot,
+      available_snapshots: await getLASnapshotDatesFromDb()
+    });
+    return null;
+  }
 
-app.get('/api/returns/summary', (req, res) => {
-  res.json({
-    period: returnsData.data_period,
-    total_returns: returnsData.summary.total_returns,
-    enforced: returnsData.summary.enforced_returns,
-    voluntary: returnsData.summary.voluntary_returns,
-    small_boat_return_rate_pct: returnsData.small_boat_returns.return_rate_pct,
-    top_nationalities: returnsData.by_nationality.slice(0, 5).map(n => n.nationality)
-  });
-});
+  return support;
+}
 
-// ============================================================================
-// API ENDPOINTS - NET MIGRATION
-// ============================================================================
+// Choropleth metrics for /api/la/geojson
+const LA_MAP_METRICS: Record<string, (la: LASupportRecord) => number | null> = {
+  per_10k: la => la.per_10k_population ?? (la.population ? Math.round(la.total / la.population * 1000000) / 100 : null),
+  total: la => la.total,
+  hotel: la => la.hotel,
+  dispersed: la => la.dispersed,
+  hotel_share_pct: la => la.hotel_share_pct ?? percentOf(la.hotel, la.total),
+  national_share_pct: la => la.national_share_pct ?? null,
+  qoq_change_pct: la => la.qoq_change_pct ?? null,
+  yoy_change_pct: la => la.yoy_change_pct ?? null
+};
 
-app.get('/api/net-migration', (req, res) => {
-  res.json(netMigrationData);
-});
+// 'full' serves the original polygons from local_authorities; the rest are simplified copies in la_boundaries
+const LA_BOUNDARY_ZOOMS = ['low', 'medium', 'high', 'full'];
 
-app.get('/api/net-migration/summary', (req, res) => {
-  const nm = netMigrationData;
-  res.json({
-    period: nm.data_period,
-    net_migration: nm.latest.net_migration,
-    immigration: nm.latest.immigration,
-    emigration: nm.latest.emigration,
-    peak: { period: 'YE Mar 2023', net: 909000 },
-    change_from_peak_pct: Math.round(((nm.latest.net_migration - 909000) / 909000) * 100)
-  });
-});
+interface LABoundaryRow {
+  ons_code: string;
+  la_name: string | null;
+  geometry: any;
+  centroid_lat: number | null;
+  centroid_lng: number | null;
+}
+
+async function getLABoundariesFromDb(zoom: string): Promise<LABoundaryRow[]> {
+  const result = zoom === 'full'
+    ? await pool.query(`
+        SELECT ons_code, name AS la_name, geojson AS geometry, centroid_lat, centroid_lng
+        FROM local_authorities
+        WHERE geojson IS NOT NULL
+        ORDER BY ons_code
+      `)
+    : await pool.query(`
+        SELECT b.ons_code, COALESCE(la.name, b.la_name) AS la_name, b.geometry, la.centroid_lat, la.centroid_lng
+        FROM la_boundaries b
+        LEFT JOIN local_authorities la ON la.ons_code = b.ons_code
+        WHERE b.zoom = $1
+        ORDER BY b.ons_code
+      `, [zoom]);
+
+  return result.rows.map(row => ({
+    ons_code: row.ons_code,
+    la_name: row.la_name,
+    geometry: row.geometry,
+    centroid_lat: toNumberOrNull(row.centroid_lat),
+    centroid_lng: toNumberOrNull(row.centroid_lng)
+  }));
+}
 
 // ============================================================================
-// API ENDPOINTS - APPEALS
+// GRANT RATES DATABASE FUNCTIONS
 // ============================================================================
 
-app.get('/api/appeals', (req, res) => {
-  res.json(appealsData);
-});
+interface GrantRateQuarter {
+  quarter_end: string;
+  period: string;
+  decisions: number;
+  grants: number;
+  refused: number;
+  grant_rate_pct: number | null;
+  rolling_4q_grant_rate_pct: number | null;
+}
 
-app.get('/api/appeals/summary', (req, res) => {
-  const ap = appealsData;
-  res.json({
-    period: ap.data_period,
-    backlog: ap.backlog.total_pending,
-    trend: ap.backlog.trend,
-    success_rate_pct: ap.outcomes.allowed_pct,
-    avg_wait_weeks: ap.processing.average_wait_weeks,
-    grant_rate_initial: ap.initial_decisions.grant_rate_pct,
-    note: 'Appeals growing as initial backlog clears with lower quality decisions'
+function dbRowToGrantRate(row: any) {
+  return {
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    nationality: row.nationality_name,
+    grant_rate_pct: toNumberOrNull(row.grant_rate_pct),
+    total_decisions: row.decisions_total,
+    grants: row.grants_total,
+    refusals: row.refused,
+    prev_quarter_rate_pct: toNumberOrNull(row.prev_quarter_rate),
+    rate_change: toNumberOrNull(row.rate_change),
+    rolling_4q_grant_rate_pct: toNumberOrNull(row.rolling_4q_grant_rate_pct),
+    rolling_4q_decisions: row.rolling_4q_decisions !== null ? parseInt(row.rolling_4q_decisions, 10) : null
+  };
+}
+
+const GRANT_RATE_COLUMNS = `
+  quarter_end::text AS quarter_end, nationality_name, grants_total, refused, decisions_total,
+  grant_rate_pct, prev_quarter_rate, rate_change, rolling_4q_decisions, rolling_4q_grant_rate_pct
+`;
+
+// Per-nationality rates for the latest quarter in range with at least minDecisions decisions
+async function getGrantRatesByNationalityFromDb(filters: QuarterFilters, minDecisions: number) {
+  const { clauses, values } = quarterFilterClauses(filters);
+  clauses.push(`decisions_total >= $${values.length + 1}`);
+  values.push(minDecisions);
+
+  const result = await pool.query(`
+    SELECT ${GRANT_RATE_COLUMNS}
+    FROM v_grant_rates
+    WHERE quarter_end = (SELECT MAX(quarter_end) FROM v_grant_rates ${whereSql(clauses)})
+      AND ${clauses.join(' AND ')}
+    ORDER BY decisions_total DESC
+  `, values);
+
+  return result.rows.map(dbRowToGrantRate);
+}
+
+// Every quarter in range for the filtered nationalities, oldest first
+async function getGrantRateSeriesFromDb(filters: QuarterFilters, minDecisions: number) {
+  const { clauses, values } = quarterFilterClauses(filters);
+  clauses.push(`decisions_total >= $${values.length + 1}`);
+  values.push(minDecisions);
+
+  const result = await pool.query(`
+    SELECT ${GRANT_RATE_COLUMNS}
+    FROM v_grant_rates
+    ${whereSql(clauses)}
+    ORDER BY nationality_name, quarter_end
+  `, values);
+
+  const series: Record<string, ReturnType<typeof dbRowToGrantRate>[]> = {};
+  for (const row of result.rows) {
+    const point = dbRowToGrantRate(row);
+    (series[point.nationality] = series[point.nationality] || []).push(point);
+  }
+  return series;
+}
+
+// National (or nationality-filtered) totals per quarter from asylum_decisions, with a rolling 4-quarter rate.
+// Uses the base table rather than v_grant_rates so small nationalities still count towards the total.
+async function getGrantRateTotalsFromDb(filters: QuarterFilters): Promise<GrantRateQuarter[]> {
+  const nationalityFilter = quarterFilterClauses({ ...filters, from: null, to: null });
+  const rangeFilter = quarterFilterClauses(
+    { ...filters, nationalities: [] },
+    { startIndex: nationalityFilter.values.length + 1 }
+  );
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, decisions, grants, refused, grant_rate_pct, rolling_4q_grant_rate_pct
+    FROM (
+      SELECT
+        quarter_end,
+        decisions,
+        grants,
+        refused,
+        ROUND(grants::DECIMAL / NULLIF(grants + refused, 0) * 100, 1) AS grant_rate_pct,
+        ROUND((SUM(grants) OVER rolling_4q)::DECIMAL / NULLIF(SUM(grants + refused) OVER rolling_4q, 0) * 100, 1) AS rolling_4q_grant_rate_pct
+      FROM (
+        SELECT
+          quarter_end,
+          SUM(decisions_total)::int AS decisions,
+          SUM(grants_total)::int AS grants,
+          SUM(refused)::int AS refused
+        FROM asylum_decisions
+        ${whereSql(nationalityFilter.clauses)}
+        GROUP BY quarter_end
+      ) quarterly
+      WINDOW rolling_4q AS (ORDER BY quarter_end RANGE BETWEEN INTERVAL '9 months' PRECEDING AND CURRENT ROW)
+    ) totals
+    ${whereSql(rangeFilter.clauses)}
+    ORDER BY quarter_end
+  `, [...nationalityFilter.values, ...rangeFilter.values]);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    decisions: row.decisions,
+    grants: row.grants,
+    refused: row.refused,
+    grant_rate_pct: toNumberOrNull(row.grant_rate_pct),
+    rolling_4q_grant_rate_pct: toNumberOrNull(row.rolling_4q_grant_rate_pct)
+  }));
+}
+
+function grantRateOverall(latest: GrantRateQuarter | undefined) {
+  if (!latest) return null;
+  return {
+    total_decisions: latest.decisions,
+    total_grants: latest.grants,
+    total_refusals: latest.refused,
+    overall_grant_rate_pct: latest.grant_rate_pct,
+    rolling_4q_grant_rate_pct: latest.rolling_4q_grant_rate_pct
+  };
+}
+
+// Validate grant-rate query params, writing a 400 if they are malformed
+function parseGrantRateParams(req: express.Request, res: express.Response): { filters: QuarterFilters; minDecisions: number } | null {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    res.status(400).json({ error: filters.error });
+    return null;
+  }
+
+  const minDecisions = req.query.min_decisions !== undefined ? parseInt(req.query.min_decisions as string, 10) : 10;
+  if (isNaN(minDecisions) || minDecisions < 0) {
+    res.status(400).json({ error: 'min_decisions must be a non-negative integer' });
+    return null;
+  }
+
+  return { filters, minDecisions };
+}
+
+// ============================================================================
+// BACKLOG DATABASE FUNCTIONS
+// ============================================================================
+
+interface BacklogPoint {
+  date: string;
+  backlog: number;
+}
+
+function findBacklogPeak(timeline: BacklogPoint[]) {
+  if (timeline.length === 0) return null;
+  const peak = timeline.reduce((max, point) => point.backlog > max.backlog ? point : max);
+  return { date: peak.date, count: peak.backlog };
+}
+
+// Intake vs decisions over the 12 months to the snapshot, averaged over the quarters actually loaded
+async function getBacklogFlowFromDb(snapshotDate: string, totalAwaiting: number) {
+  const result = await pool.query(`
+    SELECT
+      (SELECT SUM(claims_total)::int FROM asylum_claims
+        WHERE quarter_end > $1::date - INTERVAL '12 months' AND quarter_end <= $1::date) AS intake,
+      (SELECT COUNT(DISTINCT quarter_end)::int FROM asylum_claims
+        WHERE quarter_end > $1::date - INTERVAL '12 months' AND quarter_end <= $1::date) AS intake_quarters,
+      (SELECT SUM(decisions_total)::int FROM asylum_decisions
+        WHERE quarter_end > $1::date - INTERVAL '12 months' AND quarter_end <= $1::date) AS decisions,
+      (SELECT COUNT(DISTINCT quarter_end)::int FROM asylum_decisions
+        WHERE quarter_end > $1::date - INTERVAL '12 months' AND quarter_end <= $1::date) AS decision_quarters
+  `, [snapshotDate]);
+
+  const row = result.rows[0];
+  if (!row.intake_quarters || !row.decision_quarters) {
+    return null;
+  }
+
+  const monthlyIntake = Math.round(row.intake / (row.intake_quarters * 3));
+  const monthlyDecisions = Math.round(row.decisions / (row.decision_quarters * 3));
+  const netMonthlyChange = monthlyIntake - monthlyDecisions;
+
+  return {
+    window_months: 12,
+    monthly_intake: monthlyIntake,
+    monthly_decisions: monthlyDecisions,
+    net_monthly_change: netMonthlyChange,
+    // Only meaningful while decisions outpace intake; a growing backlog never clears
+    months_to_clear_at_current_rate: netMonthlyChange < 0 ? Math.ceil(totalAwaiting / -netMonthlyChange) : null
+  };
+}
+
+// Latest snapshot by nationality; asylum_backlog_nationality may lag the headline table
+async function getBacklogByNationalityFromDb() {
+  const result = await pool.query(`
+    SELECT snapshot_date::text AS snapshot_date, nationality_name, total_awaiting
+    FROM asylum_backlog_nationality
+    WHERE snapshot_date = (SELECT MAX(snapshot_date) FROM asylum_backlog_nationality)
+    ORDER BY total_awaiting DESC
+  `);
+
+  const total = result.rows.reduce((sum, row) => sum + (row.total_awaiting || 0), 0);
+  return {
+    snapshot_date: result.rows[0]?.snapshot_date || null,
+    data: result.rows.map(row => ({
+      nationality: row.nationality_name,
+      pending: row.total_awaiting,
+      share_pct: total > 0 ? Math.round(row.total_awaiting / total * 1000) / 10 : null
+    }))
+  };
+}
+
+// Full backlog picture from asylum_backlog, or null when nothing has been ingested yet
+async function getBacklogFromDb() {
+  const result = await pool.query(`
+    SELECT snapshot_date::text AS snapshot_date, total_awaiting, awaiting_initial, awaiting_further_review,
+           awaiting_less_6_months, awaiting_6_12_months, awaiting_1_3_years, awaiting_3_plus_years, legacy_cases
+    FROM asylum_backlog
+    ORDER BY snapshot_date
+  `);
+  if (result.rows.length === 0) return null;
+
+  const latest = result.rows[result.rows.length - 1];
+  const timeline: BacklogPoint[] = result.rows.map(row => ({ date: row.snapshot_date, backlog: row.total_awaiting }));
+
+  const [flow, byNationality] = await Promise.all([
+    getBacklogFlowFromDb(latest.snapshot_date, latest.total_awaiting),
+    getBacklogByNationalityFromDb()
+  ]);
+
+  return {
+    last_updated: latest.snapshot_date,
+    current: {
+      total_awaiting_decision: latest.total_awaiting,
+      awaiting_initial_decision: latest.awaiting_initial,
+      awaiting_further_review: latest.awaiting_further_review,
+      awaiting_over_6_months: latest.awaiting_6_12_months + latest.awaiting_1_3_years + latest.awaiting_3_plus_years,
+      awaiting_over_1_year: latest.awaiting_1_3_years + latest.awaiting_3_plus_years,
+      awaiting_over_3_years: latest.awaiting_3_plus_years,
+      legacy_cases_remaining: latest.legacy_cases
+    },
+    by_duration: [
+      { duration: 'Less than 6 months', count: latest.awaiting_less_6_months },
+      { duration: '6-12 months', count: latest.awaiting_6_12_months },
+      { duration: '1-3 years', count: latest.awaiting_1_3_years },
+      { duration: '3+ years', count: latest.awaiting_3_plus_years }
+    ],
+    timeline,
+    peak: findBacklogPeak(timeline),
+    flow,
+    by_nationality: byNationality
+  };
+}
+
+// ============================================================================
+// DETENTION DATABASE FUNCTIONS
+// ============================================================================
+
+// Population per facility at the latest snapshot, joined to detention_facilities for code/operator
+async function getDetentionFacilitiesFromDb() {
+  const result = await pool.query(`
+    SELECT dp.snapshot_date::text AS snapshot_date, dp.facility_name, dp.population, dp.capacity, dp.occupancy_pct,
+           df.code, df.operator, df.type
+    FROM detention_population dp
+    LEFT JOIN detention_facilities df ON df.id = dp.facility_id
+    WHERE dp.snapshot_date = (SELECT MAX(snapshot_date) FROM detention_population)
+    ORDER BY dp.population DESC
+  `);
+
+  const national = result.rows.find(row => row.facility_name === null);
+  const facilities = result.rows.filter(row => row.facility_name !== null).map(row => ({
+    name: row.facility_name,
+    code: row.code,
+    population: row.population,
+    capacity: row.capacity,
+    occupancy_pct: toNumberOrNull(row.occupancy_pct),
+    operator: row.operator,
+    type: row.type
+  }));
+
+  const facilityTotal = facilities.reduce((sum, f) => sum + f.population, 0);
+  const capacity = facilities.reduce((sum, f) => sum + (f.capacity || 0), 0);
+  const total = national ? national.population : facilityTotal;
+
+  return {
+    snapshot_date: result.rows[0]?.snapshot_date || null,
+    total,
+    capacity: capacity || null,
+    // Only facilities with a known capacity count towards occupancy
+    occupancy_pct: capacity
+      ? Math.round(facilities.filter(f => f.capacity).reduce((sum, f) => sum + f.population, 0) / capacity * 1000) / 10
+      : null,
+    facilities
+  };
+}
+
+// National population per snapshot: the Det_D01 total where loaded, otherwise the sum of facilities
+async function getDetentionTimelineFromDb() {
+  const result = await pool.query(`
+    SELECT
+      snapshot_date::text AS snapshot_date,
+      COALESCE(
+        MAX(population) FILTER (WHERE facility_name IS NULL),
+        SUM(population) FILTER (WHERE facility_name IS NOT NULL)
+      )::int AS population
+    FROM detention_population
+    GROUP BY snapshot_date
+    ORDER BY snapshot_date
+  `);
+  return result.rows;
+}
+
+// Leavers in the latest quarter by length of detention, with the bracket containing the median leaver
+async function getDetentionLengthFromDb() {
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, length_bracket, count, share_pct
+    FROM detention_length
+    WHERE quarter_end = (SELECT MAX(quarter_end) FROM detention_length)
+    ORDER BY bracket_order
+  `);
+  if (result.rows.length === 0) return null;
+
+  const total = result.rows.reduce((sum, row) => sum + row.count, 0);
+  let cumulative = 0;
+  const median = result.rows.find(row => (cumulative += row.count) >= total / 2);
+
+  return {
+    quarter_end: result.rows[0].quarter_end,
+    total_left_detention: total,
+    median_length_bracket: median?.length_bracket || null,
+    brackets: result.rows.map(row => ({
+      bracket: row.length_bracket,
+      count: row.count,
+      share_pct: toNumberOrNull(row.share_pct)
+    }))
+  };
+}
+
+async function getDetentionOutcomesFromDb() {
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, outcome, count, share_pct
+    FROM detention_outcomes
+    WHERE quarter_end = (SELECT MAX(quarter_end) FROM detention_outcomes)
+    ORDER BY count DESC
+  `);
+  if (result.rows.length === 0) return null;
+
+  const removed = result.rows.find(row => row.outcome === 'removed');
+  return {
+    quarter_end: result.rows[0].quarter_end,
+    total_left_detention: result.rows.reduce((sum, row) => sum + row.count, 0),
+    removal_rate_pct: removed ? toNumberOrNull(removed.share_pct) : 0,
+    by_outcome: result.rows.map(row => ({
+      outcome: row.outcome,
+      count: row.count,
+      share_pct: toNumberOrNull(row.share_pct)
+    }))
+  };
+}
+
+async function getDetentionNationalitiesFromDb() {
+  const result = await pool.query(`
+    SELECT nationality_name, population, share_pct
+    FROM detention_nationality
+    WHERE snapshot_date = (SELECT MAX(snapshot_date) FROM detention_nationality)
+    ORDER BY population DESC
+  `);
+  return result.rows.map(row => ({
+    nationality: row.nationality_name,
+    count: row.population,
+    pct: toNumberOrNull(row.share_pct)
+  }));
+}
+
+async function getDetentionRule35FromDb() {
+  const result = await pool.query(`
+    SELECT r.quarter_end::text AS quarter_end, r.facility_name, df.code, r.reports_made, r.released_following
+    FROM detention_rule35 r
+    LEFT JOIN detention_facilities df ON df.id = r.facility_id
+    WHERE r.quarter_end = (SELECT MAX(quarter_end) FROM detention_rule35)
+    ORDER BY r.reports_made DESC
+  `);
+  if (result.rows.length === 0) return null;
+
+  const reports = result.rows.reduce((sum, row) => sum + row.reports_made, 0);
+  const released = result.rows.reduce((sum, row) => sum + (row.released_following || 0), 0);
+  return {
+    quarter_end: result.rows[0].quarter_end,
+    reports_made: reports,
+    released_following: released,
+    release_rate_pct: reports > 0 ? Math.round(released / reports * 1000) / 10 : null,
+    by_facility: result.rows.filter(row => row.facility_name).map(row => ({
+      name: row.facility_name,
+      code: row.code,
+      reports_made: row.reports_made,
+      released_following: row.released_following
+    }))
+  };
+}
+
+// Everything the DET_D01-04 ingestors load, or null before any of them has run (detentionData is served until then)
+async function getDetentionFromDb() {
+  const loaded = await Promise.all(
+    ['detention_population', 'detention_length', 'detention_outcomes', 'detention_rule35'].map(table => tableHasRows(table))
+  );
+  if (!loaded.some(Boolean)) return null;
+
+  const [population, timeline, length, outcomes, nationalities, rule35] = await Promise.all([
+    getDetentionFacilitiesFromDb(),
+    getDetentionTimelineFromDb(),
+    getDetentionLengthFromDb(),
+    getDetentionOutcomesFromDb(),
+    getDetentionNationalitiesFromDb(),
+    getDetentionRule35FromDb()
+  ]);
+
+  return { population, timeline, length, outcomes, nationalities, rule35 };
+}
+
+// ============================================================================
+// RETURNS DATABASE FUNCTIONS
+// ============================================================================
+
+const RETURN_TYPE_COLUMNS = `
+  SUM(count) FILTER (WHERE return_type = 'enforced')::int AS enforced,
+  SUM(count) FILTER (WHERE return_type = 'voluntary')::int AS voluntary,
+  SUM(count) FILTER (WHERE return_type = 'assisted_voluntary')::int AS assisted_voluntary,
+  SUM(count)::int AS total
+`;
+
+function dbRowToReturns(row: any) {
+  return {
+    enforced: row.enforced || 0,
+    voluntary: row.voluntary || 0,
+    assisted_voluntary: row.assisted_voluntary || 0,
+    total: row.total || 0
+  };
+}
+
+// Quarterly totals by return type; grouped per nationality as well when perNationality is set
+async function getReturnsSeriesFromDb(filters: QuarterFilters, perNationality = false) {
+  const { clauses, values } = quarterFilterClauses(filters);
+  const groupBy = perNationality ? 'nationality_name, quarter_end' : 'quarter_end';
+
+  const result = await pool.query(`
+    SELECT ${perNationality ? 'nationality_name,' : ''} quarter_end::text AS quarter_end, ${RETURN_TYPE_COLUMNS}
+    FROM returns
+    ${whereSql(clauses)}
+    GROUP BY ${groupBy}
+    ORDER BY ${groupBy}
+  `, values);
+
+  return result.rows.map(row => ({
+    ...(perNationality ? { nationality: row.nationality_name } : {}),
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToReturns(row)
+  }));
+}
+
+// Returns per nationality over the range, against small boat arrivals (Irr_D02) for the same nationality.
+// Arrivals are published per calendar year, so only years falling wholly inside the range are counted.
+async function getReturnsByNationalityFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters, { startIndex: 3 });
+
+  const result = await pool.query(`
+    WITH ret AS (
+      SELECT nationality_name, ${RETURN_TYPE_COLUMNS}
+      FROM returns
+      ${whereSql(clauses)}
+      GROUP BY nationality_name
+    ),
+    arr AS (
+      SELECT LOWER(nationality_name) AS nationality_key, SUM(arrivals)::int AS arrivals
+      FROM small_boat_nationality
+      WHERE ($1::date IS NULL OR period_start > $1::date - INTERVAL '3 months')
+        AND ($2::date IS NULL OR period_end <= $2::date)
+      GROUP BY LOWER(nationality_name)
+    )
+    SELECT ret.*, arr.arrivals,
+           ROUND(ret.total::DECIMAL / NULLIF(arr.arrivals, 0), 3) AS returns_to_arrivals_ratio
+    FROM ret
+    LEFT JOIN arr ON arr.nationality_key = LOWER(ret.nationality_name)
+    ORDER BY ret.total DESC
+  `, [filters.from, filters.to, ...values]);
+
+  return result.rows.map(row => ({
+    nationality: row.nationality_name,
+    ...dbRowToReturns(row),
+    small_boat_arrivals: row.arrivals,
+    returns_to_arrivals_ratio: toNumberOrNull(row.returns_to_arrivals_ratio)
+  }));
+}
+
+function sumReturns(quarters: ReturnType<typeof dbRowToReturns>[]) {
+  return quarters.reduce((sum, q) => ({
+    enforced: sum.enforced + q.enforced,
+    voluntary: sum.voluntary + q.voluntary,
+    assisted_voluntary: sum.assisted_voluntary + q.assisted_voluntary,
+    total: sum.total + q.total
+  }), { enforced: 0, voluntary: 0, assisted_voluntary: 0, total: 0 });
+}
+
+// ============================================================================
+// APPEALS DATABASE FUNCTIONS
+// ============================================================================
+
+function percentOf(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round(part / whole * 1000) / 10 : null;
+}
+
+// National FIA quarters (HMCTS_FIA) with the outstanding caseload from tribunal_backlog, oldest first
+async function getAppealsHistoryFromDb() {
+  const result = await pool.query(`
+    SELECT a.quarter_end::text AS quarter_end, a.appeals_lodged, a.appeals_determined,
+           a.appeals_allowed, a.appeals_dismissed, a.appeals_withdrawn, a.success_rate_pct,
+           tb.outstanding_appeals, tb.clearance_rate_pct, tb.avg_weeks_to_hearing
+    FROM asylum_appeals a
+    LEFT JOIN tribunal_backlog tb ON tb.snapshot_date = a.quarter_end
+    WHERE a.nationality_name IS NULL
+    ORDER BY a.quarter_end
+  `);
+
+  return result.rows.map(row => {
+    const outcomes = (row.appeals_allowed || 0) + (row.appeals_dismissed || 0) + (row.appeals_withdrawn || 0);
+    return {
+      quarter_end: row.quarter_end,
+      period: snapshotToPeriod(row.quarter_end),
+      lodged: row.appeals_lodged,
+      decided: row.appeals_determined,
+      allowed: row.appeals_allowed,
+      dismissed: row.appeals_dismissed,
+      withdrawn: row.appeals_withdrawn,
+      allowed_pct: percentOf(row.appeals_allowed || 0, outcomes),
+      dismissed_pct: percentOf(row.appeals_dismissed || 0, outcomes),
+      withdrawn_pct: percentOf(row.appeals_withdrawn || 0, outcomes),
+      success_rate_pct: toNumberOrNull(row.success_rate_pct),
+      pending: row.outstanding_appeals,
+      clearance_rate_pct: toNumberOrNull(row.clearance_rate_pct),
+      avg_weeks_to_hearing: toNumberOrNull(row.avg_weeks_to_hearing)
+    };
   });
+}
+
+type AppealsQuarter = Awaited<ReturnType<typeof getAppealsHistoryFromDb>>[number];
+
+// Direction of the outstanding caseload: year on year where four quarters back exist, otherwise quarter on quarter
+function appealsBacklogTrend(history: AppealsQuarter[]) {
+  const withBacklog = history.filter(q => q.pending !== null);
+  const latest = withBacklog[withBacklog.length - 1];
+  if (!latest) return null;
+
+  const previous = withBacklog[withBacklog.length - 2];
+  const yearAgo = withBacklog.find(q => q.quarter_end === shiftQuarterEnd(latest.quarter_end, -4));
+  const qoq = previous ? percentOf(latest.pending - previous.pending, previous.pending) : null;
+  const yoy = yearAgo ? percentOf(latest.pending - yearAgo.pending, yearAgo.pending) : null;
+  const change = yoy ?? qoq;
+
+  return {
+    total_pending: latest.pending,
+    as_of: latest.quarter_end,
+    qoq_change_pct: qoq,
+    yoy_change_pct: yoy,
+    trend: change === null ? null : change > 1 ? 'increasing' : change < -1 ? 'decreasing' : 'stable'
+  };
+}
+
+// 'YYYY-MM-DD' quarter end moved by n quarters
+function shiftQuarterEnd(quarterEnd: string, quarters: number): string {
+  const [year, month] = quarterEnd.split('-').map(Number);
+  return new Date(Date.UTC(year, month + quarters * 3, 0)).toISOString().split('T')[0];
+}
+
+// ============================================================================
+// UASC DATABASE FUNCTIONS
+// ============================================================================
+
+// Quarterly UASC claims (ASY_D07) summed across nationalities, oldest first
+async function getUASCQuartersFromDb() {
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end,
+           SUM(claims)::int AS claims,
+           SUM(age_under_14)::int AS age_under_14,
+           SUM(age_14_15)::int AS age_14_15,
+           SUM(age_16_17)::int AS age_16_17,
+           SUM(male)::int AS male,
+           SUM(female)::int AS female
+    FROM uasc_claims
+    GROUP BY quarter_end
+    ORDER BY quarter_end
+  `);
+
+  return result.rows.map(row => ({ ...row, period: snapshotToPeriod(row.quarter_end) }));
+}
+
+// Claims by nationality over the four quarters ending at quarterEnd
+async function getUASCByNationalityFromDb(quarterEnd: string) {
+  const result = await pool.query(`
+    SELECT nationality_name AS nationality, SUM(claims)::int AS count
+    FROM uasc_claims
+    WHERE quarter_end > ($1::date - INTERVAL '12 months') AND quarter_end <= $1::date
+    GROUP BY nationality_name
+    ORDER BY count DESC
+  `, [quarterEnd]);
+
+  const total = result.rows.reduce((sum, row) => sum + row.count, 0);
+  return result.rows.map(row => ({ ...row, pct: percentOf(row.count, total) }));
+}
+
+// Looked-after UASC for every council at one snapshot (latest when not given)
+async function getUASCLAFromDb(snapshot?: string) {
+  const result = await pool.query(`
+    SELECT u.snapshot_date::text AS snapshot_date, u.la_id, la.ons_code, u.la_name, la.region,
+           u.uasc_count, u.care_leavers, u.national_transfer_in, u.national_transfer_out,
+           u.per_10k_child_population
+    FROM uasc_la u
+    LEFT JOIN local_authorities la ON la.id = u.la_id
+    WHERE u.snapshot_date = COALESCE($1::date, (SELECT MAX(snapshot_date) FROM uasc_la))
+    ORDER BY u.uasc_count DESC NULLS LAST
+  `, [snapshot || null]);
+
+  return result.rows.map(dbRowToUASCLA);
+}
+
+async function getUASCLASnapshotDatesFromDb(): Promise<string[]> {
+  const result = await pool.query(
+    'SELECT DISTINCT snapshot_date::text AS snapshot_date FROM uasc_la ORDER BY snapshot_date DESC'
+  );
+  return result.rows.map(row => row.snapshot_date);
+}
+
+function dbRowToUASCLA(row: any) {
+  return {
+    snapshot_date: row.snapshot_date,
+    la_id: row.la_id,
+    ons_code: row.ons_code,
+    name: row.la_name,
+    region: row.region,
+    uasc_count: row.uasc_count,
+    care_leavers: row.care_leavers,
+    national_transfer_in: row.national_transfer_in,
+    national_transfer_out: row.national_transfer_out,
+    per_10k_child_population: toNumberOrNull(row.per_10k_child_population)
+  };
+}
+
+// Everything /api/uasc needs from uasc_claims and uasc_la, or null before either has been ingested
+async function getUASCFromDb() {
+  const [quarters, councils] = await Promise.all([getUASCQuartersFromDb(), getUASCLAFromDb()]);
+  if (quarters.length === 0 && councils.length === 0) return null;
+
+  const latest = quarters[quarters.length - 1];
+  const lastFour = quarters.slice(-4);
+  const sumOf = (key: string) => lastFour.reduce((sum, q) => sum + (q[key] || 0), 0);
+  const ageTotal = sumOf('age_under_14') + sumOf('age_14_15') + sumOf('age_16_17');
+
+  const byYear = new Map<number, { year: number; claims: number; quarters: number }>();
+  for (const q of quarters) {
+    const year = parseInt(q.quarter_end.slice(0, 4), 10);
+    const entry = byYear.get(year) || { year, claims: 0, quarters: 0 };
+    entry.claims += q.claims;
+    entry.quarters++;
+    byYear.set(year, entry);
+  }
+
+  return {
+    last_updated: latest?.quarter_end || councils[0]?.snapshot_date || null,
+    applications: {
+      latest_quarter: latest ? { period: latest.period, claims: latest.claims } : null,
+      last_12_months: sumOf('claims'),
+      // quarters < 4 marks a year-to-date total
+      by_year: Array.from(byYear.values())
+    },
+    quarterly: quarters,
+    by_nationality: latest ? await getUASCByNationalityFromDb(latest.quarter_end) : [],
+    age_distribution: [
+      { age: 'Under 14', count: sumOf('age_under_14'), pct: percentOf(sumOf('age_under_14'), ageTotal) },
+      { age: '14 to 15', count: sumOf('age_14_15'), pct: percentOf(sumOf('age_14_15'), ageTotal) },
+      { age: '16 to 17', count: sumOf('age_16_17'), pct: percentOf(sumOf('age_16_17'), ageTotal) }
+    ],
+    sex: { male: sumOf('male'), female: sumOf('female') },
+    local_authorities: councils.length > 0 ? {
+      snapshot_date: councils[0].snapshot_date,
+      councils: councils.length,
+      total_in_care: councils.reduce((sum, la) => sum + (la.uasc_count || 0), 0),
+      care_leavers: councils.reduce((sum, la) => sum + (la.care_leavers || 0), 0),
+      national_transfers_in: councils.reduce((sum, la) => sum + (la.national_transfer_in || 0), 0)
+    } : null
+  };
+}
+
+// Age disputes (ASY_D06) per quarter and rolled up per calendar year, or null before ingestion
+async function getAgeDisputesFromDb() {
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, disputes_raised, resolved_adult, resolved_child, pending
+    FROM age_disputes
+    ORDER BY quarter_end
+  `);
+  if (result.rows.length === 0) return null;
+
+  const quarterly = result.rows.map(row => ({
+    ...row,
+    period: snapshotToPeriod(row.quarter_end),
+    adult_pct: percentOf(row.resolved_adult || 0, (row.resolved_adult || 0) + (row.resolved_child || 0))
+  }));
+
+  const byYear = new Map<number, { year: number; disputes: number; resolved_adult: number; resolved_child: number }>();
+  for (const q of quarterly) {
+    const year = parseInt(q.quarter_end.slice(0, 4), 10);
+    const entry = byYear.get(year) || { year, disputes: 0, resolved_adult: 0, resolved_child: 0 };
+    entry.disputes += q.disputes_raised || 0;
+    entry.resolved_adult += q.resolved_adult || 0;
+    entry.resolved_child += q.resolved_child || 0;
+    byYear.set(year, entry);
+  }
+  const historical = Array.from(byYear.values()).map(y => ({
+    ...y,
+    adult_pct: percentOf(y.resolved_adult, y.resolved_adult + y.resolved_child)
+  }));
+
+  const latest = quarterly[quarterly.length - 1];
+  const currentYear = historical[historical.length - 1];
+
+  return {
+    last_updated: latest.quarter_end,
+    current_year: {
+      year: currentYear.year,
+      total_disputes: currentYear.disputes,
+      resolved_as_adult: currentYear.resolved_adult,
+      resolved_as_child: currentYear.resolved_child,
+      pending: latest.pending,
+      adult_rate_pct: currentYear.adult_pct
+    },
+    historical,
+    quarterly
+  };
+}
+
+// ============================================================================
+// NRM DATABASE FUNCTIONS
+// ============================================================================
+
+const NRM_EXPLOITATION_COLUMNS = `
+  SUM(referrals) FILTER (WHERE exploitation = 'sexual')::int AS sexual,
+  SUM(referrals) FILTER (WHERE exploitation = 'labour')::int AS labour,
+  SUM(referrals) FILTER (WHERE exploitation = 'criminal')::int AS criminal,
+  SUM(referrals) FILTER (WHERE exploitation = 'domestic_servitude')::int AS domestic_servitude,
+  SUM(referrals) FILTER (WHERE exploitation = 'other')::int AS other,
+  SUM(referrals)::int AS total
+`;
+
+const NRM_OUTCOME_COLUMNS = `
+  SUM(count) FILTER (WHERE outcome = 'positive_reasonable')::int AS positive_reasonable,
+  SUM(count) FILTER (WHERE outcome = 'positive_conclusive')::int AS positive_conclusive,
+  SUM(count) FILTER (WHERE outcome = 'negative_conclusive')::int AS negative_conclusive,
+  SUM(count) FILTER (WHERE outcome = 'pending')::int AS pending
+`;
+
+function dbRowToNrmExploitation(row: any) {
+  return {
+    sexual: row.sexual || 0,
+    labour: row.labour || 0,
+    criminal: row.criminal || 0,
+    domestic_servitude: row.domestic_servitude || 0,
+    other: row.other || 0,
+    total: row.total || 0
+  };
+}
+
+// Positive share of conclusive grounds decisions
+function dbRowToNrmOutcomes(row: any) {
+  const positive = row.positive_conclusive || 0;
+  const negative = row.negative_conclusive || 0;
+  return {
+    positive_reasonable: row.positive_reasonable || 0,
+    positive_conclusive: positive,
+    negative_conclusive: negative,
+    pending: row.pending || 0,
+    conclusive_positive_rate_pct: percentOf(positive, positive + negative)
+  };
+}
+
+// Quarterly referrals by exploitation type
+async function getNrmReferralSeriesFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, ${NRM_EXPLOITATION_COLUMNS}
+    FROM nrm_referrals
+    ${whereSql(clauses)}
+    GROUP BY quarter_end
+    ORDER BY quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToNrmExploitation(row)
+  }));
+}
+
+// Quarterly referrals per first responder type, largest first within each quarter
+async function getNrmFirstResponderSeriesFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, referral_source, SUM(referrals)::int AS referrals
+    FROM nrm_referrals
+    ${whereSql([...clauses, 'referral_source IS NOT NULL'])}
+    GROUP BY quarter_end, referral_source
+    ORDER BY quarter_end, referrals DESC
+  `, values);
+
+  const quarters = new Map<string, { quarter_end: string; period: string; first_responders: { first_responder: string; referrals: number }[] }>();
+  for (const row of result.rows) {
+    if (!quarters.has(row.quarter_end)) {
+      quarters.set(row.quarter_end, { quarter_end: row.quarter_end, period: snapshotToPeriod(row.quarter_end), first_responders: [] });
+    }
+    quarters.get(row.quarter_end)!.first_responders.push({ first_responder: row.referral_source, referrals: row.referrals });
+  }
+  return Array.from(quarters.values());
+}
+
+// Quarterly reasonable / conclusive grounds decisions
+async function getNrmOutcomeSeriesFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, ${NRM_OUTCOME_COLUMNS}
+    FROM nrm_decisions
+    ${whereSql(clauses)}
+    GROUP BY quarter_end
+    ORDER BY quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToNrmOutcomes(row)
+  }));
+}
+
+// Referrals and decisions per nationality over the range
+async function getNrmByNationalityFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+  const where = whereSql([...clauses, 'nationality_name IS NOT NULL']);
+
+  const result = await pool.query(`
+    WITH ref AS (
+      SELECT nationality_name, ${NRM_EXPLOITATION_COLUMNS}
+      FROM nrm_referrals
+      ${where}
+      GROUP BY nationality_name
+    ),
+    dec AS (
+      SELECT LOWER(nationality_name) AS nationality_key, ${NRM_OUTCOME_COLUMNS}
+      FROM nrm_decisions
+      ${where}
+      GROUP BY LOWER(nationality_name)
+    )
+    SELECT ref.*, dec.positive_reasonable, dec.positive_conclusive, dec.negative_conclusive, dec.pending
+    FROM ref
+    LEFT JOIN dec ON dec.nationality_key = LOWER(ref.nationality_name)
+    ORDER BY ref.total DESC
+  `, values);
+
+  return result.rows.map(row => ({
+    nationality: row.nationality_name,
+    referrals: dbRowToNrmExploitation(row),
+    decisions: dbRowToNrmOutcomes(row)
+  }));
+}
+
+function sumNrmOutcomes(quarters: ReturnType<typeof dbRowToNrmOutcomes>[]) {
+  return dbRowToNrmOutcomes(quarters.reduce((sum, q) => ({
+    positive_reasonable: sum.positive_reasonable + q.positive_reasonable,
+    positive_conclusive: sum.positive_conclusive + q.positive_conclusive,
+    negative_conclusive: sum.negative_conclusive + q.negative_conclusive,
+    pending: sum.pending + q.pending
+  }), { positive_reasonable: 0, positive_conclusive: 0, negative_conclusive: 0, pending: 0 }));
+}
+
+// ============================================================================
+// RESETTLEMENT & UKRAINE DATABASE FUNCTIONS
+// ============================================================================
+
+const RESETTLEMENT_SCHEMES = ['ACRS', 'ARAP', 'UKRS', 'VPRS'];
+
+// Quarterly arrivals per scheme with each scheme's running total, oldest first
+async function getResettlementSeriesFromDb(filters: QuarterFilters, schemes: string[]) {
+  const { clauses, values } = quarterFilterClauses(filters, { nationalityColumn: null });
+  if (schemes.length > 0) {
+    clauses.push(`scheme = ANY($${values.length + 1})`);
+    values.push(schemes);
+  }
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, scheme, arrivals, total_since_start
+    FROM resettlement
+    ${whereSql(clauses)}
+    ORDER BY quarter_end, scheme
+  `, values);
+
+  const quarters = new Map<string, { quarter_end: string; period: string; total: number; by_scheme: Record<string, number> }>();
+  for (const row of result.rows) {
+    if (!quarters.has(row.quarter_end)) {
+      quarters.set(row.quarter_end, { quarter_end: row.quarter_end, period: snapshotToPeriod(row.quarter_end), total: 0, by_scheme: {} });
+    }
+    const quarter = quarters.get(row.quarter_end)!;
+    quarter.by_scheme[row.scheme] = row.arrivals || 0;
+    quarter.total += row.arrivals || 0;
+  }
+
+  // Latest running total per scheme, regardless of the date range
+  const totals = await pool.query(`
+    SELECT DISTINCT ON (scheme) scheme, quarter_end::text AS quarter_end, total_since_start
+    FROM resettlement
+    ${schemes.length > 0 ? 'WHERE scheme = ANY($1)' : ''}
+    ORDER BY scheme, quarter_end DESC
+  `, schemes.length > 0 ? [schemes] : []);
+
+  return {
+    quarterly: Array.from(quarters.values()),
+    since_start: totals.rows.map(row => ({
+      scheme: row.scheme,
+      as_of: row.quarter_end,
+      total: row.total_since_start
+    }))
+  };
+}
+
+// Councils at the latest resettlement_la snapshot with placements per scheme
+async function getResettlementLAFromDb() {
+  const result = await pool.query(`
+    SELECT r.snapshot_date::text AS snapshot_date, r.la_name, la.ons_code, la.region,
+           jsonb_object_agg(r.scheme, r.placements) AS by_scheme,
+           SUM(r.placements)::int AS total
+    FROM resettlement_la r
+    LEFT JOIN local_authorities la ON la.id = r.la_id
+    WHERE r.snapshot_date = (SELECT MAX(snapshot_date) FROM resettlement_la)
+    GROUP BY r.snapshot_date, r.la_name, la.ons_code, la.region
+    ORDER BY total DESC
+  `);
+  return result.rows;
+}
+
+// Every resettlement and Homes for Ukraine snapshot for one council, oldest first
+async function getLAHumanitarianHistoryFromDb(laId: number) {
+  const [resettlement, ukraine] = await Promise.all([
+    pool.query(`
+      SELECT snapshot_date::text AS snapshot_date,
+             jsonb_object_agg(scheme, placements) AS by_scheme,
+             SUM(placements)::int AS total
+      FROM resettlement_la
+      WHERE la_id = $1
+      GROUP BY snapshot_date
+      ORDER BY snapshot_date
+    `, [laId]),
+    pool.query(`
+      SELECT snapshot_date::text AS snapshot_date, arrivals, currently_sponsored, rematches,
+             homelessness_presentations
+      FROM ukraine_la
+      WHERE la_id = $1
+      ORDER BY snapshot_date
+    `, [laId])
+  ]);
+
+  return {
+    resettlement: resettlement.rows.map(row => ({ ...row, period: snapshotToPeriod(row.snapshot_date) })),
+    ukraine: ukraine.rows
+  };
+}
+
+// National Homes for Ukraine series, oldest first
+async function getUkraineTimelineFromDb() {
+  const result = await pool.query(`
+    SELECT snapshot_date::text AS snapshot_date, visa_applications, visas_issued, arrivals
+    FROM ukraine_arrivals
+    ORDER BY snapshot_date
+  `);
+  return result.rows;
+}
+
+// Councils at one ukraine_la snapshot (latest when not given), with arrivals per 10k residents
+async function getUkraineLAFromDb(snapshot?: string) {
+  const result = await pool.query(`
+    SELECT u.snapshot_date::text AS snapshot_date, u.la_id, la.ons_code, u.la_name, la.region,
+           u.arrivals, u.currently_sponsored, u.rematches, u.homelessness_presentations,
+           ROUND(u.arrivals::DECIMAL / NULLIF(la_population_at(u.la_id, u.snapshot_date), 0) * 10000, 2) AS arrivals_per_10k
+    FROM ukraine_la u
+    LEFT JOIN local_authorities la ON la.id = u.la_id
+    WHERE u.snapshot_date = COALESCE($1::date, (SELECT MAX(snapshot_date) FROM ukraine_la))
+    ORDER BY u.arrivals DESC NULLS LAST
+  `, [snapshot || null]);
+
+  return result.rows.map(row => ({
+    ...row,
+    arrivals_per_10k: toNumberOrNull(row.arrivals_per_10k)
+  }));
+}
+
+// ============================================================================
+// IRREGULAR ENTRY DATABASE FUNCTIONS
+// ============================================================================
+
+const ENTRY_METHODS = ['small_boat', 'lorry', 'air', 'other'];
+
+const ENTRY_METHOD_COLUMNS = `
+  SUM(detections) FILTER (WHERE entry_method = 'small_boat')::int AS small_boat,
+  SUM(detections) FILTER (WHERE entry_method = 'lorry')::int AS lorry,
+  SUM(detections) FILTER (WHERE entry_method = 'air')::int AS air,
+  SUM(detections) FILTER (WHERE entry_method = 'other')::int AS other,
+  SUM(detections)::int AS total
+`;
+
+function dbRowToEntryMethods(row: any) {
+  return {
+    small_boat: row.small_boat || 0,
+    lorry: row.lorry || 0,
+    air: row.air || 0,
+    other: row.other || 0,
+    total: row.total || 0
+  };
+}
+
+// Shared WHERE for the quarter/nationality filters plus ?method=
+function irregularEntryWhere(filters: QuarterFilters, methods: string[]) {
+  const { clauses, values } = quarterFilterClauses(filters);
+  if (methods.length > 0) {
+    clauses.push(`entry_method::text = ANY($${values.length + 1})`);
+    values.push(methods);
+  }
+  return { where: whereSql(clauses), values };
+}
+
+// Quarterly detections by method
+async function getIrregularEntrySeriesFromDb(filters: QuarterFilters, methods: string[]) {
+  const { where, values } = irregularEntryWhere(filters, methods);
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, ${ENTRY_METHOD_COLUMNS}
+    FROM irregular_entry
+    ${where}
+    GROUP BY quarter_end
+    ORDER BY quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToEntryMethods(row)
+  }));
+}
+
+// Detections by method over the range, grouped by one breakdown column
+async function getIrregularEntryBreakdownFromDb(
+  filters: QuarterFilters,
+  methods: string[],
+  column: 'nationality_name' | 'age_group' | 'sex'
+) {
+  const { where, values } = irregularEntryWhere(filters, methods);
+
+  const result = await pool.query(`
+    SELECT COALESCE(${column}, 'Unknown') AS label, ${ENTRY_METHOD_COLUMNS}
+    FROM irregular_entry
+    ${where}
+    GROUP BY COALESCE(${column}, 'Unknown')
+    ORDER BY total DESC
+  `, values);
+
+  return result.rows.map(row => ({ label: row.label, ...dbRowToEntryMethods(row) }));
+}
+
+// ============================================================================
+// FAMILY REUNION, INADMISSIBILITY & BORDER REFUSALS DATABASE FUNCTIONS
+// ============================================================================
+
+const PORT_TYPES = ['air', 'sea', 'rail', 'other'];
+
+function dbRowToFamilyReunion(row: any) {
+  const grants = row.grants || 0;
+  const refusals = row.refusals || 0;
+  return {
+    applications: row.applications || 0,
+    grants,
+    refusals,
+    grant_rate_pct: percentOf(grants, grants + refusals)
+  };
+}
+
+// Quarterly family reunion visa applications and outcomes
+async function getFamilyReunionSeriesFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end,
+           SUM(applications)::int AS applications, SUM(grants)::int AS grants, SUM(refusals)::int AS refusals
+    FROM family_reunion
+    ${whereSql(clauses)}
+    GROUP BY quarter_end
+    ORDER BY quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToFamilyReunion(row)
+  }));
+}
+
+async function getFamilyReunionByNationalityFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT nationality_name,
+           SUM(applications)::int AS applications, SUM(grants)::int AS grants, SUM(refusals)::int AS refusals
+    FROM family_reunion
+    ${whereSql([...clauses, 'nationality_name IS NOT NULL'])}
+    GROUP BY nationality_name
+    ORDER BY grants DESC NULLS LAST
+  `, values);
+
+  return result.rows.map(row => ({ nationality: row.nationality_name, ...dbRowToFamilyReunion(row) }));
+}
+
+function dbRowToInadmissibility(row: any) {
+  return {
+    decisions: row.decisions || 0,
+    returned: row.returned || 0,
+    granted_after_review: row.granted_after_review || 0
+  };
+}
+
+// Quarterly inadmissibility cases alongside the asylum backlog at the same quarter end, so the
+// inadmissibility caseload can be read against backlog movements
+async function getInadmissibilitySeriesFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    WITH inad AS (
+      SELECT quarter_end,
+             SUM(decisions)::int AS decisions, SUM(returned)::int AS returned,
+             SUM(granted_after_review)::int AS granted_after_review
+      FROM inadmissibility
+      ${whereSql(clauses)}
+      GROUP BY quarter_end
+    ),
+    backlog AS (
+      SELECT snapshot_date, total_awaiting,
+             total_awaiting - LAG(total_awaiting) OVER (ORDER BY snapshot_date) AS backlog_change
+      FROM asylum_backlog
+    )
+    SELECT inad.quarter_end::text AS quarter_end, inad.decisions, inad.returned, inad.granted_after_review,
+           backlog.total_awaiting AS backlog_total_awaiting, backlog.backlog_change
+    FROM inad
+    LEFT JOIN backlog ON backlog.snapshot_date = inad.quarter_end
+    ORDER BY inad.quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToInadmissibility(row),
+    backlog_total_awaiting: row.backlog_total_awaiting,
+    backlog_change: row.backlog_change
+  }));
+}
+
+async function getInadmissibilityByNationalityFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT nationality_name,
+           SUM(decisions)::int AS decisions, SUM(returned)::int AS returned,
+           SUM(granted_after_review)::int AS granted_after_review
+    FROM inadmissibility
+    ${whereSql([...clauses, 'nationality_name IS NOT NULL'])}
+    GROUP BY nationality_name
+    ORDER BY decisions DESC NULLS LAST
+  `, values);
+
+  return result.rows.map(row => ({ nationality: row.nationality_name, ...dbRowToInadmissibility(row) }));
+}
+
+const PORT_TYPE_COLUMNS = `
+  SUM(refusals) FILTER (WHERE port_type = 'air')::int AS air,
+  SUM(refusals) FILTER (WHERE port_type = 'sea')::int AS sea,
+  SUM(refusals) FILTER (WHERE port_type = 'rail')::int AS rail,
+  SUM(refusals) FILTER (WHERE port_type = 'other' OR port_type IS NULL)::int AS other,
+  SUM(refusals)::int AS total
+`;
+
+function dbRowToPortTypes(row: any) {
+  return {
+    air: row.air || 0,
+    sea: row.sea || 0,
+    rail: row.rail || 0,
+    other: row.other || 0,
+    total: row.total || 0
+  };
+}
+
+// Shared WHERE for the quarter/nationality filters plus ?port=
+function borderRefusalsWhere(filters: QuarterFilters, portTypes: string[]) {
+  const { clauses, values } = quarterFilterClauses(filters);
+  if (portTypes.length > 0) {
+    clauses.push(`COALESCE(port_type, 'other') = ANY($${values.length + 1})`);
+    values.push(portTypes);
+  }
+  return { clauses, values };
+}
+
+// Quarterly refusals at port by port type
+async function getBorderRefusalsSeriesFromDb(filters: QuarterFilters, portTypes: string[]) {
+  const { clauses, values } = borderRefusalsWhere(filters, portTypes);
+
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, ${PORT_TYPE_COLUMNS}
+    FROM border_refusals
+    ${whereSql(clauses)}
+    GROUP BY quarter_end
+    ORDER BY quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    ...dbRowToPortTypes(row)
+  }));
+}
+
+async function getBorderRefusalsByNationalityFromDb(filters: QuarterFilters, portTypes: string[]) {
+  const { clauses, values } = borderRefusalsWhere(filters, portTypes);
+
+  const result = await pool.query(`
+    SELECT nationality_name, ${PORT_TYPE_COLUMNS}
+    FROM border_refusals
+    ${whereSql([...clauses, 'nationality_name IS NOT NULL'])}
+    GROUP BY nationality_name
+    ORDER BY total DESC
+  `, values);
+
+  return result.rows.map(row => ({ nationality: row.nationality_name, ...dbRowToPortTypes(row) }));
+}
+
+// ============================================================================
+// FOREIGN NATIONAL OFFENDERS DATABASE FUNCTIONS
+// ============================================================================
+
+// Foreign national prison population by nationality at one snapshot (latest by default)
+async function getForeignNationalPrisonersFromDb(snapshot: string | undefined, filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses({ ...filters, from: null, to: null }, { startIndex: 2 });
+
+  const result = await pool.query(`
+    SELECT snapshot_date::text AS snapshot_date, nationality_name, prison_population, share_of_total_pct
+    FROM foreign_national_prisoners
+    ${whereSql([`snapshot_date = COALESCE($1::date, (SELECT MAX(snapshot_date) FROM foreign_national_prisoners))`, ...clauses])}
+    ORDER BY prison_population DESC NULLS LAST
+  `, [snapshot || null, ...values]);
+
+  return result.rows.map(row => ({
+    snapshot_date: row.snapshot_date,
+    nationality: row.nationality_name,
+    prison_population: row.prison_population,
+    share_of_total_pct: toNumberOrNull(row.share_of_total_pct)
+  }));
+}
+
+async function getForeignNationalPrisonerSnapshotDatesFromDb(): Promise<string[]> {
+  const result = await pool.query(
+    'SELECT DISTINCT snapshot_date::text AS snapshot_date FROM foreign_national_prisoners ORDER BY snapshot_date DESC'
+  );
+  return result.rows.map(row => row.snapshot_date);
+}
+
+// Foreign national prisoners by offence group in the latest quarter up to ?to=
+async function getFnoByOffenceFromDb(filters: QuarterFilters) {
+  const result = await pool.query(`
+    SELECT quarter_end::text AS quarter_end, offence_category, count, share_pct
+    FROM fno_by_offence
+    WHERE quarter_end = (
+      SELECT MAX(quarter_end) FROM fno_by_offence WHERE $1::date IS NULL OR quarter_end <= $1::date
+    )
+    ORDER BY count DESC NULLS LAST
+  `, [filters.to]);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    offence_category: row.offence_category,
+    count: row.count,
+    share_pct: toNumberOrNull(row.share_pct)
+  }));
+}
+
+// FNO returns over the range grouped by offence group
+async function getFnoDeportationsByOffenceFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    SELECT COALESCE(offence_type, 'Not recorded') AS offence_type, SUM(count)::int AS returns
+    FROM fno_deportations
+    ${whereSql(clauses)}
+    GROUP BY COALESCE(offence_type, 'Not recorded')
+    ORDER BY returns DESC
+  `, values);
+
+  const total = result.rows.reduce((sum, row) => sum + row.returns, 0);
+  return result.rows.map(row => ({
+    offence_group: row.offence_type,
+    returns: row.returns,
+    share_pct: percentOf(row.returns, total)
+  }));
+}
+
+// Quarterly FNO returns against all enforced returns (Ret_D01) for the same quarter and nationalities
+async function getFnoReturnsSeriesFromDb(filters: QuarterFilters) {
+  const { clauses, values } = quarterFilterClauses(filters);
+
+  const result = await pool.query(`
+    WITH fno AS (
+      SELECT quarter_end, SUM(count)::int AS fno_returns
+      FROM fno_deportations
+      ${whereSql(clauses)}
+      GROUP BY quarter_end
+    ),
+    enforced AS (
+      SELECT quarter_end, SUM(count)::int AS enforced_returns
+      FROM returns
+      ${whereSql([...clauses, `return_type = 'enforced'`])}
+      GROUP BY quarter_end
+    )
+    SELECT fno.quarter_end::text AS quarter_end, fno.fno_returns, enforced.enforced_returns
+    FROM fno
+    LEFT JOIN enforced ON enforced.quarter_end = fno.quarter_end
+    ORDER BY fno.quarter_end
+  `, values);
+
+  return result.rows.map(row => ({
+    quarter_end: row.quarter_end,
+    period: snapshotToPeriod(row.quarter_end),
+    fno_returns: row.fno_returns,
+    enforced_returns: row.enforced_returns,
+    fno_to_enforced_ratio: row.enforced_returns > 0 ? Math.round(row.fno_returns / row.enforced_returns * 1000) / 1000 : null
+  }));
+}
+
+// ============================================================================
+// PRESSURE INDEX DATABASE FUNCTIONS
+// ============================================================================
+
+// Scores alongside the inputs they were ranked on; the support row is picked the same way computePressureIndex does
+const PRESSURE_INDEX_SELECT = `
+  SELECT
+    pi.snapshot_date::text AS snapshot_date, pi.la_id, COALESCE(la.name, pi.la_name) AS la_name,
+    la.ons_code, la.region, la.imd_rank, la.imd_source,
+    pi.per_capita_score, pi.hotel_share_score, pi.growth_score, pi.deprivation_score,
+    pi.pressure_index, pi.pressure_rank, pi.pressure_quintile, pi.weights,
+    asl.total_supported, asl.per_10k_population, asl.hotel_share_pct, asl.yoy_change_pct
+  FROM pressure_index pi
+  JOIN local_authorities la ON la.id = pi.la_id
+  LEFT JOIN LATERAL (
+    SELECT total_supported, per_10k_population, hotel_share_pct, yoy_change_pct
+    FROM asylum_support_la
+    WHERE la_id = pi.la_id AND snapshot_date = pi.snapshot_date
+    ORDER BY id DESC
+    LIMIT 1
+  ) asl ON true
+`;
+
+function dbRowToPressureIndex(row: any) {
+  const weights = row.weights || {};
+  return {
+    snapshot_date: row.snapshot_date,
+    name: row.la_name,
+    ons_code: row.ons_code,
+    region: row.region,
+    pressure_index: toNumberOrNull(row.pressure_index),
+    rank: row.pressure_rank,
+    quintile: row.pressure_quintile,
+    components: {
+      per_capita: {
+        score: toNumberOrNull(row.per_capita_score),
+        weight: weights.per_capita ?? null,
+        per_10k_population: toNumberOrNull(row.per_10k_population)
+      },
+      hotel_share: {
+        score: toNumberOrNull(row.hotel_share_score),
+        weight: weights.hotel_share ?? null,
+        hotel_share_pct: toNumberOrNull(row.hotel_share_pct)
+      },
+      growth: {
+        score: toNumberOrNull(row.growth_score),
+        weight: weights.growth ?? null,
+        yoy_change_pct: toNumberOrNull(row.yoy_change_pct)
+      },
+      deprivation: {
+        score: toNumberOrNull(row.deprivation_score),
+        weight: weights.deprivation ?? null,
+        imd_rank: row.imd_rank,
+        imd_source: row.imd_source
+      }
+    },
+    total_supported: row.total_supported,
+    weights: row.weights
+  };
+}
+
+// Every LA's score for one snapshot (latest by default), highest pressure first
+async function getPressureIndexFromDb(snapshot: string | undefined, region: string | undefined) {
+  const conditions = ['pi.snapshot_date = COALESCE($1::date, (SELECT MAX(snapshot_date) FROM pressure_index))'];
+  const values: any[] = [snapshot || null];
+  if (region) {
+    values.push(region);
+    conditions.push(`la.region ILIKE $${values.length}`);
+  }
+
+  const result = await pool.query(`
+    ${PRESSURE_INDEX_SELECT}
+    ${whereSql(conditions)}
+    ORDER BY pi.pressure_rank NULLS LAST, la_name
+  `, values);
+
+  return result.rows.map(dbRowToPressureIndex);
+}
+
+async function getPressureSnapshotDatesFromDb(): Promise<string[]> {
+  const result = await pool.query(
+    'SELECT DISTINCT snapshot_date::text AS snapshot_date FROM pressure_index ORDER BY snapshot_date DESC'
+  );
+  return result.rows.map(row => row.snapshot_date);
+}
+
+// Every scored snapshot for one LA, oldest first
+async function getPressureHistoryFromDb(laId: number) {
+  const result = await pool.query(`
+    ${PRESSURE_INDEX_SELECT}
+    WHERE pi.la_id = $1
+    ORDER BY pi.snapshot_date
+  `, [laId]);
+
+  return result.rows.map(dbRowToPressureIndex);
+}
+
+// ============================================================================
+// DATA QUALITY DATABASE FUNCTIONS
+// ============================================================================
+
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface QualityFilters {
+  source?: string;
+  run?: string;
+  failed: boolean;
+  severity?: string;
+  limit: number;
+}
+
+// Conditions on data_quality_results (aliased dqr) shared by the run and result queries
+function qualityResultConditions(filters: QualityFilters, values: any[]): string[] {
+  const conditions: string[] = [];
+  if (filters.failed) conditions.push('NOT dqr.passed');
+  if (filters.severity) {
+    values.push(filters.severity);
+    conditions.push(`dqr.severity = $${values.length}`);
+  }
+  return conditions;
+}
+
+// Most recent checked runs first, each with its assertion results, failures first
+async function getQualityRunsFromDb(filters: QualityFilters) {
+  const runValues: any[] = [];
+  const runConditions = qualityResultConditions(filters, runValues);
+  runConditions.unshift('dqr.ingest_run_id = r.id');
+  if (filters.source) {
+    runValues.push(filters.source.toUpperCase());
+    runConditions.push(`ds.code = $${runValues.length}`);
+  }
+  if (filters.run) {
+    runValues.push(filters.run);
+    runConditions.push(`r.id = $${runValues.length}`);
+  }
+  runValues.push(filters.limit);
+
+  const runs = await pool.query(`
+    SELECT
+      r.id, ds.code AS source, ds.name AS source_name, r.status,
+      r.started_at, r.completed_at, r.records_inserted, r.error_message
+    FROM ingest_runs r
+    JOIN data_sources ds ON ds.id = r.source_id
+    WHERE EXISTS (SELECT 1 FROM data_quality_results dqr ${whereSql(runConditions)})
+    ORDER BY r.started_at DESC
+    LIMIT $${runValues.length}
+  `, runValues);
+
+  if (runs.rows.length === 0) return [];
+
+  const resultValues: any[] = [runs.rows.map(run => run.id)];
+  const resultConditions = ['dqr.ingest_run_id = ANY($1::uuid[])', ...qualityResultConditions(filters, resultValues)];
+
+  const results = await pool.query(`
+    SELECT dqr.ingest_run_id, dqr.assertion, dqr.severity, dqr.passed, dqr.observed, dqr.expected, dqr.message, dqr.checked_at
+    FROM data_quality_results dqr
+    ${whereSql(resultConditions)}
+    ORDER BY dqr.passed, dqr.severity, dqr.assertion
+  `, resultValues);
+
+  return runs.rows.map(run => ({
+    run_id: run.id,
+    source: run.source,
+    source_name: run.source_name,
+    status: run.status,
+    started_at: run.started_at,
+    completed_at: run.completed_at,
+    records_inserted: run.records_inserted,
+    error: run.error_message,
+    results: results.rows
+      .filter(result => result.ingest_run_id === run.id)
+      .map(({ ingest_run_id, ...result }) => result)
+  }));
+}
+
+// ============================================================================
+// INGESTION OPERATIONS DATABASE FUNCTIONS
+// ============================================================================
+
+const INGEST_STATUSES: IngestStatus[] = ['pending', 'running', 'completed', 'failed', 'quarantined'];
+
+// How often each frequency should bring a new release, and how late one can be before the source is stale
+const FRESHNESS_RULES: Record<UpdateFrequency, { expectedDays: number; graceDays: number } | null> = {
+  daily: { expectedDays: 1, graceDays: 1 },
+  weekly: { expectedDays: 7, graceDays: 2 },
+  monthly: { expectedDays: 31, graceDays: 7 },
+  quarterly: { expectedDays: 92, graceDays: 7 },
+  annually: { expectedDays: 366, graceDays: 30 },
+  static: null
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'fresh' until the next release is expected, 'due' within the grace period, then 'stale'
+function sourceFreshness(frequency: UpdateFrequency, lastUpdated: Date | null, now = new Date()) {
+  const rule = FRESHNESS_RULES[frequency];
+  if (!rule) return { state: 'static', stale: false, expected_every_days: null, age_days: null, next_expected: null, overdue_days: 0 };
+  if (!lastUpdated) return { state: 'never_loaded', stale: false, expected_every_days: rule.expectedDays, age_days: null, next_expected: null, overdue_days: 0 };
+
+  const ageDays = Math.floor((now.getTime() - lastUpdated.getTime()) / DAY_MS);
+  const overdueDays = Math.max(0, ageDays - rule.expectedDays);
+  const state = overdueDays >= rule.graceDays ? 'stale' : overdueDays > 0 ? 'due' : 'fresh';
+
+  return {
+    state,
+    stale: state === 'stale',
+    expected_every_days: rule.expectedDays,
+    age_days: ageDays,
+    next_expected: new Date(lastUpdated.getTime() + rule.expectedDays * DAY_MS).toISOString().split('T')[0],
+    overdue_days: overdueDays
+  };
+}
+
+// Every registered source with its latest success and failure; failures and quarantines since the
+// last completed run count as consecutive failures
+async function getSourceHealthFromDb(tier: string | undefined) {
+  const conditions: string[] = [];
+  const values: any[] = [];
+  if (tier) {
+    values.push(tier);
+    conditions.push(`ds.tier = $${values.length}`);
+  }
+
+  const result = await pool.query(`
+    SELECT
+      ds.code, ds.name, ds.tier, ds.frequency, ds.status, ds.parser_type, ds.url,
+      ds.last_checked, ds.last_updated,
+      lr.id AS last_run_id, lr.status AS last_run_status, lr.started_at AS last_run_at,
+      ls.id AS last_success_run_id, ls.completed_at AS last_success_at,
+      lf.id AS last_failure_run_id, lf.status AS last_failure_status,
+      lf.started_at AS last_failure_at, lf.error_message AS last_failure_error,
+      (
+        SELECT COUNT(*)::int FROM ingest_runs r
+        WHERE r.source_id = ds.id
+          AND r.status IN ('failed', 'quarantined')
+          AND r.started_at > COALESCE(ls.started_at, '-infinity'::timestamptz)
+      ) AS consecutive_failures
+    FROM data_sources ds
+    LEFT JOIN LATERAL (
+      SELECT id, status, started_at FROM ingest_runs
+      WHERE source_id = ds.id ORDER BY started_at DESC LIMIT 1
+    ) lr ON true
+    LEFT JOIN LATERAL (
+      SELECT id, started_at, completed_at FROM ingest_runs
+      WHERE source_id = ds.id AND status = 'completed' ORDER BY started_at DESC LIMIT 1
+    ) ls ON true
+    LEFT JOIN LATERAL (
+      SELECT id, status, started_at, error_message FROM ingest_runs
+      WHERE source_id = ds.id AND status IN ('failed', 'quarantined') ORDER BY started_at DESC LIMIT 1
+    ) lf ON true
+    ${whereSql(conditions)}
+    ORDER BY ds.tier, ds.code
+  `, values);
+
+  return result.rows.map(row => ({
+    code: row.code,
+    name: row.name,
+    tier: row.tier,
+    frequency: row.frequency,
+    status: row.status,
+    parser_type: row.parser_type,
+    url: row.url,
+    last_checked: row.last_checked,
+    last_updated: row.last_updated,
+    freshness: sourceFreshness(row.frequency, row.last_updated),
+    last_run: row.last_run_id ? { run_id: row.last_run_id, status: row.last_run_status, started_at: row.last_run_at } : null,
+    last_success: row.last_success_run_id ? { run_id: row.last_success_run_id, completed_at: row.last_success_at } : null,
+    last_failure: row.last_failure_run_id
+      ? { run_id: row.last_failure_run_id, status: row.last_failure_status, started_at: row.last_failure_at, error: row.last_failure_error }
+      : null,
+    consecutive_failures: row.consecutive_failures
+  }));
+}
+
+interface RunFilters {
+  sources: string[];
+  statuses: string[];
+  since: string | null;
+  until: string | null;
+  page: number;
+  limit: number;
+}
+
+// Newest first, one page at a time, with the total matching count for paging
+async function getIngestRunsFromDb(filters: RunFilters) {
+  const conditions: string[] = [];
+  const values: any[] = [];
+  if (filters.sources.length > 0) {
+    values.push(filters.sources);
+    conditions.push(`ds.code = ANY($${values.length})`);
+  }
+  if (filters.statuses.length > 0) {
+    values.push(filters.statuses);
+    conditions.push(`r.status::text = ANY($${values.length})`);
+  }
+  if (filters.since) {
+    values.push(filters.since);
+    conditions.push(`r.started_at >= $${values.length}::date`);
+  }
+  if (filters.until) {
+    values.push(filters.until);
+    conditions.push(`r.started_at < $${values.length}::date + 1`);
+  }
+
+  const from = `FROM ingest_runs r JOIN data_sources ds ON ds.id = r.source_id ${whereSql(conditions)}`;
+  const [count, runs] = await Promise.all([
+    pool.query(`SELECT COUNT(*)::int AS total ${from}`, values),
+    pool.query(`
+      SELECT
+        r.id, ds.code AS source, r.job_id, r.status, r.started_at, r.completed_at,
+        EXTRACT(EPOCH FROM (r.completed_at - r.started_at))::float AS duration_seconds,
+        r.records_processed, r.records_inserted, r.records_updated, r.error_message,
+        r.content_hash, r.archive_hash, r.resolved_url, r.published_at::text AS published_at, r.metadata
+      ${from}
+      ORDER BY r.started_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `, [...values, filters.limit, (filters.page - 1) * filters.limit])
+  ]);
+
+  return {
+    total: count.rows[0].total,
+    runs: runs.rows.map(({ metadata, ...run }) => ({
+      ...run,
+      duration_seconds: run.duration_seconds === null ? null : Math.round(run.duration_seconds),
+      no_changes: metadata?.noChanges || false,
+      metadata
+    }))
+  };
+}
+
+// ============================================================================
+// INGESTION JOB DATABASE FUNCTIONS
+// ============================================================================
+
+const INGEST_JOB_STATUSES: IngestJobStatus[] = ['queued', 'running', 'completed', 'dead'];
+
+async function getTierSourceCodesFromDb(tier: string): Promise<string[]> {
+  const result = await pool.query(
+    `SELECT code FROM data_sources WHERE tier = $1 AND status = 'active' ORDER BY code`,
+    [tier]
+  );
+  return result.rows.map(row => row.code);
+}
+
+// Runs are listed oldest first within a job, one per attempt
+const JOB_RUN_COLUMNS = `
+  r.id, r.job_id, r.status, r.started_at, r.completed_at,
+  EXTRACT(EPOCH FROM (COALESCE(r.completed_at, NOW()) - r.started_at))::float AS elapsed_seconds,
+  r.records_processed, r.records_inserted, r.records_updated, r.error_message,
+  r.content_hash, r.archive_hash, r.resolved_url, r.published_at::text AS published_at, r.metadata
+`;
+
+function formatJobRun(run: any) {
+  return {
+    ...run,
+    stage: ['pending', 'running'].includes(run.status) ? run.metadata?.stage || null : null,
+    elapsed_seconds: Math.round(run.elapsed_seconds),
+    no_changes: run.metadata?.noChanges || false
+  };
+}
+
+async function getIngestRunFromDb(runId: string) {
+  const result = await pool.query(`
+    SELECT ${JOB_RUN_COLUMNS}, ds.code AS source
+    FROM ingest_runs r
+    JOIN data_sources ds ON ds.id = r.source_id
+    WHERE r.id = $1
+  `, [runId]);
+
+  return result.rows[0] ? formatJobRun(result.rows[0]) : null;
+}
+
+const JOB_COLUMNS = `
+  j.id, ds.code AS source, j.status, j.trigger, j.scheduled_for, j.attempts, j.max_attempts,
+  j.run_after, j.locked_by, j.heartbeat_at, j.last_error, j.run_options, j.created_at, j.completed_at
+`;
+
+interface JobFilters {
+  sources: string[];
+  statuses: string[];
+  page: number;
+  limit: number;
+}
+
+// Job history, newest first, one page at a time
+async function getIngestJobsFromDb(filters: JobFilters) {
+  const conditions: string[] = [];
+  const values: any[] = [];
+  if (filters.sources.length > 0) {
+    values.push(filters.sources);
+    conditions.push(`ds.code = ANY($${values.length})`);
+  }
+  if (filters.statuses.length > 0) {
+    values.push(filters.statuses);
+    conditions.push(`j.status::text = ANY($${values.length})`);
+  }
+
+  const from = `FROM ingest_jobs j JOIN data_sources ds ON ds.id = j.source_id ${whereSql(conditions)}`;
+  const [count, jobs] = await Promise.all([
+    pool.query(`SELECT COUNT(*)::int AS total ${from}`, values),
+    pool.query(`
+      SELECT ${JOB_COLUMNS}
+      ${from}
+      ORDER BY j.created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `, [...values, filters.limit, (filters.page - 1) * filters.limit])
+  ]);
+
+  return { total: count.rows[0].total, jobs: jobs.rows };
+}
+
+// One job with every run it has made. run_id is its latest run, null until a worker has claimed it
+async function getIngestJobFromDb(jobId: string) {
+  const job = await pool.query(`
+    SELECT ${JOB_COLUMNS}
+    FROM ingest_jobs j
+    JOIN data_sources ds ON ds.id = j.source_id
+    WHERE j.id = $1
+  `, [jobId]);
+  if (!job.rows[0]) return null;
+
+  const runs = await pool.query(`
+    SELECT ${JOB_RUN_COLUMNS}
+    FROM ingest_runs r
+    WHERE r.job_id = $1
+    ORDER BY r.started_at
+  `, [jobId]);
+
+  const jobRuns = runs.rows.map(formatJobRun);
+  return { ...job.rows[0], run_id: jobRuns.length > 0 ? jobRuns[jobRuns.length - 1].id : null, runs: jobRuns };
+}
+
+function calculateAreaCost(hotel: number, dispersed: number) {
+  const dailyCost = (hotel * 145) + (dispersed * 52);
+  const annualCost = dailyCost * 365;
+  return {
+    daily: dailyCost,
+    annual: annualCost,
+    breakdown: {
+      hotel: { count: hotel, rate: 145, daily: hotel * 145 },
+      dispersed: { count: dispersed, rate: 52, daily: dispersed * 52 }
+    }
+  };
+}
+
+function calculateEquivalents(annualCost: number) {
+  return {
+    nurses: Math.floor(annualCost / 35000), // Average nurse salary
+    teachers: Math.floor(annualCost / 42000),
+    police_officers: Math.floor(annualCost / 45000),
+    school_meals: Math.floor(annualCost / 2.5), // Per meal
+    nhs_operations: Math.floor(annualCost / 5000), // Average minor procedure
+  };
+}
+
+// ============================================================================
+// DATABASE INIT
+// ============================================================================
+
+async function initDatabase() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS detention_facilities (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        type VARCHAR(100),
+        operator VARCHAR(255),
+        capacity INTEGER,
+        population INTEGER,
+        lat DECIMAL(10, 6),
+        lng DECIMAL(10, 6),
+        last_updated TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    // Insert IRC data if empty
+    const count = await pool.query('SELECT COUNT(*) FROM detention_facilities');
+    if (parseInt(count.rows[0].count) === 0) {
+      for (const irc of ircFacilities) {
+        await pool.query(
+          'INSERT INTO detention_facilities (name, type, operator, capacity, population, lat, lng) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+          [irc.name, irc.type, irc.operator, irc.capacity, irc.population, irc.location.lat, irc.location.lng]
+        );
+      }
+    }
+
+    // Create hotspots table for live incident tracking
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS hotspots (
+        id VARCHAR(50) PRIMARY KEY,
+        type VARCHAR(50) NOT NULL,
+        status VARCHAR(10) DEFAULT 'YELLOW',
+        title VARCHAR(255) NOT NULL,
+        description TEXT,
+        lat DECIMAL(10, 7) NOT NULL,
+        lng DECIMAL(10, 7) NOT NULL,
+        location_name VARCHAR(255),
+        region VARCHAR(100),
+        sources JSONB DEFAULT '[]',
+        crowd_estimate VARCHAR(100),
+        police_present BOOLEAN DEFAULT FALSE,
+        injuries_reported BOOLEAN DEFAULT FALSE,
+        arrests_reported INTEGER DEFAULT 0,
+        related_to_asylum BOOLEAN DEFAULT FALSE,
+        auto_detected BOOLEAN DEFAULT FALSE,
+        verified BOOLEAN DEFAULT FALSE,
+        timeline JSONB DEFAULT '[]',
+        started_at TIMESTAMP DEFAULT NOW(),
+        last_updated TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    // Create indexes for hotspots
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_hotspots_status ON hotspots(status)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_hotspots_location ON hotspots(lat, lng)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS idx_hotspots_started ON hotspots(started_at)`);
+
+    // Seed hotspots if empty
+    const hotspotCount = await pool.query('SELECT COUNT(*) FROM hotspots');
+    if (parseInt(hotspotCount.rows[0].count) === 0) {
+      await seedHotspotsToDatabase();
+    }
+
+    console.log('Database initialized');
+  } catch (error) {
+    console.error('Database init error:', error);
+  }
+}
+
+// ============================================================================
+// API ENDPOINTS - DATA SOURCES (TRANSPARENCY)
+// ============================================================================
+
+app.get('/api/sources', (req, res) => {
+  res.json({
+    description: 'All data sources used by UK Asylum Tracker',
+    sources: DATA_SOURCES,
+    methodology_note: 'Core statistics from Home Office quarterly releases. Live elements use real-time APIs where available. No public API exists for asylum data - Home Office publishes quarterly spreadsheets only.',
+    update_schedule: {
+      live: ['weather', 'news', 'parliamentary', 'foi'],
+      quarterly: ['la_support', 'detention', 'returns', 'appeals', 'net_migration'],
+      annual: ['spending']
+    },
+    contact: 'For data queries or corrections, use the feedback form'
+  });
+});
+
+// ============================================================================
+// API ENDPOINTS - FRANCE RETURNS DEAL
+// ============================================================================
+
+app.get('/api/france-deal', (req, res) => {
+  res.json({
+    ...franceReturnsDeal,
+    last_fetched: new Date().toISOString()
+  });
+});
+
+app.get('/api/france-deal/summary', (req, res) => {
+  const fd = franceReturnsDeal;
+  res.json({
+    status: fd.status,
+    announced: fd.announced,
+    returns_to_france: fd.actual_returns.total_returned_to_france,
+    accepted_from_france: fd.actual_returns.total_accepted_from_france,
+    target_annual: fd.target_annual,
+    achievement_pct: ((fd.actual_returns.total_returned_to_france / fd.target_annual) * 100).toFixed(1),
+    crossings_since_deal: fd.effectiveness.crossings_since_deal,
+    return_rate_pct: fd.effectiveness.return_rate_pct,
+    as_of: fd.actual_returns.as_of_date
+  });
+});
+
+// ============================================================================
+// API ENDPOINTS - RETURNS & DEPORTATIONS
+// ============================================================================
+
+app.get('/api/returns', async (req, res) => {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  try {
+    if (!(await tableHasRows('returns'))) {
+      return res.json({ ...returnsData, data_source: 'static' });
+    }
+
+    const [quarterly, byNationality, series] = await Promise.all([
+      getReturnsSeriesFromDb(filters),
+      getReturnsByNationalityFromDb(filters),
+      filters.nationalities.length > 0 ? getReturnsSeriesFromDb(filters, true) : Promise.resolve(null)
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+    const totals = sumReturns(quarterly);
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: returnsData.source,
+      filters,
+      summary: {
+        quarters: quarterly.length,
+        total_returns: totals.total,
+        enforced_returns: totals.enforced,
+        voluntary_returns: totals.voluntary,
+        assisted_voluntary_returns: totals.assisted_voluntary
+      },
+      quarterly,
+      by_nationality: byNationality,
+      ...(series ? { series } : {}),
+      notes: [
+        'returns_to_arrivals_ratio divides returns by small boat arrivals of the same nationality; arrivals are annual, so only calendar years wholly inside the range are counted'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching returns from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch returns data' });
+  }
+});
+
+app.get('/api/returns/summary', async (req, res) => {
+  const staticResponse = {
+    data_source: 'static',
+    period: returnsData.data_period,
+    total_returns: returnsData.summary.total_returns,
+    enforced: returnsData.summary.enforced_returns,
+    voluntary: returnsData.summary.voluntary_returns,
+    small_boat_return_rate_pct: returnsData.small_boat_returns.return_rate_pct,
+    top_nationalities: returnsData.by_nationality.slice(0, 5).map(n => n.nationality)
+  };
+
+  try {
+    if (!(await tableHasRows('returns'))) return res.json(staticResponse);
+
+    // Rolling year: the latest four quarters loaded
+    const quarterly = (await getReturnsSeriesFromDb({ from: null, to: null, nationalities: [] })).slice(-4);
+    const yearFilters: QuarterFilters = { from: quarterly[0].quarter_end, to: quarterly[quarterly.length - 1].quarter_end, nationalities: [] };
+    const byNationality = await getReturnsByNationalityFromDb(yearFilters);
+    const totals = sumReturns(quarterly);
+
+    res.json({
+      data_source: 'database',
+      period: `${quarterly[0].period} - ${quarterly[quarterly.length - 1].period}`,
+      total_returns: totals.total,
+      enforced: totals.enforced,
+      voluntary: totals.voluntary,
+      assisted_voluntary: totals.assisted_voluntary,
+      top_nationalities: byNationality.slice(0, 5).map(n => n.nationality)
+    });
+  } catch (error) {
+    console.error('Error fetching returns summary from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch returns summary' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - NET MIGRATION
+// ============================================================================
+
+app.get('/api/net-migration', (req, res) => {
+  res.json(netMigrationData);
+});
+
+app.get('/api/net-migration/summary', (req, res) => {
+  const nm = netMigrationData;
+  res.json({
+    period: nm.data_period,
+    net_migration: nm.latest.net_migration,
+    immigration: nm.latest.immigration,
+    emigration: nm.latest.emigration,
+    peak: { period: 'YE Mar 2023', net: 909000 },
+    change_from_peak_pct: Math.round(((nm.latest.net_migration - 909000) / 909000) * 100)
+  });
+});
+
+// ============================================================================
+// API ENDPOINTS - APPEALS
+// ============================================================================
+
+app.get('/api/appeals', async (req, res) => {
+  try {
+    if (!(await tableHasRows('asylum_appeals'))) {
+      return res.json({ ...appealsData, data_source: 'static' });
+    }
+
+    const history = await getAppealsHistoryFromDb();
+    const latest = history[history.length - 1];
+
+    res.json({
+      data_source: 'database',
+      data_period: latest?.period || null,
+      last_updated: latest?.quarter_end || null,
+      source: appealsData.source,
+      backlog: appealsBacklogTrend(history),
+      processing: {
+        average_wait_weeks: latest?.avg_weeks_to_hearing ?? null,
+        clearance_rate_pct: latest?.clearance_rate_pct ?? null
+      },
+      outcomes: latest ? {
+        period: latest.period,
+        allowed_pct: latest.allowed_pct,
+        dismissed_pct: latest.dismissed_pct,
+        withdrawn_pct: latest.withdrawn_pct,
+        success_rate_pct: latest.success_rate_pct
+      } : null,
+      historical: history
+    });
+  } catch (error) {
+    console.error('Error fetching appeals from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch appeals data' });
+  }
+});
+
+app.get('/api/appeals/summary', async (req, res) => {
+  const ap = appealsData;
+  const staticResponse = {
+    data_source: 'static',
+    period: ap.data_period,
+    backlog: ap.backlog.total_pending,
+    trend: ap.backlog.trend,
+    success_rate_pct: ap.outcomes.allowed_pct,
+    avg_wait_weeks: ap.processing.average_wait_weeks,
+    grant_rate_initial: ap.initial_decisions.grant_rate_pct,
+    note: 'Appeals growing as initial backlog clears with lower quality decisions'
+  };
+
+  try {
+    if (!(await tableHasRows('asylum_appeals'))) return res.json(staticResponse);
+
+    const [history, grantRates] = await Promise.all([
+      getAppealsHistoryFromDb(),
+      getGrantRateTotalsFromDb({ from: null, to: null, nationalities: [] })
+    ]);
+    const latest = history[history.length - 1];
+    const backlog = appealsBacklogTrend(history);
+
+    res.json({
+      data_source: 'database',
+      period: latest?.period || null,
+      backlog: backlog?.total_pending ?? null,
+      trend: backlog?.trend ?? null,
+      yoy_change_pct: backlog?.yoy_change_pct ?? null,
+      allowed_pct: latest?.allowed_pct ?? null,
+      success_rate_pct: latest?.success_rate_pct ?? null,
+      avg_wait_weeks: latest?.avg_weeks_to_hearing ?? null,
+      grant_rate_initial: grantRates[grantRates.length - 1]?.grant_rate_pct ?? null
+    });
+  } catch (error) {
+    console.error('Error fetching appeals summary from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch appeals summary' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - MODERN SLAVERY (NRM)
+// ============================================================================
+
+// Parse the shared filters and make sure NRM_STATS has loaded something, writing the error response if not
+async function resolveNrmFilters(req: express.Request, res: express.Response): Promise<QuarterFilters | null> {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    res.status(400).json({ error: filters.error });
+    return null;
+  }
+  if (!(await tableHasRows('nrm_referrals'))) {
+    res.status(503).json({ error: 'No NRM statistics have been ingested yet' });
+    return null;
+  }
+  return filters;
+}
+
+app.get('/api/nrm', async (req, res) => {
+  try {
+    const filters = await resolveNrmFilters(req, res);
+    if (!filters) return;
+
+    const [quarterly, firstResponders, outcomes] = await Promise.all([
+      getNrmReferralSeriesFromDb(filters),
+      getNrmFirstResponderSeriesFromDb(filters),
+      getNrmOutcomeSeriesFromDb(filters)
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: 'Home Office - Modern Slavery: NRM and Duty to Notify statistics',
+      filters,
+      summary: {
+        quarters: quarterly.length,
+        total_referrals: quarterly.reduce((sum, q) => sum + q.total, 0),
+        latest_quarter_referrals: latest?.total ?? null,
+        conclusive_positive_rate_pct: sumNrmOutcomes(outcomes).conclusive_positive_rate_pct
+      },
+      by_exploitation: quarterly,
+      by_first_responder: firstResponders,
+      outcomes
+    });
+  } catch (error) {
+    console.error('Error fetching NRM statistics:', error);
+    res.status(500).json({ error: 'Failed to fetch NRM statistics' });
+  }
+});
+
+app.get('/api/nrm/by-nationality', async (req, res) => {
+  try {
+    const filters = await resolveNrmFilters(req, res);
+    if (!filters) return;
+
+    const data = await getNrmByNationalityFromDb(filters);
+    res.json({
+      data_source: 'database',
+      filters,
+      count: data.length,
+      data
+    });
+  } catch (error) {
+    console.error('Error fetching NRM by nationality:', error);
+    res.status(500).json({ error: 'Failed to fetch NRM statistics by nationality' });
+  }
+});
+
+app.get('/api/nrm/outcomes', async (req, res) => {
+  try {
+    const filters = await resolveNrmFilters(req, res);
+    if (!filters) return;
+
+    const quarterly = await getNrmOutcomeSeriesFromDb(filters);
+    res.json({
+      data_source: 'database',
+      filters,
+      totals: sumNrmOutcomes(quarterly),
+      quarterly,
+      notes: [
+        'conclusive_positive_rate_pct is positive conclusive grounds decisions as a share of all conclusive grounds decisions'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching NRM outcomes:', error);
+    res.status(500).json({ error: 'Failed to fetch NRM outcomes' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - RESETTLEMENT & HOMES FOR UKRAINE
+// ============================================================================
+
+// ?scheme=ACRS,ARAP&from=2023-Q1&to=2024-Q4
+app.get('/api/resettlement', async (req, res) => {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  const schemes = ((req.query.scheme as string | undefined) || '')
+    .split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+  const unknown = schemes.filter(s => !RESETTLEMENT_SCHEMES.includes(s));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `scheme must be one of ${RESETTLEMENT_SCHEMES.join(', ')}`, unknown });
+  }
+
+  try {
+    if (!(await tableHasRows('resettlement'))) {
+      return res.status(503).json({ error: 'No resettlement statistics have been ingested yet' });
+    }
+
+    const [{ quarterly, since_start }, byLA] = await Promise.all([
+      getResettlementSeriesFromDb(filters, schemes),
+      getResettlementLAFromDb()
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: 'Home Office Immigration Statistics - Tables Res_D01, Res_D02',
+      filters: { from: filters.from, to: filters.to, schemes },
+      summary: {
+        quarters: quarterly.length,
+        arrivals_in_range: quarterly.reduce((sum, q) => sum + q.total, 0),
+        latest_quarter_arrivals: latest?.total ?? null
+      },
+      since_start,
+      quarterly,
+      by_local_authority: {
+        snapshot_date: byLA[0]?.snapshot_date || null,
+        data: byLA
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching resettlement:', error);
+    res.status(500).json({ error: 'Failed to fetch resettlement statistics' });
+  }
+});
+
+// Resettlement and Homes for Ukraine history for one council, alongside its latest asylum support
+app.get('/api/resettlement/la/:id', async (req, res) => {
+  try {
+    const laId = await findLAId(req.params.id);
+    if (!laId) return res.status(404).json({ error: 'Local authority not found' });
+
+    const [laResult, history, support] = await Promise.all([
+      pool.query('SELECT id, ons_code, name, region, population FROM local_authorities WHERE id = $1', [laId]),
+      getLAHumanitarianHistoryFromDb(laId),
+      pool.query(
+        `SELECT ${LA_SUPPORT_COLUMNS} FROM v_la_support WHERE la_id = $1 ORDER BY snapshot_date DESC LIMIT 1`,
+        [laId]
+      )
+    ]);
+
+    const latestResettlement = history.resettlement[history.resettlement.length - 1];
+    const latestUkraine = history.ukraine[history.ukraine.length - 1];
+    const supportRow = support.rows[0];
+
+    res.json({
+      local_authority: laResult.rows[0],
+      current: {
+        asylum_support: supportRow ? { snapshot_date: supportRow.snapshot_date, total: supportRow.total_supported } : null,
+        resettlement: latestResettlement ? { snapshot_date: latestResettlement.snapshot_date, total: latestResettlement.total } : null,
+        homes_for_ukraine: latestUkraine ? { snapshot_date: latestUkraine.snapshot_date, arrivals: latestUkraine.arrivals } : null
+      },
+      asylum_support: supportRow ? { snapshot_date: supportRow.snapshot_date, ...dbRowToLASupport(supportRow) } : null,
+      resettlement: history.resettlement,
+      homes_for_ukraine: history.ukraine
+    });
+  } catch (error) {
+    console.error('Error fetching LA resettlement:', error);
+    res.status(500).json({ error: 'Failed to fetch local authority resettlement data' });
+  }
+});
+
+app.get('/api/ukraine', async (req, res) => {
+  const snapshot = req.query.snapshot as string | undefined;
+
+  if (snapshot !== undefined && !isCalendarDate(snapshot)) {
+    return res.status(400).json({ error: 'snapshot must be a date in YYYY-MM-DD format' });
+  }
+
+  try {
+    if (!(await tableHasRows('ukraine_arrivals'))) {
+      return res.status(503).json({ error: 'No Homes for Ukraine data has been ingested yet' });
+    }
+
+    const [timeline, byLA] = await Promise.all([getUkraineTimelineFromDb(), getUkraineLAFromDb(snapshot)]);
+    const latest = timeline[timeline.length - 1];
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.snapshot_date || null,
+      source: 'Homes for Ukraine sponsorship scheme data',
+      current: latest || null,
+      timeline,
+      by_local_authority: {
+        snapshot_date: byLA[0]?.snapshot_date || snapshot || null,
+        count: byLA.length,
+        data: byLA
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching Homes for Ukraine data:', error);
+    res.status(500).json({ error: 'Failed to fetch Homes for Ukraine data' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - IRREGULAR ENTRY
+// ============================================================================
+
+// ?method=small_boat,lorry&nationality=Albania&from=2023-Q1&to=2024-Q4
+app.get('/api/irregular-entry', async (req, res) => {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  const methods = ((req.query.method as string | undefined) || '')
+    .split(',').map(m => m.trim().toLowerCase()).filter(Boolean);
+  const unknown = methods.filter(m => !ENTRY_METHODS.includes(m));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `method must be one of ${ENTRY_METHODS.join(', ')}`, unknown });
+  }
+
+  try {
+    if (!(await tableHasRows('irregular_entry'))) {
+      return res.status(503).json({ error: 'No irregular entry statistics have been ingested yet' });
+    }
+
+    const [quarterly, byNationality, byAge, bySex] = await Promise.all([
+      getIrregularEntrySeriesFromDb(filters, methods),
+      getIrregularEntryBreakdownFromDb(filters, methods, 'nationality_name'),
+      getIrregularEntryBreakdownFromDb(filters, methods, 'age_group'),
+      getIrregularEntryBreakdownFromDb(filters, methods, 'sex')
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+    const totals = quarterly.reduce((sum, q) => ({
+      small_boat: sum.small_boat + q.small_boat,
+      lorry: sum.lorry + q.lorry,
+      air: sum.air + q.air,
+      other: sum.other + q.other,
+      total: sum.total + q.total
+    }), { small_boat: 0, lorry: 0, air: 0, other: 0, total: 0 });
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: 'Home Office - Irregular migration to the UK, detailed dataset (Irr_D02)',
+      filters: { ...filters, methods },
+      summary: {
+        quarters: quarterly.length,
+        ...totals,
+        small_boat_share_pct: percentOf(totals.small_boat, totals.total)
+      },
+      quarterly,
+      by_nationality: byNationality.map(({ label, ...counts }) => ({ nationality: label, ...counts })),
+      by_age_group: byAge.map(({ label, ...counts }) => ({ age_group: label, ...counts })),
+      by_sex: bySex.map(({ label, ...counts }) => ({ sex: label, ...counts })),
+      notes: [
+        "Detections at UK ports are counted as 'lorry'; in-country detections as 'other'"
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching irregular entry:', error);
+    res.status(500).json({ error: 'Failed to fetch irregular entry statistics' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - FAMILY REUNION, INADMISSIBILITY & BORDER REFUSALS
+// ============================================================================
+
+// ?nationality=Sudan,Eritrea&from=2023-Q1&to=2024-Q4
+app.get('/api/family-reunion', async (req, res) => {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  try {
+    if (!(await tableHasRows('family_reunion'))) {
+      return res.status(503).json({ error: 'No family reunion statistics have been ingested yet' });
+    }
+
+    const [quarterly, byNationality] = await Promise.all([
+      getFamilyReunionSeriesFromDb(filters),
+      getFamilyReunionByNationalityFromDb(filters)
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+    const totals = dbRowToFamilyReunion(quarterly.reduce((sum, q) => ({
+      applications: sum.applications + q.applications,
+      grants: sum.grants + q.grants,
+      refusals: sum.refusals + q.refusals
+    }), { applications: 0, grants: 0, refusals: 0 }));
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: 'Home Office - Immigration System Statistics, refugee family reunion visas (Fam_D01)',
+      filters,
+      summary: { quarters: quarterly.length, ...totals },
+      quarterly,
+      by_nationality: byNationality,
+      notes: [
+        'grant_rate_pct is grants as a share of grants plus refusals; withdrawn and lapsed applications are excluded'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching family reunion:', error);
+    res.status(500).json({ error: 'Failed to fetch family reunion statistics' });
+  }
+});
+
+// ?nationality=Albania&from=2022-Q1&to=2024-Q4
+app.get('/api/inadmissibility', async (req, res) => {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  try {
+    if (!(await tableHasRows('inadmissibility'))) {
+      return res.status(503).json({ error: 'No inadmissibility statistics have been ingested yet' });
+    }
+
+    const [quarterly, byNationality] = await Promise.all([
+      getInadmissibilitySeriesFromDb(filters),
+      getInadmissibilityByNationalityFromDb(filters)
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+    const totals = quarterly.reduce((sum, q) => ({
+      decisions: sum.decisions + q.decisions,
+      returned: sum.returned + q.returned,
+      granted_after_review: sum.granted_after_review + q.granted_after_review
+    }), { decisions: 0, returned: 0, granted_after_review: 0 });
+    const withBacklog = quarterly.filter(q => q.backlog_change !== null);
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: 'Home Office - Immigration System Statistics, inadmissibility (Inad_D01); backlog from Asy_D03',
+      filters,
+      summary: {
+        quarters: quarterly.length,
+        ...totals,
+        returned_share_pct: percentOf(totals.returned, totals.decisions),
+        backlog_change_over_range: withBacklog.length > 0
+          ? withBacklog.reduce((sum, q) => sum + q.backlog_change, 0)
+          : null
+      },
+      quarterly,
+      by_nationality: byNationality,
+      notes: [
+        'Claims held for inadmissibility action are not decided on their merits, so they stay in the asylum backlog until declared inadmissible or admitted to the UK process',
+        'backlog_total_awaiting and backlog_change come from asylum_backlog at the same quarter end and ignore the nationality filter; null where no snapshot was ingested',
+        'Few claimants identified for inadmissibility have been removed to a third country; claims later admitted to the UK process (granted_after_review) rejoin the initial decision queue'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching inadmissibility:', error);
+    res.status(500).json({ error: 'Failed to fetch inadmissibility statistics' });
+  }
+});
+
+// ?port=air,sea&nationality=Albania&from=2023-Q1&to=2024-Q4
+app.get('/api/border-refusals', async (req, res) => {
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  const portTypes = ((req.query.port as string | undefined) || '')
+    .split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+  const unknown = portTypes.filter(p => !PORT_TYPES.includes(p));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `port must be one of ${PORT_TYPES.join(', ')}`, unknown });
+  }
+
+  try {
+    if (!(await tableHasRows('border_refusals'))) {
+      return res.status(503).json({ error: 'No border refusal statistics have been ingested yet' });
+    }
+
+    const [quarterly, byNationality] = await Promise.all([
+      getBorderRefusalsSeriesFromDb(filters, portTypes),
+      getBorderRefusalsByNationalityFromDb(filters, portTypes)
+    ]);
+    const latest = quarterly[quarterly.length - 1];
+    const totals = quarterly.reduce((sum, q) => ({
+      air: sum.air + q.air,
+      sea: sum.sea + q.sea,
+      rail: sum.rail + q.rail,
+      other: sum.other + q.other,
+      total: sum.total + q.total
+    }), { air: 0, sea: 0, rail: 0, other: 0, total: 0 });
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: 'Home Office - Immigration System Statistics, passengers refused entry at port (Adm_D02)',
+      filters: { ...filters, port_types: portTypes },
+      summary: { quarters: quarterly.length, ...totals },
+      quarterly,
+      by_nationality: byNationality,
+      notes: [
+        'Channel Tunnel and Eurostar controls count as rail; ferry ports and the juxtaposed controls in France as sea'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching border refusals:', error);
+    res.status(500).json({ error: 'Failed to fetch border refusal statistics' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - FOREIGN NATIONAL OFFENDERS
+// ============================================================================
+
+// ?snapshot=2024-09-30 (prison population) &nationality=Albania,Poland&from=2023-Q1&to=2024-Q4 (returns)
+app.get('/api/fno', async (req, res) => {
+  const snapshot = req.query.snapshot as string | undefined;
+  if (snapshot !== undefined && !isCalendarDate(snapshot)) {
+    return res.status(400).json({ error: 'snapshot must be a date in YYYY-MM-DD format' });
+  }
+
+  const filters = parseQuarterFilters(req);
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  try {
+    const [hasPrisoners, hasDeportations] = await Promise.all([
+      tableHasRows('foreign_national_prisoners'),
+      tableHasRows('fno_deportations')
+    ]);
+    if (!hasPrisoners && !hasDeportations) {
+      return res.status(503).json({ error: 'No foreign national offender statistics have been ingested yet' });
+    }
+
+    const [prisoners, byOffence, deportationsByOffence, quarterly] = await Promise.all([
+      getForeignNationalPrisonersFromDb(snapshot, filters),
+      getFnoByOffenceFromDb(filters),
+      getFnoDeportationsByOffenceFromDb(filters),
+      getFnoReturnsSeriesFromDb(filters)
+    ]);
+
+    if (snapshot && prisoners.length === 0) {
+      return res.status(404).json({
+        error: 'No foreign national prisoner data for snapshot',
+        snapshot,
+        available_snapshots: await getForeignNationalPrisonerSnapshotDatesFromDb()
+      });
+    }
+
+    const snapshotDate = prisoners[0]?.snapshot_date || null;
+    const fnoReturns = quarterly.reduce((sum, q) => sum + q.fno_returns, 0);
+    // Only quarters with enforced returns loaded count towards the ratio
+    const matched = quarterly.filter(q => q.enforced_returns !== null);
+    const matchedFnoReturns = matched.reduce((sum, q) => sum + q.fno_returns, 0);
+    const enforcedReturns = matched.reduce((sum, q) => sum + q.enforced_returns, 0);
+
+    res.json({
+      data_source: 'database',
+      last_updated: snapshotDate || quarterly[quarterly.length - 1]?.quarter_end || null,
+      source: 'Ministry of Justice - Offender Management Statistics Quarterly; Home Office - Immigration System Statistics (Ret_D01)',
+      filters: { ...filters, snapshot: snapshot || null },
+      summary: {
+        foreign_national_prisoners: prisoners.reduce((sum, p) => sum + (p.prison_population || 0), 0),
+        share_of_prison_population_pct: prisoners.length > 0
+          ? Math.round(prisoners.reduce((sum, p) => sum + (p.share_of_total_pct || 0), 0) * 10) / 10
+          : null,
+        fno_returns: fnoReturns,
+        enforced_returns: enforcedReturns,
+        fno_to_enforced_ratio: enforcedReturns > 0 ? Math.round(matchedFnoReturns / enforcedReturns * 1000) / 1000 : null
+      },
+      prison_population: {
+        snapshot_date: snapshotDate,
+        period: snapshotDate ? snapshotToPeriod(snapshotDate) : null,
+        count: prisoners.length,
+        by_nationality: prisoners.map(({ snapshot_date, ...p }) => p)
+      },
+      prisoners_by_offence: {
+        quarter_end: byOffence[0]?.quarter_end || null,
+        data: byOffence.map(({ quarter_end, ...o }) => o)
+      },
+      deportations: {
+        by_offence_group: deportationsByOffence,
+        quarterly
+      },
+      notes: [
+        'share_of_total_pct is the share of the whole prison population in England and Wales, UK nationals included',
+        'fno_to_enforced_ratio divides FNO returns by all enforced returns for the same quarters and nationalities; quarters with no enforced returns loaded are left out',
+        'Prisoners by offence group is the latest quarter up to ?to= and ignores the nationality filter'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching foreign national offenders:', error);
+    res.status(500).json({ error: 'Failed to fetch foreign national offender statistics' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - PRESSURE INDEX
+// ============================================================================
+
+const PRESSURE_INDEX_NOTES = [
+  'Component scores are percentile ranks (0-100) among local authorities with a value in the same snapshot',
+  'growth is year-on-year change in people supported; deprivation is ranked within each nation because IMD, WIMD and SIMD ranks are not comparable',
+  'pressure_index is the weighted mean of the components an LA has, with the weights re-scaled over those components',
+  'quintile 5 is the highest pressure; rank 1 is the highest pressure_index'
+];
+
+// ?snapshot=2025-09-30&region=London
+app.get('/api/pressure', async (req, res) => {
+  const snapshot = req.query.snapshot as string | undefined;
+  const region = req.query.region as string | undefined;
+
+  if (snapshot !== undefined && !isCalendarDate(snapshot)) {
+    return res.status(400).json({ error: 'snapshot must be a date in YYYY-MM-DD format' });
+  }
+
+  try {
+    if (!(await tableHasRows('pressure_index'))) {
+      return res.status(503).json({ error: 'No pressure index has been computed yet' });
+    }
+
+    const data = await getPressureIndexFromDb(snapshot, region);
+
+    if (data.length === 0) {
+      return res.status(404).json({
+        error: region ? 'No pressure index for region in snapshot' : 'No pressure index for snapshot',
+        snapshot,
+        region,
+        available_snapshots: await getPressureSnapshotDatesFromDb()
+      });
+    }
+
+    const snapshotDate = data[0].snapshot_date;
+    const byQuintile = [1, 2, 3, 4, 5].map(quintile => ({
+      quintile,
+      local_authorities: data.filter(la => la.quintile === quintile).length
+    }));
+
+    res.json({
+      data_source: 'database',
+      snapshot_date: snapshotDate,
+      period: snapshotToPeriod(snapshotDate),
+      weights: data[0].weights,
+      filters: { snapshot: snapshot || null, region: region || null },
+      summary: {
+        local_authorities: data.length,
+        by_quintile: byQuintile
+      },
+      data: data.map(({ snapshot_date, weights, ...la }) => la),
+      notes: PRESSURE_INDEX_NOTES
+    });
+  } catch (error) {
+    console.error('Error fetching pressure index:', error);
+    res.status(500).json({ error: 'Failed to fetch pressure index' });
+  }
+});
+
+// Accepts an ONS code or LA name; every scored snapshot, oldest first
+app.get('/api/pressure/:la', async (req, res) => {
+  try {
+    const laId = await findLAId(req.params.la);
+    if (!laId) return res.status(404).json({ error: 'Local authority not found' });
+
+    const history = await getPressureHistoryFromDb(laId);
+    if (history.length === 0) {
+      return res.status(404).json({ error: 'No pressure index for local authority' });
+    }
+
+    const latest = history[history.length - 1];
+
+    res.json({
+      data_source: 'database',
+      local_authority: { name: latest.name, ons_code: latest.ons_code, region: latest.region },
+      snapshot_date: latest.snapshot_date,
+      weights: latest.weights,
+      latest: (({ weights, name, ons_code, region, ...score }) => score)(latest),
+      history: history.map(({ weights, name, ons_code, region, ...score }) => ({
+        period: snapshotToPeriod(score.snapshot_date),
+        ...score,
+        weights
+      })),
+      notes: PRESSURE_INDEX_NOTES
+    });
+  } catch (error) {
+    console.error('Error fetching LA pressure index:', error);
+    res.status(500).json({ error: 'Failed to fetch local authority pressure index' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - ADMIN AUTHENTICATION
+// ============================================================================
+
+// Every /api/admin route needs ADMIN_API_KEY, as an X-API-Key header or a bearer token. Without a
+// configured key the admin API stays closed rather than open
+function requireAdminKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const configured = process.env.ADMIN_API_KEY;
+  if (!configured) {
+    return res.status(503).json({ error: 'Admin API is disabled: ADMIN_API_KEY is not set' });
+  }
+
+  const authorization = req.get('authorization') || '';
+  const provided = Buffer.from(req.get('x-api-key') || authorization.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(configured);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: 'Missing or invalid admin API key' });
+  }
+
+  next();
+}
+
+app.use('/api/admin', requireAdminKey);
+
+// ============================================================================
+// API ENDPOINTS - DATA QUALITY
+// ============================================================================
+
+const QUALITY_SEVERITIES = ['critical', 'warning'];
+
+// ?source=ASY_D11&run=<uuid>&failed=true&severity=critical&limit=20
+app.get('/api/admin/quality', async (req, res) => {
+  const source = req.query.source as string | undefined;
+  const run = req.query.run as string | undefined;
+  const severity = req.query.severity as string | undefined;
+  const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : 50;
+
+  if (run !== undefined && !RUN_ID_PATTERN.test(run)) {
+    return res.status(400).json({ error: 'run must be an ingest run id (UUID)' });
+  }
+  if (severity !== undefined && !QUALITY_SEVERITIES.includes(severity)) {
+    return res.status(400).json({ error: `severity must be one of: ${QUALITY_SEVERITIES.join(', ')}` });
+  }
+  if (isNaN(limit) || limit < 1 || limit > 500) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 500' });
+  }
+
+  try {
+    if (!(await tableHasRows('data_quality_results'))) {
+      return res.status(503).json({ error: 'No data quality assertions have been checked yet' });
+    }
+
+    const filters: QualityFilters = { source, run, failed: req.query.failed === 'true', severity, limit };
+    const runs = await getQualityRunsFromDb(filters);
+    const results = runs.flatMap(r => r.results);
+
+    res.json({
+      data_source: 'database',
+      filters: { source: source || null, run: run || null, failed: filters.failed, severity: severity || null, limit },
+      summary: {
+        runs: runs.length,
+        quarantined_runs: runs.filter(r => r.status === 'quarantined').length,
+        results: results.length,
+        critical_failures: results.filter(r => !r.passed && r.severity === 'critical').length,
+        warnings: results.filter(r => !r.passed && r.severity === 'warning').length
+      },
+      runs,
+      notes: [
+        'A quarantined run failed a critical assertion: its load was rolled back and only its quality results are kept',
+        'Warnings, such as a large period-on-period jump, should be checked before the figures are quoted'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching data quality results:', error);
+    res.status(500).json({ error: 'Failed to fetch data quality results' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - INGESTION OPERATIONS
+// ============================================================================
+
+// ?tier=B&stale=true
+app.get('/api/admin/sources', async (req, res) => {
+  const tier = (req.query.tier as string | undefined)?.toUpperCase();
+  if (tier !== undefined && !['A', 'B', 'C'].includes(tier)) {
+    return res.status(400).json({ error: 'tier must be A, B or C' });
+  }
+
+  try {
+    const sources = await getSourceHealthFromDb(tier);
+    const data = req.query.stale === 'true' ? sources.filter(s => s.freshness.stale) : sources;
+
+    res.json({
+      data_source: 'database',
+      checked_at: new Date().toISOString(),
+      filters: { tier: tier || null, stale: req.query.stale === 'true' },
+      summary: {
+        sources: sources.length,
+        stale: sources.filter(s => s.freshness.state === 'stale').length,
+        due: sources.filter(s => s.freshness.state === 'due').length,
+        never_loaded: sources.filter(s => s.freshness.state === 'never_loaded').length,
+        failing: sources.filter(s => s.consecutive_failures > 0).length
+      },
+      data,
+      notes: [
+        'Freshness is measured from last_updated, the last run that loaded new content',
+        'A source is due once its next release is expected (by frequency) and stale after a grace period: 1 day for daily, 2 for weekly, 7 for monthly and quarterly, 30 for annual sources',
+        'consecutive_failures counts failed and quarantined runs since the last completed one'
+      ]
+    });
+  } catch (error) {
+    console.error('Error fetching source health:', error);
+    res.status(500).json({ error: 'Failed to fetch source health' });
+  }
+});
+
+// ?source=ASY_D11,ASY_D01&status=failed,quarantined&since=2025-01-01&until=2025-03-31&page=2&limit=50
+app.get('/api/admin/runs', async (req, res) => {
+  const sources = ((req.query.source as string | undefined) || '')
+    .split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+  const statuses = ((req.query.status as string | undefined) || '')
+    .split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  const unknown = statuses.filter(s => !INGEST_STATUSES.includes(s as IngestStatus));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `status must be one of ${INGEST_STATUSES.join(', ')}`, unknown });
+  }
+
+  const since = (req.query.since as string | undefined) || null;
+  const until = (req.query.until as string | undefined) || null;
+  for (const [key, value] of [['since', since], ['until', until]]) {
+    if (value !== null && !isCalendarDate(value)) {
+      return res.status(400).json({ error: `${key} must be a date in YYYY-MM-DD format` });
+    }
+  }
+
+  const page = req.query.page !== undefined ? parseInt(req.query.page as string, 10) : 1;
+  const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : 50;
+  if (isNaN(page) || page < 1) {
+    return res.status(400).json({ error: 'page must be a positive integer' });
+  }
+  if (isNaN(limit) || limit < 1 || limit > 200) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 200' });
+  }
+
+  try {
+    const filters: RunFilters = { sources, statuses, since, until, page, limit };
+    const { total, runs } = await getIngestRunsFromDb(filters);
+
+    res.json({
+      data_source: 'database',
+      filters: { source: sources, status: statuses, since, until },
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      data: runs
+    });
+  } catch (error) {
+    console.error('Error fetching ingest runs:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest runs' });
+  }
+});
+
+// ============================================================================
+// API ENDPOINTS - INGESTION JOBS
+// ============================================================================
+
+// Triggered runs go on the ingest_jobs queue and are worked by the scheduler replicas, so they never
+// overlap a scheduled run of the same source and are retried like one
+
+function jobStatusUrl(jobId: string): string {
+  return `/api/admin/jobs/${jobId}`;
+}
+
+// Queue one source, unless it already has a job queued or running. Null when it isn't in data_sources
+async function triggerIngestJob(sourceCode: string) {
+  const result = await enqueueJob(sourceCode, { trigger: 'api' }, pool);
+  if (!result) return null;
+
+  const { job, queued } = result;
+  return { source: sourceCode, queued, job_id: job.id, status: job.status, status_url: jobStatusUrl(job.id) };
+}
+
+// ?tier=B queues every active source in the tier that has an ingestor
+app.post('/api/admin/ingest', async (req, res) => {
+  const tier = (req.query.tier as string | undefined)?.toUpperCase();
+  if (!tier || !['A', 'B', 'C'].includes(tier)) {
+    return res.status(400).json({ error: 'tier must be A, B or C' });
+  }
+
+  try {
+    const codes = (await getTierSourceCodesFromDb(tier)).filter(hasIngestor);
+    const jobs = [];
+    for (const code of codes) {
+      const job = await triggerIngestJob(code);
+      if (job) jobs.push(job);
+    }
+
+    res.status(202).json({
+      tier,
+      queued: jobs.filter(j => j.queued),
+      already_queued: jobs.filter(j => !j.queued)
+    });
+  } catch (error) {
+    console.error('Error queueing tier ingestion:', error);
+    res.status(500).json({ error: 'Failed to queue ingestion' });
+  }
+});
+
+app.post('/api/admin/ingest/:code', async (req, res) => {
+  const sourceCode = req.params.code.toUpperCase();
+  if (!hasIngestor(sourceCode)) {
+    return res.status(404).json({ error: 'No ingestor for source', source: sourceCode, available_sources: ingestorCodes() });
+  }
+
+  try {
+    const job = await triggerIngestJob(sourceCode);
+    if (!job) {
+      return res.status(404).json({ error: 'Source not registered in data_sources', source: sourceCode });
+    }
+    if (!job.queued) {
+      return res.status(409).json({ error: 'A job for this source is already queued or running', ...job });
+    }
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error queueing ingestion:', error);
+    res.status(500).json({ error: 'Failed to queue ingestion' });
+  }
+});
+
+app.get('/api/admin/jobs', async (req, res) => {
+  const sources = ((req.query.source as string | undefined) || '')
+    .split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+  const statuses = ((req.query.status as string | undefined) || '')
+    .split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  const unknown = statuses.filter(s => !INGEST_JOB_STATUSES.includes(s as IngestJobStatus));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `status must be one of ${INGEST_JOB_STATUSES.join(', ')}`, unknown });
+  }
+
+  const page = req.query.page !== undefined ? parseInt(req.query.page as string, 10) : 1;
+  const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : 50;
+  if (isNaN(page) || page < 1) {
+    return res.status(400).json({ error: 'page must be a positive integer' });
+  }
+  if (isNaN(limit) || limit < 1 || limit > 200) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 200' });
+  }
+
+  try {
+    const filters: JobFilters = { sources, statuses, page, limit };
+    const { total, jobs } = await getIngestJobsFromDb(filters);
+
+    res.json({
+      data_source: 'database',
+      filters: { source: sources, status: statuses },
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      data: jobs
+    });
+  } catch (error) {
+    console.error('Error fetching ingest jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest jobs' });
+  }
+});
+
+// Poll a job: its status and attempts, and each run with the stage it has reached while running
+app.get('/api/admin/jobs/:id', async (req, res) => {
+  if (!RUN_ID_PATTERN.test(req.params.id)) {
+    return res.status(400).json({ error: 'job id must be a UUID' });
+  }
+
+  try {
+    const job = await getIngestJobFromDb(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Ingest job not found' });
+
+    res.json({ data_source: 'database', data: job });
+  } catch (error) {
+    console.error('Error fetching ingest job:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest job' });
+  }
+});
+
+// Give a dead-lettered job a fresh set of attempts
+app.post('/api/admin/jobs/:id/retry', async (req, res) => {
+  if (!RUN_ID_PATTERN.test(req.params.id)) {
+    return res.status(400).json({ error: 'job id must be a UUID' });
+  }
+
+  try {
+    const result = await retryDeadJob(req.params.id, pool);
+    if (!result) {
+      const existing = await getIngestJobFromDb(req.params.id);
+      if (!existing) return res.status(404).json({ error: 'Ingest job not found' });
+      return res.status(409).json({ error: 'Only dead jobs can be retried', job_id: existing.id, status: existing.status });
+    }
+
+    const { job, queued } = result;
+    if (!queued) {
+      // The job that is queued or running for the source instead
+      return res.status(409).json({
+        error: 'Another job for this source is already queued or running',
+        job_id: job.id,
+        status: job.status,
+        status_url: jobStatusUrl(job.id)
+      });
+    }
+
+    res.status(202).json({ job_id: job.id, status: job.status, status_url: jobStatusUrl(job.id) });
+  } catch (error) {
+    console.error('Error retrying ingest job:', error);
+    res.status(500).json({ error: 'Failed to retry ingest job' });
+  }
+});
+
+// Poll a single run: status, the stage it has reached while running, counts and any error
+app.get('/api/admin/runs/:id', async (req, res) => {
+  if (!RUN_ID_PATTERN.test(req.params.id)) {
+    return res.status(400).json({ error: 'run id must be a UUID' });
+  }
+
+  try {
+    const run = await getIngestRunFromDb(req.params.id);
+    if (!run) return res.status(404).json({ error: 'Ingest run not found' });
+
+    res.json({ data_source: 'database', data: run });
+  } catch (error) {
+    console.error('Error fetching ingest run:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest run' });
+  }
 });
 
 // ============================================================================
@@ -3247,11 +6396,11 @@ app.get('/api/cameras/near/:lat/:lng', (req, res) => {
 // API ENDPOINTS - COST CALCULATOR
 // ============================================================================
 
-app.get('/api/cost/area/:la', (req, res) => {
-  const la = localAuthoritiesData.find(
-    l => l.name.toLowerCase() === req.params.la.toLowerCase() ||
-         l.ons_code === req.params.la
-  );
+app.get('/api/cost/area/:la', async (req, res) => {
+  const support = await resolveLASupport(req, res);
+  if (!support) return;
+
+  const la = findLA(support.data, req.params.la);
   
   if (!la) return res.status(404).json({ error: 'Local authority not found' });
   
@@ -3262,7 +6411,8 @@ app.get('/api/cost/area/:la', (req, res) => {
     local_authority: la.name,
     population: la.population,
     asylum_seekers: la.total,
-    per_10k: ((la.total / la.population) * 10000).toFixed(2),
+    per_10k: enrichLASupport(la).per_10k,
+    snapshot_date: support.snapshot_date,
     costs: {
       daily: costs.daily,
       daily_formatted: `£${costs.daily.toLocaleString()}`,
@@ -3309,7 +6459,7 @@ app.get('/api/cost/national', (req, res) => {
 app.get('/api/live/dashboard', async (req, res) => {
   try {
     const [smallBoats, weather, news, parliamentary, foi] = await Promise.all([
-      scrapeSmallBoatsData(),
+      getSmallBoatsData(),
       getChannelConditions(),
       aggregateNews(),
       getParliamentaryActivity(),
@@ -3336,16 +6486,23 @@ app.get('/api/live/dashboard', async (req, res) => {
 });
 
 app.get('/api/live/small-boats', async (req, res) => {
-  const data = await scrapeSmallBoatsData();
+  const data = await getSmallBoatsData();
+  if (!data) {
+    return res.status(503).json({ error: 'No small boat arrivals have been ingested yet' });
+  }
   res.json(data);
 });
 
 app.get('/api/small-boats/daily', async (req, res) => {
-  const data = await scrapeSmallBoatsData();
+  const data = await getSmallBoatsData();
+  if (!data) {
+    return res.status(503).json({ error: 'No small boat arrivals have been ingested yet' });
+  }
   res.json({
     last_7_days: data.last_7_days,
     ytd_total: data.ytd_total,
-    last_updated: data.last_updated
+    last_updated: data.last_updated,
+    staleness_days: data.staleness_days
   });
 });
 
@@ -3409,44 +6566,143 @@ app.get('/api/live/channel-conditions', async (req, res) => {
 // API ENDPOINTS - LOCAL AUTHORITIES
 // ============================================================================
 
-app.get('/api/la', (req, res) => {
-  const enriched = localAuthoritiesData.map(la => ({
-    ...la,
-    per_10k: ((la.total / la.population) * 10000).toFixed(2),
-    hotel_pct: ((la.hotel / la.total) * 100).toFixed(2),
-    daily_cost: (la.hotel * 145) + (la.dispersed * 52)
-  }));
+app.get('/api/la', async (req, res) => {
+  const support = await resolveLASupport(req, res);
+  if (!support) return;
+
+  const enriched = support.data.map(enrichLASupport);
   
   res.json({
     data: enriched,
     count: enriched.length,
-    last_updated: DATA_SOURCES.la_support.last_updated,
-    data_period: DATA_SOURCES.la_support.data_period
+    source: support.source,
+    snapshot_date: support.snapshot_date,
+    last_updated: support.snapshot_date || DATA_SOURCES.la_support.last_updated,
+    data_period: support.snapshot_date ? snapshotToPeriod(support.snapshot_date) : DATA_SOURCES.la_support.data_period
   });
 });
 
-app.get('/api/la/:id', (req, res) => {
-  const la = localAuthoritiesData.find(
-    l => l.ons_code === req.params.id || 
-         l.name.toLowerCase() === req.params.id.toLowerCase()
-  );
+// Choropleth FeatureCollection: one feature per council boundary with the chosen metric in its properties.
+// Registered before /api/la/:id so 'geojson' isn't read as an LA id.
+app.get('/api/la/geojson', async (req, res) => {
+  const metric = (req.query.metric as string) || 'per_10k';
+  const zoom = (req.query.zoom as string) || 'medium';
+
+  if (!LA_MAP_METRICS[metric]) {
+    return res.status(400).json({ error: `metric must be one of: ${Object.keys(LA_MAP_METRICS).join(', ')}` });
+  }
+  if (!LA_BOUNDARY_ZOOMS.includes(zoom)) {
+    return res.status(400).json({ error: `zoom must be one of: ${LA_BOUNDARY_ZOOMS.join(', ')}` });
+  }
+
+  try {
+    const boundaries = await getLABoundariesFromDb(zoom);
+    if (boundaries.length === 0) {
+      return res.status(503).json({ error: 'No LA boundaries have been ingested yet' });
+    }
+
+    const support = await resolveLASupport(req, res);
+    if (!support) return;
+
+    const byCode = new Map(support.data.map(la => [la.ons_code, la]));
+    const values: number[] = [];
+
+    const features = boundaries.map(boundary => {
+      const la = byCode.get(boundary.ons_code);
+      const value = la ? LA_MAP_METRICS[metric](la) : null;
+      if (value !== null) values.push(value);
+
+      return {
+        type: 'Feature',
+        id: boundary.ons_code,
+        geometry: boundary.geometry,
+        properties: {
+          ons_code: boundary.ons_code,
+          name: la?.name || boundary.la_name,
+          region: la?.region || null,
+          centroid: boundary.centroid_lat !== null && boundary.centroid_lng !== null
+            ? [boundary.centroid_lng, boundary.centroid_lat]
+            : null,
+          metric,
+          value,
+          total_supported: la ? la.total : null,
+          population: la ? la.population : null
+        }
+      };
+    });
+
+    res.json({
+      type: 'FeatureCollection',
+      metric,
+      zoom,
+      data_source: support.source,
+      snapshot_date: support.snapshot_date,
+      data_period: support.snapshot_date ? snapshotToPeriod(support.snapshot_date) : DATA_SOURCES.la_support.data_period,
+      range: values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : null,
+      councils_without_data: features.filter(f => f.properties.value === null).length,
+      features
+    });
+  } catch (error) {
+    console.error('Error fetching LA GeoJSON:', error);
+    res.status(500).json({ error: 'Failed to fetch local authority GeoJSON' });
+  }
+});
+
+app.get('/api/la/:id', async (req, res) => {
+  const support = await resolveLASupport(req, res);
+  if (!support) return;
+
+  const la = findLA(support.data, req.params.id);
   
   if (!la) return res.status(404).json({ error: 'Local authority not found' });
   
   const costs = calculateAreaCost(la.hotel, la.dispersed);
   
   res.json({
-    ...la,
-    per_10k: ((la.total / la.population) * 10000).toFixed(2),
-    hotel_pct: ((la.hotel / la.total) * 100).toFixed(2),
+    ...enrichLASupport(la),
+    source: support.source,
+    snapshot_date: support.snapshot_date,
     costs
   });
 });
 
-app.get('/api/regions', (req, res) => {
-  const regions = [...new Set(localAuthoritiesData.map(la => la.region))];
+// Every ingested quarter for one LA, oldest first
+app.get('/api/la/:id/history', async (req, res) => {
+  try {
+    const laId = await findLAId(req.params.id);
+    if (!laId) return res.status(404).json({ error: 'Local authority not found' });
+
+    const laResult = await pool.query(
+      'SELECT id, ons_code, name, region, population FROM local_authorities WHERE id = $1',
+      [laId]
+    );
+    const history = await pool.query(
+      `SELECT ${LA_SUPPORT_COLUMNS} FROM v_la_support WHERE la_id = $1 ORDER BY snapshot_date`,
+      [laId]
+    );
+
+    res.json({
+      local_authority: laResult.rows[0],
+      count: history.rows.length,
+      data: history.rows.map(row => ({
+        snapshot_date: row.snapshot_date,
+        period: snapshotToPeriod(row.snapshot_date),
+        ...dbRowToLASupport(row)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching LA history:', error);
+    res.status(500).json({ error: 'Failed to fetch local authority history' });
+  }
+});
+
+app.get('/api/regions', async (req, res) => {
+  const support = await resolveLASupport(req, res);
+  if (!support) return;
+
+  const regions = [...new Set(support.data.map(la => la.region))];
   const summary = regions.map(region => {
-    const las = localAuthoritiesData.filter(la => la.region === region);
+    const las = support.data.filter(la => la.region === region);
     return {
       region,
       local_authorities: las.length,
@@ -3621,52 +6877,249 @@ app.get('/api/political', (req, res) => res.json(politicalConnections));
 // API ENDPOINTS - GRANT RATES (V13)
 // ============================================================================
 
-app.get('/api/grant-rates', (req, res) => {
-  res.json(grantRatesData);
+app.get('/api/grant-rates', async (req, res) => {
+  const params = parseGrantRateParams(req, res);
+  if (!params) return;
+
+  try {
+    if (!(await tableHasRows('asylum_decisions'))) {
+      return res.json({ ...grantRatesData, data_source: 'static' });
+    }
+
+    const [byNationality, totals] = await Promise.all([
+      getGrantRatesByNationalityFromDb(params.filters, params.minDecisions),
+      getGrantRateTotalsFromDb(params.filters)
+    ]);
+    const latest = totals[totals.length - 1];
+
+    res.json({
+      data_source: 'database',
+      last_updated: latest?.quarter_end || null,
+      period: latest?.period || null,
+      source: grantRatesData.source,
+      url: grantRatesData.url,
+      filters: { ...params.filters, min_decisions: params.minDecisions },
+      by_nationality: byNationality,
+      overall: grantRateOverall(latest),
+      historical: totals,
+      notes: grantRatesData.notes.slice(0, 2)
+    });
+  } catch (error) {
+    console.error('Error fetching grant rates from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch grant rates' });
+  }
 });
 
-app.get('/api/grant-rates/by-nationality', (req, res) => {
-  res.json({
+app.get('/api/grant-rates/by-nationality', async (req, res) => {
+  const params = parseGrantRateParams(req, res);
+  if (!params) return;
+
+  const staticResponse = {
+    data_source: 'static',
     period: grantRatesData.period,
     data: grantRatesData.by_nationality,
     overall: grantRatesData.overall
-  });
+  };
+
+  try {
+    if (!(await tableHasRows('asylum_decisions'))) return res.json(staticResponse);
+
+    const [byNationality, totals] = await Promise.all([
+      getGrantRatesByNationalityFromDb(params.filters, params.minDecisions),
+      getGrantRateTotalsFromDb(params.filters)
+    ]);
+    const latest = totals[totals.length - 1];
+
+    res.json({
+      data_source: 'database',
+      period: byNationality[0]?.period || null,
+      filters: { ...params.filters, min_decisions: params.minDecisions },
+      data: byNationality,
+      overall: grantRateOverall(latest),
+      // Full quarterly series only when specific nationalities are requested
+      series: params.filters.nationalities.length > 0
+        ? await getGrantRateSeriesFromDb(params.filters, params.minDecisions)
+        : undefined
+    });
+  } catch (error) {
+    console.error('Error fetching grant rates by nationality from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch grant rates by nationality' });
+  }
 });
 
-app.get('/api/grant-rates/historical', (req, res) => {
-  res.json({
+app.get('/api/grant-rates/historical', async (req, res) => {
+  const params = parseGrantRateParams(req, res);
+  if (!params) return;
+
+  const staticResponse = {
+    data_source: 'static',
     data: grantRatesData.historical,
     source: grantRatesData.source
-  });
+  };
+
+  try {
+    if (!(await tableHasRows('asylum_decisions'))) return res.json(staticResponse);
+
+    res.json({
+      data_source: 'database',
+      filters: params.filters,
+      data: await getGrantRateTotalsFromDb(params.filters),
+      source: grantRatesData.source
+    });
+  } catch (error) {
+    console.error('Error fetching historical grant rates from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch historical grant rates' });
+  }
 });
 
 // ============================================================================
 // API ENDPOINTS - UASC (V13)
 // ============================================================================
 
-app.get('/api/uasc', (req, res) => {
-  res.json(uascData);
+app.get('/api/uasc', async (req, res) => {
+  try {
+    const uasc = await getUASCFromDb();
+    if (!uasc) return res.json({ data_source: 'static', ...uascData });
+
+    res.json({
+      data_source: 'database',
+      source: 'Home Office Immigration Statistics - Table Asy_D07',
+      ...uasc,
+      national_transfer_scheme: uascData.national_transfer_scheme
+    });
+  } catch (error) {
+    console.error('Error fetching UASC from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch UASC data' });
+  }
 });
 
-app.get('/api/uasc/summary', (req, res) => {
-  res.json({
+app.get('/api/uasc/summary', async (req, res) => {
+  const staticResponse = {
+    data_source: 'static',
     total_in_care: uascData.current.total_in_care,
     in_hotels: uascData.current.in_hotels,
     with_local_authorities: uascData.current.with_local_authorities,
     applications_2025: uascData.applications.year_2025_ytd,
     grant_rate_pct: uascData.outcomes.granted_asylum_pct,
     top_nationalities: uascData.by_nationality.slice(0, 5)
-  });
+  };
+
+  try {
+    const uasc = await getUASCFromDb();
+    if (!uasc) return res.json(staticResponse);
+
+    res.json({
+      data_source: 'database',
+      last_updated: uasc.last_updated,
+      total_in_care: uasc.local_authorities?.total_in_care ?? null,
+      in_care_as_of: uasc.local_authorities?.snapshot_date ?? null,
+      applications_latest_quarter: uasc.applications.latest_quarter,
+      applications_last_12_months: uasc.applications.last_12_months,
+      top_nationalities: uasc.by_nationality.slice(0, 5)
+    });
+  } catch (error) {
+    console.error('Error fetching UASC summary from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch UASC summary' });
+  }
+});
+
+// Looked-after UASC for every council at one snapshot (?snapshot=YYYY-MM-DD, default latest)
+app.get('/api/uasc/la', async (req, res) => {
+  const snapshot = req.query.snapshot as string | undefined;
+
+  if (snapshot !== undefined && !isCalendarDate(snapshot)) {
+    return res.status(400).json({ error: 'snapshot must be a date in YYYY-MM-DD format' });
+  }
+
+  try {
+    const councils = await getUASCLAFromDb(snapshot);
+    if (councils.length === 0) {
+      return res.status(404).json({
+        error: 'No UASC local authority data for snapshot',
+        snapshot,
+        available_snapshots: await getUASCLASnapshotDatesFromDb()
+      });
+    }
+
+    res.json({
+      snapshot_date: councils[0].snapshot_date,
+      period: snapshotToPeriod(councils[0].snapshot_date),
+      count: councils.length,
+      total_in_care: councils.reduce((sum, la) => sum + (la.uasc_count || 0), 0),
+      data: councils
+    });
+  } catch (error) {
+    console.error('Error fetching UASC by LA:', error);
+    res.status(500).json({ error: 'Failed to fetch UASC local authority data' });
+  }
+});
+
+// Every ingested UASC snapshot for one council, oldest first
+app.get('/api/uasc/la/:id', async (req, res) => {
+  try {
+    const laId = await findLAId(req.params.id);
+    if (!laId) return res.status(404).json({ error: 'Local authority not found' });
+
+    const laResult = await pool.query(
+      'SELECT id, ons_code, name, region, population FROM local_authorities WHERE id = $1',
+      [laId]
+    );
+    const history = await pool.query(`
+      SELECT u.snapshot_date::text AS snapshot_date, u.la_id, la.ons_code, u.la_name, la.region,
+             u.uasc_count, u.care_leavers, u.national_transfer_in, u.national_transfer_out,
+             u.per_10k_child_population
+      FROM uasc_la u
+      JOIN local_authorities la ON la.id = u.la_id
+      WHERE u.la_id = $1
+      ORDER BY u.snapshot_date
+    `, [laId]);
+
+    res.json({
+      local_authority: laResult.rows[0],
+      count: history.rows.length,
+      data: history.rows.map(row => ({
+        period: snapshotToPeriod(row.snapshot_date),
+        ...dbRowToUASCLA(row)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching UASC LA history:', error);
+    res.status(500).json({ error: 'Failed to fetch UASC local authority history' });
+  }
 });
-app.get('/api/age-disputes', (req, res) => {
-  res.json(ageDisputesData);
+
+app.get('/api/age-disputes', async (req, res) => {
+  try {
+    const disputes = await getAgeDisputesFromDb();
+    if (!disputes) return res.json({ data_source: 'static', ...ageDisputesData });
+
+    res.json({
+      data_source: 'database',
+      source: 'Home Office Immigration Statistics - Table Asy_D06',
+      ...disputes
+    });
+  } catch (error) {
+    console.error('Error fetching age disputes from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch age disputes data' });
+  }
 });
 
-app.get('/api/age-disputes/summary', (req, res) => {
+app.get('/api/age-disputes/summary', async (req, res) => {
+  let disputes = null;
+  try {
+    disputes = await getAgeDisputesFromDb();
+  } catch (error) {
+    console.error('Error fetching age disputes summary from DB:', error);
+    return res.status(500).json({ error: 'Failed to fetch age disputes summary' });
+  }
+  const current = disputes ? disputes.current_year : ageDisputesData.current_year;
+
   res.json({
-    total_disputes: ageDisputesData.current_year.total_disputes,
-    resolved_as_adult_pct: ageDisputesData.current_year.adult_rate_pct,
-    pending: ageDisputesData.current_year.pending
+    data_source: disputes ? 'database' : 'static',
+    year: disputes ? disputes.current_year.year : undefined,
+    total_disputes: current.total_disputes,
+    resolved_as_adult_pct: current.adult_rate_pct,
+    pending: current.pending
   });
 });
 
@@ -3674,55 +7127,176 @@ app.get('/api/age-disputes/summary', (req, res) => {
 // API ENDPOINTS - BACKLOG (V13)
 // ============================================================================
 
-app.get('/api/backlog', (req, res) => {
-  res.json(backlogData);
+// Serves the static snapshot only until AsylumBacklogIngestor has loaded asylum_backlog
+async function loadBacklog() {
+  const backlog = await getBacklogFromDb();
+  if (backlog) return { data_source: 'database', source: backlogData.source, ...backlog };
+  return { data_source: 'static', ...backlogData, peak: findBacklogPeak(backlogData.timeline) };
+}
+
+app.get('/api/backlog', async (req, res) => {
+  try {
+    const backlog = await loadBacklog();
+    if (backlog.data_source === 'static') {
+      return res.json(backlog);
+    }
+
+    res.json({ ...backlog, legacy_backlog: { definition: backlogData.legacy_backlog.definition } });
+  } catch (error) {
+    console.error('Error fetching backlog from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch backlog data' });
+  }
 });
 
-app.get('/api/backlog/summary', (req, res) => {
-  res.json({
-    total_pending: backlogData.current.total_awaiting_decision,
-    over_6_months: backlogData.current.awaiting_over_6_months,
-    over_1_year: backlogData.current.awaiting_over_1_year,
-    legacy_remaining: backlogData.current.legacy_cases_remaining,
-    monthly_intake: backlogData.flow.monthly_intake,
-    monthly_decisions: backlogData.flow.monthly_decisions,
-    months_to_clear: backlogData.flow.months_to_clear_at_current_rate
-  });
+app.get('/api/backlog/summary', async (req, res) => {
+  try {
+    const backlog = await loadBacklog();
+    res.json({
+      data_source: backlog.data_source,
+      last_updated: backlog.last_updated,
+      total_pending: backlog.current.total_awaiting_decision,
+      over_6_months: backlog.current.awaiting_over_6_months,
+      over_1_year: backlog.current.awaiting_over_1_year,
+      legacy_remaining: backlog.current.legacy_cases_remaining,
+      monthly_intake: backlog.flow?.monthly_intake ?? null,
+      monthly_decisions: backlog.flow?.monthly_decisions ?? null,
+      months_to_clear: backlog.flow?.months_to_clear_at_current_rate ?? null
+    });
+  } catch (error) {
+    console.error('Error fetching backlog from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch backlog data' });
+  }
 });
 
-app.get('/api/backlog/timeline', (req, res) => {
-  res.json({
-    data: backlogData.timeline,
-    peak: { date: '2023-06', count: 175000 },
-    current: backlogData.current.total_awaiting_decision
-  });
+app.get('/api/backlog/timeline', async (req, res) => {
+  try {
+    const backlog = await loadBacklog();
+    res.json({
+      data_source: backlog.data_source,
+      data: backlog.timeline,
+      peak: backlog.peak,
+      current: backlog.current.total_awaiting_decision
+    });
+  } catch (error) {
+    console.error('Error fetching backlog from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch backlog data' });
+  }
 });
 
 // ============================================================================
 // API ENDPOINTS - DETENTION (V13)
 // ============================================================================
 
-app.get('/api/detention', (req, res) => {
-  res.json(detentionData);
+app.get('/api/detention', async (req, res) => {
+  try {
+    const detention = await getDetentionFromDb();
+    if (!detention) {
+      return res.json({ data_source: 'static', ...detentionData });
+    }
+
+    const { population, timeline, length, outcomes, nationalities, rule35 } = detention;
+    res.json({
+      data_source: 'database',
+      last_updated: population.snapshot_date,
+      source: detentionData.source,
+      current_population: {
+        total: population.total,
+        capacity: population.capacity,
+        occupancy_pct: population.occupancy_pct
+      },
+      by_facility: population.facilities,
+      timeline,
+      length_of_detention: length,
+      outcomes,
+      nationalities,
+      rule35,
+      cost: detentionData.cost
+    });
+  } catch (error) {
+    console.error('Error fetching detention from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch detention data' });
+  }
 });
 
-app.get('/api/detention/summary', (req, res) => {
-  res.json({
-    current_population: detentionData.current_population.total,
-    capacity: detentionData.current_population.capacity,
-    occupancy_pct: detentionData.current_population.occupancy_pct,
-    avg_detention_days: detentionData.length_of_detention.average_days,
-    removal_rate_pct: detentionData.outcomes_2024.removal_rate_pct,
-    cost_per_day: detentionData.cost.per_person_per_day
-  });
+app.get('/api/detention/summary', async (req, res) => {
+  try {
+    const detention = await getDetentionFromDb();
+    if (!detention) {
+      return res.json({
+        data_source: 'static',
+        current_population: detentionData.current_population.total,
+        capacity: detentionData.current_population.capacity,
+        occupancy_pct: detentionData.current_population.occupancy_pct,
+        avg_detention_days: detentionData.length_of_detention.average_days,
+        removal_rate_pct: detentionData.outcomes_2024.removal_rate_pct,
+        cost_per_day: detentionData.cost.per_person_per_day
+      });
+    }
+
+    const { population, length, outcomes, rule35 } = detention;
+    res.json({
+      data_source: 'database',
+      snapshot_date: population.snapshot_date,
+      current_population: population.total,
+      capacity: population.capacity,
+      occupancy_pct: population.occupancy_pct,
+      median_length_bracket: length?.median_length_bracket || null,
+      removal_rate_pct: outcomes?.removal_rate_pct ?? null,
+      rule35_release_rate_pct: rule35?.release_rate_pct ?? null,
+      cost_per_day: detentionData.cost.per_person_per_day
+    });
+  } catch (error) {
+    console.error('Error fetching detention from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch detention data' });
+  }
 });
 
-app.get('/api/detention/facilities', (req, res) => {
-  res.json({
-    facilities: detentionData.by_facility,
-    total_population: detentionData.current_population.total,
-    total_capacity: detentionData.current_population.capacity
-  });
+app.get('/api/detention/facilities', async (req, res) => {
+  try {
+    const detention = await getDetentionFromDb();
+    if (!detention) {
+      return res.json({
+        data_source: 'static',
+        facilities: detentionData.by_facility,
+        total_population: detentionData.current_population.total,
+        total_capacity: detentionData.current_population.capacity
+      });
+    }
+
+    res.json({
+      data_source: 'database',
+      snapshot_date: detention.population.snapshot_date,
+      facilities: detention.population.facilities,
+      total_population: detention.population.total,
+      total_capacity: detention.population.capacity
+    });
+  } catch (error) {
+    console.error('Error fetching detention from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch detention data' });
+  }
+});
+
+app.get('/api/detention/outcomes', async (req, res) => {
+  try {
+    const detention = await getDetentionFromDb();
+    if (!detention) {
+      return res.json({
+        data_source: 'static',
+        outcomes: detentionData.outcomes_2024,
+        length_of_detention: detentionData.length_of_detention
+      });
+    }
+
+    res.json({
+      data_source: 'database',
+      outcomes: detention.outcomes,
+      length_of_detention: detention.length,
+      rule35: detention.rule35
+    });
+  } catch (error) {
+    console.error('Error fetching detention from DB:', error);
+    res.status(500).json({ error: 'Failed to fetch detention data' });
+  }
 });
 
 // ============================================================================
@@ -4148,21 +7722,23 @@ app.get('/api/hotspots/stats', async (req, res) => {
 // ============================================================================
 
 app.get('/api/dashboard/summary', async (req, res) => {
-  const boats = await scrapeSmallBoatsData();
+  const boats = await getSmallBoatsData();
   const weather = await getChannelConditions();
   
   const totalSupported = localAuthoritiesData.reduce((sum, la) => sum + la.total, 0);
   const totalHotel = localAuthoritiesData.reduce((sum, la) => sum + la.hotel, 0);
   
   res.json({
-    small_boats: {
+    small_boats: boats ? {
       ytd: boats.ytd_total,
       year: boats.year,
       last_crossing: boats.last_crossing_date,
       days_since: boats.days_since_crossing,
       yoy_change_pct: boats.yoy_comparison.change_pct,
-      yoy_direction: boats.yoy_comparison.direction
-    },
+      yoy_direction: boats.yoy_comparison.direction,
+      data_as_of: boats.last_updated,
+      staleness_days: boats.staleness_days
+    } : null,
     channel: {
       risk: weather.crossing_risk,
       wind_kmh: weather.wind_speed_kmh,
@@ -4410,23 +7986,28 @@ app.get('/', (req, res) => {
 
 const PORT = process.env.PORT || 3000;
 
-initDatabase()
-  .then(() => {
-    app.listen(PORT, () => {
-      console.log(`🚀 UK Asylum Tracker API v11 running on port ${PORT}`);
-      console.log('New in v11:');
-      console.log('  ✓ France Returns Deal tracker');
-      console.log('  ✓ Returns & Deportations data');
-      console.log('  ✓ Net Migration (ONS)');
-      console.log('  ✓ Appeals backlog');
-      console.log('  ✓ Channel deaths tracker');
-      console.log('  ✓ Enforcement scorecard');
-      console.log('  ✓ IRC cameras');
-      console.log('  ✓ Cost calculator');
-      console.log('  ✓ Data sources transparency');
+// Tests import the app and serve it against an in-process database
+export { app, pool };
+
+if (require.main === module) {
+  initDatabase()
+    .then(() => {
+      app.listen(PORT, () => {
+        console.log(`🚀 UK Asylum Tracker API v11 running on port ${PORT}`);
+        console.log('New in v11:');
+        console.log('  ✓ France Returns Deal tracker');
+        console.log('  ✓ Returns & Deportations data');
+        console.log('  ✓ Net Migration (ONS)');
+        console.log('  ✓ Appeals backlog');
+        console.log('  ✓ Channel deaths tracker');
+        console.log('  ✓ Enforcement scorecard');
+        console.log('  ✓ IRC cameras');
+        console.log('  ✓ Cost calculator');
+        console.log('  ✓ Data sources transparency');
+      });
+    })
+    .catch(err => {
+      console.error('Failed to initialize:', err);
+      process.exit(1);
     });
-  })
-  .catch(err => {
-    console.error('Failed to initialize:', err);
-    process.exit(1);
-  });
+}
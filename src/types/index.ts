@@ -6,7 +6,9 @@
 // =============================================================================
 
 export type DataSourceStatus = 'active' | 'deprecated' | 'error';
-export type IngestStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type IngestStatus = 'pending' | 'running' | 'completed' | 'failed' | 'quarantined';
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'dead';
+export type IngestJobTrigger = 'schedule' | 'startup' | 'api' | 'cli';
 export type UpdateFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually' | 'static';
 export type SupportType = 'section_95' | 'section_4' | 'section_98';
 export type AccommodationType = 'dispersed' | 'initial' | 'hotel' | 'subsistence_only' | 'other';
@@ -36,6 +38,9 @@ export interface DataSource {
   last_checked?: Date;
   last_updated?: Date;
   content_hash?: string;
+  etag?: string;
+  last_modified?: string;
+  validated_url?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -51,9 +56,60 @@ export interface IngestRun {
   records_updated: number;
   error_message?: string;
   content_hash?: string;
+  resolved_url?: string;
+  published_at?: Date;
+  archive_hash?: string;
+  job_id?: string;
   metadata: Record<string, any>;
 }
 
+export interface IngestJob {
+  id: string;
+  source_id: number;
+  status: IngestJobStatus;
+  trigger: IngestJobTrigger;
+  scheduled_for?: Date;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_by?: string;
+  locked_at?: Date;
+  heartbeat_at?: Date;
+  last_error?: string;
+  run_options: IngestJobRunOptions;
+  created_at: Date;
+  completed_at?: Date;
+}
+
+// Input of a run-ingest run other than a fresh fetch
+export interface IngestJobRunOptions {
+  replay?: string;
+  file?: string;
+}
+
+export interface RawArchiveEntry {
+  hash: string;
+  source_id: number;
+  kind: 'buffer' | 'text' | 'json';
+  size_bytes: number;
+  store: string;
+  source_url?: string;
+  archived_at: Date;
+}
+
+export interface DataQualityResult {
+  id: number;
+  ingest_run_id: string;
+  source_id: number;
+  assertion: string;
+  severity: 'critical' | 'warning';
+  passed: boolean;
+  observed?: any;
+  expected?: any;
+  message?: string;
+  checked_at: Date;
+}
+
 export interface LocalAuthority {
   id: number;
   ons_code: string;
@@ -65,6 +121,7 @@ export interface LocalAuthority {
   population_year?: number;
   imd_rank?: number;
   imd_score?: number;
+  imd_source?: string;
   geojson?: any;
   centroid_lat?: number;
   centroid_lng?: number;
@@ -72,6 +129,28 @@ export interface LocalAuthority {
   updated_at: Date;
 }
 
+export interface LAPopulation {
+  id: number;
+  ons_code: string;
+  la_name?: string;
+  year: number;
+  population: number;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
+export interface LABoundary {
+  id: number;
+  ons_code: string;
+  la_name?: string;
+  zoom: 'low' | 'medium' | 'high';
+  tolerance: number;
+  geometry: any;
+  point_count?: number;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
 export interface Nationality {
   id: number;
   iso3?: string;
@@ -141,6 +220,19 @@ export interface SmallBoatNationality {
   created_at: Date;
 }
 
+export interface IrregularEntry {
+  id: number;
+  quarter_end: Date;
+  entry_method: EntryMethod;
+  nationality_id?: number;
+  nationality_name?: string;
+  age_group?: string;
+  sex?: string;
+  detections: number;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
 export interface FrenchPrevention {
   id: number;
   week_ending: Date;
@@ -338,6 +430,7 @@ export interface DetentionRule35 {
   id: number;
   quarter_end: Date;
   facility_id?: number;
+  facility_name?: string;
   reports_made?: number;
   released_following?: number;
   ingest_run_id?: string;
@@ -436,10 +529,12 @@ export interface NrmDecision {
 // RESETTLEMENT
 // =============================================================================
 
+export type ResettlementScheme = 'ACRS' | 'ARAP' | 'UKRS' | 'VPRS';
+
 export interface Resettlement {
   id: number;
   quarter_end: Date;
-  scheme: 'ACRS' | 'ARAP' | 'UKRS' | 'VPRS';
+  scheme: ResettlementScheme;
   arrivals?: number;
   total_since_start?: number;
   ingest_run_id?: string;
@@ -492,6 +587,58 @@ export interface FamilyReunion {
   created_at: Date;
 }
 
+// =============================================================================
+// INADMISSIBILITY & BORDER FORCE
+// =============================================================================
+
+export interface Inadmissibility {
+  id: number;
+  quarter_end: Date;
+  nationality_id?: number;
+  nationality_name?: string;
+  decisions?: number;
+  returned?: number;
+  granted_after_review?: number;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
+export interface BorderRefusal {
+  id: number;
+  quarter_end: Date;
+  nationality_id?: number;
+  nationality_name?: string;
+  refusals?: number;
+  port_type?: string;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
+// =============================================================================
+// FOREIGN NATIONAL PRISONERS
+// =============================================================================
+
+export interface ForeignNationalPrisoner {
+  id: number;
+  snapshot_date: Date;
+  nationality_id?: number;
+  nationality_name?: string;
+  prison_population?: number;
+  share_of_total_pct?: number;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
+export interface FnoByOffence {
+  id: number;
+  quarter_end: Date;
+  offence_category?: string;
+  count?: number;
+  share_pct?: number;
+  ingest_run_id?: string;
+  created_at: Date;
+}
+
 // =============================================================================
 // SPENDING
 // =============================================================================
@@ -549,6 +696,7 @@ export interface PressureIndex {
   pressure_index?: number;
   pressure_rank?: number;
   pressure_quintile?: number;
+  weights?: Record<string, number>;
   created_at: Date;
 }
 
@@ -0,0 +1,203 @@
+// API routes served against an in-process database
+// Each test seeds the tables it reads with SQL; the empty-database responses are checked before anything is seeded
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { PGlite } from '@electric-sql/pglite';
+import { useTestDatabase } from './db';
+import { app, pool } from '../src/server';
+
+const ADMIN_KEY = 'test-admin-key';
+const UNKNOWN_ID = '00000000-0000-4000-8000-000000000000';
+
+let db: PGlite;
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  db = await useTestDatabase(pool);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+async function get(path: string, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  const response = await fetch(baseUrl + path, { headers });
+  return { status: response.status, body: await response.json() };
+}
+
+async function post(path: string, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  const response = await fetch(baseUrl + path, { method: 'POST', headers });
+  return { status: response.status, body: await response.json() };
+}
+
+const admin = { 'X-API-Key': ADMIN_KEY };
+
+test('endpoints with no ingested data answer 503, or serve static data where they had it before', async () => {
+  for (const path of [
+    '/api/ukraine',
+    '/api/resettlement',
+    '/api/irregular-entry',
+    '/api/family-reunion',
+    '/api/inadmissibility',
+    '/api/border-refusals',
+    '/api/fno',
+    '/api/pressure',
+  ]) {
+    const { status, body } = await get(path);
+    assert.equal(status, 503, path);
+    assert.ok(body.error, path);
+  }
+
+  for (const path of ['/api/returns', '/api/grant-rates/by-nationality', '/api/detention']) {
+    const { status, body } = await get(path);
+    assert.equal(status, 200, path);
+    assert.equal(body.data_source, 'static', path);
+  }
+});
+
+test('malformed parameters are rejected with 400', async () => {
+  for (const path of [
+    '/api/returns?from=2024-Q5',
+    '/api/returns?to=last-year',
+    '/api/grant-rates/by-nationality?from=2024-13-45',
+    '/api/grant-rates/by-nationality?min_decisions=-1',
+    '/api/ukraine?snapshot=2024-02-30',
+    '/api/irregular-entry?method=teleport',
+    '/api/border-refusals?port=space',
+    '/api/resettlement?scheme=NOPE',
+  ]) {
+    const { status, body } = await get(path);
+    assert.equal(status, 400, path);
+    assert.ok(body.error, path);
+  }
+});
+
+test('the admin API is disabled without ADMIN_API_KEY and checks the key once set', async () => {
+  delete process.env.ADMIN_API_KEY;
+  assert.equal((await get('/api/admin/quality', admin)).status, 503);
+
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+  assert.equal((await get('/api/admin/quality')).status, 401);
+  assert.equal((await get('/api/admin/quality', { 'X-API-Key': 'wrong-admin-key' })).status, 401);
+  assert.equal((await get(`/api/admin/jobs/${UNKNOWN_ID}`, { Authorization: `Bearer ${ADMIN_KEY}` })).status, 404);
+});
+
+test('unknown councils, jobs, runs and sources are 404s', async () => {
+  process.env.ADMIN_API_KEY = ADMIN_KEY;
+
+  for (const path of ['/api/resettlement/la/Nowhere', '/api/pressure/Nowhere', '/api/la/Nowhere/history']) {
+    const { status, body } = await get(path);
+    assert.equal(status, 404, path);
+    assert.equal(body.error, 'Local authority not found', path);
+  }
+
+  assert.deepEqual(await get(`/api/admin/jobs/${UNKNOWN_ID}`, admin), { status: 404, body: { error: 'Ingest job not found' } });
+  assert.deepEqual(await get(`/api/admin/runs/${UNKNOWN_ID}`, admin), { status: 404, body: { error: 'Ingest run not found' } });
+  assert.equal((await get('/api/admin/jobs/not-a-uuid', admin)).status, 400);
+
+  const { status, body } = await post('/api/admin/ingest/NOPE', admin);
+  assert.equal(status, 404);
+  assert.equal(body.error, 'No ingestor for source');
+});
+
+test('returns are served from the database once loaded, filtered by quarter', async () => {
+  await db.exec(`
+    INSERT INTO returns (quarter_end, year, quarter, nationality_name, return_type, count) VALUES
+      ('2024-06-30', 2024, 2, 'Albania', 'enforced', 100),
+      ('2024-06-30', 2024, 2, 'Albania', 'voluntary', 20),
+      ('2024-09-30', 2024, 3, 'Albania', 'enforced', 120),
+      ('2024-09-30', 2024, 3, 'India', 'assisted_voluntary', 30);
+  `);
+
+  const all = await get('/api/returns');
+  assert.equal(all.status, 200);
+  assert.equal(all.body.data_source, 'database');
+  assert.deepEqual(all.body.summary, {
+    quarters: 2,
+    total_returns: 270,
+    enforced_returns: 220,
+    voluntary_returns: 20,
+    assisted_voluntary_returns: 30,
+  });
+
+  const latest = await get('/api/returns?from=2024-Q3');
+  assert.equal(latest.status, 200);
+  assert.deepEqual(latest.body.quarterly.map((q: any) => [q.quarter_end, q.total]), [['2024-09-30', 150]]);
+  assert.deepEqual(latest.body.by_nationality.map((n: any) => n.nationality).sort(), ['Albania', 'India']);
+});
+
+test('a failing query is a 500 rather than static data', async () => {
+  await db.exec('ALTER TABLE returns RENAME COLUMN count TO published_count');
+  try {
+    const { status, body } = await get('/api/returns');
+    assert.equal(status, 500);
+    assert.equal(body.data_source, undefined);
+  } finally {
+    await db.exec('ALTER TABLE returns RENAME COLUMN published_count TO count');
+  }
+});
+
+test('grant rates apply min_decisions below the default of 10', async () => {
+  await db.exec(`
+    INSERT INTO asylum_decisions (quarter_end, year, quarter, nationality_name, decisions_total, grants_total, refused, grant_rate_pct) VALUES
+      ('2024-09-30', 2024, 3, 'Eritrea', 500, 450, 50, 90.0),
+      ('2024-09-30', 2024, 3, 'Bhutan', 4, 1, 3, 25.0);
+  `);
+
+  const defaults = await get('/api/grant-rates/by-nationality');
+  assert.equal(defaults.status, 200);
+  assert.equal(defaults.body.data_source, 'database');
+  assert.equal(defaults.body.filters.min_decisions, 10);
+  assert.deepEqual(defaults.body.data.map((r: any) => r.nationality), ['Eritrea']);
+
+  const small = await get('/api/grant-rates/by-nationality?min_decisions=1');
+  assert.equal(small.status, 200);
+  assert.equal(small.body.filters.min_decisions, 1);
+  assert.deepEqual(small.body.data.map((r: any) => r.nationality), ['Eritrea', 'Bhutan']);
+});
+
+test('Homes for Ukraine serves the national timeline and a council snapshot', async () => {
+  await db.exec(`
+    INSERT INTO local_authorities (ons_code, name, name_normalized, region) VALUES ('E08000035', 'Leeds', 'leeds', 'Yorkshire and The Humber');
+    INSERT INTO ukraine_arrivals (snapshot_date, visa_applications, visas_issued, arrivals) VALUES
+      ('2024-09-17', 240000, 195000, 148000),
+      ('2024-10-15', 250000, 200000, 150000);
+    INSERT INTO ukraine_la (snapshot_date, la_id, la_name, arrivals, currently_sponsored) VALUES
+      ('2024-09-17', (SELECT id FROM local_authorities WHERE ons_code = 'E08000035'), 'Leeds', 1180, 310),
+      ('2024-10-15', (SELECT id FROM local_authorities WHERE ons_code = 'E08000035'), 'Leeds', 1200, 300);
+  `);
+
+  const { status, body } = await get('/api/ukraine');
+  assert.equal(status, 200);
+  assert.equal(body.current.snapshot_date, '2024-10-15');
+  assert.equal(body.current.arrivals, 150000);
+  assert.equal(body.timeline.length, 2);
+  assert.equal(body.by_local_authority.snapshot_date, '2024-10-15');
+  assert.deepEqual(body.by_local_authority.data.map((r: any) => [r.ons_code, r.arrivals]), [['E08000035', 1200]]);
+
+  const earlier = await get('/api/ukraine?snapshot=2024-09-17');
+  assert.deepEqual(earlier.body.by_local_authority.data.map((r: any) => r.arrivals), [1180]);
+
+  assert.equal((await get('/api/resettlement/la/E08000035')).status, 200);
+});
+
+test('detention is served from the database once any detention table has rows', async () => {
+  await db.exec(`
+    INSERT INTO detention_population (snapshot_date, facility_name, population) VALUES
+      ('2024-09-30', NULL, 1800),
+      ('2024-09-30', 'Harmondsworth IRC', 600);
+  `);
+
+  const { status, body } = await get('/api/detention');
+  assert.equal(status, 200);
+  assert.equal(body.data_source, 'database');
+  assert.equal(body.last_updated, '2024-09-30');
+  assert.equal(body.current_population.total, 1800);
+});
@@ -0,0 +1,32 @@
+// In-process Postgres for tests
+// PGlite with sql/schema.sql loaded stands in for the pool in lib/db, so ingestors run their real SQL
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { Pool } from 'pg';
+import { pool } from '../src/lib/db';
+
+const SCHEMA = path.join(__dirname, '..', 'sql', 'schema.sql');
+
+// Pools other than lib/db's (e.g. the API server's own) can be passed to share the same database
+export async function useTestDatabase(...pools: Pool[]): Promise<PGlite> {
+  const db = new PGlite({ extensions: { uuid_ossp, pg_trgm } });
+  await db.exec(fs.readFileSync(SCHEMA, 'utf8'));
+
+  const query = async (text: string, params?: any[]) => {
+    const result = await db.query<any>(text, params);
+    return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length };
+  };
+
+  // PGlite is a single session, so a "checked out" client is that same session
+  for (const target of [pool, ...pools]) {
+    Object.assign(target, {
+      query,
+      connect: async () => ({ query, release: () => undefined }),
+    });
+  }
+  return db;
+}
@@ -0,0 +1,202 @@
+// Release discovery against saved GOV.UK pages
+// Fixtures in test/fixtures/govuk are trimmed copies of the real landing, data-tables and publication pages
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  attachmentPeriod,
+  discoverRelease,
+  parseReleaseContentApi,
+  parseReleaseHtml,
+  selectLatestAttachment,
+  toISODate,
+  PageFetcher,
+} from '../src/lib/discovery';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'govuk');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+const ASYLUM_DATASETS_URL = 'https://www.gov.uk/government/statistical-data-sets/asylum-and-resettlement-datasets';
+const DATA_TABLES_URL = 'https://www.gov.uk/government/statistical-data-sets/immigration-system-statistics-data-tables';
+const RETURNS_DATASETS_URL = 'https://www.gov.uk/government/statistical-data-sets/returns-and-detention-datasets';
+const TRIBUNAL_URL = 'https://www.gov.uk/government/statistics/tribunal-statistics-quarterly-july-to-september-2024';
+
+// Serves the HTML fixtures by URL; the content API is "down" unless a JSON fixture is given for it
+function fixtureFetcher(pages: Record<string, string>, requested: string[] = []): PageFetcher {
+  return async (url: string) => {
+    requested.push(url);
+    const name = pages[url];
+    if (!name) throw new Error(`Request failed with status code 404: ${url}`);
+    return fixture(name);
+  };
+}
+
+// =============================================================================
+// DATES AND PERIODS
+// =============================================================================
+
+test('toISODate reads GOV.UK timestamps and written dates', () => {
+  assert.equal(toISODate('2024-11-28T09:30:00.000+00:00'), '2024-11-28');
+  assert.equal(toISODate('28 November 2024'), '2024-11-28');
+  assert.equal(toISODate('5 Sept 2024'), '2024-09-05');
+  assert.equal(toISODate('sometime soon'), null);
+  assert.equal(toISODate(undefined), null);
+});
+
+test('attachmentPeriod takes the latest month named in the filename', () => {
+  assert.equal(attachmentPeriod({ filename: 'asylum-support-datasets-sep-2024.ods', title: '' }), '2024-09');
+  assert.equal(attachmentPeriod({ filename: 'Tribunal_Statistics_Quarterly_Main_Tables_Jul_to_Sep_2024.ods', title: '' }), '2024-09');
+  assert.equal(attachmentPeriod({ filename: 'data.ods', title: 'Asylum support, year ending December 2024' }), '2024-12');
+  assert.equal(attachmentPeriod({ filename: 'data.ods', title: 'Asylum support' }), null);
+});
+
+// =============================================================================
+// PAGE PARSING
+// =============================================================================
+
+test('parseReleaseHtml reads data file attachments and the page date from a data set page', () => {
+  const page = parseReleaseHtml(fixture('asylum-and-resettlement-datasets.html'), ASYLUM_DATASETS_URL);
+
+  assert.equal(page.published_at, '2024-11-28');
+  assert.deepEqual(page.attachments.map(a => a.filename), [
+    'asylum-applications-datasets-sep-2024.ods',
+    'asylum-support-datasets-sep-2024.ods',
+    'asylum-support-datasets-jun-2024.ods',
+  ]);
+
+  const support = page.attachments[1];
+  assert.equal(support.title, 'Asylum support detailed datasets, year ending September 2024');
+  assert.equal(support.url, 'https://assets.publishing.service.gov.uk/media/6744a20bf1ba7eecf1a3f0a3/asylum-support-datasets-sep-2024.ods');
+  assert.equal(support.page_url, ASYLUM_DATASETS_URL);
+  assert.equal(support.published_at, '2024-11-28');
+});
+
+test('parseReleaseHtml lists linked publications from the page body only', () => {
+  const page = parseReleaseHtml(fixture('immigration-system-statistics-data-tables.html'), DATA_TABLES_URL);
+
+  // Navigation links, the page's own link and non-publication guidance are left out; query strings are dropped
+  assert.deepEqual(page.documents, [ASYLUM_DATASETS_URL, RETURNS_DATASETS_URL]);
+  assert.deepEqual(page.attachments.map(a => a.filename), ['asylum-summary-sep-2024-tables.xlsx']);
+});
+
+test('parseReleaseHtml uses the download link when the attachment title links to a preview page', () => {
+  const page = parseReleaseHtml(fixture('returns-and-detention-datasets.html'), RETURNS_DATASETS_URL);
+
+  assert.equal(page.published_at, '2024-11-28');
+  const detention = page.attachments.find(a => a.filename === 'detention-datasets-sep-2024.ods');
+  assert.ok(detention);
+  assert.equal(detention.title, 'Detention detailed datasets, year ending September 2024');
+});
+
+test('parseReleaseHtml falls back to the "Published" line on older publication pages', () => {
+  const page = parseReleaseHtml(fixture('tribunal-statistics-quarterly-july-to-september-2024.html'), TRIBUNAL_URL);
+
+  assert.equal(page.published_at, '2024-12-12');
+  assert.equal(page.attachments.length, 2);
+  assert.equal(page.attachments[0].title, 'Main Tables: July to September 2024');
+});
+
+test('parseReleaseContentApi reads attachments and body links from the content API', () => {
+  const json = JSON.parse(fixture('asylum-and-resettlement-datasets.content-api.json'));
+  const page = parseReleaseContentApi(json, ASYLUM_DATASETS_URL);
+
+  assert.equal(page.published_at, '2025-02-27');
+  assert.deepEqual(page.attachments.map(a => a.filename), ['asylum-support-datasets-dec-2024.ods']);
+  assert.deepEqual(page.documents, [DATA_TABLES_URL]);
+});
+
+// =============================================================================
+// SELECTION
+// =============================================================================
+
+test('selectLatestAttachment prefers the latest period over page order', () => {
+  const page = parseReleaseHtml(fixture('asylum-and-resettlement-datasets.html'), ASYLUM_DATASETS_URL);
+  const reversed = [...page.attachments].reverse();
+
+  const latest = selectLatestAttachment(reversed, /asylum[\s_-]+support[\s_-]+datasets/i);
+  assert.equal(latest?.filename, 'asylum-support-datasets-sep-2024.ods');
+});
+
+test('selectLatestAttachment skips revised back-series in favour of the current quarter', () => {
+  const page = parseReleaseHtml(fixture('tribunal-statistics-quarterly-july-to-september-2024.html'), TRIBUNAL_URL);
+
+  const latest = selectLatestAttachment(page.attachments, /tribunal[\s_-]+statistics[\s_-]+quarterly.*main[\s_-]+tables/i);
+  assert.equal(latest?.filename, 'Tribunal_Statistics_Quarterly_Main_Tables_Jul_to_Sep_2024.ods');
+});
+
+test('selectLatestAttachment returns null when nothing matches', () => {
+  const page = parseReleaseHtml(fixture('asylum-and-resettlement-datasets.html'), ASYLUM_DATASETS_URL);
+  assert.equal(selectLatestAttachment(page.attachments, /detention[\s_-]+datasets/i), null);
+});
+
+// =============================================================================
+// DISCOVERY
+// =============================================================================
+
+test('discoverRelease finds a match on the landing page, parsing HTML when the content API fails', async () => {
+  const requested: string[] = [];
+  const fetchPage = fixtureFetcher({ [ASYLUM_DATASETS_URL]: 'asylum-and-resettlement-datasets.html' }, requested);
+
+  const release = await discoverRelease(ASYLUM_DATASETS_URL, /asylum[\s_-]+support[\s_-]+datasets/i, fetchPage);
+
+  assert.equal(release.filename, 'asylum-support-datasets-sep-2024.ods');
+  assert.equal(release.page_url, ASYLUM_DATASETS_URL);
+  assert.deepEqual(requested, [
+    'https://www.gov.uk/api/content/government/statistical-data-sets/asylum-and-resettlement-datasets',
+    ASYLUM_DATASETS_URL,
+  ]);
+});
+
+test('discoverRelease prefers the content API when it responds', async () => {
+  const fetchPage = fixtureFetcher({
+    'https://www.gov.uk/api/content/government/statistical-data-sets/asylum-and-resettlement-datasets':
+      'asylum-and-resettlement-datasets.content-api.json',
+  });
+
+  const release = await discoverRelease(ASYLUM_DATASETS_URL, /asylum[\s_-]+support[\s_-]+datasets/i, fetchPage);
+
+  assert.equal(release.filename, 'asylum-support-datasets-dec-2024.ods');
+  assert.equal(release.published_at, '2025-02-27');
+});
+
+test('discoverRelease follows linked publications from a data tables page', async () => {
+  const fetchPage = fixtureFetcher({
+    [DATA_TABLES_URL]: 'immigration-system-statistics-data-tables.html',
+    [ASYLUM_DATASETS_URL]: 'asylum-and-resettlement-datasets.html',
+    [RETURNS_DATASETS_URL]: 'returns-and-detention-datasets.html',
+  });
+
+  const release = await discoverRelease(DATA_TABLES_URL, /detention[\s_-]+datasets/i, fetchPage);
+
+  assert.equal(release.url, 'https://assets.publishing.service.gov.uk/media/6744a2c1f1ba7eecf1a3f0b1/detention-datasets-sep-2024.ods');
+  assert.equal(release.page_url, RETURNS_DATASETS_URL);
+});
+
+test('discoverRelease stops at maxDocuments linked publications', async () => {
+  const requested: string[] = [];
+  const fetchPage = fixtureFetcher({
+    [DATA_TABLES_URL]: 'immigration-system-statistics-data-tables.html',
+    [ASYLUM_DATASETS_URL]: 'asylum-and-resettlement-datasets.html',
+    [RETURNS_DATASETS_URL]: 'returns-and-detention-datasets.html',
+  }, requested);
+
+  await assert.rejects(
+    discoverRelease(DATA_TABLES_URL, /detention[\s_-]+datasets/i, fetchPage, { maxDocuments: 1 }),
+    /No attachment matching/
+  );
+  assert.ok(!requested.includes(RETURNS_DATASETS_URL));
+});
+
+test('discoverRelease rejects when no page has a matching attachment', async () => {
+  const fetchPage = fixtureFetcher({ [TRIBUNAL_URL]: 'tribunal-statistics-quarterly-july-to-september-2024.html' });
+
+  await assert.rejects(
+    discoverRelease(TRIBUNAL_URL, /asylum[\s_-]+support[\s_-]+datasets/i, fetchPage),
+    new RegExp(`No attachment matching .* found from ${TRIBUNAL_URL}`)
+  );
+});
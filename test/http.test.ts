@@ -0,0 +1,97 @@
+// HTTP fetching against a local server
+// Each path plays one kind of misbehaving or conditional origin; retries are kept to a few milliseconds
+
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { httpGet, HttpError } from '../src/lib/http';
+
+const ETAG = '"release-2024-q3"';
+
+const hits: Record<string, number> = {};
+let server: http.Server;
+let base: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const url = req.url || '/';
+    hits[url] = (hits[url] || 0) + 1;
+
+    switch (url) {
+      // Fails twice, then serves the file
+      case '/flaky':
+        if (hits[url] <= 2) {
+          res.writeHead(503).end('busy');
+        } else {
+          res.writeHead(200).end('release');
+        }
+        return;
+
+      case '/loop':
+        res.writeHead(302, { Location: '/loop' }).end();
+        return;
+
+      // Chunked, so the size is only known by counting what arrives
+      case '/endless':
+        res.writeHead(200);
+        for (let i = 0; i < 64; i++) res.write(Buffer.alloc(1024));
+        res.end();
+        return;
+
+      case '/conditional':
+        if (req.headers['if-none-match'] === ETAG) {
+          res.writeHead(304, { ETag: ETAG }).end();
+        } else {
+          res.writeHead(200, { ETag: ETAG, 'Last-Modified': 'Thu, 21 Nov 2024 09:30:00 GMT' }).end('release');
+        }
+        return;
+
+      default:
+        res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('retries server errors, then returns the body', async () => {
+  const result = await httpGet(`${base}/flaky`, { retries: 3, retryDelayMs: 5 });
+  assert.equal(result.status, 200);
+  assert.equal(result.body!.toString(), 'release');
+  assert.equal(hits['/flaky'], 3);
+});
+
+test('gives up after too many redirects without retrying', async () => {
+  await assert.rejects(
+    httpGet(`${base}/loop`, { maxRedirects: 3, retryDelayMs: 5 }),
+    (error: HttpError) => error instanceof HttpError && /Too many redirects/.test(error.message) && !error.retryable
+  );
+  assert.equal(hits['/loop'], 4);
+});
+
+test('aborts a response that grows past the size limit', async () => {
+  await assert.rejects(
+    httpGet(`${base}/endless`, { maxBytes: 16 * 1024, retryDelayMs: 5 }),
+    (error: HttpError) => error instanceof HttpError && /exceeds the 16384 byte limit/.test(error.message)
+  );
+  assert.equal(hits['/endless'], 1);
+});
+
+test('a conditional request answered 304 resolves without a body', async () => {
+  const first = await httpGet(`${base}/conditional`);
+  assert.equal(first.status, 200);
+  assert.equal(first.etag, ETAG);
+  assert.equal(first.lastModified, 'Thu, 21 Nov 2024 09:30:00 GMT');
+
+  const second = await httpGet(`${base}/conditional`, { etag: first.etag, lastModified: first.lastModified });
+  assert.equal(second.status, 304);
+  assert.equal(second.body, null);
+  assert.equal(second.etag, ETAG);
+});
@@ -0,0 +1,140 @@
+// Ingestion runs against an in-process database
+// Fixtures are built as ODS workbooks in the shape of the published tables and loaded as local files
+
+import { test, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as xlsx from 'xlsx';
+import { PGlite } from '@electric-sql/pglite';
+import { useTestDatabase } from './db';
+import { AsylumSupportLAIngestor } from '../src/ingestion/asylum-support-la';
+import { archivePayload } from '../src/lib/archive';
+
+const TMP = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-test-'));
+process.env.RAW_ARCHIVE_PATH = path.join(TMP, 'archive');
+
+const LA_COUNT = 250;
+
+let db: PGlite;
+
+function laName(i: number): string {
+  return `Test Authority ${String(i).padStart(3, '0')}`;
+}
+
+before(async () => {
+  db = await useTestDatabase();
+  for (let i = 1; i <= LA_COUNT; i++) {
+    await db.query(
+      `INSERT INTO local_authorities (ons_code, name, name_normalized, region) VALUES ($1, $2, $3, 'Test Region')`,
+      [`T${String(i).padStart(8, '0')}`, laName(i), laName(i).toLowerCase()]
+    );
+  }
+});
+
+function writeWorkbook(name: string, sheetName: string, rows: any[][]): string {
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet(rows), sheetName);
+  const file = path.join(TMP, name);
+  xlsx.writeFile(workbook, file, { bookType: 'ods' });
+  return file;
+}
+
+// One row per LA, enough for the row count check, and a grand total row the LA rows sum to unless
+// totalOffset says otherwise
+function laSupportFixture(name: string, snapshotDate: string, totalOffset = 0): string {
+  const header = ['Date', 'Local authority', 'Region', 'Total', 'Section 95', 'Section 4', 'Dispersed', 'Hotel'];
+  const rows: any[][] = [];
+  let total = 0;
+  for (let i = 1; i <= LA_COUNT; i++) {
+    const supported = 100 + i;
+    total += supported;
+    rows.push([snapshotDate, laName(i), 'Test Region', supported, supported - 10, 10, supported - 20, 20]);
+  }
+  rows.push([snapshotDate, 'Total', '', total + totalOffset, 0, 0, 0, 0]);
+  return writeWorkbook(name, 'Asy_D11', [header, ...rows]);
+}
+
+// Fetches a fixture in place of the published file
+class FixtureLASupportIngestor extends AsylumSupportLAIngestor {
+  constructor(private file: string) {
+    super();
+  }
+
+  protected async fetch(): Promise<Buffer> {
+    return fs.promises.readFile(this.file);
+  }
+}
+
+test('reloading the same file updates its rows and passes the run-scoped checks', async () => {
+  const file = laSupportFixture('la-support-sep.ods', '2024-09-30');
+
+  const first = await new AsylumSupportLAIngestor().run({ file });
+  assert.equal(first.status, 'completed', first.error_message);
+  assert.equal(first.records_inserted, LA_COUNT);
+
+  const second = await new AsylumSupportLAIngestor().run({ file });
+  assert.equal(second.status, 'completed', second.error_message);
+  assert.equal(second.records_inserted, 0);
+  assert.equal(second.records_updated, LA_COUNT);
+
+  const rows = await db.query(
+    `SELECT ingest_run_id, COUNT(*)::int AS count FROM asylum_support_la
+    WHERE snapshot_date = '2024-09-30' GROUP BY ingest_run_id`
+  );
+  assert.deepEqual(rows.rows, [{ ingest_run_id: second.id, count: LA_COUNT }]);
+
+  const failed = await db.query(
+    `SELECT assertion FROM data_quality_results WHERE ingest_run_id = $1 AND NOT passed`,
+    [second.id]
+  );
+  assert.deepEqual(failed.rows, []);
+});
+
+test('a quarantined file is rolled back and skipped by the next scheduled run', async () => {
+  // LA rows fall 10% short of the published total
+  const file = laSupportFixture('la-support-dec.ods', '2024-12-31', 3500);
+
+  const run = await new FixtureLASupportIngestor(file).run();
+  assert.equal(run.status, 'quarantined');
+  assert.match(run.error_message!, /la_sum_matches_national_total/);
+
+  const rows = await db.query(`SELECT COUNT(*)::int AS count FROM asylum_support_la WHERE snapshot_date = '2024-12-31'`);
+  assert.deepEqual(rows.rows, [{ count: 0 }]);
+
+  const results = await db.query(
+    `SELECT assertion, passed FROM data_quality_results WHERE ingest_run_id = $1 AND assertion = 'la_sum_matches_national_total'`,
+    [run.id]
+  );
+  assert.deepEqual(results.rows, [{ assertion: 'la_sum_matches_national_total', passed: false }]);
+
+  const next = await new FixtureLASupportIngestor(file).run();
+  assert.equal(next.status, 'completed', next.error_message);
+  assert.equal(next.metadata.noChanges, true);
+});
+
+test('a file another source archived first can be replayed by run id and by hash', async () => {
+  const file = laSupportFixture('la-support-mar.ods', '2025-03-31');
+  const other = await db.query<{ id: number }>(`SELECT id FROM data_sources WHERE code = 'ASY_D01'`);
+  await archivePayload(other.rows[0].id, fs.readFileSync(file), file);
+
+  const original = await new AsylumSupportLAIngestor().run({ file });
+  assert.equal(original.status, 'completed', original.error_message);
+  assert.ok(original.archive_hash);
+
+  const byRun = await new AsylumSupportLAIngestor().run({ replay: original.id });
+  assert.equal(byRun.status, 'completed', byRun.error_message);
+  assert.equal(byRun.archive_hash, original.archive_hash);
+  assert.equal(byRun.records_updated, LA_COUNT);
+
+  const byHash = await new AsylumSupportLAIngestor().run({ replay: original.archive_hash!.slice(0, 12) });
+  assert.equal(byHash.status, 'completed', byHash.error_message);
+  assert.equal(byHash.records_updated, LA_COUNT);
+
+  const rows = await db.query(
+    `SELECT ingest_run_id, COUNT(*)::int AS count FROM asylum_support_la
+    WHERE snapshot_date = '2025-03-31' GROUP BY ingest_run_id`
+  );
+  assert.deepEqual(rows.rows, [{ ingest_run_id: byHash.id, count: LA_COUNT }]);
+});
@@ -0,0 +1,57 @@
+// Ingestion job queue against an in-process database
+
+import { test, before, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PGlite } from '@electric-sql/pglite';
+import { useTestDatabase } from './db';
+import { query } from '../src/lib/db';
+import { Queryable } from '../src/lib/la-lookup';
+import { enqueueJob, claimJob, completeJob, claimSourceJob, failJob, retryDeadJob } from '../src/lib/jobs';
+
+let db: PGlite;
+
+before(async () => {
+  db = await useTestDatabase();
+});
+
+beforeEach(async () => {
+  await db.query('DELETE FROM ingest_runs');
+  await db.query('DELETE FROM ingest_jobs');
+});
+
+test('an enqueue that loses to a job finishing in between queues a new job', async () => {
+  await enqueueJob('ASY_D11', { trigger: 'api' });
+  const running = await claimJob('w1');
+
+  // The running job completes right after the insert conflicts with it
+  const racing: Queryable = {
+    async query(text, params) {
+      const result = await query(text, params);
+      if (text.includes('INSERT INTO ingest_jobs') && result.rows.length === 0) {
+        await completeJob(running!.id, 'w1');
+      }
+      return result;
+    },
+  };
+
+  const result = await enqueueJob('ASY_D11', { trigger: 'api' }, racing);
+  assert.ok(result);
+  assert.equal(result.queued, true);
+  assert.notEqual(result.job.id, running!.id);
+});
+
+test('enqueueing an unregistered source returns null', async () => {
+  assert.equal(await enqueueJob('NOT_A_SOURCE', { trigger: 'api' }), null);
+});
+
+test('a run-ingest job keeps its file, and a retry of it runs the same input', async () => {
+  const result = await claimSourceJob('ASY_D11', 'cli', { file: '/data/asylum-support-datasets-sep-2024.ods' });
+  assert.ok(result);
+  assert.equal(await failJob(result.job, 'Parse failed'), 'dead');
+
+  const retried = await retryDeadJob(result.job.id);
+  assert.equal(retried?.queued, true);
+  const claimed = await claimJob('w1');
+  assert.equal(claimed!.id, result.job.id);
+  assert.deepEqual(claimed!.run_options, { file: '/data/asylum-support-datasets-sep-2024.ods' });
+});
@@ -0,0 +1,532 @@
+// Parsers for the published tables, run against small fixtures
+// Fixtures are built in the shape of the published sheets; nothing here touches the database
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as xlsx from 'xlsx';
+import { formatDateISO } from '../src/lib/db';
+import { BaseIngestor } from '../src/lib/ingest';
+import { AgeDisputesIngestor } from '../src/ingestion/age-disputes';
+import { AssistedReturnsIngestor } from '../src/ingestion/assisted-returns';
+import { BorderRefusalsIngestor } from '../src/ingestion/border-refusals';
+import { DeprivationIngestor } from '../src/ingestion/deprivation';
+import { DetentionFacilitiesIngestor } from '../src/ingestion/detention-facilities';
+import { DetentionLengthIngestor } from '../src/ingestion/detention-length';
+import { DetentionPopulationIngestor } from '../src/ingestion/detention-population';
+import { DetentionRule35Ingestor } from '../src/ingestion/detention-rule35';
+import { FamilyReunionIngestor } from '../src/ingestion/family-reunion';
+import { ForeignNationalPrisonersIngestor } from '../src/ingestion/foreign-national-prisoners';
+import { InadmissibilityIngestor } from '../src/ingestion/inadmissibility';
+import { IrregularEntryIngestor } from '../src/ingestion/irregular-entry';
+import { NrmIngestor } from '../src/ingestion/nrm';
+import { OnsBoundariesIngestor } from '../src/ingestion/ons-boundaries';
+import { OnsPopulationIngestor } from '../src/ingestion/ons-population';
+import { ResettlementIngestor } from '../src/ingestion/resettlement';
+import { ResettlementLAIngestor } from '../src/ingestion/resettlement-la';
+import { ReturnsIngestor } from '../src/ingestion/returns';
+import { TribunalAppealsIngestor } from '../src/ingestion/tribunal-appeals';
+import { UASCIngestor } from '../src/ingestion/uasc';
+import { UkraineIngestor } from '../src/ingestion/ukraine';
+
+function workbook(sheets: Record<string, any[][]>): Buffer {
+  const book = xlsx.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    xlsx.utils.book_append_sheet(book, xlsx.utils.aoa_to_sheet(rows), name);
+  }
+  return xlsx.write(book, { bookType: 'ods', type: 'buffer' });
+}
+
+function csv(rows: any[][]): Buffer {
+  return Buffer.from(rows.map(row => row.join(',')).join('\n'), 'utf-8');
+}
+
+// parse() is the protected step run() calls between fetch and load
+function parse(ingestor: BaseIngestor, payload: any): Promise<any> {
+  return (ingestor as any).parse(payload);
+}
+
+// Dates become ISO strings so records compare with deepEqual
+function iso<T extends Record<string, any>>(records: T[]): Record<string, any>[] {
+  return records.map(record => Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, value instanceof Date ? formatDateISO(value) : value])
+  ));
+}
+
+test('returns are summed per quarter, nationality and type, skipping port returns and totals', async () => {
+  const buffer = workbook({
+    Ret_D01: [
+      ['Year', 'Quarter', 'Nationality', 'Return type group', 'Return type', 'Age', 'Number of returns'],
+      [2024, 'Q3', 'Albania', 'Enforced return', 'Enforced return', '18-29', 40],
+      [2024, 'Q3', 'Albania', 'Enforced return', 'Enforced return', '30-49', 10],
+      [2024, 'Q3', 'Albania', 'Voluntary return', 'Controlled return', '18-29', 5],
+      [2024, 'Q3', 'Albania', 'Refused entry at port', 'Refused entry at port and subsequently departed', '18-29', 99],
+      [2024, 'Q3', 'Total', 'Enforced return', 'Enforced return', 'Total', 50],
+    ],
+  });
+
+  const records = iso(await parse(new ReturnsIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-09-30', year: 2024, quarter: 3, nationality_name: 'Albania', return_type: 'enforced', count: 50 },
+    { quarter_end: '2024-09-30', year: 2024, quarter: 3, nationality_name: 'Albania', return_type: 'voluntary', count: 5 },
+  ]);
+});
+
+test('assisted returns read Ret_D02 and count every row as assisted voluntary', async () => {
+  const buffer = workbook({
+    Ret_D02: [
+      ['Date', 'Nationality', 'Sex', 'Number of returns'],
+      ['2024 Q2', 'Iraq', 'Male', 12],
+      ['2024 Q2', 'Iraq', 'Female', 3],
+    ],
+  });
+
+  const records = iso(await parse(new AssistedReturnsIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-06-30', year: 2024, quarter: 2, nationality_name: 'Iraq', return_type: 'assisted_voluntary', count: 15 },
+  ]);
+});
+
+test('a missing required column fails the parse with the drift report', async () => {
+  const ingestor = new ReturnsIngestor();
+  const buffer = workbook({
+    Ret_D01: [
+      ['Year', 'Quarter', 'Nationality', 'Return type'],
+      [2024, 'Q3', 'Albania', 'Enforced return'],
+    ],
+  });
+
+  await assert.rejects(parse(ingestor, buffer), /Schema drift in returns \(sheet Ret_D01\): missing required columns: count/);
+  assert.deepEqual((ingestor as any).runMetadata.schema.returns.missing_required, ['count']);
+});
+
+test('detention population gives a total per snapshot and each nationality\'s share', async () => {
+  const buffer = workbook({
+    Det_D01: [
+      ['Date', 'Nationality', 'Sex', 'Number of people'],
+      ['2024-Q3', 'Albania', 'Male', 300],
+      ['2024-Q3', 'Albania', 'Female', 20],
+      ['2024-Q3', 'Vietnam', 'Male', 480],
+      ['2024-Q3', 'Total', 'Total', 800],
+    ],
+  });
+
+  const data = await parse(new DetentionPopulationIngestor(), buffer);
+  assert.deepEqual(iso(data.totals), [{ snapshot_date: '2024-09-30', population: 800 }]);
+  assert.deepEqual(iso(data.nationality), [
+    { snapshot_date: '2024-09-30', nationality_name: 'Albania', population: 320, share_pct: 40 },
+    { snapshot_date: '2024-09-30', nationality_name: 'Vietnam', population: 480, share_pct: 60 },
+  ]);
+});
+
+test('detention facilities are summed per facility', async () => {
+  const buffer = workbook({
+    Det_D02: [
+      ['Date', 'Place of detention', 'Type of detention', 'Nationality', 'Number of people'],
+      ['2024-Q3', 'Harmondsworth IRC', 'IRC', 'Albania', 200],
+      ['2024-Q3', 'Harmondsworth IRC', 'IRC', 'India', 150],
+      ['2024-Q3', 'Yarl\'s Wood IRC', 'IRC', 'India', 80],
+      ['2024-Q3', 'Total', '', '', 430],
+    ],
+  });
+
+  const records = iso(await parse(new DetentionFacilitiesIngestor(), buffer));
+  assert.deepEqual(records, [
+    { snapshot_date: '2024-09-30', facility_name: 'Harmondsworth IRC', population: 350 },
+    { snapshot_date: '2024-09-30', facility_name: 'Yarl\'s Wood IRC', population: 80 },
+  ]);
+});
+
+test('detention leavers are split into length brackets and outcomes with shares', async () => {
+  const buffer = workbook({
+    Det_D03: [
+      ['Date', 'Length of detention', 'Reason for leaving detention', 'Number of people'],
+      ['2024-Q3', '3 days or less', 'Returned', 60],
+      ['2024-Q3', '3 days or less', 'Granted bail', 15],
+      ['2024-Q3', '4 to 7 days', 'Released', 25],
+    ],
+  });
+
+  const data = await parse(new DetentionLengthIngestor(), buffer);
+  assert.deepEqual(iso(data.length), [
+    { quarter_end: '2024-09-30', length_bracket: '3 days or less', bracket_order: 1, count: 75, share_pct: 75 },
+    { quarter_end: '2024-09-30', length_bracket: '4 to 7 days', bracket_order: 2, count: 25, share_pct: 25 },
+  ]);
+  assert.deepEqual(iso(data.outcomes), [
+    { quarter_end: '2024-09-30', outcome: 'removed', count: 60, share_pct: 60 },
+    { quarter_end: '2024-09-30', outcome: 'bailed', count: 15, share_pct: 15 },
+    { quarter_end: '2024-09-30', outcome: 'released', count: 25, share_pct: 25 },
+  ]);
+});
+
+test('rule 35 reports in the long layout count releases from the outcome label', async () => {
+  const buffer = workbook({
+    Det_D04: [
+      ['Date', 'Place of detention', 'Outcome', 'Number'],
+      ['2024-Q3', 'Brook House IRC', 'Released', 30],
+      ['2024-Q3', 'Brook House IRC', 'Not released', 70],
+      ['2024-Q3', 'Total', 'Released', 30],
+    ],
+  });
+
+  const records = iso(await parse(new DetentionRule35Ingestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-09-30', facility_name: 'Brook House IRC', reports_made: 100, released_following: 30 },
+  ]);
+});
+
+test('age disputes in the wide layout sum nationalities per quarter', async () => {
+  const buffer = workbook({
+    Asy_D06: [
+      ['Date', 'Nationality', 'Age disputes raised', 'Resolved - found to be adult', 'Resolved - found to be child', 'Pending'],
+      ['2024-Q3', 'Eritrea', 100, 40, 30, 30],
+      ['2024-Q3', 'Sudan', 50, 20, 20, 10],
+    ],
+  });
+
+  const records = iso(await parse(new AgeDisputesIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-09-30', disputes_raised: 150, resolved_adult: 60, resolved_child: 50, pending: 40 },
+  ]);
+});
+
+test('border refusals are summed per nationality and port type', async () => {
+  const buffer = workbook({
+    Adm_D02: [
+      ['Date', 'Nationality', 'Port of entry', 'Age', 'Number of refusals'],
+      ['2024-Q3', 'Albania', 'Air - Heathrow', '18-29', 10],
+      ['2024-Q3', 'Albania', 'Air - Gatwick', '30-49', 5],
+      ['2024-Q3', 'Albania', 'Juxtaposed controls - Calais', '18-29', 7],
+      ['2024-Q3', 'Total', 'Total', 'Total', 22],
+    ],
+  });
+
+  const records = iso(await parse(new BorderRefusalsIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-09-30', nationality_name: 'Albania', port_type: 'air', refusals: 15 },
+    { quarter_end: '2024-09-30', nationality_name: 'Albania', port_type: 'sea', refusals: 7 },
+  ]);
+});
+
+test('family reunion keeps only the refugee family reunion route', async () => {
+  const buffer = workbook({
+    Fam_D01: [
+      ['Date', 'Visa type', 'Nationality', 'Case outcome', 'Number'],
+      ['2024-Q3', 'Refugee family reunion', 'Sudan', 'Applications', 400],
+      ['2024-Q3', 'Refugee family reunion', 'Sudan', 'Granted', 300],
+      ['2024-Q3', 'Refugee family reunion', 'Sudan', 'Refused', 50],
+      ['2024-Q3', 'Partner', 'Sudan', 'Granted', 900],
+    ],
+  });
+
+  const records = iso(await parse(new FamilyReunionIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-09-30', nationality_name: 'Sudan', applications: 400, grants: 300, refusals: 50 },
+  ]);
+});
+
+test('inadmissibility in the wide layout reads a column per stage and ignores notices of intent', async () => {
+  const buffer = workbook({
+    Inad_D01: [
+      ['Date', 'Nationality', 'Notices of intent issued', 'Inadmissibility decisions', 'Removals', 'Admitted into UK asylum system'],
+      ['2024-Q3', 'Iran', 500, 20, 2, 300],
+      ['2024-Q3', 'Total', 500, 20, 2, 300],
+    ],
+  });
+
+  const records = iso(await parse(new InadmissibilityIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-09-30', nationality_name: 'Iran', decisions: 20, returned: 2, granted_after_review: 300 },
+  ]);
+});
+
+test('irregular entries map the published method onto the entry method enum', async () => {
+  const buffer = workbook({
+    Irr_D02: [
+      ['Date', 'Method of entry', 'Nationality', 'Age group', 'Sex', 'Number of detections'],
+      ['2024-Q3', 'Small boat arrivals', 'Afghanistan', '18-24', 'Male', 900],
+      ['2024-Q3', 'Recorded detections in the UK', 'Afghanistan', '18-24', 'Male', 30],
+      ['2024-Q3', 'Detections at UK ports', 'Afghanistan', '18-24', 'Male', 12],
+      ['2024-Q3', 'Small boat arrivals', 'Total', 'Total', 'Total', 900],
+    ],
+  });
+
+  const records = iso(await parse(new IrregularEntryIngestor(), buffer));
+  assert.deepEqual(records.map(r => [r.entry_method, r.detections]), [['small_boat', 900], ['other', 30], ['lorry', 12]]);
+});
+
+test('foreign national prisoners take shares of the published prison total and read the optional sheets', async () => {
+  const buffer = workbook({
+    Table_1_9_nationality: [
+      ['Date', 'Nationality', 'Population'],
+      ['2024-09-30', 'All prisoners', 1000],
+      ['2024-09-30', 'British', 880],
+      ['2024-09-30', 'Foreign nationals', 120],
+      ['2024-09-30', 'Albania', 80],
+      ['2024-09-30', 'Poland', 40],
+    ],
+    Table_1_10_offence: [
+      ['Quarter', 'Nationality', 'Offence group', 'Population'],
+      ['2024-Q3', 'Foreign nationals', 'Drug offences', 90],
+      ['2024-Q3', 'Foreign nationals', 'Theft offences', 30],
+      ['2024-Q3', 'British nationals', 'Drug offences', 400],
+      ['2024-Q3', 'Foreign nationals', 'All offences', 120],
+    ],
+    FNO_returns: [
+      ['Quarter', 'Nationality', 'Offence group', 'Number of returns'],
+      ['2024-Q3', 'Albania', 'Drug offences', 25],
+    ],
+  });
+
+  const data = await parse(new ForeignNationalPrisonersIngestor(), buffer);
+  assert.deepEqual(iso(data.prisoners), [
+    { snapshot_date: '2024-09-30', nationality_name: 'Albania', prison_population: 80, share_of_total_pct: 8 },
+    { snapshot_date: '2024-09-30', nationality_name: 'Poland', prison_population: 40, share_of_total_pct: 4 },
+  ]);
+  assert.deepEqual(iso(data.offences), [
+    { quarter_end: '2024-09-30', offence_category: 'Drug offences', count: 90, share_pct: 75 },
+    { quarter_end: '2024-09-30', offence_category: 'Theft offences', count: 30, share_pct: 25 },
+  ]);
+  assert.deepEqual(iso(data.deportations), [
+    { quarter_end: '2024-09-30', nationality_name: 'Albania', offence_type: 'Drug offences', count: 25 },
+  ]);
+});
+
+test('foreign national prisoners without the optional sheets still parse', async () => {
+  const buffer = workbook({
+    Nationality: [
+      ['Date', 'Nationality', 'Population'],
+      ['2024-09-30', 'British', 90],
+      ['2024-09-30', 'Albania', 10],
+    ],
+  });
+
+  const data = await parse(new ForeignNationalPrisonersIngestor(), buffer);
+  assert.deepEqual(iso(data.prisoners), [
+    { snapshot_date: '2024-09-30', nationality_name: 'Albania', prison_population: 10, share_of_total_pct: 10 },
+  ]);
+  assert.deepEqual(data.offences, []);
+  assert.deepEqual(data.deportations, []);
+});
+
+test('tribunal appeals combine volumes, outcomes and timeliness for asylum cases only', async () => {
+  const buffer = workbook({
+    FIA_1: [
+      ['Quarter', 'Case type', 'Receipts', 'Disposals', 'Outstanding'],
+      ['2024 Q2', 'Asylum/Protection', 9000, 6000, 30000],
+      ['2024 Q2', 'Human rights', 4000, 3000, 10000],
+      ['2024 Q3', 'Asylum/Protection', 10000, 7000, 33000],
+    ],
+    FIA_3: [
+      ['Quarter', 'Case type', 'Outcome', 'Number'],
+      ['2024 Q3', 'Asylum/Protection', 'Allowed', 3000],
+      ['2024 Q3', 'Asylum/Protection', 'Dismissed', 3500],
+      ['2024 Q3', 'Asylum/Protection', 'Withdrawn', 500],
+    ],
+    FIA_4: [
+      ['Quarter', 'Case type', 'Mean weeks', 'Median weeks'],
+      ['2024 Q3', 'Asylum/Protection', 52.5, 48],
+    ],
+  });
+
+  const records = iso(await parse(new TribunalAppealsIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-06-30', receipts: 9000, disposals: 6000, allowed: 0, dismissed: 0, withdrawn: 0, outstanding: 30000, avg_weeks: null },
+    { quarter_end: '2024-09-30', receipts: 10000, disposals: 7000, allowed: 3000, dismissed: 3500, withdrawn: 500, outstanding: 33000, avg_weeks: 52.5 },
+  ]);
+});
+
+test('UASC claims are split by age group and sex, and the council sheet is read when present', async () => {
+  const buffer = workbook({
+    Asy_D07: [
+      ['Date', 'Nationality', 'UASC', 'Age', 'Sex', 'Applications'],
+      ['2024-Q3', 'Sudan', 'UASC', '16-17', 'Male', 60],
+      ['2024-Q3', 'Sudan', 'UASC', 'Under 14', 'Female', 5],
+      ['2024-Q3', 'Sudan', 'Non-UASC', '16-17', 'Male', 40],
+    ],
+    UASC_LA: [
+      ['Date', 'Local authority', 'Looked after UASC', 'Care leavers', 'Transfers in', 'Transfers out'],
+      ['2024-Q3', 'Kent', 400, 900, 0, 120],
+    ],
+  });
+
+  const data = await parse(new UASCIngestor(), buffer);
+  assert.deepEqual(iso(data.claims), [
+    { quarter_end: '2024-09-30', nationality_name: 'Sudan', claims: 65, age_under_14: 5, age_14_15: 0, age_16_17: 60, male: 60, female: 5 },
+  ]);
+  assert.deepEqual(iso(data.la), [
+    { snapshot_date: '2024-09-30', la_name: 'Kent', uasc_count: 400, care_leavers: 900, national_transfer_in: 0, national_transfer_out: 120 },
+  ]);
+});
+
+test('NRM referrals and decisions map onto the exploitation and outcome enums', async () => {
+  const buffer = workbook({
+    NRM_1_referrals: [
+      ['Quarter', 'Nationality', 'Exploitation type', 'First responder', 'Number of referrals'],
+      ['2024 Q3', 'Vietnam', 'Labour exploitation', 'Home Office', 80],
+      ['2024 Q3', 'Vietnam', 'Criminal exploitation', 'Police', 20],
+      ['2024 Q3', 'Total', 'Total', 'Total', 100],
+    ],
+    NRM_2_decisions: [
+      ['Quarter', 'Nationality', 'Decision type', 'Outcome', 'Number'],
+      ['2024 Q3', 'Vietnam', 'Reasonable grounds', 'Positive', 70],
+      ['2024 Q3', 'Vietnam', 'Reasonable grounds', 'Negative', 10],
+      ['2024 Q3', 'Vietnam', 'Conclusive grounds', 'Positive', 30],
+    ],
+  });
+
+  const data = await parse(new NrmIngestor(), buffer);
+  assert.deepEqual(iso(data.referrals), [
+    { quarter_end: '2024-09-30', nationality_name: 'Vietnam', exploitation: 'labour', referral_source: 'Home Office', referrals: 80 },
+    { quarter_end: '2024-09-30', nationality_name: 'Vietnam', exploitation: 'criminal', referral_source: 'Police', referrals: 20 },
+  ]);
+  assert.deepEqual(iso(data.decisions), [
+    { quarter_end: '2024-09-30', nationality_name: 'Vietnam', outcome: 'positive_reasonable', count: 70 },
+    { quarter_end: '2024-09-30', nationality_name: 'Vietnam', outcome: 'positive_conclusive', count: 30 },
+  ]);
+});
+
+test('resettlement arrivals keep a running total per scheme and skip untracked schemes', async () => {
+  const buffer = workbook({
+    Res_D01: [
+      ['Date', 'Resettlement scheme', 'Nationality', 'Number of people'],
+      ['2024-Q2', 'UK Resettlement Scheme (UKRS)', 'Syria', 100],
+      ['2024-Q3', 'UK Resettlement Scheme (UKRS)', 'Syria', 150],
+      ['2024-Q3', 'Community Sponsorship', 'Syria', 10],
+      ['2024-Q3', 'Gateway Protection Programme', 'Syria', 5],
+    ],
+  });
+
+  const records = iso(await parse(new ResettlementIngestor(), buffer));
+  assert.deepEqual(records, [
+    { quarter_end: '2024-06-30', scheme: 'UKRS', arrivals: 100, total_since_start: 100 },
+    { quarter_end: '2024-09-30', scheme: 'UKRS', arrivals: 160, total_since_start: 260 },
+  ]);
+});
+
+test('resettlement by council in the wide layout reads a column per scheme', async () => {
+  const buffer = workbook({
+    Res_D02: [
+      ['Date', 'Local authority', 'Region', 'UKRS', 'ACRS', 'ARAP'],
+      ['2024-Q3', 'Leeds', 'Yorkshire and The Humber', 40, 0, 25],
+      ['2024-Q3', 'Total', '', 40, 0, 25],
+    ],
+  });
+
+  const records = iso(await parse(new ResettlementLAIngestor(), buffer));
+  assert.deepEqual(records, [
+    { snapshot_date: '2024-09-30', la_name: 'Leeds', scheme: 'UKRS', placements: 40 },
+    { snapshot_date: '2024-09-30', la_name: 'Leeds', scheme: 'ARAP', placements: 25 },
+  ]);
+});
+
+test('Homes for Ukraine rows split into the national row and councils, skipping the family scheme', async () => {
+  const buffer = csv([
+    ['Date', 'Scheme', 'Local authority', 'LA code', 'Visa applications', 'Visas issued', 'Arrivals', 'Currently sponsored', 'Homelessness presentations'],
+    ['2024-10-15', 'Homes for Ukraine', 'Total', '', 250000, 200000, 150000, '', ''],
+    ['2024-10-15', 'Homes for Ukraine', 'Leeds', 'E08000035', '', '', 1200, 300, 15],
+    ['2024-10-15', 'Ukraine Family Scheme', 'Leeds', 'E08000035', '', '', 800, '', ''],
+  ]);
+
+  const data = await parse(new UkraineIngestor(), buffer);
+  assert.deepEqual(iso(data.national), [
+    { snapshot_date: '2024-10-15', visa_applications: 250000, visas_issued: 200000, arrivals: 150000 },
+  ]);
+  assert.deepEqual(iso(data.la), [
+    { snapshot_date: '2024-10-15', la_name: 'Leeds', arrivals: 1200, currently_sponsored: 300, rematches: null, homelessness_presentations: 15 },
+  ]);
+});
+
+test('population estimates read the long Nomis layout and the wide layout', async () => {
+  const long = csv([
+    ['DATE_NAME', 'GEOGRAPHY_NAME', 'GEOGRAPHY_CODE', 'OBS_VALUE'],
+    ['2022', 'Hartlepool', 'E06000001', 93000],
+    ['2023', 'Hartlepool', 'E06000001', 94000],
+    ['2023', 'North East', 'E12000001', 2700000],
+  ]);
+  assert.deepEqual(await parse(new OnsPopulationIngestor(), long), [
+    { ons_code: 'E06000001', la_name: 'Hartlepool', year: 2022, population: 93000 },
+    { ons_code: 'E06000001', la_name: 'Hartlepool', year: 2023, population: 94000 },
+  ]);
+
+  const wide = csv([
+    ['Code', 'Name', 'Mid-2022', 'Mid-2023'],
+    ['E06000001', 'Hartlepool', 93000, 94000],
+  ]);
+  assert.deepEqual(await parse(new OnsPopulationIngestor(), wide), [
+    { ons_code: 'E06000001', la_name: 'Hartlepool', year: 2022, population: 93000 },
+    { ons_code: 'E06000001', la_name: 'Hartlepool', year: 2023, population: 94000 },
+  ]);
+});
+
+test('population estimates without a code column fail the parse', async () => {
+  const buffer = csv([
+    ['DATE_NAME', 'GEOGRAPHY_NAME', 'OBS_VALUE'],
+    ['2023', 'Hartlepool', 94000],
+  ]);
+
+  await assert.rejects(parse(new OnsPopulationIngestor(), buffer), /missing required columns: code/);
+});
+
+test('boundaries keep council polygons, simplify them per zoom and skip other features', async () => {
+  const square = [[[-1.3, 54.6], [-1.1, 54.6], [-1.1, 54.7], [-1.3, 54.7], [-1.3, 54.6]]];
+  const buffer = Buffer.from(JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: { LAD24CD: 'E06000001', LAD24NM: 'Hartlepool', LAT: 54.67, LONG: -1.27 }, geometry: { type: 'Polygon', coordinates: square } },
+      { type: 'Feature', properties: { LAD24CD: 'E05000001', LAD24NM: 'A ward', LAT: 54.6, LONG: -1.2 }, geometry: { type: 'Polygon', coordinates: square } },
+    ],
+  }));
+
+  const records = await parse(new OnsBoundariesIngestor(), buffer);
+  assert.equal(records.length, 1);
+  assert.equal(records[0].ons_code, 'E06000001');
+  assert.equal(records[0].la_name, 'Hartlepool');
+  assert.deepEqual([records[0].centroid_lat, records[0].centroid_lng], [54.67, -1.27]);
+  assert.deepEqual(records[0].simplified.map((s: any) => s.zoom), ['low', 'medium', 'high']);
+});
+
+test('boundaries in British National Grid are rejected', async () => {
+  const buffer = Buffer.from(JSON.stringify({
+    type: 'FeatureCollection',
+    features: [{
+      type: 'Feature',
+      properties: { LAD24CD: 'E06000001' },
+      geometry: { type: 'Polygon', coordinates: [[[447000, 531000], [452000, 531000], [452000, 536000], [447000, 531000]]] },
+    }],
+  }));
+
+  await assert.rejects(parse(new OnsBoundariesIngestor(), buffer), /WGS84/);
+});
+
+test('deprivation reads council summaries as published and ranks councils from small-area files', async () => {
+  const files = [
+    {
+      name: 'File_10_IoD2019_Local_Authority_District_Summaries.ods',
+      buffer: workbook({
+        Notes: [['Indices of Deprivation 2019']],
+        IMD: [
+          ['Local Authority District code (2019)', 'Local Authority District name (2019)', 'IMD - Average score', 'IMD - Rank of average rank', 'Income - Rank of average rank'],
+          ['E08000003', 'Manchester', 40.1, 6, 3],
+        ],
+      }),
+    },
+    {
+      name: 'wimd-2019-ranks.ods',
+      buffer: workbook({
+        WIMD_2019_ranks: [
+          ['LSOA code', 'LSOA name', 'Local Authority name', 'WIMD 2019', 'Income'],
+          ['W01000001', 'Cardiff 001A', 'Cardiff', 10, 12],
+          ['W01000002', 'Cardiff 001B', 'Cardiff', 30, 25],
+          ['W01000003', 'Newport 001A', 'Newport', 5, 7],
+        ],
+      }),
+    },
+  ];
+
+  const records = await parse(new DeprivationIngestor(), files);
+  assert.deepEqual(records, [
+    { la_code: 'E08000003', la_name: 'Manchester', imd_source: 'IMD 2019', imd_rank: 6, imd_score: 40.1, small_areas: null },
+    { la_code: null, la_name: 'Newport', imd_source: 'WIMD 2019', imd_rank: 1, imd_score: null, small_areas: 1 },
+    { la_code: null, la_name: 'Cardiff', imd_source: 'WIMD 2019', imd_rank: 2, imd_score: null, small_areas: 2 },
+  ]);
+});
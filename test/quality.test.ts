@@ -0,0 +1,36 @@
+// Data quality assertions against an in-process database
+
+import { test, before } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { useTestDatabase } from './db';
+import { query, withTransaction } from '../src/lib/db';
+import { runQualityAssertions, noNegativeCounts, QualityAssertion, QualityContext } from '../src/lib/quality';
+
+let ctx: QualityContext;
+
+before(async () => {
+  const db = await useTestDatabase();
+  const source = await db.query<{ id: number }>(`SELECT id FROM data_sources WHERE code = 'ASY_D01'`);
+  const run = await db.query<{ id: string }>(`INSERT INTO ingest_runs (source_id) VALUES ($1) RETURNING id`, [source.rows[0].id]);
+  ctx = { runId: run.rows[0].id, sourceCode: 'ASY_D01', sourceId: source.rows[0].id, recordsLoaded: 0, metadata: {} };
+});
+
+test('a check whose SQL fails inside the load transaction leaves the later checks working', async () => {
+  const broken: QualityAssertion = {
+    name: 'broken',
+    severity: 'warning',
+    async check() {
+      await query('SELECT no_such_column FROM asylum_claims');
+      return { passed: true, message: 'unreachable' };
+    },
+  };
+
+  const { summary, checks } = await withTransaction(() =>
+    runQualityAssertions([broken, noNegativeCounts('asylum_claims', ['claims_total'])], ctx)
+  );
+
+  assert.deepEqual(summary.warnings, ['broken']);
+  assert.match(checks[0].outcome.message, /could not be checked: .*no_such_column/);
+  assert.deepEqual(summary.critical_failures, []);
+  assert.equal(checks[1].outcome.passed, true);
+});